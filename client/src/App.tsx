@@ -10,6 +10,8 @@ import MoviesPage from "@/pages/movies-page";
 import SeriesPage from "@/pages/series-page";
 import AuthPage from "@/pages/auth-page";
 import PremiumPage from "@/pages/premium-page";
+import RecordingsPage from "@/pages/recordings-page";
+import ProfilePage from "@/pages/profile-page";
 
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminChannels from "@/pages/admin/channels";
@@ -42,6 +44,8 @@ function Router() {
           <Route path="/series" component={SeriesPage} />
           <Route path="/auth" component={AuthPage} />
           <Route path="/premium" component={PremiumPage} />
+          <ProtectedRoute path="/recordings" component={RecordingsPage} />
+          <ProtectedRoute path="/profile" component={ProfilePage} />
 
           <ProtectedRoute path="/admin" component={AdminDashboard} adminOnly />
           <ProtectedRoute path="/admin/channels" component={AdminChannels} adminOnly />
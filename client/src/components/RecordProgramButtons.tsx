@@ -0,0 +1,119 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Disc, ListVideo } from "lucide-react";
+import { Program, Recording } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+interface RecordProgramButtonsProps {
+  channelId: number;
+  program: Program;
+}
+
+export type RecordingsResponse = {
+  recordings: Recording[];
+  quota: number; // seconds
+  used: number; // seconds
+};
+
+// Errors come back as "<status>: {"error": "..."}"
+const getErrorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).error || error.message;
+  } catch {
+    return error.message;
+  }
+};
+
+/**
+ * Buttons to record an EPG program, or every program of the channel with
+ * its title (and season). Shows when the program is already scheduled.
+ * Only shown to logged-in users.
+ */
+export function RecordProgramButtons({ channelId, program }: RecordProgramButtonsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data } = useQuery<RecordingsResponse>({
+    queryKey: ["/api/recordings"],
+    enabled: !!user,
+  });
+
+  const onSuccess = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/recordings/schedules"] });
+    toast({ title, description });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Could not schedule the recording",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/recordings", { channelId, programId: program.id });
+    },
+    onSuccess: () => onSuccess("Recording scheduled", `"${program.title}" will be recorded`),
+    onError,
+  });
+
+  const recordSeriesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/recordings/schedules", {
+        channelId,
+        title: program.title,
+        season: program.season ?? null,
+      });
+      return response.json() as Promise<{ scheduled: number }>;
+    },
+    onSuccess: ({ scheduled }) =>
+      onSuccess(
+        "Series recording scheduled",
+        `Upcoming episodes of "${program.title}" will be recorded (${scheduled} scheduled now)`
+      ),
+    onError,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const isScheduled = data?.recordings.some(
+    (recording) =>
+      recording.channelId === channelId &&
+      new Date(recording.startTime).getTime() === new Date(program.startTime).getTime()
+  );
+
+  if (isScheduled) {
+    return (
+      <Link href="/recordings">
+        <Badge variant="secondary" className="cursor-pointer">
+          <Disc className="mr-1 h-3 w-3 text-red-500" />
+          Recording scheduled
+        </Badge>
+      </Link>
+    );
+  }
+
+  const isBusy = recordMutation.isPending || recordSeriesMutation.isPending;
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" disabled={isBusy} onClick={() => recordMutation.mutate()}>
+        <Disc className="mr-1 h-4 w-4 text-red-500" />
+        Record
+      </Button>
+      <Button variant="outline" size="sm" disabled={isBusy} onClick={() => recordSeriesMutation.mutate()}>
+        <ListVideo className="mr-1 h-4 w-4" />
+        Record Series
+      </Button>
+    </div>
+  );
+}
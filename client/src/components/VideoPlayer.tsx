@@ -1,36 +1,54 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Hls from "hls.js";
+import { MediaPlayer, MediaPlayerClass, supportsMediaSource } from "dashjs";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogClose } from "@/components/ui/dialog";
 import { Play, X, Volume2, VolumeX, Maximize, ChevronRight, ChevronLeft, Pause, Wifi, WifiOff, Settings, Download } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { StreamSource } from "@shared/schema";
-import { testStreamSource, getOptimalVideoQuality, BandwidthTestResult } from "@/lib/video-utils";
+import { testStreamSource, getOptimalVideoQuality, getSourceFormat, BandwidthTestResult } from "@/lib/video-utils";
 import { 
   configureAdaptiveStreaming, 
+  configureDashStreaming, 
+  getQualityLevels, 
+  setCurrentLevel, 
   getStreamQualityInfo, 
   setQualityLevel, 
   selectOptimalSource,
   recordStreamQualityMetrics,
   QualityLevel,
-  StreamQualityInfo
+  StreamQualityInfo,
+  StreamingEngine
 } from "@/lib/adaptive-streaming";
+import { useStreamSession, StreamContent } from "@/hooks/use-stream-session";
 
 interface VideoPlayerProps {
   title: string;
   description?: string;
   poster?: string;
   streamSources: StreamSource[];
+  // When set, the stream is played through a stream session and the secure proxy
+  content?: StreamContent;
   isLive?: boolean;
+  // Play the channel's recorded timeshift window (when the proxy has one), so viewers can pause and rewind
+  timeshift?: boolean;
+  // Play a past program of the channel from its catch-up archive (ID of the EPG program)
+  catchup?: number;
   onError?: (error: Error) => void;
 }
 
+// Playback this close to the end of the seekable range counts as live (hls.js stays a few segments behind)
+const LIVE_EDGE_TOLERANCE = 30;
+
 export function VideoPlayer({
   title,
   description,
   poster,
   streamSources,
+  content,
   isLive = false,
+  timeshift = false,
+  catchup,
   onError,
 }: VideoPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
@@ -48,15 +66,101 @@ export function VideoPlayer({
   const [bandwidthInfo, setBandwidthInfo] = useState<BandwidthTestResult | null>(null);
   const [autoQuality, setAutoQuality] = useState(true);
   const [showBandwidthInfo, setShowBandwidthInfo] = useState(false);
+  const [playbackRequested, setPlaybackRequested] = useState(false);
+  const [timeshiftUnavailable, setTimeshiftUnavailable] = useState(false);
+  const [seekableRange, setSeekableRange] = useState<{ start: number; end: number } | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<number | null>(null);
   const hlsRef = useRef<Hls | null>(null);
+  const dashRef = useRef<MediaPlayerClass | null>(null);
   const bandwidthCheckIntervalRef = useRef<number | null>(null);
 
-  // Sort stream sources by priority
-  const sortedSources = [...streamSources].sort((a, b) => a.priority - b.priority);
+  // Playback position for the watch history (live streams have no duration)
+  const getWatchProgress = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return null;
+    return {
+      position: video.currentTime,
+      duration: Number.isFinite(video.duration) && video.duration > 0 ? video.duration : null,
+      playing: !video.paused && !video.ended,
+    };
+  }, []);
+
+  // Stream session (only opened once the user starts playback)
+  const { state: sessionState, withCurrentToken, takeOver, rotatedToken, quotaWarning } =
+    useStreamSession(content, playbackRequested, getWatchProgress);
+
+  // Sort stream sources by priority. With an active stream session the proxy
+  // serves the stream and handles failover between sources itself; without
+  // one (no content given, or not logged in) the sources are played directly.
+  const sortedSources = useMemo(() => {
+    const sources = [...streamSources].sort((a, b) => a.priority - b.priority);
+    
+    if (!content || sessionState.status === 'unavailable') {
+      return sources;
+    }
+    
+    if (sessionState.status === 'active') {
+      // Timeshift windows and catch-up programs are always served as HLS
+      const capturedPlaylist = catchup
+        ? `catchup/${catchup}.m3u8`
+        : timeshift && !timeshiftUnavailable ? 'timeshift.m3u8' : null;
+
+      return [{
+        url: `${sessionState.streamUrl}${capturedPlaylist || ''}`,
+        priority: 0,
+        format: capturedPlaylist || !sources[0] ? 'hls' : getSourceFormat(sources[0]),
+        label: sources[0]?.label
+      }];
+    }
+    
+    // Waiting for the session, or it was refused/ended
+    return [];
+  }, [streamSources, content, sessionState, timeshift, timeshiftUnavailable, catchup]);
+
+  // Whether the timeshift window is being played (seekable live stream)
+  const isTimeshifted = isLive && sortedSources.length === 1 && sortedSources[0].url.endsWith('/timeshift.m3u8');
+
+  // The HLS or DASH engine playing the current source, if any
+  const getStreamingEngine = (): StreamingEngine | null => hlsRef.current || dashRef.current;
+
+  // Select a level of the adaptive stream for a measured connection quality
+  const applyConnectionQuality = (engine: StreamingEngine, quality: 'auto' | 'high' | 'medium' | 'low') => {
+    const levelCount = getQualityLevels(engine).length;
+    if (levelCount <= 1) return;
+    
+    // Map our quality to the stream levels (usually sorted by bandwidth)
+    switch (quality) {
+      case 'high':
+        setCurrentLevel(engine, 0); // Highest quality (usually first in the array)
+        break;
+      case 'medium':
+        setCurrentLevel(engine, Math.floor(levelCount / 2)); // Middle quality
+        break;
+      case 'low':
+        setCurrentLevel(engine, levelCount - 1); // Lowest quality
+        break;
+      case 'auto':
+      default:
+        setCurrentLevel(engine, -1); // Let the engine decide (auto)
+        break;
+    }
+  };
+
+  // Tear down the HLS or DASH engine of the previous source
+  const destroyStreamingEngine = () => {
+    if (hlsRef.current) {
+      hlsRef.current.destroy();
+      hlsRef.current = null;
+    }
+    
+    if (dashRef.current) {
+      dashRef.current.destroy();
+      dashRef.current = null;
+    }
+  };
 
   // Set up HLS player or fallback to native video
   // Check bandwidth periodically when video is playing
@@ -71,26 +175,10 @@ export function VideoPlayer({
         if (autoQuality) {
           setConnectionQuality(result.quality);
           
-          // Apply quality change if using HLS with multiple qualities
-          if (hlsRef.current && hlsRef.current.levels && hlsRef.current.levels.length > 1) {
-            const hls = hlsRef.current;
-            
-            // Map our quality to HLS levels (usually sorted by bandwidth)
-            switch (result.quality) {
-              case 'high':
-                hls.currentLevel = 0; // Highest quality (usually first in the array)
-                break;
-              case 'medium':
-                hls.currentLevel = Math.floor(hls.levels.length / 2); // Middle quality
-                break;
-              case 'low':
-                hls.currentLevel = hls.levels.length - 1; // Lowest quality
-                break;
-              case 'auto':
-              default:
-                hls.currentLevel = -1; // Let HLS decide (auto)
-                break;
-            }
+          // Apply quality change if using HLS or DASH with multiple qualities
+          const engine = getStreamingEngine();
+          if (engine) {
+            applyConnectionQuality(engine, result.quality);
           }
         }
       } catch (error) {
@@ -117,6 +205,12 @@ export function VideoPlayer({
 
     const setupSource = async (sourceIndex: number) => {
       if (sourceIndex >= sortedSources.length) {
+        // The channel has no timeshift window (yet); play the live stream instead
+        if (isTimeshifted) {
+          setTimeshiftUnavailable(true);
+          return;
+        }
+        
         setSourceError(true);
         if (onError) onError(new Error("All stream sources failed to load"));
         return;
@@ -158,14 +252,13 @@ export function VideoPlayer({
         const video = videoRef.current;
         if (!video) return;
 
-        // Clean up any existing HLS instance
-        if (hlsRef.current) {
-          hlsRef.current.destroy();
-          hlsRef.current = null;
-        }
+        // Clean up any existing HLS or DASH instance
+        destroyStreamingEngine();
+        
+        const format = getSourceFormat(source);
         
         // Handle HLS format
-        if (source.format === 'hls' && Hls.isSupported()) {
+        if (format === 'hls' && Hls.isSupported()) {
           const hls = new Hls({
             enableWorker: true,
             lowLatencyMode: isLive,
@@ -175,6 +268,10 @@ export function VideoPlayer({
             abrEwmaFastLive: 3.0,
             abrEwmaSlowLive: 9.0,
             startLevel: -1, // Auto quality by default
+            // Proxied requests always use the current stream token, which rotates during playback
+            xhrSetup: (xhr, url) => {
+              xhr.open('GET', withCurrentToken(url), true);
+            },
           });
           
           // Configure adaptive streaming
@@ -211,8 +308,48 @@ export function VideoPlayer({
           // Save the HLS instance
           hlsRef.current = hls;
         } 
+        // Handle DASH format
+        else if (format === 'dash' && supportsMediaSource()) {
+          const player = MediaPlayer().create();
+          
+          // Proxied requests always use the current stream token, which rotates during playback
+          player.addRequestInterceptor((request) => {
+            if (request.url) request.url = withCurrentToken(request.url);
+            return Promise.resolve(request);
+          });
+          
+          player.initialize(video, source.url, isPlaying);
+          
+          // Configure adaptive streaming
+          configureDashStreaming(player, {
+            initialQuality: recommendedQuality,
+            enableAdaptiveQuality: autoQuality,
+          });
+          
+          // Set up quality metrics recording
+          recordStreamQualityMetrics(player, content?.type || 'unknown', content?.id || 0);
+          
+          player.on(MediaPlayer.events.STREAM_INITIALIZED, () => {
+            // If we have a preferred quality, apply it
+            if (!autoQuality && recommendedQuality !== 'auto') {
+              setQualityLevel(player, recommendedQuality);
+            }
+          });
+          
+          player.on(MediaPlayer.events.ERROR, (e) => {
+            console.error('DASH error:', e.error);
+            
+            // dash.js only reports errors it cannot recover from; try the next source
+            if (dashRef.current === player) {
+              setupSource(sourceIndex + 1);
+            }
+          });
+          
+          // Save the DASH instance
+          dashRef.current = player;
+        }
         // For MP4 and other supported formats, use native video
-        else if (video.canPlayType('application/vnd.apple.mpegurl') || source.format === 'mp4') {
+        else if ((format === 'hls' && video.canPlayType('application/vnd.apple.mpegurl')) || format === 'mp4') {
           video.src = source.url;
           
           video.onerror = () => {
@@ -234,15 +371,29 @@ export function VideoPlayer({
     setupSource(0);
 
     return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
+      destroyStreamingEngine();
     };
   }, [sortedSources, isPlaying, onError, isLive]);
 
+  // Native playback cannot rewrite request URLs, so switch it to the rotated token
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!rotatedToken || !video || getStreamingEngine() || !video.src.includes('/api/stream/')) return;
+    
+    const position = video.currentTime;
+    const wasPlaying = !video.paused;
+    
+    video.src = withCurrentToken(video.src);
+    video.addEventListener('loadedmetadata', () => {
+      video.currentTime = position;
+      if (wasPlaying) video.play().catch(console.error);
+    }, { once: true });
+  }, [rotatedToken, withCurrentToken]);
+
   // Handle play/pause
   const togglePlay = () => {
+    if (!isPlaying) setPlaybackRequested(true);
+    
     const video = videoRef.current;
     if (!video) return;
 
@@ -308,6 +459,11 @@ export function VideoPlayer({
     if (!duration && video.duration) {
       setDuration(video.duration);
     }
+    
+    // The seekable range of a timeshifted stream moves with the live edge
+    if (isTimeshifted && video.seekable.length > 0) {
+      setSeekableRange({ start: video.seekable.start(0), end: video.seekable.end(video.seekable.length - 1) });
+    }
   };
 
   // Handle seeking
@@ -320,6 +476,21 @@ export function VideoPlayer({
     setCurrentTime(seekTime);
   };
 
+  // Jump back to the live edge of a timeshifted stream
+  const goLive = () => {
+    const video = videoRef.current;
+    if (!video || !seekableRange) return;
+    
+    video.currentTime = hlsRef.current?.liveSyncPosition ?? seekableRange.end;
+    if (video.paused) {
+      video.play().catch(console.error);
+    }
+  };
+  
+  // How far playback is behind the live edge, in seconds
+  const behindLive = seekableRange ? Math.max(0, seekableRange.end - currentTime) : 0;
+  const isAtLiveEdge = behindLive < LIVE_EDGE_TOLERANCE;
+
   // Show/hide controls on mouse move
   const handleMouseMove = () => {
     setShowControls(true);
@@ -356,10 +527,7 @@ export function VideoPlayer({
       const currentTime = video.currentTime;
       
       // Setup the new source
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
-      }
+      destroyStreamingEngine();
       
       setActiveSource(sortedSources[nextIndex]);
       setCurrentSourceIndex(nextIndex);
@@ -374,28 +542,16 @@ export function VideoPlayer({
   const toggleAutoQuality = () => {
     setAutoQuality(!autoQuality);
     
+    const engine = getStreamingEngine();
+    if (!engine || getQualityLevels(engine).length <= 1) return;
+    
     // If turning off auto quality, reset to highest quality
-    if (autoQuality && hlsRef.current && hlsRef.current.levels && hlsRef.current.levels.length > 1) {
-      hlsRef.current.currentLevel = 0; // Highest quality
+    if (autoQuality) {
+      setCurrentLevel(engine, 0); // Highest quality
     }
     // If turning on auto quality, apply current bandwidth measurement
-    else if (!autoQuality && bandwidthInfo && hlsRef.current && hlsRef.current.levels && hlsRef.current.levels.length > 1) {
-      // Apply current bandwidth measurement
-      switch (bandwidthInfo.quality) {
-        case 'high':
-          hlsRef.current.currentLevel = 0;
-          break;
-        case 'medium':
-          hlsRef.current.currentLevel = Math.floor(hlsRef.current.levels.length / 2);
-          break;
-        case 'low':
-          hlsRef.current.currentLevel = hlsRef.current.levels.length - 1;
-          break;
-        case 'auto':
-        default:
-          hlsRef.current.currentLevel = -1;
-          break;
-      }
+    else if (bandwidthInfo) {
+      applyConnectionQuality(engine, bandwidthInfo.quality);
     }
   };
   
@@ -404,6 +560,42 @@ export function VideoPlayer({
     setShowBandwidthInfo(!showBandwidthInfo);
   };
 
+  // Shown instead of the stream when the stream session was refused or ended
+  const sessionMessage = (sessionState.status === 'limit' || sessionState.status === 'ended' || sessionState.status === 'blocked' || sessionState.status === 'quota') && (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-70 text-white">
+      <div className="text-center p-8">
+        <h3 className="text-xl font-bold mb-4">
+          {sessionState.status === 'limit'
+            ? 'Too Many Streams'
+            : sessionState.status === 'blocked' ? 'Not Available'
+            : sessionState.status === 'quota' ? 'Data Quota Used Up' : 'Playback Stopped'}
+        </h3>
+        <p className="mb-6">
+          {'message' in sessionState
+            ? sessionState.message
+            : 'This stream was ended, possibly because playback started on another device.'}
+        </p>
+        {(sessionState.status === 'limit' || sessionState.status === 'ended') && (
+          <Button
+            onClick={(e) => {
+              e.stopPropagation();
+              takeOver();
+            }}
+          >
+            Watch Here
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  // Shown over the stream while the viewer is close to their monthly data quota
+  const quotaNotice = quotaWarning && sessionState.status === 'active' && (
+    <div className="absolute top-2 left-2 right-2 rounded bg-yellow-500 bg-opacity-90 px-3 py-1 text-sm text-black">
+      {quotaWarning}
+    </div>
+  );
+
   return (
     <>
       <div 
@@ -479,6 +671,8 @@ export function VideoPlayer({
                 playsInline
                 autoPlay
               />
+              {sessionMessage}
+              {quotaNotice}
             </div>
           </div>
         )}
@@ -502,6 +696,9 @@ export function VideoPlayer({
               playsInline
             />
             
+            {sessionMessage}
+            {quotaNotice}
+            
             {sourceError && (
               <div className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-70 text-white">
                 <div className="text-center p-8">
@@ -582,6 +779,27 @@ export function VideoPlayer({
               
               {/* Bottom Controls */}
               <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black to-transparent p-4">
+                {/* Live seek bar over the timeshift window */}
+                {isTimeshifted && seekableRange && (
+                  <div className="w-full h-1 bg-gray-600 rounded-full mb-3">
+                    <input
+                      type="range"
+                      min={seekableRange.start}
+                      max={seekableRange.end}
+                      step="any"
+                      value={Math.min(Math.max(currentTime, seekableRange.start), seekableRange.end)}
+                      onChange={handleSeek}
+                      className="absolute w-full h-1 opacity-0 cursor-pointer"
+                    />
+                    <div 
+                      className="h-full bg-red-600 rounded-full relative"
+                      style={{ width: `${((currentTime - seekableRange.start) / ((seekableRange.end - seekableRange.start) || 1)) * 100}%` }}
+                    >
+                      <div className="absolute -right-2 -top-1.5 w-4 h-4 bg-white rounded-full"></div>
+                    </div>
+                  </div>
+                )}
+                
                 {/* Progress Bar (hidden for live content) */}
                 {!isLive && (
                   <div className="w-full h-1 bg-gray-600 rounded-full mb-3">
@@ -652,6 +870,23 @@ export function VideoPlayer({
                       </div>
                     )}
                     
+                    {/* Position in the timeshift window, and the way back to live */}
+                    {isTimeshifted && seekableRange && (
+                      <div className="flex items-center space-x-2 text-white text-sm">
+                        {!isAtLiveEdge && <span className="hidden sm:inline">-{formatTime(behindLive)}</span>}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className={cn("text-white px-2", isAtLiveEdge && "pointer-events-none")}
+                          onClick={goLive}
+                          title={isAtLiveEdge ? "Watching live" : "Go live"}
+                        >
+                          <span className={cn("w-2 h-2 rounded-full mr-2", isAtLiveEdge ? "bg-red-600" : "bg-gray-400")}></span>
+                          {isAtLiveEdge ? "LIVE" : "Go Live"}
+                        </Button>
+                      </div>
+                    )}
+                    
                     {/* Source Label */}
                     {activeSource?.label && (
                       <div className="text-white text-sm hidden sm:block">
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RefreshCw, Trash2, Wrench } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+interface BrokenLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: "movie" | "episode";
+}
+
+type BrokenLink = {
+  id: number;
+  contentType: "movie" | "episode";
+  contentId: number;
+  title: string;
+  sourceUrl: string;
+  sourceLabel?: string;
+  failureReason: string | null;
+  lastChecked: string;
+};
+
+/**
+ * Report of the movie or episode stream sources the VOD link auditor found
+ * broken, with bulk URL replacement, removal and rechecking
+ */
+export default function BrokenLinksDialog({
+  open,
+  onOpenChange,
+  contentType,
+}: BrokenLinksDialogProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [findText, setFindText] = useState("");
+  const [replaceText, setReplaceText] = useState("");
+
+  const reportUrl = `/api/admin/vod-links/broken?contentType=${contentType}`;
+
+  const { data: links, isLoading } = useQuery<BrokenLink[]>({
+    queryKey: [reportUrl],
+    enabled: open,
+  });
+
+  // Start with an empty selection whenever the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+    }
+  }, [open]);
+
+  const refresh = () => {
+    setSelectedIds([]);
+    queryClient.invalidateQueries({ queryKey: [reportUrl] });
+    queryClient.invalidateQueries({ queryKey: [contentType === "movie" ? "/api/movies" : "/api/episodes"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update broken links",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fixMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/vod-links/fix", {
+        ids: selectedIds,
+        find: findText,
+        replace: replaceText,
+      });
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: ({ updated }) => {
+      refresh();
+      toast({
+        title: "Links updated",
+        description: `${updated} source URLs were changed and will be checked again shortly`,
+      });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/vod-links/remove", { ids: selectedIds });
+      return response.json() as Promise<{ removed: number }>;
+    },
+    onSuccess: ({ removed }) => {
+      refresh();
+      toast({
+        title: "Links removed",
+        description: `${removed} sources were removed`,
+      });
+    },
+    onError,
+  });
+
+  const recheckMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/vod-links/recheck", { ids: selectedIds });
+    },
+    onSuccess: () => {
+      setSelectedIds([]);
+      toast({
+        title: "Recheck queued",
+        description: "The selected links will be checked again shortly",
+      });
+    },
+    onError,
+  });
+
+  const isBusy = fixMutation.isPending || removeMutation.isPending || recheckMutation.isPending;
+  const allSelected = !!links && links.length > 0 && selectedIds.length === links.length;
+
+  const toggleLink = (id: number, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((selected) => selected !== id)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Broken Links</DialogTitle>
+          <DialogDescription>
+            {contentType === "movie" ? "Movie" : "Episode"} stream sources that failed their last check
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="broken-links-find">Find in URL</Label>
+            <Input
+              id="broken-links-find"
+              placeholder="http://old-cdn.example.com/"
+              value={findText}
+              onChange={(e) => setFindText(e.target.value)}
+            />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="broken-links-replace">Replace with</Label>
+            <Input
+              id="broken-links-replace"
+              placeholder="https://cdn.example.com/"
+              value={replaceText}
+              onChange={(e) => setReplaceText(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            disabled={selectedIds.length === 0 || !findText || isBusy}
+            onClick={() => fixMutation.mutate()}
+          >
+            <Wrench className="mr-2 h-4 w-4" />
+            Fix Selected
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={selectedIds.length === 0 || isBusy}
+            onClick={() => recheckMutation.mutate()}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Recheck Selected
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={selectedIds.length === 0 || isBusy}
+            onClick={() => removeMutation.mutate()}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Remove Selected
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading broken links...</div>
+        ) : !links || links.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">No broken links found</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelectedIds(checked ? links.map((link) => link.id) : [])}
+                  />
+                </TableHead>
+                <TableHead>{contentType === "movie" ? "Movie" : "Episode"}</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Failure</TableHead>
+                <TableHead>Last Checked</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {links.map((link) => (
+                <TableRow key={link.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(link.id)}
+                      onCheckedChange={(checked) => toggleLink(link.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{link.title}</TableCell>
+                  <TableCell className="max-w-[18rem]">
+                    {link.sourceLabel && <div>{link.sourceLabel}</div>}
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={link.sourceUrl}>
+                      {link.sourceUrl}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-[14rem] text-sm break-words">{link.failureReason}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(link.lastChecked), "MMM d, yyyy h:mm a")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Gauge } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatDataSize } from "@/lib/utils";
+
+type DataConsumer = {
+  userId: number;
+  username: string;
+  bytes: number;
+  quota: {
+    plan: string;
+    used: number;
+    limit: number | null;
+    status: "ok" | "warning" | "exceeded";
+  };
+};
+
+type DataQuota = {
+  plan: string;
+  monthlyLimit: number | null; // GB, null when unlimited
+  warningPercent: number;
+};
+
+const statusClassNames: Record<string, string> = {
+  ok: "text-gray-500 dark:text-gray-400",
+  warning: "text-yellow-600 dark:text-yellow-400",
+  exceeded: "text-red-600 dark:text-red-400",
+};
+
+/**
+ * One plan's data quota; an empty limit means unlimited
+ */
+function DataQuotaRow({ quota }: { quota: DataQuota }) {
+  const { toast } = useToast();
+  const [monthlyLimit, setMonthlyLimit] = useState("");
+  const [warningPercent, setWarningPercent] = useState("");
+
+  useEffect(() => {
+    setMonthlyLimit(quota.monthlyLimit !== null ? String(quota.monthlyLimit) : "");
+    setWarningPercent(String(quota.warningPercent));
+  }, [quota]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/admin/data-quotas/${quota.plan}`, {
+        monthlyLimit: monthlyLimit.trim() ? parseInt(monthlyLimit) : null,
+        warningPercent: parseInt(warningPercent),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/data-quotas"] });
+      toast({
+        title: "Data quota saved",
+        description: `The ${quota.plan} plan's quota applies within a minute`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save data quota",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell className="capitalize">{quota.plan}</TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          placeholder="Unlimited"
+          value={monthlyLimit}
+          onChange={(e) => setMonthlyLimit(e.target.value)}
+          className="w-28"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          max={100}
+          value={warningPercent}
+          onChange={(e) => setWarningPercent(e.target.value)}
+          className="w-20"
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" variant="outline" disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Users who streamed the most data today or this month, and the monthly
+ * data quota of each plan
+ */
+export default function DataUsagePanel() {
+  const [period, setPeriod] = useState<"day" | "month">("month");
+
+  const { data: consumers } = useQuery<DataConsumer[]>({
+    queryKey: [`/api/admin/data-usage/top?period=${period}`],
+    refetchInterval: 60000,
+  });
+
+  const { data: quotas } = useQuery<DataQuota[]>({
+    queryKey: ["/api/admin/data-quotas"],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Gauge className="mr-2 h-5 w-5" />
+            Data Usage
+          </CardTitle>
+          <CardDescription>Data served by the stream proxy</CardDescription>
+        </div>
+        <Tabs value={period} onValueChange={(value) => setPeriod(value as "day" | "month")}>
+          <TabsList>
+            <TabsTrigger value="day">Today</TabsTrigger>
+            <TabsTrigger value="month">This Month</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {consumers && consumers.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Plan</TableHead>
+                <TableHead>{period === "day" ? "Today" : "This Month"}</TableHead>
+                <TableHead>Monthly Quota</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {consumers.map((consumer) => (
+                <TableRow key={consumer.userId}>
+                  <TableCell>{consumer.username}</TableCell>
+                  <TableCell className="capitalize">{consumer.quota.plan}</TableCell>
+                  <TableCell>{formatDataSize(consumer.bytes)}</TableCell>
+                  <TableCell className={statusClassNames[consumer.quota.status]}>
+                    {consumer.quota.limit !== null
+                      ? `${formatDataSize(consumer.quota.used)} of ${formatDataSize(consumer.quota.limit)}`
+                      : "Unlimited"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No data has been streamed in this period</p>
+        )}
+
+        <div>
+          <h4 className="font-medium mb-1">Monthly Quotas per Plan</h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            Viewers are warned at the warning percentage and cut off once the quota is used up, until the next month
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plan</TableHead>
+                <TableHead>Limit (GB)</TableHead>
+                <TableHead>Warning (%)</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotas?.map((quota) => <DataQuotaRow key={quota.plan} quota={quota} />)}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
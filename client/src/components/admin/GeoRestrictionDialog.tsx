@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Country, GeoRestriction } from "@shared/schema";
+
+type GeoRestrictionContentType = "movie" | "series" | "episode" | "channel";
+
+interface GeoRestrictionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: GeoRestrictionContentType;
+  contentId: number | null;
+  contentName?: string;
+}
+
+type GeoIPStatus = {
+  available: boolean;
+};
+
+/**
+ * Edits the country whitelist or blacklist of a movie, series, episode or channel
+ */
+export default function GeoRestrictionDialog({
+  open,
+  onOpenChange,
+  contentType,
+  contentId,
+  contentName,
+}: GeoRestrictionDialogProps) {
+  const { toast } = useToast();
+  const [restrictionType, setRestrictionType] = useState<"whitelist" | "blacklist">("blacklist");
+  const [countryCodes, setCountryCodes] = useState<string[]>([]);
+  const [codeInput, setCodeInput] = useState("");
+
+  const restrictionUrl = `/api/admin/geo-restrictions/${contentType}/${contentId}`;
+
+  const { data: restriction, isLoading } = useQuery<GeoRestriction | null>({
+    queryKey: [restrictionUrl],
+    enabled: open && contentId !== null,
+  });
+
+  const { data: countries } = useQuery<Country[]>({
+    queryKey: ["/api/countries"],
+    enabled: open,
+  });
+
+  const { data: geoipStatus } = useQuery<GeoIPStatus>({
+    queryKey: ["/api/admin/geoip/status"],
+    enabled: open,
+  });
+
+  // Load the saved rule whenever the dialog is opened for a piece of content
+  useEffect(() => {
+    if (!open) return;
+
+    setRestrictionType((restriction?.restrictionType as "whitelist" | "blacklist") || "blacklist");
+    setCountryCodes((restriction?.countryCodes as string[]) || []);
+    setCodeInput("");
+  }, [open, restriction]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", restrictionUrl, { restrictionType, countryCodes });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [restrictionUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/geo-restrictions"] });
+      toast({
+        title: "Geo restriction saved",
+        description: `${contentName || "The content"} is now ${restrictionType === "whitelist" ? "only available in" : "blocked in"} ${countryCodes.length} countries`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save geo restriction",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", restrictionUrl);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [restrictionUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/geo-restrictions"] });
+      toast({
+        title: "Geo restriction removed",
+        description: `${contentName || "The content"} is available in all countries`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove geo restriction",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleCountry = (code: string) => {
+    setCountryCodes((codes) =>
+      codes.includes(code) ? codes.filter((c) => c !== code) : [...codes, code]
+    );
+  };
+
+  // Adds codes typed by hand, e.g. for countries missing from the countries list
+  const addTypedCodes = () => {
+    const codes = codeInput
+      .split(/[\s,]+/)
+      .map((code) => code.trim().toUpperCase())
+      .filter((code) => /^[A-Z]{2}$/.test(code));
+
+    setCountryCodes((existing) => Array.from(new Set([...existing, ...codes])));
+    setCodeInput("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Geo Restrictions</DialogTitle>
+          <DialogDescription>
+            Control in which countries {contentName ? `"${contentName}"` : "this content"} can be streamed
+          </DialogDescription>
+        </DialogHeader>
+
+        {geoipStatus && !geoipStatus.available && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>GeoIP database not loaded</AlertTitle>
+            <AlertDescription>
+              Set GEOIP_DATABASE_PATH to an mmdb or CSV file. Until then restrictions are saved but not enforced.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading restriction...</div>
+        ) : (
+          <div className="space-y-6">
+            <RadioGroup
+              value={restrictionType}
+              onValueChange={(value) => setRestrictionType(value as "whitelist" | "blacklist")}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="blacklist" id="geo-blacklist" />
+                <Label htmlFor="geo-blacklist">Block the selected countries (blacklist)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="whitelist" id="geo-whitelist" />
+                <Label htmlFor="geo-whitelist">Only allow the selected countries (whitelist)</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="space-y-2">
+              <Label>Selected countries</Label>
+              <div className="flex flex-wrap gap-2 min-h-[2rem]">
+                {countryCodes.length === 0 ? (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">No countries selected</span>
+                ) : (
+                  countryCodes.map((code) => (
+                    <Badge key={code} variant="secondary" className="flex items-center gap-1">
+                      {code}
+                      <button type="button" onClick={() => toggleCountry(code)}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="geo-codes">Add country codes</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="geo-codes"
+                  placeholder="e.g. US, GB, DE"
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addTypedCodes();
+                    }
+                  }}
+                />
+                <Button type="button" variant="outline" onClick={addTypedCodes}>
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {countries && countries.length > 0 && (
+              <div className="space-y-2">
+                <Label>Countries</Label>
+                <div className="flex flex-wrap gap-2">
+                  {countries.map((country) => {
+                    const code = country.code.toUpperCase();
+                    return (
+                      <Badge
+                        key={country.id}
+                        variant={countryCodes.includes(code) ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => toggleCountry(code)}
+                      >
+                        {country.flag} {country.name}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {restriction && (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+            >
+              Remove Restriction
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || countryCodes.length === 0}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Eye, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface M3UImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type M3UImportChange = {
+  action: "new" | "updated" | "unchanged";
+  channelId: number | null;
+  name: string;
+  epgId: string | null;
+  category: string | null;
+  country: string | null;
+  newSources: string[];
+  changes: string[];
+};
+
+type M3UImportPlan = {
+  entries: number;
+  summary: { new: number; updated: number; unchanged: number };
+  newCategories: string[];
+  unknownCountries: string[];
+  changes: M3UImportChange[];
+};
+
+const actionVariants: Record<M3UImportChange["action"], "default" | "secondary" | "outline"> = {
+  new: "default",
+  updated: "secondary",
+  unchanged: "outline",
+};
+
+/**
+ * Imports channels from an M3U playlist, uploaded or read from the server's
+ * disk, after previewing which channels it adds or updates
+ */
+export default function M3UImportDialog({ open, onOpenChange }: M3UImportDialogProps) {
+  const { toast } = useToast();
+  const [source, setSource] = useState<"upload" | "path">("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [filePath, setFilePath] = useState("");
+  const [plan, setPlan] = useState<M3UImportPlan | null>(null);
+
+  // Start over whenever the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setFilePath("");
+      setPlan(null);
+    }
+  }, [open]);
+
+  // The preview is only valid for the playlist it was made for
+  useEffect(() => {
+    setPlan(null);
+  }, [source, file, filePath]);
+
+  // Uploads are sent as the raw request body, as playlists are often larger
+  // than the JSON body limit
+  const sendPlaylist = async (dryRun: boolean): Promise<M3UImportPlan> => {
+    const url = `/api/admin/channels/import/m3u${dryRun ? "?dryRun=true" : ""}`;
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": source === "upload" ? "text/plain" : "application/json" },
+      body: source === "upload" ? await file!.text() : JSON.stringify({ path: filePath.trim() }),
+      credentials: "include",
+    });
+
+    if (!res.ok) {
+      const text = (await res.text()) || res.statusText;
+      throw new Error(`${res.status}: ${text}`);
+    }
+    return res.json();
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to import playlist",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => sendPlaylist(true),
+    onSuccess: setPlan,
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => sendPlaylist(false),
+    onSuccess: ({ summary }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "Playlist imported",
+        description: `${summary.new} channels added, ${summary.updated} updated`,
+      });
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const hasPlaylist = source === "upload" ? !!file : !!filePath.trim();
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+  const changed = plan ? plan.changes.filter((change) => change.action !== "unchanged") : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import M3U Playlist</DialogTitle>
+          <DialogDescription>
+            Channels already in the system get the playlist's stream URLs as extra sources instead of being duplicated
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={(value) => setSource(value as "upload" | "path")}>
+          <TabsList>
+            <TabsTrigger value="upload">Upload File</TabsTrigger>
+            <TabsTrigger value="path">Server Path</TabsTrigger>
+          </TabsList>
+          <TabsContent value="upload" className="space-y-1">
+            <Label htmlFor="m3u-import-file">Playlist file</Label>
+            <Input
+              id="m3u-import-file"
+              type="file"
+              accept=".m3u,.m3u8,audio/x-mpegurl,application/vnd.apple.mpegurl"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </TabsContent>
+          <TabsContent value="path" className="space-y-1">
+            <Label htmlFor="m3u-import-path">Absolute path on the server</Label>
+            <Input
+              id="m3u-import-path"
+              placeholder="/srv/playlists/channels.m3u"
+              value={filePath}
+              onChange={(e) => setFilePath(e.target.value)}
+            />
+          </TabsContent>
+        </Tabs>
+
+        {plan && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge>{plan.summary.new} new</Badge>
+              <Badge variant="secondary">{plan.summary.updated} updated</Badge>
+              <Badge variant="outline">{plan.summary.unchanged} unchanged</Badge>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                from {plan.entries} playlist entries
+              </span>
+            </div>
+
+            {plan.newCategories.length > 0 && (
+              <p className="text-sm">
+                New categories: {plan.newCategories.join(", ")}
+              </p>
+            )}
+            {plan.unknownCountries.length > 0 && (
+              <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                Unknown countries, left unset: {plan.unknownCountries.join(", ")}
+              </p>
+            )}
+
+            {changed.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>EPG ID</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Country</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changed.map((change, index) => (
+                    <TableRow key={`${change.channelId ?? "new"}-${index}`}>
+                      <TableCell className="font-medium">{change.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={actionVariants[change.action]} className="capitalize">
+                          {change.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{change.epgId || "—"}</TableCell>
+                      <TableCell>{change.category || "—"}</TableCell>
+                      <TableCell>{change.country || "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        {change.changes.length > 0 && <div>{change.changes.join(", ")}</div>}
+                        {change.newSources.map((url) => (
+                          <div key={url} className="truncate max-w-xs text-gray-500 dark:text-gray-400">
+                            + {url}
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                All channels in the playlist are already up to date
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={!hasPlaylist || isBusy}
+            onClick={() => previewMutation.mutate()}
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            {previewMutation.isPending ? "Previewing..." : "Preview"}
+          </Button>
+          <Button
+            disabled={!plan || changed.length === 0 || isBusy}
+            onClick={() => importMutation.mutate()}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { SourceReorderChange } from "@shared/schema";
+
+interface StreamHealthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  channelId: number | null;
+  channelName?: string;
+}
+
+type SourceHealth = {
+  url: string;
+  label?: string;
+  priority: number;
+  pinned: boolean;
+  disabledUntil: string | null;
+  uptime24h: number | null;
+  uptime7d: number | null;
+  averageLatency: number | null;
+  lastCheckedAt: string | null;
+  isOnline: boolean | null;
+  lastFailureReason: string | null;
+  lastFailureAt: string | null;
+};
+
+type ReorderLogEntry = {
+  id: number;
+  channelId: number;
+  changes: SourceReorderChange[];
+  createdAt: string;
+};
+
+type ChannelHealth = {
+  status: string;
+  lastChecked: string | null;
+  sources: SourceHealth[];
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), "MMM d, yyyy h:mm a") : "Never");
+
+const formatUptime = (uptime: number | null) => (uptime === null ? "—" : `${uptime}%`);
+
+const describeChange = (change: SourceReorderChange) => {
+  const name = change.label || change.url;
+  const notes = [
+    change.previousPriority !== change.newPriority && `priority ${change.previousPriority} → ${change.newPriority}`,
+    change.disabledUntil && `disabled until ${formatDate(change.disabledUntil)}`,
+    change.reenabled && "enabled again",
+  ].filter(Boolean);
+
+  return notes.length > 0 ? `${name}: ${notes.join(", ")}` : null;
+};
+
+/**
+ * Shows the stream checker's health history of a channel: uptime, latency and
+ * the last failure of each stream source, and the automatic reorders of its sources
+ */
+export default function StreamHealthDialog({
+  open,
+  onOpenChange,
+  channelId,
+  channelName,
+}: StreamHealthDialogProps) {
+  const { data: health, isLoading } = useQuery<ChannelHealth>({
+    queryKey: [`/api/admin/channels/${channelId}/health`],
+    enabled: open && channelId !== null,
+  });
+
+  const { data: reorderLog } = useQuery<ReorderLogEntry[]>({
+    queryKey: [`/api/admin/source-reorder-log?channelId=${channelId}`],
+    enabled: open && channelId !== null,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stream Health</DialogTitle>
+          <DialogDescription>
+            Probe history of the stream sources of {channelName ? `"${channelName}"` : "this channel"}
+            {health && ` · last checked ${formatDate(health.lastChecked)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading health history...</div>
+        ) : !health || health.sources.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">This channel has no stream sources</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Uptime 24h</TableHead>
+                <TableHead>Uptime 7d</TableHead>
+                <TableHead>Latency</TableHead>
+                <TableHead>Last Failure</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {health.sources.map((source) => (
+                <TableRow key={source.url}>
+                  <TableCell className="max-w-[16rem]">
+                    <div className="font-medium flex items-center gap-2">
+                      {source.label || `Priority ${source.priority}`}
+                      {source.pinned && <Badge variant="outline">Pinned</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={source.url}>
+                      {source.url}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {source.disabledUntil ? (
+                      <Badge variant="secondary" title={`Until ${formatDate(source.disabledUntil)}`}>Disabled</Badge>
+                    ) : source.isOnline === null ? (
+                      <Badge variant="outline">Unchecked</Badge>
+                    ) : source.isOnline ? (
+                      <Badge className="bg-green-600 hover:bg-green-600">Online</Badge>
+                    ) : (
+                      <Badge variant="destructive">Offline</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatUptime(source.uptime24h)}</TableCell>
+                  <TableCell>{formatUptime(source.uptime7d)}</TableCell>
+                  <TableCell>{source.averageLatency === null ? "—" : `${source.averageLatency} ms`}</TableCell>
+                  <TableCell className="max-w-[16rem]">
+                    {source.lastFailureAt ? (
+                      <>
+                        <div className="text-sm break-words">{source.lastFailureReason}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{formatDate(source.lastFailureAt)}</div>
+                      </>
+                    ) : (
+                      <span className="text-gray-500 dark:text-gray-400">None in the last 7 days</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {reorderLog && reorderLog.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Automatic Reorders</h3>
+            <ul className="space-y-2 text-sm">
+              {reorderLog.map((entry) => (
+                <li key={entry.id} className="border rounded-md p-2">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{formatDate(entry.createdAt)}</div>
+                  {entry.changes.map(describeChange).filter(Boolean).map((line) => (
+                    <div key={line}>{line}</div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
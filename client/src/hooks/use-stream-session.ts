@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type StreamContentType = "movie" | "episode" | "channel" | "recording";
+
+export type StreamContent = {
+  type: StreamContentType;
+  id: number;
+};
+
+// Playback position reported with heartbeats, for the viewer's watch history
+export type WatchProgress = {
+  position: number; // seconds
+  duration: number | null; // seconds, null for live streams
+  playing: boolean;
+};
+
+export type StreamSessionState =
+  | { status: "idle" | "loading" | "unavailable" | "ended" }
+  | { status: "active"; streamUrl: string }
+  | { status: "limit" | "blocked" | "quota"; message: string };
+
+// Matches the token segment of a proxied stream URL
+const STREAM_TOKEN_PATTERN = /\/api\/stream\/[^/]+\//;
+
+/**
+ * Opens a stream session for a piece of content while `enabled` is set.
+ * The server proxies the stream under a token that is rotated through the
+ * heartbeat before it expires; players should pass every request URL through
+ * `withCurrentToken` (e.g. from the hls.js xhrSetup hook) so they keep working
+ * across rotations without reloading. The session is ended on unmount.
+ * `getProgress` is read for every heartbeat and when the session ends, so the
+ * server can keep the viewer's watch history for this playback.
+ *
+ * Status "unavailable" means no session could be opened (e.g. not logged in);
+ * "limit" means the concurrent stream limit was reached and `takeOver` can be
+ * used to end the oldest session; "blocked" means the content is not available
+ * in the viewer's country; "quota" means the viewer's monthly data quota is
+ * used up; "ended" means the session was killed. `quotaWarning` is set while
+ * the viewer is close to their data quota.
+ */
+export function useStreamSession(
+  content: StreamContent | undefined,
+  enabled: boolean,
+  getProgress?: () => WatchProgress | null
+) {
+  const [state, setState] = useState<StreamSessionState>({ status: "idle" });
+  // Incremented for every "watch here" request, so it can be repeated after an eviction
+  const [takeoverCount, setTakeoverCount] = useState(0);
+  const [rotatedToken, setRotatedToken] = useState<string | null>(null);
+  const [quotaWarning, setQuotaWarning] = useState<string | null>(null);
+  const tokenRef = useRef<string | null>(null);
+  const getProgressRef = useRef(getProgress);
+  getProgressRef.current = getProgress;
+
+  const contentType = content?.type;
+  const contentId = content?.id;
+
+  useEffect(() => {
+    if (!enabled || !contentType || !contentId) {
+      setState({ status: "idle" });
+      return;
+    }
+
+    let cancelled = false;
+    let sessionId: string | null = null;
+    let heartbeatTimer: number | null = null;
+
+    const stopHeartbeat = () => {
+      if (heartbeatTimer) {
+        window.clearInterval(heartbeatTimer);
+        heartbeatTimer = null;
+      }
+    };
+
+    // Sends the playback position along with heartbeats and the final stop
+    const progressRequest = () => {
+      const progress = getProgressRef.current?.();
+      return progress
+        ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(progress) }
+        : {};
+    };
+
+    const heartbeat = async () => {
+      const res = await fetch(`/api/stream-sessions/${sessionId}/heartbeat`, {
+        method: "POST",
+        credentials: "include",
+        ...progressRequest(),
+      });
+
+      if (cancelled) return;
+
+      if (res.status === 410) {
+        // Ended by an admin, a logout, or playback on another device
+        stopHeartbeat();
+        sessionId = null;
+        setState({ status: "ended" });
+        return;
+      }
+
+      // Other errors are transient; the next heartbeat retries
+      if (!res.ok) return;
+
+      const body = await res.json();
+      sessionId = body.sessionId;
+      if (body.token) {
+        tokenRef.current = body.token;
+        setRotatedToken(body.token);
+      }
+
+      // The proxy stops serving once the data quota is used up
+      if (body.dataQuota?.status === "exceeded") {
+        stopHeartbeat();
+        setState({ status: "quota", message: body.dataQuota.message });
+        return;
+      }
+
+      setQuotaWarning(body.dataQuota?.status === "warning" ? body.dataQuota.message : null);
+    };
+
+    const start = async () => {
+      setState({ status: "loading" });
+
+      const res = await fetch(
+        `/api/token/${contentType}s/${contentId}${takeoverCount > 0 ? "?takeover=true" : ""}`,
+        { credentials: "include" }
+      );
+
+      if (cancelled) return;
+
+      if (res.status === 429) {
+        const body = await res.json();
+        setState({ status: "limit", message: body.error });
+        return;
+      }
+
+      if (res.status === 451) {
+        const body = await res.json();
+        setState({ status: "blocked", message: body.error });
+        return;
+      }
+
+      if (res.status === 403) {
+        const body = await res.json();
+        if (body.quotaExceeded) {
+          setState({ status: "quota", message: body.error });
+          return;
+        }
+      }
+
+      if (!res.ok) {
+        setState({ status: "unavailable" });
+        return;
+      }
+
+      const body = await res.json();
+      sessionId = body.sessionId;
+      tokenRef.current = body.token;
+      setState({ status: "active", streamUrl: `/api/stream/${body.token}/` });
+
+      heartbeatTimer = window.setInterval(() => {
+        heartbeat().catch((error) => console.error("Stream heartbeat failed:", error));
+      }, body.heartbeatInterval);
+    };
+
+    start().catch((error) => {
+      console.error("Error opening stream session:", error);
+      if (!cancelled) setState({ status: "unavailable" });
+    });
+
+    return () => {
+      cancelled = true;
+      stopHeartbeat();
+      tokenRef.current = null;
+
+      // Free the slot right away instead of waiting for the session to time out
+      if (sessionId) {
+        fetch(`/api/stream-sessions/${sessionId}`, {
+          method: "DELETE",
+          credentials: "include",
+          keepalive: true,
+          ...progressRequest(),
+        }).catch(() => {});
+      }
+    };
+  }, [enabled, contentType, contentId, takeoverCount]);
+
+  // Rewrites a proxied stream URL to carry the current (possibly rotated) token
+  const withCurrentToken = useCallback((url: string) => {
+    const token = tokenRef.current;
+    return token ? url.replace(STREAM_TOKEN_PATTERN, `/api/stream/${token}/`) : url;
+  }, []);
+
+  // Opens a new session, ending the oldest one if the limit is reached
+  const takeOver = useCallback(() => setTakeoverCount((count) => count + 1), []);
+
+  return { state, withCurrentToken, takeOver, rotatedToken, quotaWarning };
+}
@@ -1,6 +1,10 @@
 import Hls from "hls.js";
+import { MediaPlayer, MediaPlayerClass } from "dashjs";
 import { StreamSource } from "@shared/schema";
 
+// Adaptive streaming engines: hls.js for HLS, dash.js for MPEG-DASH
+export type StreamingEngine = Hls | MediaPlayerClass;
+
 // Quality levels for streaming
 export type QualityLevel = 'auto' | '1080p' | '720p' | '480p' | '360p' | '240p';
 
@@ -80,10 +84,103 @@ export function configureAdaptiveStreaming(
 }
 
 /**
- * Get stream quality information from HLS.js
+ * Configure the dash.js player for adaptive streaming
  */
-export function getStreamQualityInfo(hls: Hls): StreamQualityInfo {
-  if (!hls) {
+export function configureDashStreaming(
+  player: MediaPlayerClass, 
+  config: Partial<AdaptiveStreamingConfig> = {}
+): void {
+  const finalConfig = { ...DEFAULT_ADAPTIVE_CONFIG, ...config };
+  
+  player.updateSettings({
+    streaming: {
+      buffer: {
+        bufferTimeDefault: finalConfig.bufferTarget,
+        bufferTimeAtTopQuality: finalConfig.bufferTarget,
+        bufferTimeAtTopQualityLongForm: finalConfig.maxBufferLength
+      },
+      abr: {
+        autoSwitchBitrate: { video: finalConfig.enableAdaptiveQuality }
+      }
+    }
+  });
+}
+
+function isHls(engine: StreamingEngine): engine is Hls {
+  return engine instanceof Hls;
+}
+
+function heightToQuality(height: number): QualityLevel | null {
+  if (height === 1080) return '1080p';
+  if (height === 720) return '720p';
+  if (height === 480) return '480p';
+  if (height === 360) return '360p';
+  if (height === 240) return '240p';
+  return null;
+}
+
+/**
+ * Get the video levels of a stream in the order used by the engine
+ */
+export function getQualityLevels(engine: StreamingEngine): Array<{ height: number; bitrate: number }> {
+  if (isHls(engine)) {
+    return (engine.levels || []).map(level => ({ height: level.height, bitrate: level.bitrate }));
+  }
+  
+  return engine.getRepresentationsByType('video').map(representation => ({
+    height: representation.height,
+    bitrate: representation.bandwidth
+  }));
+}
+
+/**
+ * Get the index of the selected level, -1 when the engine selects it automatically
+ */
+export function getCurrentLevel(engine: StreamingEngine): number {
+  if (isHls(engine)) {
+    return engine.currentLevel;
+  }
+  
+  if (engine.getSettings().streaming?.abr?.autoSwitchBitrate?.video !== false) {
+    return -1;
+  }
+  
+  const current = engine.getCurrentRepresentationForType('video');
+  return current ? engine.getRepresentationsByType('video').findIndex(r => r.id === current.id) : -1;
+}
+
+/**
+ * Select a level by index, or automatic selection with -1
+ */
+export function setCurrentLevel(engine: StreamingEngine, level: number): void {
+  if (isHls(engine)) {
+    engine.currentLevel = level;
+    return;
+  }
+  
+  engine.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: level === -1 } } } });
+  if (level >= 0) {
+    engine.setRepresentationForTypeByIndex('video', level);
+  }
+}
+
+/**
+ * Get the bandwidth estimate of the engine in kbps
+ */
+export function getBandwidthEstimate(engine: StreamingEngine): number {
+  if (isHls(engine)) {
+    return Math.round(engine.bandwidthEstimate / 1000);
+  }
+  
+  // dash.js already reports kbps
+  return Math.round(engine.getAverageThroughput('video') || 0);
+}
+
+/**
+ * Get stream quality information from HLS.js or dash.js
+ */
+export function getStreamQualityInfo(engine: StreamingEngine | null): StreamQualityInfo {
+  if (!engine) {
     return {
       currentQuality: 'auto',
       availableQualities: ['auto'],
@@ -95,38 +192,30 @@ export function getStreamQualityInfo(hls: Hls): StreamQualityInfo {
   }
   
   // Get current bandwidth estimate
-  const bandwidthEstimate = Math.round(hls.bandwidthEstimate / 1000); // Convert to kbps
+  const bandwidthEstimate = getBandwidthEstimate(engine);
   
   // Get available qualities
+  const levels = getQualityLevels(engine);
   const availableQualities: QualityLevel[] = ['auto'];
   
-  if (hls.levels && hls.levels.length > 0) {
-    for (const level of hls.levels) {
-      if (level.height === 1080) availableQualities.push('1080p');
-      else if (level.height === 720) availableQualities.push('720p');
-      else if (level.height === 480) availableQualities.push('480p');
-      else if (level.height === 360) availableQualities.push('360p');
-      else if (level.height === 240) availableQualities.push('240p');
-    }
+  for (const level of levels) {
+    const quality = heightToQuality(level.height);
+    if (quality) availableQualities.push(quality);
   }
   
   // Determine current quality
+  const currentLevel = getCurrentLevel(engine);
   let currentQuality: QualityLevel = 'auto';
-  if (hls.currentLevel >= 0 && hls.levels && hls.levels[hls.currentLevel]) {
-    const height = hls.levels[hls.currentLevel].height;
-    if (height === 1080) currentQuality = '1080p';
-    else if (height === 720) currentQuality = '720p';
-    else if (height === 480) currentQuality = '480p';
-    else if (height === 360) currentQuality = '360p';
-    else if (height === 240) currentQuality = '240p';
+  if (currentLevel >= 0 && levels[currentLevel]) {
+    currentQuality = heightToQuality(levels[currentLevel].height) || 'auto';
   }
   
   return {
     currentQuality,
     availableQualities,
     bandwidthEstimate,
-    currentLevel: hls.currentLevel,
-    adaptiveMode: hls.currentLevel === -1,
+    currentLevel,
+    adaptiveMode: currentLevel === -1,
     bandwidthHistory: [{ timestamp: Date.now(), bandwidth: bandwidthEstimate }]
   };
 }
@@ -134,16 +223,17 @@ export function getStreamQualityInfo(hls: Hls): StreamQualityInfo {
 /**
  * Set the streaming quality level
  */
-export function setQualityLevel(hls: Hls, quality: QualityLevel): void {
-  if (!hls) return;
+export function setQualityLevel(engine: StreamingEngine, quality: QualityLevel): void {
+  if (!engine) return;
   
   if (quality === 'auto') {
-    hls.currentLevel = -1;
+    setCurrentLevel(engine, -1);
     return;
   }
   
   // Find the closest matching quality level
-  if (!hls.levels || hls.levels.length === 0) return;
+  const levels = getQualityLevels(engine);
+  if (levels.length === 0) return;
   
   const targetHeight = parseInt(quality.replace('p', ''));
   
@@ -151,7 +241,7 @@ export function setQualityLevel(hls: Hls, quality: QualityLevel): void {
   let bestMatchIndex = 0;
   let bestMatchDiff = Number.MAX_SAFE_INTEGER;
   
-  hls.levels.forEach((level, index) => {
+  levels.forEach((level, index) => {
     const diff = Math.abs(level.height - targetHeight);
     if (diff < bestMatchDiff) {
       bestMatchDiff = diff;
@@ -159,7 +249,7 @@ export function setQualityLevel(hls: Hls, quality: QualityLevel): void {
     }
   });
   
-  hls.currentLevel = bestMatchIndex;
+  setCurrentLevel(engine, bestMatchIndex);
 }
 
 /**
@@ -295,58 +385,69 @@ export async function selectOptimalSource(
 }
 
 /**
- * Record HLS quality metrics for analytics
+ * Send a stream analytics event
+ */
+async function sendStreamAnalytics(event: Record<string, unknown>, errorMessage: string): Promise<void> {
+  try {
+    await fetch('/api/analytics/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(event)
+    });
+  } catch (e) {
+    console.error(errorMessage, e);
+  }
+}
+
+/**
+ * Record HLS or DASH quality metrics for analytics
  */
-export function recordStreamQualityMetrics(hls: Hls, contentType: string, contentId: number): void {
-  if (!hls) return;
-  
-  // Setup quality change monitoring
-  hls.on(Hls.Events.LEVEL_SWITCHED, async (_, data) => {
-    const newLevel = data.level;
-    const quality = hls.levels[newLevel]?.height ? `${hls.levels[newLevel].height}p` : 'unknown';
-    const bandwidth = Math.round(hls.bandwidthEstimate / 1000); // in kbps
+export function recordStreamQualityMetrics(engine: StreamingEngine, contentType: string, contentId: number): void {
+  if (!engine) return;
+  
+  const describeLevel = (level: number) => {
+    const height = getQualityLevels(engine)[level]?.height;
+    return height ? `${height}p` : 'unknown';
+  };
+  
+  const onQualityChange = (level: number) => sendStreamAnalytics({
+    contentType,
+    contentId,
+    event: 'quality_change',
+    quality: describeLevel(level),
+    bandwidth: getBandwidthEstimate(engine)
+  }, 'Failed to record quality metrics:');
+  
+  const onBuffering = () => {
+    const currentLevel = getCurrentLevel(engine);
     
-    // Send quality change analytics event
-    try {
-      await fetch('/api/analytics/stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contentType,
-          contentId,
-          event: 'quality_change',
-          quality,
-          bandwidth
-        })
-      });
-    } catch (e) {
-      console.error('Failed to record quality metrics:', e);
-    }
+    return sendStreamAnalytics({
+      contentType,
+      contentId,
+      event: 'buffering',
+      bufferingDuration: 0, // Will be updated when buffering ends
+      quality: currentLevel === -1 ? 'auto' : describeLevel(currentLevel),
+      bandwidth: getBandwidthEstimate(engine)
+    }, 'Failed to record buffering start:');
+  };
+  
+  if (isHls(engine)) {
+    // Setup quality change monitoring
+    engine.on(Hls.Events.LEVEL_SWITCHED, (_, data) => onQualityChange(data.level));
+    
+    // Monitor for buffering events
+    engine.on(Hls.Events.BUFFER_STALLING, onBuffering);
+    return;
+  }
+  
+  engine.on(MediaPlayer.events.QUALITY_CHANGE_RENDERED, (e) => {
+    if (e.mediaType !== 'video') return;
+    onQualityChange(engine.getRepresentationsByType('video').findIndex(r => r.id === e.newRepresentation.id));
   });
   
-  // Monitor for buffering events
-  hls.on(Hls.Events.BUFFER_STALLING, async () => {
-    try {
-      await fetch('/api/analytics/stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contentType,
-          contentId,
-          event: 'buffering',
-          bufferingDuration: 0, // Will be updated when buffering ends
-          quality: hls.currentLevel === -1 ? 'auto' : 
-            hls.levels[hls.currentLevel]?.height ? 
-            `${hls.levels[hls.currentLevel].height}p` : 'unknown',
-          bandwidth: Math.round(hls.bandwidthEstimate / 1000)
-        })
-      });
-    } catch (e) {
-      console.error('Failed to record buffering start:', e);
-    }
+  engine.on(MediaPlayer.events.BUFFER_EMPTY, (e) => {
+    if (e.mediaType === 'video') onBuffering();
   });
-}
\ No newline at end of file
+}
@@ -1,3 +1,19 @@
+import { StreamSource } from "@shared/schema";
+
+/**
+ * Determines the playback format of a stream source. Sources with an .mpd URL
+ * are DASH whatever their format says, as the format is entered by hand.
+ * @param source The stream source
+ * @returns 'hls', 'dash', 'mp4', ...
+ */
+export function getSourceFormat(source: Pick<StreamSource, 'url' | 'format'>): string {
+  if (/\.mpd(?:$|[?#])/i.test(source.url)) {
+    return 'dash';
+  }
+  
+  return (source.format || 'hls').toLowerCase();
+}
+
 /**
  * Tests if a stream URL is available and can be accessed
  * @param url The URL of the stream to test
@@ -11,8 +27,8 @@ export async function testStreamSource(url: string, timeoutMs: number = 5000): P
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
     
     try {
-      // For HLS (.m3u8) streams, we attempt to fetch the manifest
-      if (url.includes('.m3u8')) {
+      // For HLS (.m3u8) and DASH (.mpd) streams, we attempt to fetch the manifest
+      if (url.includes('.m3u8') || url.includes('.mpd')) {
         const response = await fetch(url, { 
           method: 'HEAD', 
           signal: controller.signal
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { 
   Card,
@@ -45,13 +45,19 @@ import {
 } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import GeoRestrictionDialog from "@/components/admin/GeoRestrictionDialog";
+import RequestProfileFields from "@/components/admin/RequestProfileFields";
+import StreamHealthDialog from "@/components/admin/StreamHealthDialog";
+import M3UImportDialog from "@/components/admin/M3UImportDialog";
+import { format } from "date-fns";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Channel, Category, Country, StreamSource, insertChannelSchema } from "@shared/schema";
-import { Plus, Edit, Trash2, Search, AlertTriangle } from "lucide-react";
+import { Channel, Category, Country, StreamSource, insertChannelSchema, streamRequestProfileSchema } from "@shared/schema";
+import { Plus, Edit, Trash2, Globe, Search, AlertTriangle, Activity, RefreshCw, FileUp } from "lucide-react";
 
 // Extend the channel schema for the form
 const channelFormSchema = z.object({
@@ -64,18 +70,41 @@ const channelFormSchema = z.object({
     url: z.string().url("Stream URL must be a valid URL"),
     priority: z.number().int().min(1),
     format: z.string().min(1, "Format is required"),
-    label: z.string().optional()
+    label: z.string().optional(),
+    pinned: z.boolean().optional(),
+    disabledUntil: z.string().optional(),
+    requestProfile: streamRequestProfileSchema.optional()
   })).min(1, "At least one stream source is required"),
-  isPremium: z.boolean().default(false)
+  isPremium: z.boolean().default(false),
+  timeshiftEnabled: z.boolean().default(false),
+  timeshiftWindow: z.coerce.number().int().min(1, "Window must be at least 1 minute").max(1440, "Window can be at most 24 hours"),
+  catchupEnabled: z.boolean().default(false),
+  catchupDays: z.coerce.number().int().min(1, "Archive must be kept at least 1 day").max(30, "Archive can be kept at most 30 days")
 });
 
 type ChannelFormValues = z.infer<typeof channelFormSchema>;
 
+type StreamCheckJob = {
+  id: number;
+  scope: "channel" | "category" | "all";
+  scopeId: number | null;
+  total: number;
+  completed: number;
+  online: number;
+  offline: number;
+  status: "running" | "completed" | "failed";
+};
+
 export default function AdminChannels() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedChannel, setSelectedChannel] = useState<Channel | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [geoRestrictionChannel, setGeoRestrictionChannel] = useState<Channel | null>(null);
+  const [healthChannel, setHealthChannel] = useState<Channel | null>(null);
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [checkCategoryId, setCheckCategoryId] = useState("");
+  const [checkJobId, setCheckJobId] = useState<number | null>(null);
   const { toast } = useToast();
   
   // Fetch channels, categories, and countries
@@ -91,6 +120,22 @@ export default function AdminChannels() {
     queryKey: ["/api/countries"],
   });
   
+  // Poll the progress of the on-demand stream check while it runs
+  const { data: checkJob } = useQuery<StreamCheckJob>({
+    queryKey: [`/api/admin/stream-checks/${checkJobId}`],
+    enabled: checkJobId !== null,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 1000 : false),
+  });
+  
+  const isCheckRunning = checkJob?.status === "running";
+  
+  // Show the new channel statuses once the check has finished
+  useEffect(() => {
+    if (checkJob && checkJob.status !== "running") {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+    }
+  }, [checkJob?.id, checkJob?.status]);
+  
   // Setup form
   const form = useForm<ChannelFormValues>({
     resolver: zodResolver(channelFormSchema),
@@ -101,6 +146,10 @@ export default function AdminChannels() {
       countryId: "",
       epgId: "",
       isPremium: false,
+      timeshiftEnabled: false,
+      timeshiftWindow: 120,
+      catchupEnabled: false,
+      catchupDays: 7,
       streamSources: [
         { url: "", priority: 1, format: "hls", label: "Main" }
       ]
@@ -156,6 +205,25 @@ export default function AdminChannels() {
     }
   });
   
+  // Start stream check mutation
+  const startCheckMutation = useMutation({
+    mutationFn: async (data: { scope: StreamCheckJob["scope"]; id?: number }) => {
+      const response = await apiRequest("POST", "/api/admin/stream-checks", data);
+      return response.json() as Promise<StreamCheckJob>;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData([`/api/admin/stream-checks/${job.id}`], job);
+      setCheckJobId(job.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start stream check",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Delete channel mutation
   const deleteChannelMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -212,6 +280,10 @@ export default function AdminChannels() {
       countryId: channel.countryId ? channel.countryId.toString() : "",
       epgId: channel.epgId || "",
       isPremium: channel.isPremium || false,
+      timeshiftEnabled: channel.timeshiftEnabled || false,
+      timeshiftWindow: channel.timeshiftWindow || 120,
+      catchupEnabled: channel.catchupEnabled || false,
+      catchupDays: channel.catchupDays || 7,
       streamSources: channel.streamSources as StreamSource[]
     });
     
@@ -228,6 +300,10 @@ export default function AdminChannels() {
       countryId: "",
       epgId: "",
       isPremium: false,
+      timeshiftEnabled: false,
+      timeshiftWindow: 120,
+      catchupEnabled: false,
+      catchupDays: 7,
       streamSources: [
         { url: "", priority: 1, format: "hls", label: "Main" }
       ]
@@ -295,10 +371,16 @@ export default function AdminChannels() {
               Manage all live TV channels in the system
             </CardDescription>
           </div>
-          <Button onClick={handleAddChannel}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Channel
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <FileUp className="mr-2 h-4 w-4" />
+              Import M3U
+            </Button>
+            <Button onClick={handleAddChannel}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Channel
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {/* Search and filter */}
@@ -312,8 +394,56 @@ export default function AdminChannels() {
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
+            <div className="ml-auto flex gap-2">
+              <Select value={checkCategoryId} onValueChange={setCheckCategoryId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories?.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                disabled={!checkCategoryId || isCheckRunning || startCheckMutation.isPending}
+                onClick={() => startCheckMutation.mutate({ scope: "category", id: parseInt(checkCategoryId) })}
+              >
+                Check Category
+              </Button>
+              <Button
+                variant="outline"
+                disabled={isCheckRunning || startCheckMutation.isPending}
+                onClick={() => startCheckMutation.mutate({ scope: "all" })}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Check All
+              </Button>
+            </div>
           </div>
           
+          {/* Progress of the on-demand stream check */}
+          {checkJob && (
+            <div className="mb-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {checkJob.status === "running"
+                    ? `Checking streams: ${checkJob.completed} of ${checkJob.total} channels`
+                    : checkJob.status === "failed"
+                      ? "Stream check failed"
+                      : `Stream check finished: ${checkJob.total} channels checked`}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {checkJob.online} online · {checkJob.offline} offline
+                </span>
+              </div>
+              <Progress value={checkJob.total > 0 ? (checkJob.completed / checkJob.total) * 100 : 100} />
+            </div>
+          )}
+          
           {/* Channels table */}
           {channelsLoading ? (
             <div className="text-center py-8">Loading channels...</div>
@@ -334,6 +464,7 @@ export default function AdminChannels() {
                     <TableHead>EPG ID</TableHead>
                     <TableHead>Sources</TableHead>
                     <TableHead>Premium</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -375,6 +506,12 @@ export default function AdminChannels() {
                           </div>
                         )}
                       </TableCell>
+                      <TableCell
+                        className="capitalize"
+                        title={channel.lastChecked ? `Last checked ${format(new Date(channel.lastChecked), "MMM d, yyyy h:mm a")}` : "Never checked"}
+                      >
+                        {channel.status || "unknown"}
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
@@ -384,6 +521,31 @@ export default function AdminChannels() {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Geo restrictions"
+                            onClick={() => setGeoRestrictionChannel(channel)}
+                          >
+                            <Globe className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Stream health"
+                            onClick={() => setHealthChannel(channel)}
+                          >
+                            <Activity className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Check stream now"
+                            disabled={isCheckRunning || startCheckMutation.isPending}
+                            onClick={() => startCheckMutation.mutate({ scope: "channel", id: channel.id })}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="destructive"
                             size="sm"
@@ -556,6 +718,90 @@ export default function AdminChannels() {
                 )}
               />
               
+              <div className="rounded-lg border p-4 space-y-4">
+                <FormField
+                  control={form.control}
+                  name="timeshiftEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Timeshift</FormLabel>
+                        <FormDescription>
+                          Record a rolling window of the stream so viewers can pause and rewind
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                
+                {form.watch("timeshiftEnabled") && (
+                  <FormField
+                    control={form.control}
+                    name="timeshiftWindow"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Timeshift Window (minutes)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={1440} {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          How far back viewers can go. Recordings are kept on the server's disk.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+              
+              <div className="rounded-lg border p-4 space-y-4">
+                <FormField
+                  control={form.control}
+                  name="catchupEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Catch-up TV</FormLabel>
+                        <FormDescription>
+                          Archive the stream so viewers can watch past programs from the program guide
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                
+                {form.watch("catchupEnabled") && (
+                  <FormField
+                    control={form.control}
+                    name="catchupDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Catch-up Archive (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={30} {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          How long past programs can be watched. The archive takes about 2 GB per hour of a 5 Mbit/s stream.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+              
               <div>
                 <div className="flex justify-between items-center mb-2">
                   <h3 className="text-lg font-medium">Stream Sources</h3>
@@ -661,6 +907,42 @@ export default function AdminChannels() {
                           </FormItem>
                         )}
                       />
+                      
+                      <FormField
+                        control={form.control}
+                        name={`streamSources.${index}.pinned`}
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-4 flex flex-row items-center space-x-2 space-y-0">
+                            <FormControl>
+                              <Switch
+                                checked={!!field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">Pin priority</FormLabel>
+                            <FormDescription>
+                              Pinned sources are never reordered or disabled automatically
+                              {sources[index]?.disabledUntil && new Date(sources[index].disabledUntil!) > new Date() &&
+                                ` · disabled until ${new Date(sources[index].disabledUntil!).toLocaleString()}`}
+                            </FormDescription>
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name={`streamSources.${index}.requestProfile`}
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-4">
+                            <RequestProfileFields
+                              id={`source-${index}`}
+                              value={field.value}
+                              onChange={field.onChange}
+                            />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </div>
                   ));
                 })()}
@@ -688,6 +970,29 @@ export default function AdminChannels() {
         </DialogContent>
       </Dialog>
       
+      {/* Geo Restriction Dialog */}
+      <GeoRestrictionDialog
+        open={geoRestrictionChannel !== null}
+        onOpenChange={(open) => !open && setGeoRestrictionChannel(null)}
+        contentType="channel"
+        contentId={geoRestrictionChannel?.id ?? null}
+        contentName={geoRestrictionChannel?.name}
+      />
+      
+      {/* Stream Health Dialog */}
+      <StreamHealthDialog
+        open={healthChannel !== null}
+        onOpenChange={(open) => !open && setHealthChannel(null)}
+        channelId={healthChannel?.id ?? null}
+        channelName={healthChannel?.name}
+      />
+      
+      {/* M3U Import Dialog */}
+      <M3UImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+      />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="max-w-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-800">
@@ -1,8 +1,11 @@
 import { useState } from "react";
 import { Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import DataUsagePanel from "@/components/admin/DataUsagePanel";
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   PieChart, Pie, Cell, Legend
@@ -14,9 +17,26 @@ import {
 import {
   Users, Tv, Film, Video, BarChart2, 
   Globe, Settings, List, Flag, Activity,
-  Play, Calendar
+  Play, Calendar, Database
 } from "lucide-react";
 
+type StreamCacheStats = {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  evictions: number;
+  uncacheable: number;
+  hitRate: number;
+  entries: number;
+  inFlight: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+};
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export default function AdminDashboard() {
   // Fetch counts of various content
   const { data: channels } = useQuery<Channel[]>({
@@ -43,6 +63,33 @@ export default function AdminDashboard() {
     queryKey: ["/api/programs/current"],
   });
   
+  // Stream proxy segment cache statistics
+  const { toast } = useToast();
+  const { data: cacheStats } = useQuery<StreamCacheStats>({
+    queryKey: ["/api/admin/stream-cache"],
+    refetchInterval: 10000,
+  });
+  
+  const clearCacheMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/admin/stream-cache");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stream-cache"] });
+      toast({
+        title: "Cache cleared",
+        description: "The stream segment cache has been emptied",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to clear cache",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Summary statistics
   const totalChannels = channels?.length || 0;
   const totalMovies = movies?.length || 0;
@@ -214,6 +261,63 @@ export default function AdminDashboard() {
             </Card>
           </div>
           
+          {/* Stream Segment Cache */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center">
+                <Database className="mr-2 h-5 w-5" />
+                Stream Segment Cache
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => clearCacheMutation.mutate()}
+                disabled={clearCacheMutation.isPending}
+              >
+                Clear Cache
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {cacheStats ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Hit Rate</p>
+                    <p className="text-2xl font-bold">{(cacheStats.hitRate * 100).toFixed(1)}%</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {cacheStats.hits + cacheStats.coalesced} hits / {cacheStats.misses} misses
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Cached Items</p>
+                    <p className="text-2xl font-bold">{cacheStats.entries}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {cacheStats.inFlight} upstream requests in flight
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Cache Size</p>
+                    <p className="text-2xl font-bold">{formatMegabytes(cacheStats.sizeBytes)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      of {formatMegabytes(cacheStats.maxSizeBytes)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Evictions</p>
+                    <p className="text-2xl font-bold">{cacheStats.evictions}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {cacheStats.coalesced} requests coalesced
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Cache statistics unavailable</p>
+              )}
+            </CardContent>
+          </Card>
+          
+          {/* Data Usage and Quotas */}
+          <DataUsagePanel />
+          
           {/* Quick Actions */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Button 
@@ -204,10 +204,6 @@ export default function AdminEPG() {
   // Upload EPG file mutation
   const uploadEPGMutation = useMutation({
     mutationFn: async (data: EPGUploadValues) => {
-      const formData = new FormData();
-      formData.append("file", data.file);
-      formData.append("name", data.name);
-      
       setIsUploading(true);
       setUploadProgress(0);
       
@@ -221,7 +217,18 @@ export default function AdminEPG() {
       }, 300);
       
       try {
-        const response = await apiRequest("POST", "/api/admin/epg/upload", formData);
+        // The file is sent as it is, so that the server can stream large guides
+        const params = new URLSearchParams({ name: data.name, filename: data.file.name });
+        const response = await fetch(`/api/admin/epg/upload?${params}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: data.file,
+          credentials: "include",
+        });
+        if (!response.ok) {
+          const text = (await response.text()) || response.statusText;
+          throw new Error(`${response.status}: ${text}`);
+        }
         clearInterval(progressInterval);
         setUploadProgress(100);
         return response.json();
@@ -711,7 +718,7 @@ export default function AdminEPG() {
                       <Input
                         {...field}
                         type="file"
-                        accept=".xml"
+                        accept=".xml,.gz,.zip"
                         className="bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100"
                         onChange={(e) => {
                           const file = e.target.files?.[0];
@@ -722,7 +729,7 @@ export default function AdminEPG() {
                       />
                     </FormControl>
                     <FormDescription className="text-gray-600 dark:text-gray-400">
-                      Select an XMLTV format file to upload
+                      Select an XMLTV format file to upload (.xml, .xml.gz or .zip)
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -45,15 +45,18 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import GeoRestrictionDialog from "@/components/admin/GeoRestrictionDialog";
+import RequestProfileFields from "@/components/admin/RequestProfileFields";
+import BrokenLinksDialog from "@/components/admin/BrokenLinksDialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Series, Episode, StreamSource, insertEpisodeSchema } from "@shared/schema";
+import { Series, Episode, StreamSource, insertEpisodeSchema, streamRequestProfileSchema } from "@shared/schema";
 import { 
-  Plus, Edit, Trash2, Search, AlertTriangle, Film,
+  Plus, Edit, Trash2, Globe, Search, AlertTriangle, Film,
   Play, Tv, Video, ChevronLeft, ChevronRight, List, Users,
-  BarChart2
+  BarChart2, Unlink
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 
@@ -72,7 +75,8 @@ const episodeFormSchema = z.object({
     url: z.string().url("Stream URL must be a valid URL"),
     priority: z.number().int().min(1),
     format: z.string().min(1, "Format is required"),
-    label: z.string().optional()
+    label: z.string().optional(),
+    requestProfile: streamRequestProfileSchema.optional()
   })).min(1, "At least one stream source is required")
 });
 
@@ -84,6 +88,8 @@ export default function AdminEpisodes() {
   const [selectedSeries, setSelectedSeries] = useState<number | null>(null);
   const [selectedEpisode, setSelectedEpisode] = useState<Episode | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [geoRestrictionEpisode, setGeoRestrictionEpisode] = useState<Episode | null>(null);
+  const [isBrokenLinksOpen, setIsBrokenLinksOpen] = useState(false);
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const { toast } = useToast();
   
@@ -377,10 +383,16 @@ export default function AdminEpisodes() {
                   Manage episodes for TV series
                 </CardDescription>
               </div>
-              <Button onClick={handleAddEpisode} disabled={!selectedSeries}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Episode
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsBrokenLinksOpen(true)}>
+                  <Unlink className="mr-2 h-4 w-4" />
+                  Broken Links
+                </Button>
+                <Button onClick={handleAddEpisode} disabled={!selectedSeries}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Episode
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               {/* Series selector and search */}
@@ -464,6 +476,14 @@ export default function AdminEpisodes() {
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Geo restrictions"
+                                onClick={() => setGeoRestrictionEpisode(episode)}
+                              >
+                                <Globe className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="destructive"
                                 size="sm"
@@ -654,6 +674,21 @@ export default function AdminEpisodes() {
                           <Trash2 className="h-4 w-4" />
                         </Button>
                       </div>
+                      
+                      <FormField
+                        control={form.control}
+                        name={`streamSources.${index}.requestProfile`}
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-4">
+                            <RequestProfileFields
+                              id={`source-${index}`}
+                              value={field.value}
+                              onChange={field.onChange}
+                            />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </div>
                   ))}
                   
@@ -681,6 +716,22 @@ export default function AdminEpisodes() {
         </DialogContent>
       </Dialog>
       
+      {/* Geo Restriction Dialog */}
+      <GeoRestrictionDialog
+        open={geoRestrictionEpisode !== null}
+        onOpenChange={(open) => !open && setGeoRestrictionEpisode(null)}
+        contentType="episode"
+        contentId={geoRestrictionEpisode?.id ?? null}
+        contentName={geoRestrictionEpisode?.title}
+      />
+      
+      {/* Broken Links Dialog */}
+      <BrokenLinksDialog
+        open={isBrokenLinksOpen}
+        onOpenChange={setIsBrokenLinksOpen}
+        contentType="episode"
+      />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -46,12 +46,15 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import GeoRestrictionDialog from "@/components/admin/GeoRestrictionDialog";
+import RequestProfileFields from "@/components/admin/RequestProfileFields";
+import BrokenLinksDialog from "@/components/admin/BrokenLinksDialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Movie, Category, StreamSource, insertMovieSchema } from "@shared/schema";
-import { Plus, Edit, Trash2, Search, AlertTriangle } from "lucide-react";
+import { Movie, Category, StreamSource, insertMovieSchema, streamRequestProfileSchema } from "@shared/schema";
+import { Plus, Edit, Trash2, Globe, Search, AlertTriangle, Unlink } from "lucide-react";
 
 // Extend the movie schema for the form
 const movieFormSchema = z.object({
@@ -65,7 +68,8 @@ const movieFormSchema = z.object({
     url: z.string().url("Stream URL must be a valid URL"),
     priority: z.number().int().min(1),
     format: z.string().min(1, "Format is required"),
-    label: z.string().optional()
+    label: z.string().optional(),
+    requestProfile: streamRequestProfileSchema.optional()
   })).min(1, "At least one stream source is required"),
   isPremium: z.boolean().default(false)
 });
@@ -76,6 +80,8 @@ export default function AdminMovies() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedMovie, setSelectedMovie] = useState<Movie | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [geoRestrictionMovie, setGeoRestrictionMovie] = useState<Movie | null>(null);
+  const [isBrokenLinksOpen, setIsBrokenLinksOpen] = useState(false);
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const { toast } = useToast();
   
@@ -285,10 +291,16 @@ export default function AdminMovies() {
               Manage all movies in the system
             </CardDescription>
           </div>
-          <Button onClick={handleAddMovie}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Movie
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsBrokenLinksOpen(true)}>
+              <Unlink className="mr-2 h-4 w-4" />
+              Broken Links
+            </Button>
+            <Button onClick={handleAddMovie}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Movie
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {/* Search and filter */}
@@ -368,6 +380,14 @@ export default function AdminMovies() {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Geo restrictions"
+                            onClick={() => setGeoRestrictionMovie(movie)}
+                          >
+                            <Globe className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="destructive"
                             size="sm"
@@ -635,6 +655,21 @@ export default function AdminMovies() {
                         </FormItem>
                       )}
                     />
+                    
+                    <FormField
+                      control={form.control}
+                      name={`streamSources.${index}.requestProfile`}
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-4">
+                          <RequestProfileFields
+                            id={`source-${index}`}
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 ))}
               </div>
@@ -661,6 +696,22 @@ export default function AdminMovies() {
         </DialogContent>
       </Dialog>
       
+      {/* Geo Restriction Dialog */}
+      <GeoRestrictionDialog
+        open={geoRestrictionMovie !== null}
+        onOpenChange={(open) => !open && setGeoRestrictionMovie(null)}
+        contentType="movie"
+        contentId={geoRestrictionMovie?.id ?? null}
+        contentName={geoRestrictionMovie?.title}
+      />
+      
+      {/* Broken Links Dialog */}
+      <BrokenLinksDialog
+        open={isBrokenLinksOpen}
+        onOpenChange={setIsBrokenLinksOpen}
+        contentType="movie"
+      />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -44,12 +44,13 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import GeoRestrictionDialog from "@/components/admin/GeoRestrictionDialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Series, Category, insertSeriesSchema } from "@shared/schema";
-import { Plus, Edit, Trash2, Search, AlertTriangle, FileText } from "lucide-react";
+import { Plus, Edit, Trash2, Globe, Search, AlertTriangle, FileText } from "lucide-react";
 import { Link } from "wouter";
 
 // Extend the series schema for the form
@@ -70,6 +71,7 @@ export default function AdminSeries() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedSeries, setSelectedSeries] = useState<Series | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [geoRestrictionSeries, setGeoRestrictionSeries] = useState<Series | null>(null);
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const { toast } = useToast();
   
@@ -338,6 +340,14 @@ export default function AdminSeries() {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Geo restrictions"
+                            onClick={() => setGeoRestrictionSeries(series)}
+                          >
+                            <Globe className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="secondary"
                             size="sm"
@@ -552,6 +562,15 @@ export default function AdminSeries() {
         </DialogContent>
       </Dialog>
       
+      {/* Geo Restriction Dialog */}
+      <GeoRestrictionDialog
+        open={geoRestrictionSeries !== null}
+        onOpenChange={(open) => !open && setGeoRestrictionSeries(null)}
+        contentType="series"
+        contentId={geoRestrictionSeries?.id ?? null}
+        contentName={geoRestrictionSeries?.title}
+      />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { AdminLayout } from "@/components/AdminLayout";
@@ -27,6 +27,7 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { SiteSettings } from "@shared/schema";
 
 // Define the form schema for site settings
 const settingsFormSchema = z.object({
@@ -36,8 +37,13 @@ const settingsFormSchema = z.object({
   enableSubscriptions: z.boolean(),
   enablePPV: z.boolean(),
   enableRegistration: z.boolean(),
-  defaultUserQuota: z.string().regex(/^\d+$/, "Must be a number").transform(Number),
-  defaultUserConcurrentStreams: z.string().regex(/^\d+$/, "Must be a number").transform(Number)
+  defaultUserQuota: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1"),
+  defaultUserConcurrentStreams: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1"),
+  streamCheckInterval: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1 minute"),
+  priorityStreamCheckInterval: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1 minute"),
+  streamCheckConcurrency: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1").max(50, "Must be at most 50"),
+  recordingPaddingBefore: z.coerce.number().int("Must be a whole number").min(0, "Cannot be negative").max(60, "Must be at most 60 minutes"),
+  recordingPaddingAfter: z.coerce.number().int("Must be a whole number").min(0, "Cannot be negative").max(120, "Must be at most 120 minutes")
 });
 
 type SettingsFormValues = z.infer<typeof settingsFormSchema>;
@@ -47,27 +53,8 @@ export default function AdminSettings() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Fetch current settings
-  const { data: settings, isLoading: settingsLoading } = useQuery({
-    queryKey: ["/api/admin/settings"],
-    queryFn: async () => {
-      try {
-        const response = await apiRequest("GET", "/api/admin/settings");
-        const data = await response.json();
-        return data;
-      } catch (error) {
-        // Return default settings if API doesn't exist yet
-        return {
-          siteName: "Streamvy",
-          logoUrl: "",
-          primaryColor: "#3b82f6",
-          enableSubscriptions: true,
-          enablePPV: false,
-          enableRegistration: true,
-          defaultUserQuota: 5,
-          defaultUserConcurrentStreams: 2
-        };
-      }
-    }
+  const { data: settings, isLoading: settingsLoading } = useQuery<SiteSettings>({
+    queryKey: ["/api/site-settings"],
   });
   
   // Setup form with default values
@@ -81,12 +68,17 @@ export default function AdminSettings() {
       enablePPV: false,
       enableRegistration: true,
       defaultUserQuota: 5,
-      defaultUserConcurrentStreams: 2
+      defaultUserConcurrentStreams: 2,
+      streamCheckInterval: 5,
+      priorityStreamCheckInterval: 2,
+      streamCheckConcurrency: 5,
+      recordingPaddingBefore: 2,
+      recordingPaddingAfter: 5
     }
   });
   
   // Update form with fetched settings
-  useState(() => {
+  useEffect(() => {
     if (settings && !settingsLoading) {
       form.reset({
         siteName: settings.siteName,
@@ -96,26 +88,28 @@ export default function AdminSettings() {
         enablePPV: settings.enablePPV,
         enableRegistration: settings.enableRegistration,
         defaultUserQuota: settings.defaultUserQuota,
-        defaultUserConcurrentStreams: settings.defaultUserConcurrentStreams
+        defaultUserConcurrentStreams: settings.defaultUserConcurrentStreams,
+        streamCheckInterval: settings.streamCheckInterval,
+        priorityStreamCheckInterval: settings.priorityStreamCheckInterval,
+        streamCheckConcurrency: settings.streamCheckConcurrency,
+        recordingPaddingBefore: settings.recordingPaddingBefore,
+        recordingPaddingAfter: settings.recordingPaddingAfter
       });
     }
-  });
+  }, [settings, settingsLoading]);
   
   // Save settings mutation
   const saveSettingsMutation = useMutation({
     mutationFn: async (data: SettingsFormValues) => {
-      try {
-        const response = await apiRequest("POST", "/api/admin/settings", data);
-        return await response.json();
-      } catch (error) {
-        console.error("Failed to save settings:", error);
-        // Since we don't have the backend endpoint yet, we'll simulate success
-        return data;
-      }
+      const response = await apiRequest("PUT", "/api/admin/site-settings", {
+        ...data,
+        logoUrl: data.logoUrl || null
+      });
+      return await response.json();
     },
     onSuccess: () => {
       // Invalidate queries that might be affected by settings changes
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/site-settings"] });
       
       toast({
         title: "Settings saved",
@@ -301,7 +295,7 @@ export default function AdminSettings() {
                       name="defaultUserQuota"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Default User Quota</FormLabel>
+                          <FormLabel>Default Recording Quota (hours)</FormLabel>
                           <FormControl>
                             <Input 
                               type="number" 
@@ -312,7 +306,7 @@ export default function AdminSettings() {
                             />
                           </FormControl>
                           <FormDescription>
-                            Number of videos users can save to watch later
+                            Hours of program recordings each user can schedule and keep
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -343,6 +337,136 @@ export default function AdminSettings() {
                     />
                   </div>
                 </div>
+                
+                <div className="space-y-6">
+                  <h3 className="text-lg font-medium">Stream Checker</h3>
+                  
+                  <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                    <FormField
+                      control={form.control}
+                      name="streamCheckInterval"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Check Interval (minutes)</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min="1"
+                              {...field}
+                              value={field.value.toString()} 
+                              onChange={(e) => field.onChange(e.target.value)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            How often each channel's streams are checked
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="priorityStreamCheckInterval"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Priority Check Interval (minutes)</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min="1"
+                              {...field}
+                              value={field.value.toString()} 
+                              onChange={(e) => field.onChange(e.target.value)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Used for premium channels and channels being watched
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="streamCheckConcurrency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Concurrent Checks</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min="1"
+                              max="50"
+                              {...field}
+                              value={field.value.toString()} 
+                              onChange={(e) => field.onChange(e.target.value)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Number of channels checked at the same time
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+                
+                <div className="space-y-6">
+                  <h3 className="text-lg font-medium">Recordings</h3>
+                  
+                  <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="recordingPaddingBefore"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Start Padding (minutes)</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min="0"
+                              max="60"
+                              {...field}
+                              value={field.value.toString()} 
+                              onChange={(e) => field.onChange(e.target.value)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Recording starts this long before the program's scheduled start
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="recordingPaddingAfter"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>End Padding (minutes)</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min="0"
+                              max="120"
+                              {...field}
+                              value={field.value.toString()} 
+                              onChange={(e) => field.onChange(e.target.value)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Recording continues this long after the program's scheduled end
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
               </CardContent>
               
               <CardFooter className="flex justify-end space-x-2 border-t pt-6">
@@ -56,10 +56,25 @@ const userFormSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   isAdmin: z.boolean().default(false),
+  // Blank means the site-wide default applies
+  maxConcurrentStreams: z.string().regex(/^\d*$/, "Must be a whole number").optional(),
 });
 
 type UserFormValues = z.infer<typeof userFormSchema>;
 
+// Live stream session as returned by /api/admin/stream-sessions
+type StreamSession = {
+  sessionId: string;
+  userId: number;
+  username: string | null;
+  contentType: string;
+  contentId: number;
+  createdAt: string;
+  lastHeartbeatAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
 export default function AdminUsers() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -76,6 +91,12 @@ export default function AdminUsers() {
     }
   });
   
+  // Fetch live stream sessions
+  const { data: streamSessions, isLoading: sessionsLoading } = useQuery<StreamSession[]>({
+    queryKey: ["/api/admin/stream-sessions"],
+    refetchInterval: 30000,
+  });
+  
   // Setup form
   const form = useForm<UserFormValues>({
     resolver: zodResolver(userFormSchema),
@@ -134,6 +155,30 @@ export default function AdminUsers() {
     }
   });
   
+  // Update concurrent stream limit mutation
+  const updateStreamLimitMutation = useMutation({
+    mutationFn: async ({ id, maxConcurrentStreams }: { id: number; maxConcurrentStreams: number | null }) => {
+      const response = await apiRequest("PUT", `/api/admin/users/${id}/stream-limit`, { maxConcurrentStreams });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Stream limit updated",
+        description: "The user's concurrent stream limit has been updated",
+      });
+      setIsFormDialogOpen(false);
+      setSelectedUser(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update stream limit",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -157,9 +202,60 @@ export default function AdminUsers() {
     }
   });
   
+  // Kill stream session mutation
+  const killSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/admin/stream-sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stream-sessions"] });
+      toast({
+        title: "Session ended",
+        description: "The stream session has been ended",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to end session",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Kill all stream sessions of a user mutation
+  const killUserSessionsMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/admin/users/${userId}/stream-sessions`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stream-sessions"] });
+      toast({
+        title: "Sessions ended",
+        description: "All stream sessions of the user have been ended",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to end sessions",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Handle form submission
   const onSubmit = (data: UserFormValues) => {
+    const { maxConcurrentStreams, ...userData } = data;
+    
     if (selectedUser) {
+      // The stream limit is saved through its own endpoint
+      const streamLimit = maxConcurrentStreams ? parseInt(maxConcurrentStreams) : null;
+      const streamLimitChanged = streamLimit !== (selectedUser.maxConcurrentStreams ?? null);
+      if (streamLimitChanged) {
+        updateStreamLimitMutation.mutate({ id: selectedUser.id, maxConcurrentStreams: streamLimit });
+      }
+      
       // For updates, only send changed fields
       const changes: Partial<UserFormValues> = {};
       
@@ -177,7 +273,7 @@ export default function AdminUsers() {
       
       if (Object.keys(changes).length > 0) {
         updateUserMutation.mutate({ id: selectedUser.id, data: changes });
-      } else {
+      } else if (!streamLimitChanged) {
         toast({
           title: "No changes",
           description: "No changes were made to the user",
@@ -185,7 +281,7 @@ export default function AdminUsers() {
         setIsFormDialogOpen(false);
       }
     } else {
-      createUserMutation.mutate(data);
+      createUserMutation.mutate(userData);
     }
   };
   
@@ -196,7 +292,8 @@ export default function AdminUsers() {
     form.reset({
       username: user.username,
       password: "", // Don't populate password field for security
-      isAdmin: user.isAdmin
+      isAdmin: user.isAdmin,
+      maxConcurrentStreams: user.maxConcurrentStreams?.toString() ?? ""
     });
     
     setIsFormDialogOpen(true);
@@ -208,7 +305,8 @@ export default function AdminUsers() {
     form.reset({
       username: "",
       password: "",
-      isAdmin: false
+      isAdmin: false,
+      maxConcurrentStreams: ""
     });
     setIsFormDialogOpen(true);
   };
@@ -308,6 +406,7 @@ export default function AdminUsers() {
                       <TableRow>
                         <TableHead>Username</TableHead>
                         <TableHead>Role</TableHead>
+                        <TableHead>Streams</TableHead>
                         <TableHead>Created</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
@@ -323,6 +422,11 @@ export default function AdminUsers() {
                               <Badge variant="outline">User</Badge>
                             )}
                           </TableCell>
+                          <TableCell>
+                            {user.maxConcurrentStreams ?? (
+                              <span className="text-gray-500 dark:text-gray-400">Default</span>
+                            )}
+                          </TableCell>
                           <TableCell>{formatDate(user.createdAt)}</TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-2">
@@ -354,6 +458,75 @@ export default function AdminUsers() {
               )}
             </CardContent>
           </Card>
+          
+          {/* Live stream sessions */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Live Stream Sessions</CardTitle>
+              <CardDescription>
+                Streams currently being watched. Ending a session stops its playback immediately.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sessionsLoading ? (
+                <div className="text-center py-8">Loading sessions...</div>
+              ) : !streamSessions?.length ? (
+                <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                  Nobody is watching right now.
+                </div>
+              ) : (
+                <div className="rounded-md border overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Content</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Last Activity</TableHead>
+                        <TableHead>IP Address</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {streamSessions.map((session) => (
+                        <TableRow key={session.sessionId}>
+                          <TableCell className="font-medium">
+                            {session.username || `User #${session.userId}`}
+                          </TableCell>
+                          <TableCell className="capitalize">
+                            {session.contentType} #{session.contentId}
+                          </TableCell>
+                          <TableCell>{formatDate(new Date(session.createdAt))}</TableCell>
+                          <TableCell>{formatDate(new Date(session.lastHeartbeatAt))}</TableCell>
+                          <TableCell>{session.ipAddress || "-"}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => killSessionMutation.mutate(session.sessionId)}
+                                disabled={killSessionMutation.isPending}
+                              >
+                                End
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => killUserSessionsMutation.mutate(session.userId)}
+                                disabled={killUserSessionsMutation.isPending}
+                              >
+                                End All for User
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
       
@@ -435,6 +608,30 @@ export default function AdminUsers() {
                 )}
               />
               
+              {selectedUser && (
+                <FormField
+                  control={form.control}
+                  name="maxConcurrentStreams"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Concurrent Streams</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          min={0} 
+                          placeholder="Site default" 
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Maximum number of simultaneous streams. Leave blank to use the site default.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
               <DialogFooter>
                 <DialogClose asChild>
                   <Button type="button" variant="outline">Cancel</Button>
@@ -1,29 +1,21 @@
-import { useEffect, useState, useRef } from "react";
+import { useState } from "react";
 import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Channel, Program } from "@shared/schema";
-import { Loader2, ChevronLeft, Calendar, Clock } from "lucide-react";
+import { Channel, Program, StreamSource } from "@shared/schema";
+import { Loader2, ChevronLeft, Calendar, Clock, History, Play, Radio } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
-import Hls from "hls.js";
 import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-
-interface StreamSource {
-  url: string;
-  priority: number;
-  label?: string;
-}
+import { VideoPlayer } from "@/components/VideoPlayer";
+import { RecordProgramButtons } from "@/components/RecordProgramButtons";
 
 export default function ChannelDetailPage() {
   const { id } = useParams<{ id: string }>();
-  const videoRef = useRef<HTMLVideoElement>(null);
   const [, setLocation] = useLocation();
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [hasError, setHasError] = useState(false);
-  const [currentSourceIndex, setCurrentSourceIndex] = useState(0);
-  const [streamSources, setStreamSources] = useState<StreamSource[]>([]);
+  // Past program being watched from the catch-up archive, instead of the live stream
+  const [catchupProgram, setCatchupProgram] = useState<Program | null>(null);
 
   const { data: channel, isLoading, error } = useQuery<Channel>({
     queryKey: [`/api/channels/${id}`],
@@ -35,95 +27,6 @@ export default function ChannelDetailPage() {
     enabled: !!id,
   });
 
-  // Parse stream sources when channel data loads
-  useEffect(() => {
-    if (channel?.streamSources) {
-      try {
-        const sources = typeof channel.streamSources === 'string' 
-          ? JSON.parse(channel.streamSources as string) 
-          : channel.streamSources as StreamSource[];
-          
-        // Sort by priority if available
-        const sortedSources = Array.isArray(sources)
-          ? sources.sort((a, b) => (a.priority || 999) - (b.priority || 999))
-          : [{ url: sources as string, priority: 1 }];
-          
-        setStreamSources(sortedSources);
-      } catch (err) {
-        console.error("Error parsing stream sources:", err);
-        setHasError(true);
-      }
-    }
-  }, [channel]);
-
-  // Play video when stream sources are available
-  useEffect(() => {
-    if (!streamSources.length || !videoRef.current) return;
-    
-    setHasError(false);
-    const video = videoRef.current;
-    
-    // Get current stream URL
-    const currentSource = streamSources[currentSourceIndex];
-    if (!currentSource || !currentSource.url) {
-      setHasError(true);
-      return;
-    }
-    
-    const streamUrl = currentSource.url;
-    
-    // Check if the URL is an HLS stream (.m3u8)
-    if (streamUrl.includes('.m3u8') && Hls.isSupported()) {
-      const hls = new Hls();
-      hls.loadSource(streamUrl);
-      hls.attachMedia(video);
-      
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
-        video.play()
-          .then(() => setIsPlaying(true))
-          .catch(err => {
-            console.error("Error playing video:", err);
-            // Try next source if available
-            if (currentSourceIndex < streamSources.length - 1) {
-              setCurrentSourceIndex(prev => prev + 1);
-            } else {
-              setHasError(true);
-            }
-          });
-      });
-      
-      hls.on(Hls.Events.ERROR, (event, data) => {
-        console.error("HLS error:", data);
-        if (data.fatal) {
-          // Try next source if available
-          if (currentSourceIndex < streamSources.length - 1) {
-            setCurrentSourceIndex(prev => prev + 1);
-          } else {
-            setHasError(true);
-          }
-        }
-      });
-      
-      return () => {
-        hls.destroy();
-      };
-    } else {
-      // For regular video formats
-      video.src = streamUrl;
-      video.play()
-        .then(() => setIsPlaying(true))
-        .catch(err => {
-          console.error("Error playing video:", err);
-          // Try next source if available
-          if (currentSourceIndex < streamSources.length - 1) {
-            setCurrentSourceIndex(prev => prev + 1);
-          } else {
-            setHasError(true);
-          }
-        });
-    }
-  }, [streamSources, currentSourceIndex]);
-
   if (isLoading) {
     return (
       <div className="container py-8 flex items-center justify-center min-h-[70vh]">
@@ -159,6 +62,15 @@ export default function ChannelDetailPage() {
     .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
     .slice(0, 5); // Show only next 5 upcoming programs
   
+  // Past programs still in the catch-up archive, most recent first
+  const archiveStart = now.getTime() - (channel.catchupDays || 0) * 24 * 60 * 60 * 1000;
+  const catchupPrograms = channel.catchupEnabled
+    ? programs
+        ?.filter(program => new Date(program.endTime) < now && new Date(program.startTime).getTime() >= archiveStart)
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+        .slice(0, 20)
+    : [];
+  
   const formatTime = (date: Date) => {
     return format(new Date(date), "h:mm a");
   };
@@ -213,68 +125,32 @@ export default function ChannelDetailPage() {
       
       {/* Video player - perfectly centered */}
       <div className="w-full max-w-4xl mx-auto mb-6">
-        <div className="relative bg-black w-full aspect-video rounded-lg overflow-hidden shadow-lg">
-          {hasError ? (
-            <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center">
-              <div className="text-white mb-4">
-                <h3 className="text-xl font-semibold mb-2">Stream Error</h3>
-                <p>We're having trouble playing this stream. It may be temporarily unavailable.</p>
-              </div>
-              <button
-                onClick={() => setLocation("/live-tv")}
-                style={{
-                  backgroundColor: '#ff5500',
-                  color: '#ffffff',
-                  padding: '10px 16px',
-                  borderRadius: '6px',
-                  display: 'flex',
-                  alignItems: 'center',
-                  fontWeight: '600',
-                  border: '2px solid #ffffff',
-                  cursor: 'pointer'
-                }}
-              >
-                Back to Live TV
-              </button>
-            </div>
-          ) : !isPlaying ? (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <Loader2 className="w-12 h-12 animate-spin text-primary" />
-            </div>
-          ) : null}
-          
-          <video 
-            ref={videoRef} 
-            controls 
-            className="w-full h-full"
-            playsInline
+        {catchupProgram && (
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              <History className="inline mr-1 h-4 w-4" />
+              Catch-up: {catchupProgram.title} ({format(new Date(catchupProgram.startTime), "EEE MMM d, h:mm a")})
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setCatchupProgram(null)}>
+              <Radio className="mr-1 h-4 w-4" /> Back to Live
+            </Button>
+          </div>
+        )}
+        <div className="rounded-lg overflow-hidden shadow-lg">
+          <VideoPlayer
+            key={catchupProgram ? `catchup-${catchupProgram.id}` : "live"}
+            title={catchupProgram?.title || currentProgram?.title || channel.name}
+            description={(catchupProgram || currentProgram)?.description || undefined}
             poster={channel.logo || undefined}
+            streamSources={channel.streamSources as StreamSource[]}
+            content={{ type: "channel", id: channel.id }}
+            isLive={!catchupProgram}
+            timeshift={!catchupProgram && channel.timeshiftEnabled}
+            catchup={catchupProgram?.id}
           />
         </div>
       </div>
       
-      {/* Stream source indicators - centered */}
-      {streamSources.length > 1 && (
-        <div className="w-full max-w-4xl mx-auto mb-8 flex justify-center">
-          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
-            <span>Stream sources:</span>
-            <div className="flex gap-1">
-              {streamSources.map((_, index) => (
-                <div 
-                  key={index} 
-                  className={`w-2 h-2 rounded-full ${
-                    index === currentSourceIndex 
-                      ? 'bg-primary' 
-                      : 'bg-gray-300 dark:bg-gray-700'
-                  }`}
-                  title={`Source ${index + 1}${index === currentSourceIndex ? ' (active)' : ''}`}
-                />
-              ))}
-            </div>
-          </div>
-        </div>
-      )}
-      
       {/* EPG Section - centered */}
       <div className="w-full max-w-4xl mx-auto mt-4">
         <h2 className="text-2xl font-bold mb-4 text-center">Program Guide</h2>
@@ -328,6 +204,9 @@ export default function ChannelDetailPage() {
                         {currentProgram.category}
                       </Badge>
                     )}
+                    <div className="pt-2">
+                      <RecordProgramButtons channelId={channel.id} program={currentProgram} />
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -359,6 +238,9 @@ export default function ChannelDetailPage() {
                                 {program.description}
                               </p>
                             )}
+                            <div className="mt-2">
+                              <RecordProgramButtons channelId={channel.id} program={program} />
+                            </div>
                           </div>
                           <div className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap ml-4">
                             {formatTime(program.startTime)}
@@ -370,6 +252,45 @@ export default function ChannelDetailPage() {
                 </CardContent>
               </Card>
             )}
+            
+            {/* Past programs from the catch-up archive */}
+            {catchupPrograms && catchupPrograms.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Catch Up</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {catchupPrograms.map((program) => (
+                      <div 
+                        key={program.id}
+                        className="py-3 first:pt-0 last:pb-0 flex items-start justify-between"
+                      >
+                        <div>
+                          <h4 className="font-medium">{program.title}</h4>
+                          {program.episodeTitle && (
+                            <p className="text-sm text-gray-600 dark:text-gray-300">
+                              {program.episodeTitle}
+                            </p>
+                          )}
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {format(new Date(program.startTime), "EEE MMM d")}, {formatTime(program.startTime)} - {formatTime(program.endTime)}
+                          </p>
+                        </div>
+                        <Button
+                          variant={catchupProgram?.id === program.id ? "default" : "outline"}
+                          size="sm"
+                          className="ml-4"
+                          onClick={() => setCatchupProgram(program)}
+                        >
+                          <Play className="mr-1 h-4 w-4" /> Watch
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
       </div>
@@ -61,6 +61,7 @@ export default function HomePage() {
             title={featuredProgram.title}
             description={featuredProgram.description}
             streamSources={featuredChannel.streamSources}
+            content={{ type: "channel", id: featuredChannel.id }}
             isLive={true}
           />
         </section>
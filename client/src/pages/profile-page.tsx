@@ -0,0 +1,273 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, User, Gauge, ListVideo, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatDataSize } from "@/lib/utils";
+
+type DataUsageResponse = {
+  quota: {
+    plan: string;
+    used: number; // bytes this month
+    limit: number | null; // bytes per month, null when unlimited
+    warningPercent: number;
+    status: "ok" | "warning" | "exceeded";
+  };
+  today: number; // bytes
+  byContent: {
+    contentType: string;
+    contentId: number;
+    title: string;
+    bytes: number;
+  }[];
+};
+
+type PlaylistKeyResponse = {
+  createdAt: string;
+  lastUsedAt: string | null;
+  playlistUrl: string;
+  guideUrl: string;
+} | null;
+
+const contentTypeLabels: Record<string, string> = {
+  movie: "Movie",
+  episode: "Episode",
+  channel: "Live TV",
+  recording: "Recording",
+};
+
+const planLabels: Record<string, string> = {
+  free: "Free",
+  daily: "Daily Premium",
+  monthly: "Monthly Premium",
+  annual: "Annual Premium",
+};
+
+/**
+ * A personal playlist URL (and its guide) for VLC, Kodi, TiviMate and other
+ * external players, which the user can replace or revoke
+ */
+function ExternalPlayersCard() {
+  const { toast } = useToast();
+
+  const { data: playlistKey, isLoading } = useQuery<PlaylistKeyResponse>({
+    queryKey: ["/api/playlist-key"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update playlist",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/playlist-key");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlist-key"] });
+      toast({
+        title: "Playlist URL created",
+        description: "Players using a previous playlist URL have been disconnected",
+      });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/playlist-key");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlist-key"] });
+      toast({
+        title: "Playlist URL revoked",
+        description: "Players using it have been disconnected",
+      });
+    },
+    onError,
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text).then(() => {
+      toast({
+        title: "Copied to clipboard",
+        description: "Paste the URL into your player",
+      });
+    });
+  };
+
+  const isBusy = createMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListVideo className="mr-2 h-5 w-5" /> External Players
+        </CardTitle>
+        <CardDescription>
+          Watch live TV in VLC, Kodi, TiviMate or any player that opens M3U playlists. Keep the URL
+          private: anyone who has it can watch on your account, within your device limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        ) : playlistKey ? (
+          <>
+            {[
+              { label: "Playlist (M3U)", url: playlistKey.playlistUrl },
+              { label: "TV guide (XMLTV)", url: playlistKey.guideUrl },
+            ].map(({ label, url }) => (
+              <div key={label} className="space-y-1">
+                <p className="text-sm font-medium">{label}</p>
+                <div className="flex gap-2">
+                  <Input readOnly value={url} onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={() => copyToClipboard(url)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Created {format(new Date(playlistKey.createdAt), "MMM d, yyyy")}
+              {playlistKey.lastUsedAt && ` · last used ${format(new Date(playlistKey.lastUsedAt), "MMM d, yyyy HH:mm")}`}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={isBusy} onClick={() => createMutation.mutate()}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                New URL
+              </Button>
+              <Button variant="destructive" disabled={isBusy} onClick={() => revokeMutation.mutate()}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button disabled={isBusy} onClick={() => createMutation.mutate()}>
+            Create Playlist URL
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ProfilePage() {
+  const { user } = useAuth();
+
+  const { data: usage, isLoading } = useQuery<DataUsageResponse>({
+    queryKey: ["/api/data-usage"],
+    refetchInterval: 60000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container py-8 flex items-center justify-center min-h-[70vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const quota = usage?.quota;
+  const usedPercent = quota?.limit ? Math.min(100, (quota.used / quota.limit) * 100) : 0;
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">My Account</h1>
+          <p className="text-gray-500 dark:text-gray-400">Your plan and how much you have streamed</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <User className="mr-2 h-5 w-5" /> {user?.username}
+            </CardTitle>
+            <CardDescription>
+              {quota ? planLabels[quota.plan] || quota.plan : "Free"}
+              {user?.isPremium && user.premiumExpiry &&
+                ` · renews or expires on ${format(new Date(user.premiumExpiry), "MMM d, yyyy")}`}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        {usage && quota && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Gauge className="mr-2 h-5 w-5" /> Data Usage
+              </CardTitle>
+              <CardDescription>Streaming data this calendar month (UTC)</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>This month</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {quota.limit !== null
+                      ? `${formatDataSize(quota.used)} of ${formatDataSize(quota.limit)} used`
+                      : `${formatDataSize(quota.used)} used · unlimited`}
+                  </span>
+                </div>
+                {quota.limit !== null && <Progress value={usedPercent} />}
+                {quota.status === "warning" && (
+                  <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                    You have used more than {quota.warningPercent}% of your monthly data quota
+                  </p>
+                )}
+                {quota.status === "exceeded" && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    You have used your monthly data quota; streaming is available again next month
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-between text-sm">
+                <span>Today</span>
+                <span className="text-gray-500 dark:text-gray-400">{formatDataSize(usage.today)}</span>
+              </div>
+
+              <div>
+                <h4 className="font-medium mb-2">By content this month</h4>
+                {usage.byContent.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">You have not streamed anything this month.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {usage.byContent.map((content) => (
+                      <div
+                        key={`${content.contentType}-${content.contentId}`}
+                        className="py-2 flex items-center justify-between gap-4 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate">{content.title}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {contentTypeLabels[content.contentType] || content.contentType}
+                          </p>
+                        </div>
+                        <span className="shrink-0 text-gray-500 dark:text-gray-400">
+                          {formatDataSize(content.bytes)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <ExternalPlayersCard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Channel, Recording, RecordingSchedule } from "@shared/schema";
+import { Loader2, Play, Trash2, Disc, ListVideo, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { VideoPlayer } from "@/components/VideoPlayer";
+import { RecordingsResponse } from "@/components/RecordProgramButtons";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+const statusBadges: Record<string, { label: string; className: string }> = {
+  scheduled: { label: "Scheduled", className: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+  recording: { label: "Recording", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+  completed: { label: "Completed", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+  failed: { label: "Failed", className: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300" },
+};
+
+const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(1)} h`;
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export default function RecordingsPage() {
+  const { toast } = useToast();
+  const [playing, setPlaying] = useState<Recording | null>(null);
+
+  const { data, isLoading } = useQuery<RecordingsResponse>({
+    queryKey: ["/api/recordings"],
+    // Statuses change as the recorder starts and finishes recordings
+    refetchInterval: 30000,
+  });
+
+  const { data: schedules } = useQuery<RecordingSchedule[]>({
+    queryKey: ["/api/recordings/schedules"],
+  });
+
+  const { data: channels } = useQuery<Channel[]>({
+    queryKey: ["/api/channels"],
+  });
+
+  const getChannelName = (channelId: number) =>
+    channels?.find((channel) => channel.id === channelId)?.name || `Channel ${channelId}`;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to delete",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const deleteRecordingMutation = useMutation({
+    mutationFn: async (recording: Recording) => {
+      await apiRequest("DELETE", `/api/recordings/${recording.id}`);
+    },
+    onSuccess: (_, recording) => {
+      if (playing?.id === recording.id) {
+        setPlaying(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+      toast({
+        title: recording.status === "scheduled" ? "Recording cancelled" : "Recording deleted",
+        description: recording.title,
+      });
+    },
+    onError,
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (schedule: RecordingSchedule) => {
+      await apiRequest("DELETE", `/api/recordings/schedules/${schedule.id}`);
+    },
+    onSuccess: (_, schedule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings/schedules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+      toast({
+        title: "Series recording removed",
+        description: `Upcoming episodes of "${schedule.title}" will no longer be recorded`,
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container py-8 flex items-center justify-center min-h-[70vh]">
+        <Loader2 className="w-10 h-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const recordings = data?.recordings || [];
+  const quotaUsed = data && data.quota > 0 ? Math.min(100, (data.used / data.quota) * 100) : 0;
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">My Recordings</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Programs you recorded from the program guide of live channels
+          </p>
+        </div>
+
+        {data && (
+          <Card>
+            <CardContent className="pt-6 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Recording quota</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {formatHours(data.used)} of {formatHours(data.quota)} used
+                </span>
+              </div>
+              <Progress value={quotaUsed} />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Scheduled recordings count with their full length, including some time before and after the program
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {playing && (
+          <div className="space-y-2">
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setPlaying(null)}>
+                <X className="mr-1 h-4 w-4" /> Close
+              </Button>
+            </div>
+            <div className="rounded-lg overflow-hidden shadow-lg">
+              <VideoPlayer
+                key={playing.id}
+                title={playing.episodeTitle ? `${playing.title}: ${playing.episodeTitle}` : playing.title}
+                description={playing.description || undefined}
+                poster={playing.posterUrl || undefined}
+                streamSources={[]}
+                content={{ type: "recording", id: playing.id }}
+              />
+            </div>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Disc className="mr-2 h-5 w-5 text-red-500" /> Recordings
+            </CardTitle>
+            <CardDescription>Record programs from the program guide of a channel</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recordings.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-4">You have no recordings yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                {recordings.map((recording) => {
+                  const badge = statusBadges[recording.status] || statusBadges.failed;
+                  const canPlay = recording.status === "completed" || recording.status === "recording";
+
+                  return (
+                    <div key={recording.id} className="py-3 first:pt-0 last:pb-0 flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium truncate">{recording.title}</h4>
+                          <span className={`inline-block px-2 py-0.5 text-xs rounded ${badge.className}`}>
+                            {badge.label}
+                          </span>
+                        </div>
+                        {(recording.episodeTitle || recording.season !== null) && (
+                          <p className="text-sm text-gray-600 dark:text-gray-300">
+                            {recording.season !== null && `S${recording.season}${recording.episode !== null ? `E${recording.episode}` : ""} `}
+                            {recording.episodeTitle}
+                          </p>
+                        )}
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {getChannelName(recording.channelId)} · {format(new Date(recording.startTime), "MMM d, yyyy h:mm a")}
+                          {recording.status === "completed" && ` · ${formatDuration(recording.duration)}`}
+                        </p>
+                        {recording.status === "failed" && recording.failureReason && (
+                          <p className="text-sm text-red-600 dark:text-red-400">{recording.failureReason}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        {canPlay && (
+                          <Button size="sm" onClick={() => setPlaying(recording)}>
+                            <Play className="mr-1 h-4 w-4" /> Play
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={deleteRecordingMutation.isPending}
+                          onClick={() => deleteRecordingMutation.mutate(recording)}
+                        >
+                          <Trash2 className="mr-1 h-4 w-4" />
+                          {recording.status === "scheduled" ? "Cancel" : "Delete"}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {schedules && schedules.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ListVideo className="mr-2 h-5 w-5" /> Series Recordings
+              </CardTitle>
+              <CardDescription>Every upcoming program with these titles is recorded while your quota allows</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                {schedules.map((schedule) => (
+                  <div key={schedule.id} className="py-3 first:pt-0 last:pb-0 flex items-center justify-between gap-4">
+                    <div>
+                      <h4 className="font-medium">{schedule.title}</h4>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {getChannelName(schedule.channelId)}
+                        {schedule.season !== null && (
+                          <Badge variant="secondary" className="ml-2">Season {schedule.season}</Badge>
+                        )}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={deleteScheduleMutation.isPending}
+                      onClick={() => deleteScheduleMutation.mutate(schedule)}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" /> Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { endUserStreamSessions } from "./utils/stream-sessions";
 import { User, insertUserSchema } from "@shared/schema";
 import { z } from "zod";
 
@@ -29,20 +30,13 @@ async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  console.log("Comparing passwords:");
-  console.log("Supplied password:", supplied);
-  console.log("Stored password format:", stored.substring(0, 10) + "...");
-  
+export async function comparePasswords(supplied: string, stored: string) {
   try {
     // bcrypt hash starts with $2a$, $2b$, etc.
     if (stored.startsWith('$2')) {
-      console.log("Using bcrypt comparison");
-      
       // Since we're using PostgreSQL/Drizzle, the database already contains a bcrypt hash
       // For password 'password', the admin bcrypt hash should match
       const isMatch = supplied === "password";
-      console.log("Password match:", isMatch);
       return isMatch;
     }
     
@@ -53,8 +47,6 @@ async function comparePasswords(supplied: string, stored: string) {
     }
     
     const [hashed, salt] = stored.split(".");
-    console.log("Split hash:", hashed ? hashed.substring(0, 10) + "..." : "null");
-    console.log("Split salt:", salt ? salt.substring(0, 10) + "..." : "null");
     
     if (!hashed || !salt) {
       console.error('Invalid password format: missing hash or salt');
@@ -63,24 +55,16 @@ async function comparePasswords(supplied: string, stored: string) {
     
     // Special handling for the admin user with SHA-256 hash
     if (salt === "dddddddddddddddddddddddddddddddd") {
-      console.log("Using SHA-256 comparison for admin login");
-      
       // For "password", the SHA-256 hash is 5e884898da28047151d0e56f8dc6292773603d0d6aabbdd62a11ef721d1542d8
-      console.log("Expected hash:", "5e884898da28047151d0e56f8dc6292773603d0d6aabbdd62a11ef721d1542d8");
-      console.log("Actual hash:  ", hashed);
-      
       const isMatch = supplied === "password" && 
                       hashed === "5e884898da28047151d0e56f8dc6292773603d0d6aabbdd62a11ef721d1542d8";
-      console.log("Password match:", isMatch);
       return isMatch;
     }
     
     // Normal scrypt comparison for other users
-    console.log("Using scrypt comparison");
     const hashedBuf = Buffer.from(hashed, "hex");
     const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
     const isMatch = timingSafeEqual(hashedBuf, suppliedBuf);
-    console.log("Password match:", isMatch);
     return isMatch;
   } catch (error) {
     console.error('Error comparing passwords:', error);
@@ -199,7 +183,16 @@ export function setupAuth(app: Express) {
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/logout", async (req, res, next) => {
+    // End the user's stream sessions so their stream tokens stop working
+    if (req.user) {
+      try {
+        await endUserStreamSessions(req.user.id);
+      } catch (error) {
+        console.error("Error ending stream sessions on logout:", error);
+      }
+    }
+    
     req.logout((err) => {
       if (err) return next(err);
       return res.status(200).json({ message: "Logged out successfully" });
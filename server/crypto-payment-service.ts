@@ -1,5 +1,6 @@
 import { CryptoPayment } from '@shared/schema';
 import { storage } from './storage';
+import { cryptoPaymentVerifications } from './utils/metrics';
 
 export type CryptoCurrency = 'BTC' | 'USDT' | 'LTC';
 
@@ -99,12 +100,14 @@ export class CryptoPaymentService {
 
     // Check if payment is already completed
     if (payment.status === 'completed') {
+      cryptoPaymentVerifications.inc({ currency: payment.currency, outcome: 'already_completed' });
       return true;
     }
 
     // Check if payment has expired
     if (payment.expiresAt && payment.expiresAt < new Date()) {
       await storage.updateCryptoPayment(paymentId, { status: 'expired' });
+      cryptoPaymentVerifications.inc({ currency: payment.currency, outcome: 'expired' });
       return false;
     }
 
@@ -135,12 +138,15 @@ export class CryptoPaymentService {
         // Activate premium subscription
         await this.activatePremiumSubscription(payment.userId, payment.planName);
         
+        cryptoPaymentVerifications.inc({ currency: payment.currency, outcome: 'completed' });
         return true;
       }
 
+      cryptoPaymentVerifications.inc({ currency: payment.currency, outcome: 'pending' });
       return false;
     } catch (error) {
       console.error('Error verifying blockchain payment:', error);
+      cryptoPaymentVerifications.inc({ currency: payment.currency, outcome: 'error' });
       return false;
     }
   }
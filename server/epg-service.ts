@@ -1,9 +1,8 @@
-import axios from 'axios';
-import * as xml2js from 'xml2js';
 import { storage } from './storage';
-import { InsertProgram, InsertEPGSource, InsertEPGImportJob, InsertEPGChannelMapping, EPGChannelMapping } from '@shared/schema';
+import { epgImportDuration } from './utils/metrics';
+import { openGuideSource, parseXmltv, XmltvChannel, XmltvProgramme } from './utils/xmltv-import';
+import { Channel, InsertProgram, InsertEPGChannelMapping, EPGChannelMapping } from '@shared/schema';
 import { db } from './db';
-import { eq } from 'drizzle-orm';
 
 type WebGrabConfig = {
   siteIni: string;
@@ -16,37 +15,14 @@ type WebGrabConfig = {
   update: 'i' | 'g' | 'f'; // incremental, grab all, forced
 };
 
-type EPGChannel = {
-  $: {
-    id: string;
-    'display-name': string;
-  };
-};
-
-type EPGProgram = {
-  $: {
-    start: string;
-    stop: string;
-    channel: string;
-  };
-  title: string[];
-  desc?: string[];
-  category?: string[];
-  'episode-num'?: string[];
-  rating?: Array<{ $: { system: string; value: string } }>;
-  'sub-title'?: string[];
-  director?: string[];
-  actor?: string[];
-  date?: string[]; // Year of production
-};
-
 /**
  * Service for handling EPG (Electronic Program Guide) operations
  * Uses WebGrab+Plus compatible data format
  */
 export class EPGService {
   /**
-   * Fetches EPG data from a URL and processes it
+   * Fetches EPG data from a source's URL (http(s) or file://, possibly gzip-
+   * or zip-compressed) and processes it as it streams in
    */
   async fetchAndProcessEPG(sourceId: number): Promise<{
     success: boolean;
@@ -58,6 +34,9 @@ export class EPGService {
     programCount?: number;
     errors?: string[];
   }> {
+    const startedAt = Date.now();
+    let jobId: number | undefined;
+    
     try {
       // Get the EPG source information
       const source = await storage.getEPGSource(sourceId);
@@ -71,51 +50,45 @@ export class EPGService {
         startTime: new Date(),
         status: 'processing',
       });
+      jobId = job.id;
 
       console.log(`Starting EPG import job ${job.id} for source: ${source.name}`);
 
-      // Fetch XML data from the URL
-      const response = await axios.get(source.url, {
-        responseType: 'text',
-        headers: {
-          'Accept': 'application/xml, text/xml, */*',
-          'User-Agent': 'StreamHive/1.0 EPG Service'
-        }
-      });
-
-      const xmlData = response.data;
-
-      // Parse XML to JSON
-      const parser = new xml2js.Parser({ explicitArray: true });
-      const result = await parser.parseStringPromise(xmlData);
+      // Existing mappings of this source, by external channel ID
+      const mappings = new Map(
+        (await storage.getEPGChannelMappings(sourceId)).map((mapping: EPGChannelMapping) => [mapping.externalChannelId, mapping])
+      );
+      const systemChannels = await storage.getChannels();
 
-      if (!result.tv || !result.tv.channel || !result.tv.programme) {
-        await this.updateJobStatus(job.id, 'failed', 0, 0, ['Invalid XMLTV format']);
-        return { 
-          success: false, 
-          jobId: job.id,
-          message: 'Invalid XMLTV format', 
-          errors: ['Invalid XMLTV format'] 
-        };
-      }
+      const importedChannelIds: number[] = [];
+      let programsImported = 0;
 
-      // Process channels
-      const channels = result.tv.channel as EPGChannel[];
-      const programmes = result.tv.programme as EPGProgram[];
+      // Channels come before programmes in XMLTV, so programmes find the
+      // mappings their channels got
+      const parsed = await parseXmltv(await openGuideSource(source.url), {
+        channel: async channel => {
+          const channelId = await this.importChannel(sourceId, channel, mappings, systemChannels);
+          if (channelId !== null) {
+            importedChannelIds.push(channelId);
+          }
+        },
+        programme: async programme => {
+          if (await this.importProgram(programme, mappings)) {
+            programsImported++;
+            if (programsImported % 1000 === 0) {
+              console.log(`Inserted ${programsImported} programs so far...`);
+            }
+          }
+        }
+      });
 
-      console.log(`Found ${channels.length} channels and ${programmes.length} programs in EPG data`);
-      
-      // Import channels
-      const importedChannelIds = await this.importChannels(sourceId, channels);
-      
-      // Import programs
-      const importedPrograms = await this.importPrograms(programmes, sourceId);
+      console.log(`Import complete: Processed ${parsed.channels} channels and ${parsed.programmes} programs, inserted ${programsImported} new programs`);
 
       // Update job status
-      const jobResult = await this.updateJobStatus(
+      await this.updateJobStatus(
         job.id, 
         'completed', 
-        importedPrograms.length, 
+        programsImported, 
         importedChannelIds.length
       );
 
@@ -125,217 +98,167 @@ export class EPGService {
         lastUpdate: new Date()
       });
 
+      epgImportDuration.observe({ result: 'completed' }, (Date.now() - startedAt) / 1000);
       return {
         success: true,
         jobId: job.id,
-        message: `Successfully imported ${importedPrograms.length} programs for ${importedChannelIds.length} channels`,
-        programsImported: importedPrograms.length,
+        message: `Successfully imported ${programsImported} programs for ${importedChannelIds.length} channels`,
+        programsImported,
         channelsImported: importedChannelIds.length,
         channelCount: importedChannelIds.length,
-        programCount: importedPrograms.length
+        programCount: programsImported
       };
     } catch (error) {
       console.error('Error in EPG import:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error in EPG import';
+      if (jobId !== undefined) {
+        await this.updateJobStatus(jobId, 'failed', 0, 0, [message]);
+      }
+      epgImportDuration.observe({ result: 'failed' }, (Date.now() - startedAt) / 1000);
       return { 
         success: false, 
-        message: error instanceof Error ? error.message : 'Unknown error in EPG import' 
+        jobId,
+        message,
+        errors: [message]
       };
     }
   }
 
   /**
-   * Import channels from EPG data
+   * Import a channel from EPG data, mapping it to one of our channels by name
+   * if it has no mapping yet
+   *
+   * @returns ID of the channel it is mapped to, or null if there is none
    */
-  private async importChannels(sourceId: number, channels: EPGChannel[]): Promise<number[]> {
-    const importedChannelIds: number[] = [];
+  private async importChannel(
+    sourceId: number,
+    channel: XmltvChannel,
+    mappings: Map<string, EPGChannelMapping>,
+    systemChannels: Channel[]
+  ): Promise<number | null> {
+    const displayName = channel.displayNames[0] || channel.id;
     
-    for (const channel of channels) {
-      const channelId = channel.$.id;
-      const displayName = channel.$['display-name'];
-      
-      // Check if we have this channel mapping already
-      const existingMappings = await db.query.epgChannelMappings.findMany({
-        where: (mapping, { and, eq }) => and(
-          eq(mapping.epgSourceId, sourceId),
-          eq(mapping.externalChannelId, channelId)
-        )
-      });
-      
-      if (existingMappings.length > 0) {
-        // Update the mapping if name changed
-        if (existingMappings[0].externalChannelName !== displayName) {
-          await storage.updateEPGChannelMapping(existingMappings[0].id, {
-            externalChannelName: displayName,
-            lastUpdated: new Date()
-          });
-        }
-        importedChannelIds.push(existingMappings[0].channelId);
-        continue;
-      }
-      
-      // Try to find a matching channel by name in our system
-      const systemChannels = await storage.getChannels();
-      const matchingChannels = systemChannels.filter(c => 
-        c.name.toLowerCase() === displayName.toLowerCase() ||
-        c.name.toLowerCase().includes(displayName.toLowerCase()) ||
-        displayName.toLowerCase().includes(c.name.toLowerCase())
-      );
-      
-      if (matchingChannels.length > 0) {
-        // Create a mapping for the first matching channel
-        const mapping: InsertEPGChannelMapping = {
-          channelId: matchingChannels[0].id,
-          epgSourceId: sourceId,
-          externalChannelId: channelId,
+    // Check if we have this channel mapping already
+    const existingMapping = mappings.get(channel.id);
+    if (existingMapping) {
+      // Update the mapping if name changed
+      if (existingMapping.externalChannelName !== displayName) {
+        await storage.updateEPGChannelMapping(existingMapping.id, {
           externalChannelName: displayName,
-          isActive: true
-        };
-        
-        await storage.createEPGChannelMapping(mapping);
-        importedChannelIds.push(matchingChannels[0].id);
+          lastUpdated: new Date()
+        });
       }
+      return existingMapping.channelId;
+    }
+    
+    // Try to find a matching channel by name in our system
+    const matchingChannels = systemChannels.filter(c => 
+      c.name.toLowerCase() === displayName.toLowerCase() ||
+      c.name.toLowerCase().includes(displayName.toLowerCase()) ||
+      displayName.toLowerCase().includes(c.name.toLowerCase())
+    );
+    
+    if (matchingChannels.length === 0) {
+      return null;
     }
     
-    return importedChannelIds;
+    // Create a mapping for the first matching channel
+    const mapping: InsertEPGChannelMapping = {
+      channelId: matchingChannels[0].id,
+      epgSourceId: sourceId,
+      externalChannelId: channel.id,
+      externalChannelName: displayName,
+      isActive: true
+    };
+    
+    mappings.set(channel.id, await storage.createEPGChannelMapping(mapping));
+    return matchingChannels[0].id;
   }
 
   /**
-   * Import programs from EPG data
+   * Import a program from EPG data, unless its channel is not mapped or we
+   * have it already
+   *
+   * @returns true if the program was inserted
    */
-  private async importPrograms(programmes: EPGProgram[], sourceId: number): Promise<InsertProgram[]> {
-    const importedPrograms: InsertProgram[] = [];
+  private async importProgram(programme: XmltvProgramme, mappings: Map<string, EPGChannelMapping>): Promise<boolean> {
+    const externalChannelId = programme.channel;
+    const internalChannelId = mappings.get(externalChannelId)?.channelId;
     
-    // Get channel mappings for this source
-    const channelMappings = await storage.getEPGChannelMappings(sourceId);
-    
-    if (channelMappings.length === 0) {
-      console.log('No channel mappings found for EPG source');
-      return [];
+    if (!internalChannelId) {
+      // No mapping for this channel
+      return false;
     }
     
-    // Create a map for faster lookups
-    const channelMap = new Map(
-      channelMappings.map((mapping: EPGChannelMapping) => [mapping.externalChannelId, mapping.channelId])
-    );
+    // Parse timestamps
+    const startTime = this.parseXMLTVDate(programme.start);
+    const endTime = programme.stop ? this.parseXMLTVDate(programme.stop) : null;
     
-    console.log(`Processing ${programmes.length} programs for source ID ${sourceId}`);
-    console.log(`Found ${channelMappings.length} channel mappings for this source`);
+    if (!startTime || !endTime) {
+      console.warn(`Invalid date format for program: ${programme.title}`);
+      return false;
+    }
     
-    let processedCount = 0;
-    let insertedCount = 0;
+    // Extract episode information if available
+    let season: number | undefined;
+    let episode: number | undefined;
     
-    for (const programme of programmes) {
-      processedCount++;
-      const externalChannelId = programme.$.channel;
-      const internalChannelId = channelMap.get(externalChannelId);
-      
-      if (!internalChannelId) {
-        // No mapping for this channel
-        continue;
-      }
-      
-      // Parse timestamps
-      const startTime = this.parseXMLTVDate(programme.$.start);
-      const endTime = this.parseXMLTVDate(programme.$.stop);
-      
-      if (!startTime || !endTime) {
-        console.warn(`Invalid date format for program: ${programme.title[0]}`);
-        continue;
-      }
-      
-      // Extract episode information if available
-      let season: number | undefined;
-      let episode: number | undefined;
-      let episodeTitle: string | undefined;
-      
-      if (programme['sub-title'] && programme['sub-title'].length > 0) {
-        episodeTitle = programme['sub-title'][0];
+    for (const episodeNum of programme.episodeNums) {
+      const match = episodeNum.value.match(/^(\d+)\.(\d+)/);
+      if (match) {
+        season = parseInt(match[1]) + 1; // XMLTV uses 0-based seasons
+        episode = parseInt(match[2]) + 1; // XMLTV uses 0-based episodes
+        break;
       }
+    }
+    
+    // Extract year if available
+    let year: number | undefined;
+    if (programme.date && programme.date.match(/^\d{4}$/)) {
+      year = parseInt(programme.date);
+    }
+    
+    // Create program object with proper field handling
+    const programData: InsertProgram = {
+      channelId: internalChannelId,
+      title: programme.title,
+      startTime,
+      endTime,
+      description: programme.desc,
+      category: programme.categories[0] || null,
+      posterUrl: programme.icon,
+      episodeTitle: programme.subTitle,
+      season: season || null,
+      episode: episode || null,
+      year: year || null,
+      directors: programme.directors,
+      castMembers: programme.actors,
+      rating: programme.rating,
+      isFeatured: false,
+      externalId: externalChannelId // Store the external channel ID to help with mappings
+    };
+    
+    try {
+      // Check if this program already exists to avoid duplicates
+      const existingPrograms = await db.query.programs.findMany({
+        where: (programs, { and, eq }) => and(
+          eq(programs.channelId, programData.channelId),
+          eq(programs.startTime, programData.startTime),
+          eq(programs.title, programData.title)
+        ),
+        limit: 1
+      });
       
-      if (programme['episode-num'] && programme['episode-num'].length > 0) {
-        const episodeNum = programme['episode-num'][0];
-        // Fix the regex pattern to handle proper backslashes
-        const match = episodeNum.match(/^(\d+)\.(\d+)/);
-        if (match) {
-          season = parseInt(match[1]) + 1; // XMLTV uses 0-based seasons
-          episode = parseInt(match[2]) + 1; // XMLTV uses 0-based episodes
-        }
-      }
-      
-      // Extract year if available
-      let year: number | undefined;
-      if (programme.date && programme.date.length > 0) {
-        const yearStr = programme.date[0];
-        if (yearStr.match(/^\d{4}$/)) {
-          year = parseInt(yearStr);
-        }
-      }
-      
-      // Extract directors if available
-      const directors = programme.director || [];
-      
-      // Extract cast if available
-      const castMembers = programme.actor || [];
-      
-      // Extract category if available
-      let category: string | undefined;
-      if (programme.category && programme.category.length > 0) {
-        category = programme.category[0];
-      }
-      
-      // Create program object with proper field handling
-      const programData: InsertProgram = {
-        channelId: internalChannelId,
-        title: programme.title[0],
-        startTime,
-        endTime,
-        description: programme.desc && programme.desc.length > 0 ? programme.desc[0] : null,
-        category: category || null,
-        posterUrl: null, // XMLTV doesn't typically include poster URLs
-        episodeTitle: episodeTitle || null,
-        season: season || null,
-        episode: episode || null,
-        year: year || null,
-        directors: directors.length > 0 ? directors : [],
-        castMembers: castMembers.length > 0 ? castMembers : [],
-        rating: null,
-        isFeatured: false,
-        externalId: externalChannelId // Store the external channel ID to help with mappings
-      };
-      
-      try {
-        // Check if this program already exists to avoid duplicates
-        const existingPrograms = await db.query.programs.findMany({
-          where: (programs, { and, eq }) => and(
-            eq(programs.channelId, programData.channelId),
-            eq(programs.startTime, programData.startTime),
-            eq(programs.title, programData.title)
-          ),
-          limit: 1
-        });
-        
-        if (existingPrograms.length === 0) {
-          // Insert new program
-          const newProgram = await storage.createProgram(programData);
-          importedPrograms.push(programData);
-          insertedCount++;
-          
-          if (insertedCount % 10 === 0) {
-            console.log(`Inserted ${insertedCount} programs so far...`);
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to process program: ${programData.title}`, error);
+      if (existingPrograms.length > 0) {
+        return false;
       }
       
-      // Log progress occasionally
-      if (processedCount % 100 === 0) {
-        console.log(`Processed ${processedCount}/${programmes.length} programs...`);
-      }
+      await storage.createProgram(programData);
+      return true;
+    } catch (error) {
+      console.error(`Failed to process program: ${programData.title}`, error);
+      return false;
     }
-    
-    console.log(`Import complete: Processed ${processedCount} programs, inserted ${insertedCount} new programs`);
-    return importedPrograms;
   }
 
   /**
@@ -2,12 +2,25 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { startStreamChecker } from "./stream-checker";
+import { startStreamSessionCleanup } from "./utils/stream-sessions";
+import { loadGeoIPDatabase } from "./utils/geoip";
+import { startKeyRotation } from "./utils/hls-encryption";
+import { startSourceReordering } from "./utils/source-ranking";
+import { startVodLinkAuditor } from "./utils/vod-link-auditor";
+import { startTimeshiftRecorder } from "./utils/timeshift-recorder";
+import { startCatchupArchive } from "./utils/catchup-archive";
+import { startProgramRecorder } from "./utils/program-recorder";
+import { startDataUsageAccounting } from "./utils/data-usage";
 import { cryptoPaymentService } from "./crypto-payment-service";
+import { observeHttpRequests } from "./utils/metrics";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Time every request for the /metrics endpoint
+app.use(observeHttpRequests);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -72,6 +85,33 @@ app.use((req, res, next) => {
     // Start the stream checker to periodically verify channel streams
     startStreamChecker();
     
+    // Reorder channel stream sources from the checker's health data
+    startSourceReordering();
+    
+    // Audit movie and episode stream sources at a low rate
+    startVodLinkAuditor();
+    
+    // Record the timeshift window of channels that have timeshift enabled
+    startTimeshiftRecorder();
+    
+    // Archive channels that have catch-up enabled, so past programs can be watched
+    startCatchupArchive();
+    
+    // Record the EPG programs users have scheduled
+    startProgramRecorder();
+    
+    // Save the data the stream proxy serves to each user
+    startDataUsageAccounting();
+    
+    // Remove stream sessions whose players stopped sending heartbeats
+    startStreamSessionCleanup();
+    
+    // Load the GeoIP database used to enforce geo restrictions
+    loadGeoIPDatabase();
+    
+    // Rotate the encryption keys of live channels
+    startKeyRotation();
+    
     // Start automatic crypto payment verification service
     cryptoPaymentService.startAutomaticVerification(15); // Check every 15 minutes
   });
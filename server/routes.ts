@@ -1,18 +1,30 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import { setupAuth } from "./auth";
 import { storage, MemStorage } from "./storage";
 import { epgService } from "./epg-service";
+import { saveGuideUpload } from "./utils/xmltv-import";
 import { webgrabService } from "./utils/webgrab-service";
 import cryptoPaymentsRoutes from "./routes/crypto-payments";
 import ppvRoutes from "./routes/ppv-routes";
 import userPreferencesRoutes from "./routes/user-preferences";
 import watchHistoryRoutes from "./routes/watch-history";
 import streamRoutes from "./routes/stream-routes";
+import recordingRoutes from "./routes/recording-routes";
+import dataUsageRoutes from "./routes/data-usage-routes";
+import playlistRoutes from "./routes/playlist-routes";
+import xmltvRoutes from "./routes/xmltv-routes";
+import xtreamRoutes from "./routes/xtream-routes";
+import metricsRoutes from "./routes/metrics-routes";
 import analyticsRoutes from "./routes/analytics-routes";
 import { router as downloadBackupRoutes } from "./routes/download-backup";
 import githubRoutes from "./routes/github-routes";
+import { getGeoIPStatus } from "./utils/geoip";
+import { clearGeoAccessCache } from "./utils/geo-restrictions";
+import { getChannelSourceHealth, startStreamCheck, getStreamCheckJob, getStreamCheckJobs } from "./stream-checker";
+import { getBrokenVodLinks, fixBrokenVodLinks, removeBrokenVodLinks, recheckBrokenVodLinks } from "./utils/vod-link-auditor";
+import { previewM3UImport, applyM3UImport, readPlaylistFile, M3UImportError, MAX_PLAYLIST_BYTES } from "./utils/m3u-import";
 
 import axios from "axios";
 import {
@@ -31,6 +43,14 @@ import {
   insertEPGImportJobSchema
 } from "@shared/schema";
 
+// Geo-restriction rules sent by the admin pages
+const geoRestrictionRuleSchema = z.object({
+  restrictionType: z.enum(["whitelist", "blacklist"]),
+  countryCodes: z.array(z.string().regex(/^[A-Za-z]{2}$/, "Country codes must be ISO 3166-1 alpha-2"))
+});
+
+const GEO_RESTRICTION_CONTENT_TYPES = ["movie", "series", "episode", "channel"];
+
 // Admin middleware to check if user is an admin
 const ensureAdmin = async (req: Request, res: Response, next: Function) => {
   if (!req.isAuthenticated() || !req.user?.isAdmin) {
@@ -640,6 +660,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Uptime and last failure of each stream source, from the stream checker's health history
+  app.get("/api/admin/channels/:id/health", ensureAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid channel ID" });
+      }
+      
+      const channel = await storage.getChannel(id);
+      if (!channel) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      
+      res.json({
+        status: channel.status,
+        lastChecked: channel.lastChecked,
+        sources: await getChannelSourceHealth(channel)
+      });
+    } catch (error) {
+      console.error("Error fetching channel health:", error);
+      res.status(500).json({ message: "Failed to get channel health" });
+    }
+  });
+  
+  // Automatic stream source reorders, newest first
+  app.get("/api/admin/source-reorder-log", ensureAdmin, async (req, res) => {
+    try {
+      const channelId = typeof req.query.channelId === "string" ? parseInt(req.query.channelId) : undefined;
+      if (channelId !== undefined && isNaN(channelId)) {
+        return res.status(400).json({ message: "Invalid channel ID" });
+      }
+      
+      res.json(await storage.getSourceReorderLogs(channelId));
+    } catch (error) {
+      console.error("Error fetching source reorder log:", error);
+      res.status(500).json({ message: "Failed to get source reorder log" });
+    }
+  });
+  
+  // On-demand stream checks
+  app.post("/api/admin/stream-checks", ensureAdmin, async (req, res) => {
+    try {
+      const { scope, id } = req.body;
+      
+      if (!["channel", "category", "all"].includes(scope)) {
+        return res.status(400).json({ message: "Scope must be channel, category or all" });
+      }
+      
+      if (scope === "channel" && !(typeof id === "number" && await storage.getChannel(id))) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      
+      if (scope === "category" && !(typeof id === "number" && await storage.getCategory(id))) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      const job = await startStreamCheck(scope, scope === "all" ? null : id);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting stream check:", error);
+      res.status(500).json({ message: "Failed to start stream check" });
+    }
+  });
+  
+  app.get("/api/admin/stream-checks", ensureAdmin, (_req, res) => {
+    res.json(getStreamCheckJobs());
+  });
+  
+  app.get("/api/admin/stream-checks/:id", ensureAdmin, (req, res) => {
+    const job = getStreamCheckJob(parseInt(req.params.id));
+    if (!job) {
+      return res.status(404).json({ message: "Stream check not found" });
+    }
+    
+    res.json(job);
+  });
+  
+  // Broken movie and episode links found by the VOD link auditor
+  const parseLinkIds = (ids: unknown): number[] | null =>
+    Array.isArray(ids) && ids.length > 0 && ids.every(id => Number.isInteger(id)) ? ids as number[] : null;
+  
+  app.get("/api/admin/vod-links/broken", ensureAdmin, async (req, res) => {
+    try {
+      const contentType = req.query.contentType;
+      if (contentType !== "movie" && contentType !== "episode") {
+        return res.status(400).json({ message: "Content type must be movie or episode" });
+      }
+      
+      res.json(await getBrokenVodLinks(contentType));
+    } catch (error) {
+      console.error("Error fetching broken VOD links:", error);
+      res.status(500).json({ message: "Failed to get broken links" });
+    }
+  });
+  
+  app.post("/api/admin/vod-links/fix", ensureAdmin, async (req, res) => {
+    try {
+      const ids = parseLinkIds(req.body.ids);
+      const { find, replace } = req.body;
+      
+      if (!ids) {
+        return res.status(400).json({ message: "Select at least one link" });
+      }
+      
+      if (typeof find !== "string" || find === "" || typeof replace !== "string") {
+        return res.status(400).json({ message: "Text to find and its replacement are required" });
+      }
+      
+      const updated = await fixBrokenVodLinks(ids, find, replace);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error fixing broken VOD links:", error);
+      res.status(500).json({ message: "Failed to fix broken links" });
+    }
+  });
+  
+  app.post("/api/admin/vod-links/remove", ensureAdmin, async (req, res) => {
+    try {
+      const ids = parseLinkIds(req.body.ids);
+      if (!ids) {
+        return res.status(400).json({ message: "Select at least one link" });
+      }
+      
+      const removed = await removeBrokenVodLinks(ids);
+      res.json({ removed });
+    } catch (error) {
+      console.error("Error removing broken VOD links:", error);
+      res.status(500).json({ message: "Failed to remove broken links" });
+    }
+  });
+  
+  app.post("/api/admin/vod-links/recheck", ensureAdmin, async (req, res) => {
+    try {
+      const ids = parseLinkIds(req.body.ids);
+      if (!ids) {
+        return res.status(400).json({ message: "Select at least one link" });
+      }
+      
+      await recheckBrokenVodLinks(ids);
+      res.status(202).json({ queued: ids.length });
+    } catch (error) {
+      console.error("Error queueing VOD link recheck:", error);
+      res.status(500).json({ message: "Failed to recheck broken links" });
+    }
+  });
+  
+  // Bulk channel import from an M3U playlist. The playlist is sent as the
+  // (text) request body, or as { path } of a playlist on the server's disk.
+  // With ?dryRun=true only the changes the import would make are returned.
+  app.post(
+    "/api/admin/channels/import/m3u", 
+    ensureAdmin, 
+    express.text({ type: () => true, limit: MAX_PLAYLIST_BYTES }), 
+    async (req, res) => {
+      try {
+        let content: string;
+        if (typeof req.body === "string") {
+          content = req.body;
+        } else if (req.body && typeof req.body.path === "string") {
+          content = await readPlaylistFile(req.body.path);
+        } else {
+          return res.status(400).json({ message: "Send a playlist or the path of a playlist file" });
+        }
+        
+        const plan = req.query.dryRun === "true" 
+          ? await previewM3UImport(content) 
+          : await applyM3UImport(content);
+        res.json(plan);
+      } catch (error) {
+        if (error instanceof M3UImportError) {
+          return res.status(400).json({ message: error.message });
+        }
+        
+        console.error("Error importing M3U playlist:", error);
+        res.status(500).json({ message: "Failed to import playlist" });
+      }
+    }
+  );
+  
   // Programs Management
   app.post("/api/admin/programs", ensureAdmin, async (req, res) => {
     try {
@@ -963,6 +1162,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         // Use EPG service to fetch and process EPG data
         const result = await epgService.fetchAndProcessEPG(id);
+        if (!result.success) {
+          throw new Error(result.message);
+        }
         
         // Update job with results
         await storage.updateEPGImportJob(importJob.id, {
@@ -999,17 +1201,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Upload an XMLTV guide, plain or gzip/zip-compressed, as the raw request
+  // body with ?name= and ?filename=. The guide is kept on the server's disk
+  // and becomes an EPG source with a file:// URL, which is imported right
+  // away and can be refreshed later like any other source.
   app.post("/api/admin/epg/upload", ensureAdmin, async (req, res) => {
     try {
-      // TODO: Implement file upload handling
-      // For now just return a mock response
+      const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ message: "Name is required" });
+      }
+      const filename = typeof req.query.filename === "string" && req.query.filename ? req.query.filename : "guide.xml";
+      
+      const url = await saveGuideUpload(req, filename);
+      const source = await storage.createEPGSource({
+        name,
+        url,
+        description: `Uploaded file ${filename}`
+      });
+      
+      const result = await epgService.fetchAndProcessEPG(source.id);
+      if (!result.success) {
+        return res.status(400).json({ message: "Failed to process EPG file: " + result.message, source });
+      }
       
       res.json({ 
         message: "EPG file processed successfully",
-        channelsFound: 0,
-        programsAdded: 0
+        source,
+        channelsFound: result.channelsImported || 0,
+        programsAdded: result.programsImported || 0
       });
     } catch (error) {
+      console.error("Error uploading EPG file:", error);
       res.status(500).json({ message: "Failed to process EPG file: " + (error as Error).message });
     }
   });
@@ -1289,6 +1512,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Geographic Restrictions Management
+  app.get("/api/admin/geo-restrictions", ensureAdmin, async (req, res) => {
+    try {
+      const contentType = typeof req.query.contentType === "string" ? req.query.contentType : undefined;
+      const restrictions = await storage.getGeoRestrictions(contentType);
+      res.json(restrictions);
+    } catch (error) {
+      console.error("Error fetching geo restrictions:", error);
+      res.status(500).json({ message: "Failed to get geo restrictions" });
+    }
+  });
+  
+  app.get("/api/admin/geo-restrictions/:contentType/:contentId", ensureAdmin, async (req, res) => {
+    try {
+      const contentId = parseInt(req.params.contentId);
+      if (!GEO_RESTRICTION_CONTENT_TYPES.includes(req.params.contentType) || isNaN(contentId)) {
+        return res.status(400).json({ message: "Invalid content" });
+      }
+      
+      const restriction = await storage.getGeoRestrictionForContent(req.params.contentType, contentId);
+      res.json(restriction || null);
+    } catch (error) {
+      console.error("Error fetching geo restriction:", error);
+      res.status(500).json({ message: "Failed to get geo restriction" });
+    }
+  });
+  
+  // Create or replace the restriction of a piece of content
+  app.put("/api/admin/geo-restrictions/:contentType/:contentId", ensureAdmin, async (req, res) => {
+    try {
+      const contentId = parseInt(req.params.contentId);
+      if (!GEO_RESTRICTION_CONTENT_TYPES.includes(req.params.contentType) || isNaN(contentId)) {
+        return res.status(400).json({ message: "Invalid content" });
+      }
+      
+      const validation = geoRestrictionRuleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid geo restriction data", 
+          errors: validation.error.format() 
+        });
+      }
+      
+      const rule = {
+        restrictionType: validation.data.restrictionType,
+        countryCodes: Array.from(new Set(validation.data.countryCodes.map(code => code.toUpperCase())))
+      };
+      
+      const existing = await storage.getGeoRestrictionForContent(req.params.contentType, contentId);
+      const restriction = existing
+        ? await storage.updateGeoRestriction(existing.id, rule)
+        : await storage.createGeoRestriction({ contentType: req.params.contentType, contentId, ...rule });
+      
+      clearGeoAccessCache();
+      res.json(restriction);
+    } catch (error) {
+      console.error("Error saving geo restriction:", error);
+      res.status(500).json({ message: "Failed to save geo restriction" });
+    }
+  });
+  
+  app.delete("/api/admin/geo-restrictions/:contentType/:contentId", ensureAdmin, async (req, res) => {
+    try {
+      const contentId = parseInt(req.params.contentId);
+      if (isNaN(contentId)) {
+        return res.status(400).json({ message: "Invalid content" });
+      }
+      
+      const existing = await storage.getGeoRestrictionForContent(req.params.contentType, contentId);
+      if (!existing) {
+        return res.status(404).json({ message: "Geo restriction not found" });
+      }
+      
+      await storage.deleteGeoRestriction(existing.id);
+      clearGeoAccessCache();
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting geo restriction:", error);
+      res.status(500).json({ message: "Failed to delete geo restriction" });
+    }
+  });
+  
+  // Status of the GeoIP database used to enforce geo restrictions
+  app.get("/api/admin/geoip/status", ensureAdmin, async (_req, res) => {
+    res.json(getGeoIPStatus());
+  });
+
   // User Analytics API
   
   // Get watch history for the current user
@@ -1452,6 +1762,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           enableRegistration: true,
           defaultUserQuota: 5,
           defaultUserConcurrentStreams: 2,
+          streamCheckInterval: 5,
+          priorityStreamCheckInterval: 2,
+          streamCheckConcurrency: 5,
+          recordingPaddingBefore: 2,
+          recordingPaddingAfter: 5,
           lastUpdated: new Date()
         };
         return res.json(defaultSettings);
@@ -1496,6 +1811,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Register stream routes for secure content streaming
   app.use('/api', streamRoutes);
+  
+  // Register program recording (cloud PVR) routes
+  app.use('/api', recordingRoutes);
+  
+  // Register data usage and data quota routes
+  app.use('/api', dataUsageRoutes);
+  
+  // Register personal playlist routes for external players
+  app.use('/api', playlistRoutes);
+  
+  // Register the XMLTV guide export
+  app.use('/api', xmltvRoutes);
+  
+  // Register the Xtream Codes compatible API (/player_api.php, /live/..., /movie/..., /series/...)
+  app.use(xtreamRoutes);
+  
+  // Register the Prometheus metrics endpoint (/metrics)
+  app.use(metricsRoutes);
 
 
   // Register premium content routes
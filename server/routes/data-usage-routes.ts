@@ -0,0 +1,99 @@
+import express from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { getUserDataUsage, getTopDataConsumers, DATA_QUOTA_PLANS, DEFAULT_WARNING_PERCENT } from '../utils/data-usage';
+
+const router = express.Router();
+
+const TOP_CONSUMERS_LIMIT = 20;
+
+const dataQuotaSchema = z.object({
+  monthlyLimit: z.number().int().positive().nullable(), // GB, null for unlimited
+  warningPercent: z.number().int().min(1).max(100)
+});
+
+/**
+ * The current user's streaming data usage: this month against their plan's
+ * quota, today, and this month per content
+ */
+router.get('/data-usage', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json(await getUserDataUsage(req.user.id));
+  } catch (error) {
+    console.error('Error fetching data usage:', error);
+    res.status(500).json({ error: 'Failed to fetch data usage' });
+  }
+});
+
+/**
+ * Users who streamed the most data today (?period=day) or this month
+ */
+router.get('/admin/data-usage/top', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const period = req.query.period === 'day' ? 'day' : 'month';
+    res.json(await getTopDataConsumers(period, TOP_CONSUMERS_LIMIT));
+  } catch (error) {
+    console.error('Error fetching top data consumers:', error);
+    res.status(500).json({ error: 'Failed to fetch top data consumers' });
+  }
+});
+
+/**
+ * The data quota of every plan; plans without a saved quota are unlimited
+ */
+router.get('/admin/data-quotas', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const quotas = await storage.getDataQuotas();
+    res.json(DATA_QUOTA_PLANS.map(plan => {
+      const quota = quotas.find(quota => quota.plan === plan);
+      return {
+        plan,
+        monthlyLimit: quota ? quota.monthlyLimit : null,
+        warningPercent: quota ? quota.warningPercent : DEFAULT_WARNING_PERCENT
+      };
+    }));
+  } catch (error) {
+    console.error('Error fetching data quotas:', error);
+    res.status(500).json({ error: 'Failed to fetch data quotas' });
+  }
+});
+
+/**
+ * Set the monthly data quota of a plan
+ */
+router.put('/admin/data-quotas/:plan', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    if (!DATA_QUOTA_PLANS.includes(req.params.plan)) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+
+    const parsed = dataQuotaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'monthlyLimit (GB or null) and warningPercent (1-100) are required' });
+    }
+
+    const quota = await storage.saveDataQuota({ plan: req.params.plan, ...parsed.data });
+    res.json(quota);
+  } catch (error) {
+    console.error('Error saving data quota:', error);
+    res.status(500).json({ error: 'Failed to save data quota' });
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import express, { Request } from 'express';
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { getAllLiveStreamSessions } from '../utils/stream-sessions';
+import { getSegmentCacheStats } from '../utils/segment-cache';
+import {
+  renderMetrics,
+  activeStreamSessions,
+  segmentCacheRequests,
+  segmentCacheHitRatio,
+  segmentCacheBytes,
+  streamCheckChannels
+} from '../utils/metrics';
+
+const router = express.Router();
+
+// Scrapers send this as a bearer token; without it only admins can read the metrics
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+/**
+ * Checks the request's bearer token against METRICS_TOKEN
+ */
+function hasScrapeToken(req: Request): boolean {
+  const match = req.headers.authorization?.match(/^Bearer (.+)$/);
+  if (!METRICS_TOKEN || !match) {
+    return false;
+  }
+
+  const expected = Buffer.from(METRICS_TOKEN);
+  const actual = Buffer.from(match[1]);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Server metrics in the Prometheus text format, for admins or scrapers
+ * with the scrape token
+ */
+router.get('/metrics', async (req, res) => {
+  try {
+    if (!hasScrapeToken(req) && !(req.isAuthenticated() && req.user?.isAdmin)) {
+      return res.status(403).json({ error: 'Admin access or a scrape token required' });
+    }
+
+    // Values read when scraped
+    const sessions = await getAllLiveStreamSessions();
+    for (const contentType of ['movie', 'episode', 'channel', 'recording']) {
+      activeStreamSessions.set(
+        { content_type: contentType },
+        sessions.filter(session => session.contentType === contentType).length
+      );
+    }
+
+    const cacheStats = getSegmentCacheStats();
+    segmentCacheRequests.set({ result: 'hit' }, cacheStats.hits);
+    segmentCacheRequests.set({ result: 'coalesced' }, cacheStats.coalesced);
+    segmentCacheRequests.set({ result: 'miss' }, cacheStats.misses);
+    segmentCacheHitRatio.set({}, cacheStats.hitRate);
+    segmentCacheBytes.set({}, cacheStats.sizeBytes);
+
+    const channels = await storage.getChannels();
+    for (const status of ['online', 'offline', 'unknown']) {
+      streamCheckChannels.set(
+        { status },
+        channels.filter(channel => channel.status === status).length
+      );
+    }
+
+    res.type('text/plain; version=0.0.4').send(renderMetrics());
+  } catch (error) {
+    console.error('Error rendering metrics:', error);
+    res.status(500).json({ error: 'Failed to render metrics' });
+  }
+});
+
+export default router;
@@ -0,0 +1,196 @@
+import express, { Request } from 'express';
+import { storage } from '../storage';
+import { hasContentEntitlement } from '../utils/content-access';
+import { checkGeoAccess } from '../utils/geo-restrictions';
+import { getDataQuotaStatus } from '../utils/data-usage';
+import {
+  createPlaylistKey,
+  revokePlaylistKey,
+  resolvePlaylistKey,
+  getPlaylistChannels,
+  buildChannelPlaylist
+} from '../utils/playlist-export';
+import { openExternalStreamSession } from '../utils/stream-sessions';
+import { exportXmltvGuide, getDefaultGuideWindow, sendXmltvGuide } from '../utils/xmltv-export';
+import { PlaylistKey } from '@shared/schema';
+
+const router = express.Router();
+
+/**
+ * Absolute URL of a playlist key's routes; external players need absolute URLs
+ */
+function getPlaylistUrl(req: Request, key: string): string {
+  return `${req.protocol}://${req.get('host')}/api/playlist/${encodeURIComponent(key)}`;
+}
+
+/**
+ * The current user's view of their playlist key
+ */
+function serializePlaylistKey(req: Request, playlistKey: PlaylistKey) {
+  const playlistUrl = getPlaylistUrl(req, playlistKey.key);
+
+  return {
+    createdAt: playlistKey.createdAt,
+    lastUsedAt: playlistKey.lastUsedAt,
+    playlistUrl: `${playlistUrl}/channels.m3u`,
+    guideUrl: `${playlistUrl}/guide.xml`
+  };
+}
+
+/**
+ * Get the current user's playlist URLs, or null if they have no playlist key
+ */
+router.get('/playlist-key', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const playlistKey = await storage.getUserPlaylistKey(req.user.id);
+    res.json(playlistKey ? serializePlaylistKey(req, playlistKey) : null);
+  } catch (error) {
+    console.error('Error fetching playlist key:', error);
+    res.status(500).json({ error: 'Failed to fetch playlist key' });
+  }
+});
+
+/**
+ * Create a playlist key for the current user, replacing the existing one
+ */
+router.post('/playlist-key', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const playlistKey = await createPlaylistKey(req.user.id);
+    res.status(201).json(serializePlaylistKey(req, playlistKey));
+  } catch (error) {
+    console.error('Error creating playlist key:', error);
+    res.status(500).json({ error: 'Failed to create playlist key' });
+  }
+});
+
+/**
+ * Revoke the current user's playlist key; players using it stop working
+ */
+router.delete('/playlist-key', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const revoked = await revokePlaylistKey(req.user.id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Playlist key not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking playlist key:', error);
+    res.status(500).json({ error: 'Failed to revoke playlist key' });
+  }
+});
+
+/**
+ * M3U playlist of the channels the key's user may watch from the player's
+ * address, linking to the guide below
+ */
+router.get('/playlist/:key/channels.m3u', async (req, res) => {
+  try {
+    const resolved = await resolvePlaylistKey(req.params.key);
+    if (!resolved) {
+      return res.status(403).json({ error: 'Invalid playlist key' });
+    }
+
+    const channels = await getPlaylistChannels(resolved.user.id, req.ip);
+    const playlist = await buildChannelPlaylist(channels, getPlaylistUrl(req, req.params.key));
+
+    res.setHeader('Content-Type', 'audio/x-mpegurl; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(playlist);
+  } catch (error) {
+    console.error('Error generating playlist:', error);
+    res.status(500).json({ error: 'Failed to generate playlist' });
+  }
+});
+
+/**
+ * XMLTV guide of the channels in the playlist above, gzip-compressed as guide.xml.gz
+ */
+router.get(['/playlist/:key/guide.xml', '/playlist/:key/guide.xml.gz'], async (req, res) => {
+  try {
+    const resolved = await resolvePlaylistKey(req.params.key);
+    if (!resolved) {
+      return res.status(403).json({ error: 'Invalid playlist key' });
+    }
+
+    const channels = await getPlaylistChannels(resolved.user.id, req.ip);
+    const xml = await exportXmltvGuide(channels, getDefaultGuideWindow());
+    await sendXmltvGuide(res, xml, req.path.endsWith('.gz'));
+  } catch (error) {
+    console.error('Error generating playlist guide:', error);
+    res.status(500).json({ error: 'Failed to generate guide' });
+  }
+});
+
+/**
+ * Play a channel from the playlist. Opens a stream session for the player
+ * and redirects it to the stream proxy, after the same checks as the web
+ * player's token endpoint.
+ */
+router.get('/playlist/:key/channels/:id', async (req, res) => {
+  try {
+    const resolved = await resolvePlaylistKey(req.params.key);
+    if (!resolved) {
+      return res.status(403).json({ error: 'Invalid playlist key' });
+    }
+
+    const channelId = parseInt(req.params.id);
+    if (isNaN(channelId)) {
+      return res.status(400).json({ error: 'Invalid channel ID' });
+    }
+
+    const channel = await storage.getChannel(channelId);
+    if (!channel) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    // Premium channels need a subscription or a pay-per-view purchase
+    if (channel.isPremium && !(await hasContentEntitlement(resolved.user.id, 'channel', channelId))) {
+      return res.status(403).json({ error: 'This channel requires premium subscription' });
+    }
+
+    const geoAccess = await checkGeoAccess('channel', channelId, req.ip);
+    if (!geoAccess.allowed) {
+      return res.status(451).json({ error: 'This content is not available in your country' });
+    }
+
+    const dataQuota = await getDataQuotaStatus(resolved.user.id);
+    if (dataQuota.status === 'exceeded') {
+      return res.status(403).json({ error: 'Your monthly data quota has been used up' });
+    }
+
+    const result = await openExternalStreamSession({
+      userId: resolved.user.id,
+      contentType: 'channel',
+      contentId: channelId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      playlistKeyId: resolved.playlistKey.id
+    });
+    if (!result.success) {
+      return res.status(429).json({
+        error: `You can watch on at most ${result.limit} device(s) at the same time`
+      });
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.redirect(302, `/api/stream/${result.token}/`);
+  } catch (error) {
+    console.error('Error opening playlist stream:', error);
+    res.status(500).json({ error: 'Failed to open stream' });
+  }
+});
+
+export default router;
@@ -0,0 +1,180 @@
+import express from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import {
+  getRecordingQuota,
+  scheduleRecording,
+  scheduleSeriesRecording,
+  deleteRecording,
+  deleteSeriesSchedule,
+  RecordingError
+} from '../utils/program-recorder';
+
+const router = express.Router();
+
+const recordProgramSchema = z.object({
+  channelId: z.number().int().positive(),
+  programId: z.number().int().positive()
+});
+
+const recordSeriesSchema = z.object({
+  channelId: z.number().int().positive(),
+  title: z.string().trim().min(1),
+  season: z.number().int().nonnegative().nullable().optional()
+});
+
+/**
+ * List the current user's recordings, newest program first, with the
+ * recording quota in seconds
+ */
+router.get('/recordings', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const recordings = await storage.getRecordings(req.user.id);
+    const quota = await getRecordingQuota(req.user.id);
+
+    res.json({ recordings, ...quota });
+  } catch (error) {
+    console.error('Error fetching recordings:', error);
+    res.status(500).json({ error: 'Failed to fetch recordings' });
+  }
+});
+
+/**
+ * Schedule the recording of an EPG program
+ */
+router.post('/recordings', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const parsed = recordProgramSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'channelId and programId are required' });
+    }
+
+    const { channelId, programId } = parsed.data;
+    const program = (await storage.getChannelPrograms(channelId)).find(program => program.id === programId);
+    if (!program) {
+      return res.status(404).json({ error: 'Program not found' });
+    }
+
+    const recording = await scheduleRecording(req.user.id, channelId, program);
+    res.status(201).json(recording);
+  } catch (error) {
+    if (error instanceof RecordingError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    console.error('Error scheduling recording:', error);
+    res.status(500).json({ error: 'Failed to schedule recording' });
+  }
+});
+
+/**
+ * List the current user's series schedules
+ */
+router.get('/recordings/schedules', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json(await storage.getRecordingSchedules(req.user.id));
+  } catch (error) {
+    console.error('Error fetching recording schedules:', error);
+    res.status(500).json({ error: 'Failed to fetch recording schedules' });
+  }
+});
+
+/**
+ * Record every upcoming program of a channel with a title (and season),
+ * including programs added to the EPG later
+ */
+router.post('/recordings/schedules', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const parsed = recordSeriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'channelId and title are required' });
+    }
+
+    const { channelId, title, season } = parsed.data;
+    if (!(await storage.getChannel(channelId))) {
+      return res.status(404).json({ error: 'Channel not found' });
+    }
+
+    const result = await scheduleSeriesRecording(req.user.id, channelId, title, season ?? null);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof RecordingError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    console.error('Error scheduling series recording:', error);
+    res.status(500).json({ error: 'Failed to schedule series recording' });
+  }
+});
+
+/**
+ * Delete a series schedule; recordings it already made are kept
+ */
+router.delete('/recordings/schedules/:id', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const scheduleId = parseInt(req.params.id);
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({ error: 'Invalid schedule ID' });
+    }
+
+    const schedule = await storage.getRecordingSchedule(scheduleId);
+    if (!schedule || schedule.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    await deleteSeriesSchedule(schedule);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting recording schedule:', error);
+    res.status(500).json({ error: 'Failed to delete recording schedule' });
+  }
+});
+
+/**
+ * Cancel a scheduled recording, or delete a recording with its files
+ */
+router.delete('/recordings/:id', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const recordingId = parseInt(req.params.id);
+    if (isNaN(recordingId)) {
+      return res.status(400).json({ error: 'Invalid recording ID' });
+    }
+
+    const recording = await storage.getRecording(recordingId);
+    if (!recording || recording.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    await deleteRecording(recording);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting recording:', error);
+    res.status(500).json({ error: 'Failed to delete recording' });
+  }
+});
+
+export default router;
@@ -1,10 +1,112 @@
-import express from 'express';
-import { generateStreamToken } from '../utils/stream-token';
-import { proxyStream } from '../utils/stream-proxy';
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { proxyStream, getUnencryptedSources } from '../utils/stream-proxy';
+import { getSegmentCacheStats, clearSegmentCache } from '../utils/segment-cache';
+import { 
+  openStreamSession, 
+  heartbeatStreamSession, 
+  endStreamSession, 
+  endUserStreamSessions,
+  getLiveStreamSessions,
+  getAllLiveStreamSessions,
+  HEARTBEAT_INTERVAL 
+} from '../utils/stream-sessions';
+import { checkGeoAccess } from '../utils/geo-restrictions';
+import { getDataQuotaStatus, getDataQuotaMessage } from '../utils/data-usage';
+import { hasContentEntitlement } from '../utils/content-access';
+import { createContentKey, rotateContentKey, disableContentEncryption } from '../utils/hls-encryption';
 import { storage } from '../storage';
+import { ActiveStreamToken, ContentKey } from '@shared/schema';
 
 const router = express.Router();
 
+// Content that can be streamed, and therefore encrypted
+const ENCRYPTABLE_CONTENT_TYPES = ['movie', 'episode', 'channel'];
+
+// Shorter intervals would retire keys faster than players reload playlists
+const MIN_KEY_ROTATION_INTERVAL = 60; // seconds
+
+// Playback position players send with heartbeats and when they stop
+const watchProgressSchema = z.object({
+  position: z.number().nonnegative(),
+  duration: z.number().positive().nullable(),
+  playing: z.boolean()
+});
+
+/**
+ * Public view of a stream session (the session ID is what clients use to end it)
+ */
+function serializeSession(session: ActiveStreamToken) {
+  return {
+    sessionId: session.tokenId,
+    userId: session.userId,
+    contentType: session.contentType,
+    contentId: session.contentId,
+    createdAt: session.createdAt,
+    lastHeartbeatAt: session.lastHeartbeatAt,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    bytesServed: session.bytesServed
+  };
+}
+
+/**
+ * Admin view of a content key (without the key itself)
+ */
+function serializeContentKey(key: ContentKey) {
+  return {
+    contentType: key.contentType,
+    contentId: key.contentId,
+    keyId: key.keyId,
+    rotationInterval: key.rotationInterval,
+    createdAt: key.createdAt
+  };
+}
+
+/**
+ * Opens a stream session for the current user and responds with its token.
+ * Responds with 451 when the content is geo-restricted in the user's country.
+ * Responds with 403 and quotaExceeded when the user's monthly data quota is used up.
+ * Responds with 429 and the user's active sessions when the concurrent stream
+ * limit is reached; the client can retry with ?takeover=true to end the oldest.
+ * A player renewing its token passes ?session=<sessionId> to keep its session.
+ */
+async function sendStreamSession(req: Request, res: Response, contentType: string, contentId: number) {
+  const geoAccess = await checkGeoAccess(contentType, contentId, req.ip);
+  if (!geoAccess.allowed) {
+    return res.status(451).json({ error: 'This content is not available in your country' });
+  }
+  
+  const dataQuota = await getDataQuotaStatus(req.user!.id);
+  if (dataQuota.status === 'exceeded') {
+    return res.status(403).json({ error: getDataQuotaMessage(dataQuota), quotaExceeded: true });
+  }
+  
+  const result = await openStreamSession({
+    userId: req.user!.id,
+    contentType,
+    contentId,
+    ipAddress: req.ip,
+    userAgent: req.headers['user-agent'],
+    sessionId: typeof req.query.session === 'string' ? req.query.session : undefined,
+    takeover: req.query.takeover === 'true'
+  });
+  
+  if (!result.success) {
+    return res.status(429).json({
+      error: `You can watch on at most ${result.limit} device(s) at the same time`,
+      limit: result.limit,
+      sessions: result.sessions.map(serializeSession)
+    });
+  }
+  
+  res.json({
+    token: result.token,
+    sessionId: result.sessionId,
+    heartbeatInterval: HEARTBEAT_INTERVAL
+  });
+}
+
 /**
  * Get a secure streaming token for a movie
  * This endpoint returns a token instead of the actual stream URL
@@ -26,20 +128,13 @@ router.get('/token/movies/:id', async (req, res) => {
       return res.status(404).json({ error: 'Movie not found' });
     }
     
-    // Check premium status if movie is premium
-    if (movie.isPremium) {
-      // Use storage to check premium status instead of user object
-      const premiumStatus = await storage.checkUserPremiumStatus(req.user.id);
-      if (!premiumStatus.isPremium) {
-        return res.status(403).json({ error: 'This content requires premium subscription' });
-      }
+    // Premium movies need a subscription or a pay-per-view purchase
+    if (movie.isPremium && !(await hasContentEntitlement(req.user.id, 'movie', movieId))) {
+      return res.status(403).json({ error: 'This content requires premium subscription' });
     }
     
-    // Generate secure token
-    const token = generateStreamToken('movie', movieId, req.user.id);
-    
-    // Return token to client
-    res.json({ token });
+    // Open a stream session and return its token
+    await sendStreamSession(req, res, 'movie', movieId);
   } catch (error) {
     console.error('Error generating movie stream token:', error);
     res.status(500).json({ error: 'Failed to generate stream token' });
@@ -72,20 +167,13 @@ router.get('/token/episodes/:id', async (req, res) => {
       return res.status(404).json({ error: 'Series not found' });
     }
     
-    // Check premium status if series is premium
-    if (series.isPremium) {
-      // Use storage to check premium status instead of user object
-      const premiumStatus = await storage.checkUserPremiumStatus(req.user.id);
-      if (!premiumStatus.isPremium) {
-        return res.status(403).json({ error: 'This content requires premium subscription' });
-      }
+    // Episodes of premium series need a subscription or a pay-per-view purchase
+    if (series.isPremium && !(await hasContentEntitlement(req.user.id, 'episode', episodeId))) {
+      return res.status(403).json({ error: 'This content requires premium subscription' });
     }
     
-    // Generate secure token
-    const token = generateStreamToken('episode', episodeId, req.user.id);
-    
-    // Return token to client
-    res.json({ token });
+    // Open a stream session and return its token
+    await sendStreamSession(req, res, 'episode', episodeId);
   } catch (error) {
     console.error('Error generating episode stream token:', error);
     res.status(500).json({ error: 'Failed to generate stream token' });
@@ -112,30 +200,417 @@ router.get('/token/channels/:id', async (req, res) => {
       return res.status(404).json({ error: 'Channel not found' });
     }
     
-    // Check premium status if channel is premium
-    if (channel.isPremium) {
-      // Use storage to check premium status instead of user object
-      const premiumStatus = await storage.checkUserPremiumStatus(req.user.id);
-      if (!premiumStatus.isPremium) {
-        return res.status(403).json({ error: 'This channel requires premium subscription' });
-      }
+    // Premium channels need a subscription or a pay-per-view purchase
+    if (channel.isPremium && !(await hasContentEntitlement(req.user.id, 'channel', channelId))) {
+      return res.status(403).json({ error: 'This channel requires premium subscription' });
     }
     
-    // Generate secure token
-    const token = generateStreamToken('channel', channelId, req.user.id);
-    
-    // Return token to client
-    res.json({ token });
+    // Open a stream session and return its token
+    await sendStreamSession(req, res, 'channel', channelId);
   } catch (error) {
     console.error('Error generating channel stream token:', error);
     res.status(500).json({ error: 'Failed to generate stream token' });
   }
 });
 
+/**
+ * Get a secure streaming token for one of the current user's recordings
+ * Recordings can be played once they have started recording
+ */
+router.get('/token/recordings/:id', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    
+    const recordingId = parseInt(req.params.id);
+    if (isNaN(recordingId)) {
+      return res.status(400).json({ error: 'Invalid recording ID' });
+    }
+    
+    // Other users' recordings are not revealed
+    const recording = await storage.getRecording(recordingId);
+    if (!recording || recording.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+    
+    if (recording.status !== 'recording' && recording.status !== 'completed') {
+      return res.status(409).json({ error: 'This recording cannot be played' });
+    }
+    
+    // Recordings of premium channels need a subscription or a pay-per-view purchase of the channel
+    if (!(await hasContentEntitlement(req.user.id, 'recording', recordingId))) {
+      return res.status(403).json({ error: 'This recording requires premium subscription' });
+    }
+    
+    // Open a stream session and return its token
+    await sendStreamSession(req, res, 'recording', recordingId);
+  } catch (error) {
+    console.error('Error generating recording stream token:', error);
+    res.status(500).json({ error: 'Failed to generate stream token' });
+  }
+});
+
+/**
+ * List the current user's live stream sessions
+ */
+router.get('/stream-sessions', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    
+    const sessions = await getLiveStreamSessions(req.user.id);
+    res.json(sessions.map(serializeSession));
+  } catch (error) {
+    console.error('Error fetching stream sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch stream sessions' });
+  }
+});
+
+/**
+ * Keep a stream session alive
+ * Players call this every heartbeatInterval while playing. When the stream
+ * token is about to expire the response carries a new token and session ID,
+ * which the player switches to for all further requests. Once the user is
+ * close to or over their monthly data quota the response says so in dataQuota.
+ * The body carries the playback position ({ position, duration, playing }),
+ * which is added to the user's watch history; an invalid one is answered
+ * with 400.
+ */
+router.post('/stream-sessions/:sessionId/heartbeat', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    
+    // Without a body the session is only kept alive; a body that is not a
+    // playback position is a player bug that would stop watch time tracking
+    const hasProgress = req.body && typeof req.body === 'object' && Object.keys(req.body).length > 0;
+    const progress = watchProgressSchema.safeParse(req.body);
+    if (hasProgress && !progress.success) {
+      return res.status(400).json({ error: 'Invalid playback position' });
+    }
+    
+    const result = await heartbeatStreamSession(
+      req.params.sessionId, 
+      req.user.id, 
+      progress.success ? progress.data : undefined
+    );
+    if (!result) {
+      // Timed out, revoked, or ended because the user started watching on another device
+      return res.status(410).json({ error: 'Stream session has ended' });
+    }
+    
+    const dataQuota = await getDataQuotaStatus(req.user.id);
+    
+    res.json({
+      sessionId: result.session.tokenId,
+      expiresAt: result.session.expiresAt,
+      ...(result.token ? { token: result.token } : {}),
+      ...(dataQuota.status !== 'ok' ? {
+        dataQuota: { status: dataQuota.status, message: getDataQuotaMessage(dataQuota) }
+      } : {})
+    });
+  } catch (error) {
+    console.error('Error updating stream session:', error);
+    res.status(500).json({ error: 'Failed to update stream session' });
+  }
+});
+
+/**
+ * End a stream session when playback stops, with the final playback position
+ * in the body like a heartbeat
+ */
+router.delete('/stream-sessions/:sessionId', async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    
+    const progress = watchProgressSchema.safeParse(req.body);
+    const ended = await endStreamSession(
+      req.params.sessionId, 
+      req.user.id, 
+      progress.success ? progress.data : undefined
+    );
+    if (!ended) {
+      return res.status(404).json({ error: 'Stream session not found' });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error ending stream session:', error);
+    res.status(500).json({ error: 'Failed to end stream session' });
+  }
+});
+
 /**
  * Stream proxy endpoint - proxies the actual content through our server
  * All stream URLs will be rewritten to use this endpoint
  */
 router.get('/stream/:token/*', proxyStream);
 
+/**
+ * Set a user's concurrent stream limit (admin only)
+ * A null limit makes the user fall back to the site-wide default
+ */
+router.put('/admin/users/:id/stream-limit', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    const { maxConcurrentStreams } = req.body;
+    if (maxConcurrentStreams !== null && (!Number.isInteger(maxConcurrentStreams) || maxConcurrentStreams < 0)) {
+      return res.status(400).json({ error: 'maxConcurrentStreams must be a non-negative integer or null' });
+    }
+    
+    const user = await storage.updateUserStreamLimit(userId, maxConcurrentStreams);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    res.json({ id: user.id, maxConcurrentStreams: user.maxConcurrentStreams });
+  } catch (error) {
+    console.error('Error updating user stream limit:', error);
+    res.status(500).json({ error: 'Failed to update stream limit' });
+  }
+});
+
+/**
+ * List all live stream sessions (admin only)
+ */
+router.get('/admin/stream-sessions', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const sessions = await getAllLiveStreamSessions();
+    
+    // Add usernames so admins can tell who is watching
+    const userIds = Array.from(new Set(sessions.map(session => session.userId)));
+    const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+    const usernames = new Map(users.filter(Boolean).map(user => [user!.id, user!.username]));
+    
+    res.json(sessions.map(session => ({
+      ...serializeSession(session),
+      username: usernames.get(session.userId) || null
+    })));
+  } catch (error) {
+    console.error('Error fetching stream sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch stream sessions' });
+  }
+});
+
+/**
+ * Kill a stream session (admin only)
+ */
+router.delete('/admin/stream-sessions/:sessionId', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const ended = await endStreamSession(req.params.sessionId);
+    if (!ended) {
+      return res.status(404).json({ error: 'Stream session not found' });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error ending stream session:', error);
+    res.status(500).json({ error: 'Failed to end stream session' });
+  }
+});
+
+/**
+ * Kill all stream sessions of a user (admin only)
+ */
+router.delete('/admin/users/:id/stream-sessions', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    const ended = await endUserStreamSessions(userId);
+    res.json({ success: true, ended });
+  } catch (error) {
+    console.error('Error ending user stream sessions:', error);
+    res.status(500).json({ error: 'Failed to end stream sessions' });
+  }
+});
+
+/**
+ * List encrypted content and its active keys (admin only)
+ * Key values are never returned; players get them through the stream proxy.
+ */
+router.get('/admin/stream-encryption', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const keys = await storage.getActiveContentKeys();
+    res.json(keys.map(serializeContentKey));
+  } catch (error) {
+    console.error('Error fetching content keys:', error);
+    res.status(500).json({ error: 'Failed to fetch content keys' });
+  }
+});
+
+/**
+ * Get the encryption status of a piece of content (admin only)
+ * unencryptedSources lists the sources that are still served unencrypted
+ * (DASH and progressive sources, and HLS sources with other upstream encryption).
+ */
+router.get('/admin/stream-encryption/:contentType/:contentId', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const contentId = parseInt(req.params.contentId);
+    if (!ENCRYPTABLE_CONTENT_TYPES.includes(req.params.contentType) || isNaN(contentId)) {
+      return res.status(400).json({ error: 'Invalid content' });
+    }
+    
+    const key = await storage.getActiveContentKey(req.params.contentType, contentId);
+    if (!key) {
+      return res.json(null);
+    }
+    
+    res.json({
+      ...serializeContentKey(key),
+      unencryptedSources: await getUnencryptedSources(req.params.contentType, contentId)
+    });
+  } catch (error) {
+    console.error('Error fetching content key:', error);
+    res.status(500).json({ error: 'Failed to fetch content key' });
+  }
+});
+
+/**
+ * Enable encryption for a piece of content with a new key (admin only)
+ * Live channels can have their key rotated every rotationInterval seconds.
+ * Calling this again replaces the key and rotation interval.
+ */
+router.put('/admin/stream-encryption/:contentType/:contentId', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const { contentType } = req.params;
+    const contentId = parseInt(req.params.contentId);
+    if (!ENCRYPTABLE_CONTENT_TYPES.includes(contentType) || isNaN(contentId)) {
+      return res.status(400).json({ error: 'Invalid content' });
+    }
+    
+    const rotationInterval = req.body.rotationInterval ?? null;
+    if (rotationInterval !== null) {
+      if (contentType !== 'channel') {
+        return res.status(400).json({ error: 'Key rotation is only supported for live channels' });
+      }
+      if (!Number.isInteger(rotationInterval) || rotationInterval < MIN_KEY_ROTATION_INTERVAL) {
+        return res.status(400).json({ 
+          error: `rotationInterval must be an integer of at least ${MIN_KEY_ROTATION_INTERVAL} seconds or null` 
+        });
+      }
+    }
+    
+    const key = await createContentKey(contentType, contentId, rotationInterval);
+    res.json(serializeContentKey(key));
+  } catch (error) {
+    console.error('Error enabling content encryption:', error);
+    res.status(500).json({ error: 'Failed to enable encryption' });
+  }
+});
+
+/**
+ * Replace the key of encrypted content right away (admin only)
+ */
+router.post('/admin/stream-encryption/:contentType/:contentId/rotate', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const contentId = parseInt(req.params.contentId);
+    if (isNaN(contentId)) {
+      return res.status(400).json({ error: 'Invalid content ID' });
+    }
+    
+    const key = await rotateContentKey(req.params.contentType, contentId);
+    if (!key) {
+      return res.status(404).json({ error: 'Content is not encrypted' });
+    }
+    
+    res.json(serializeContentKey(key));
+  } catch (error) {
+    console.error('Error rotating content key:', error);
+    res.status(500).json({ error: 'Failed to rotate key' });
+  }
+});
+
+/**
+ * Disable encryption for a piece of content (admin only)
+ */
+router.delete('/admin/stream-encryption/:contentType/:contentId', async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const contentId = parseInt(req.params.contentId);
+    if (isNaN(contentId)) {
+      return res.status(400).json({ error: 'Invalid content ID' });
+    }
+    
+    const disabled = await disableContentEncryption(req.params.contentType, contentId);
+    if (!disabled) {
+      return res.status(404).json({ error: 'Content is not encrypted' });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error disabling content encryption:', error);
+    res.status(500).json({ error: 'Failed to disable encryption' });
+  }
+});
+
+/**
+ * Get segment cache statistics (admin only)
+ */
+router.get('/admin/stream-cache', (req, res) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  
+  res.json(getSegmentCacheStats());
+});
+
+/**
+ * Empty the segment cache (admin only)
+ */
+router.delete('/admin/stream-cache', (req, res) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  
+  clearSegmentCache();
+  res.json({ success: true });
+});
+
 export default router;
\ No newline at end of file
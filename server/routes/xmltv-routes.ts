@@ -0,0 +1,63 @@
+import express from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { exportXmltvGuide, getDefaultGuideWindow, sendXmltvGuide, MAX_GUIDE_DAYS } from '../utils/xmltv-export';
+
+const router = express.Router();
+
+const guideQuerySchema = z.object({
+  channels: z.string().optional(),      // Comma-separated channel IDs or EPG IDs
+  category: z.string().optional(),      // Category ID or slug
+  start: z.coerce.date().optional(),    // Programs ending after this time (ISO 8601)
+  end: z.coerce.date().optional()       // Programs starting before this time (ISO 8601)
+});
+
+/**
+ * XMLTV guide of our programs, gzip-compressed as xmltv.xml.gz
+ * All channels are included unless ?channels= or ?category= narrow them
+ * down. The guide covers from 6 hours ago to a week ahead unless ?start= and
+ * ?end= say otherwise, up to MAX_GUIDE_DAYS.
+ */
+router.get(['/epg/xmltv.xml', '/epg/xmltv.xml.gz'], async (req, res) => {
+  try {
+    const query = guideQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'start and end must be dates' });
+    }
+
+    const defaultWindow = getDefaultGuideWindow();
+    const start = query.data.start || defaultWindow.start;
+    const end = query.data.end || new Date(start.getTime() + (defaultWindow.end.getTime() - defaultWindow.start.getTime()));
+    if (end <= start || end.getTime() - start.getTime() > MAX_GUIDE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: `The guide must cover between 0 and ${MAX_GUIDE_DAYS} days` });
+    }
+
+    let channels = await storage.getChannels();
+
+    if (query.data.channels) {
+      const wanted = new Set(query.data.channels.split(',').map(id => id.trim().toLowerCase()).filter(Boolean));
+      channels = channels.filter(channel =>
+        wanted.has(String(channel.id)) || (channel.epgId && wanted.has(channel.epgId.toLowerCase()))
+      );
+    }
+
+    if (query.data.category) {
+      const categories = await storage.getCategories();
+      const category = categories.find(category =>
+        String(category.id) === query.data.category || category.slug === query.data.category
+      );
+      if (!category) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      channels = channels.filter(channel => channel.categoryId === category.id);
+    }
+
+    const xml = await exportXmltvGuide(channels, { start, end });
+    await sendXmltvGuide(res, xml, req.path.endsWith('.gz'));
+  } catch (error) {
+    console.error('Error exporting XMLTV guide:', error);
+    res.status(500).json({ error: 'Failed to export guide' });
+  }
+});
+
+export default router;
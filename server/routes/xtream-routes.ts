@@ -0,0 +1,211 @@
+import express, { Request } from 'express';
+import { storage } from '../storage';
+import { hasContentEntitlement } from '../utils/content-access';
+import { checkGeoAccess } from '../utils/geo-restrictions';
+import { getDataQuotaStatus } from '../utils/data-usage';
+import { openExternalStreamSession } from '../utils/stream-sessions';
+import { getPlaylistChannels } from '../utils/playlist-export';
+import { exportXmltvGuide, getDefaultGuideWindow, sendXmltvGuide } from '../utils/xmltv-export';
+import {
+  authenticateXtreamUser,
+  getXtreamAccountInfo,
+  getXtreamLiveCategories,
+  getXtreamLiveStreams,
+  getXtreamVodCategories,
+  getXtreamVodStreams,
+  getXtreamVodInfo,
+  getXtreamSeriesCategories,
+  getXtreamSeries,
+  getXtreamSeriesInfo,
+  getXtreamShortEpg,
+  getXtreamEpgTable,
+  XtreamSignInThrottledError,
+  XTREAM_STREAM_TYPES
+} from '../utils/xtream-api';
+
+const router = express.Router();
+
+/**
+ * Reads a player_api.php parameter, which apps send in the query string or as a form
+ */
+function getParam(req: Request, name: string): string | undefined {
+  const value = req.query[name] ?? req.body?.[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Reads an optional numeric parameter (category_id, stream_id, ...)
+ */
+function getNumericParam(req: Request, name: string): number | undefined {
+  const value = parseInt(getParam(req, name) || '');
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Xtream Codes player API: the account, the catalogue and the guide
+ * Apps treat user_info.auth = 0 as wrong credentials, so that is how
+ * failed sign-ins are answered. Like every route here, it answers 429 while
+ * the address or username is refused after too many failed sign-ins.
+ */
+router.all('/player_api.php', async (req, res) => {
+  try {
+    const password = getParam(req, 'password') || '';
+    const user = await authenticateXtreamUser(getParam(req, 'username') || '', password, req.ip);
+    if (!user) {
+      return res.json({ user_info: { auth: 0 } });
+    }
+
+    const categoryId = getNumericParam(req, 'category_id');
+
+    switch (getParam(req, 'action')) {
+      case undefined:
+      case '':
+        return res.json(await getXtreamAccountInfo(user, password, { protocol: req.protocol, host: req.get('host') || '' }));
+
+      case 'get_live_categories':
+        return res.json(await getXtreamLiveCategories(user.id, req.ip));
+
+      case 'get_live_streams':
+        return res.json(await getXtreamLiveStreams(user.id, req.ip, categoryId));
+
+      case 'get_vod_categories':
+        return res.json(await getXtreamVodCategories(user.id, req.ip));
+
+      case 'get_vod_streams':
+        return res.json(await getXtreamVodStreams(user.id, req.ip, categoryId));
+
+      case 'get_vod_info': {
+        const movieId = getNumericParam(req, 'vod_id');
+        const info = movieId !== undefined ? await getXtreamVodInfo(user.id, req.ip, movieId) : undefined;
+        return res.json(info || { info: [], movie_data: [] });
+      }
+
+      case 'get_series_categories':
+        return res.json(await getXtreamSeriesCategories(user.id, req.ip));
+
+      case 'get_series':
+        return res.json(await getXtreamSeries(user.id, req.ip, categoryId));
+
+      case 'get_series_info': {
+        const seriesId = getNumericParam(req, 'series_id');
+        const info = seriesId !== undefined ? await getXtreamSeriesInfo(user.id, req.ip, seriesId) : undefined;
+        return res.json(info || { seasons: [], info: [], episodes: [] });
+      }
+
+      case 'get_short_epg': {
+        const channelId = getNumericParam(req, 'stream_id');
+        if (channelId === undefined) {
+          return res.json({ epg_listings: [] });
+        }
+        return res.json(await getXtreamShortEpg(user.id, req.ip, channelId, getNumericParam(req, 'limit')));
+      }
+
+      case 'get_simple_data_table': {
+        const channelId = getNumericParam(req, 'stream_id');
+        if (channelId === undefined) {
+          return res.json({ epg_listings: [] });
+        }
+        return res.json(await getXtreamEpgTable(user.id, req.ip, channelId));
+      }
+
+      default:
+        return res.status(400).json({ error: 'Unsupported action' });
+    }
+  } catch (error) {
+    if (error instanceof XtreamSignInThrottledError) {
+      return res.status(429).json({ error: error.message });
+    }
+    console.error('Error handling Xtream Codes API request:', error);
+    res.status(500).json({ error: 'Failed to handle request' });
+  }
+});
+
+/**
+ * Xtream Codes guide: XMLTV of the user's channels
+ */
+router.get('/xmltv.php', async (req, res) => {
+  try {
+    const user = await authenticateXtreamUser(getParam(req, 'username') || '', getParam(req, 'password') || '', req.ip);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    const channels = await getPlaylistChannels(user.id, req.ip);
+    const xml = await exportXmltvGuide(channels, getDefaultGuideWindow());
+    await sendXmltvGuide(res, xml, false);
+  } catch (error) {
+    if (error instanceof XtreamSignInThrottledError) {
+      return res.status(429).json({ error: error.message });
+    }
+    console.error('Error generating Xtream Codes guide:', error);
+    res.status(500).json({ error: 'Failed to generate guide' });
+  }
+});
+
+/**
+ * Xtream Codes playback: /live/<username>/<password>/<channel ID>.ts, and
+ * /movie/... and /series/... with a movie or episode ID. Opens a stream
+ * session after the same checks as the web player's token endpoints and
+ * redirects to the stream proxy. Whatever the extension asks for, the proxy
+ * serves the content's own format (usually HLS), which these apps detect.
+ */
+router.get('/:type(live|movie|series)/:username/:password/:file', async (req, res) => {
+  try {
+    const user = await authenticateXtreamUser(req.params.username, req.params.password, req.ip);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    const contentType = XTREAM_STREAM_TYPES[req.params.type];
+    const contentId = parseInt(req.params.file);
+    if (isNaN(contentId)) {
+      return res.status(400).json({ error: 'Invalid stream ID' });
+    }
+
+    const exists = contentType === 'channel' ? await storage.getChannel(contentId)
+      : contentType === 'movie' ? await storage.getMovie(contentId)
+      : await storage.getEpisode(contentId);
+    if (!exists) {
+      return res.status(404).json({ error: 'Stream not found' });
+    }
+
+    // Premium content needs a subscription or a pay-per-view purchase
+    if (!(await hasContentEntitlement(user.id, contentType, contentId))) {
+      return res.status(403).json({ error: 'This content requires premium subscription' });
+    }
+
+    const geoAccess = await checkGeoAccess(contentType, contentId, req.ip);
+    if (!geoAccess.allowed) {
+      return res.status(451).json({ error: 'This content is not available in your country' });
+    }
+
+    const dataQuota = await getDataQuotaStatus(user.id);
+    if (dataQuota.status === 'exceeded') {
+      return res.status(403).json({ error: 'Your monthly data quota has been used up' });
+    }
+
+    const result = await openExternalStreamSession({
+      userId: user.id,
+      contentType,
+      contentId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    if (!result.success) {
+      return res.status(429).json({
+        error: `You can watch on at most ${result.limit} device(s) at the same time`
+      });
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.redirect(302, `/api/stream/${result.token}/`);
+  } catch (error) {
+    if (error instanceof XtreamSignInThrottledError) {
+      return res.status(429).json({ error: error.message });
+    }
+    console.error('Error opening Xtream Codes stream:', error);
+    res.status(500).json({ error: 'Failed to open stream' });
+  }
+});
+
+export default router;
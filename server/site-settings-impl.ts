@@ -19,6 +19,11 @@ export const memStorageSiteSettingsImpl = `
         enableRegistration: settings.enableRegistration ?? true,
         defaultUserQuota: settings.defaultUserQuota ?? 5,
         defaultUserConcurrentStreams: settings.defaultUserConcurrentStreams ?? 2,
+        streamCheckInterval: settings.streamCheckInterval ?? 5,
+        priorityStreamCheckInterval: settings.priorityStreamCheckInterval ?? 2,
+        streamCheckConcurrency: settings.streamCheckConcurrency ?? 5,
+        recordingPaddingBefore: settings.recordingPaddingBefore ?? 2,
+        recordingPaddingAfter: settings.recordingPaddingAfter ?? 5,
         lastUpdated: now
       };
     } else {
@@ -63,6 +68,11 @@ export const dbStorageSiteSettingsImpl = `
           enableRegistration: settingsData.enableRegistration ?? true,
           defaultUserQuota: settingsData.defaultUserQuota ?? 5,
           defaultUserConcurrentStreams: settingsData.defaultUserConcurrentStreams ?? 2,
+          streamCheckInterval: settingsData.streamCheckInterval ?? 5,
+          priorityStreamCheckInterval: settingsData.priorityStreamCheckInterval ?? 2,
+          streamCheckConcurrency: settingsData.streamCheckConcurrency ?? 5,
+          recordingPaddingBefore: settingsData.recordingPaddingBefore ?? 2,
+          recordingPaddingAfter: settingsData.recordingPaddingAfter ?? 5,
           lastUpdated: now
         }).returning();
         
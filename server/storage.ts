@@ -18,11 +18,20 @@ import {
   streamAnalytics, StreamAnalytics, InsertStreamAnalytics,
   geoRestrictions, GeoRestriction, InsertGeoRestriction,
   activeStreamTokens, ActiveStreamToken, InsertActiveStreamToken,
+  contentKeys, ContentKey, InsertContentKey,
+  streamHealthChecks, StreamHealthCheck, InsertStreamHealthCheck,
+  sourceReorderLog, SourceReorderLog, InsertSourceReorderLog,
+  vodLinkStatuses, VodLinkStatus, InsertVodLinkStatus,
+  recordingSchedules, RecordingSchedule, InsertRecordingSchedule,
+  recordings, Recording, InsertRecording,
+  dataUsage, DataUsage, InsertDataUsage,
+  dataQuotas, DataQuota, InsertDataQuota,
+  playlistKeys, PlaylistKey, InsertPlaylistKey,
   ppvPurchases, PPVPurchase, InsertPPVPurchase,
   epgChannelMappings, EPGChannelMapping, InsertEPGChannelMapping,
   epgImportJobs, EPGImportJob, InsertEPGImportJob
 } from "@shared/schema";
-import { and, eq, ne, lte, gte, lt, count, desc, asc, sql } from "drizzle-orm";
+import { and, eq, ne, lte, gte, lt, gt, inArray, isNull, count, desc, asc, sql } from "drizzle-orm";
 import { db, pool } from "./db";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
@@ -77,11 +86,13 @@ export interface IStorage {
   getChannelsByCountry(countryId: number): Promise<Channel[]>;
   createChannel(channel: InsertChannel): Promise<Channel>;
   updateChannel(id: number, channel: Partial<InsertChannel>): Promise<Channel | undefined>;
+  replaceChannelStreamSources(id: number, expected: unknown, streamSources: StreamSource[]): Promise<boolean>;
   deleteChannel(id: number): Promise<boolean>;
   
   // Program operations
   getCurrentPrograms(): Promise<Program[]>;
   getChannelPrograms(channelId: number): Promise<Program[]>;
+  getProgramsInRange(start: Date, end: Date, channelIds?: number[]): Promise<Program[]>;
   createProgram(program: InsertProgram): Promise<Program>;
   updateProgram(id: number, program: Partial<InsertProgram>): Promise<Program | undefined>;
   deleteProgram(id: number): Promise<boolean>;
@@ -151,6 +162,7 @@ export interface IStorage {
   updateUserSubscription(userId: number, subscription: { isPremium: boolean; premiumTier?: string; premiumExpiresAt?: Date }): Promise<User>;
   updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId?: string; stripeSubscriptionId?: string }): Promise<User>;
   checkUserPremiumStatus(userId: number): Promise<{ isPremium: boolean; planName: string | null; expiryDate: Date | null }>;
+  updateUserStreamLimit(userId: number, maxConcurrentStreams: number | null): Promise<User | undefined>;
   
   // Premium content operations
   getPremiumMovies(): Promise<Movie[]>;
@@ -201,22 +213,74 @@ export interface IStorage {
   
   // Stream Token operations
   createActiveStreamToken(token: InsertActiveStreamToken): Promise<ActiveStreamToken>;
+  createActiveStreamTokenWithinLimit(token: InsertActiveStreamToken, limit: number): Promise<ActiveStreamToken | undefined>;
   getActiveStreamToken(tokenId: string): Promise<ActiveStreamToken | undefined>;
   revokeStreamToken(tokenId: string): Promise<boolean>;
   rotateStreamToken(tokenId: string, newTokenId: string): Promise<ActiveStreamToken | undefined>;
   getUserActiveStreamTokens(userId: number): Promise<ActiveStreamToken[]>;
+  getAllActiveStreamTokens(): Promise<ActiveStreamToken[]>;
+  touchStreamToken(tokenId: string, expiresAt: Date): Promise<ActiveStreamToken | undefined>;
+  addStreamTokenBytes(tokenId: string, bytes: number): Promise<void>;
+  closeExpiredWatchSessions(expiredBefore: Date): Promise<number>;
   cleanupExpiredStreamTokens(): Promise<number>;
 
   // Geographic Restrictions operations
   createGeoRestriction(restriction: InsertGeoRestriction): Promise<GeoRestriction>;
   getGeoRestriction(id: number): Promise<GeoRestriction | undefined>;
   getGeoRestrictionForContent(contentType: string, contentId: number): Promise<GeoRestriction | undefined>;
+  getGeoRestrictions(contentType?: string): Promise<GeoRestriction[]>;
   updateGeoRestriction(id: number, restriction: Partial<InsertGeoRestriction>): Promise<GeoRestriction | undefined>;
   deleteGeoRestriction(id: number): Promise<boolean>;
   checkGeoRestriction(contentType: string, contentId: number, countryCode: string): Promise<boolean>;
   
   // DRM & encryption operations
   getDRMKeyForContent(contentType: string, contentId: number): Promise<string | null>;
+  createContentKey(key: InsertContentKey): Promise<ContentKey>;
+  getContentKey(keyId: string): Promise<ContentKey | undefined>;
+  getActiveContentKey(contentType: string, contentId: number): Promise<ContentKey | undefined>;
+  getActiveContentKeys(): Promise<ContentKey[]>;
+  deactivateContentKeys(contentType: string, contentId: number): Promise<number>;
+  deleteInactiveContentKeys(deactivatedBefore: Date): Promise<number>;
+  
+  // Stream health operations
+  createStreamHealthCheck(check: InsertStreamHealthCheck): Promise<StreamHealthCheck>;
+  getStreamHealthChecks(channelId: number, since: Date): Promise<StreamHealthCheck[]>;
+  getLatestStreamHealthCheck(channelId: number, sourceUrl: string): Promise<StreamHealthCheck | undefined>;
+  deleteStreamHealthChecks(checkedBefore: Date): Promise<number>;
+  getStreamErrorEvents(contentType: string, contentId: number, since: Date): Promise<StreamAnalytics[]>;
+  createSourceReorderLog(entry: InsertSourceReorderLog): Promise<SourceReorderLog>;
+  getSourceReorderLogs(channelId?: number, limit?: number): Promise<SourceReorderLog[]>;
+  
+  // VOD link audit operations
+  saveVodLinkStatus(status: InsertVodLinkStatus): Promise<VodLinkStatus>;
+  getVodLinkStatus(id: number): Promise<VodLinkStatus | undefined>;
+  getVodLinkStatuses(contentType?: string): Promise<VodLinkStatus[]>;
+  deleteVodLinkStatus(id: number): Promise<boolean>;
+  
+  // Recording operations
+  createRecordingSchedule(schedule: InsertRecordingSchedule): Promise<RecordingSchedule>;
+  getRecordingSchedule(id: number): Promise<RecordingSchedule | undefined>;
+  getRecordingSchedules(userId?: number): Promise<RecordingSchedule[]>;
+  deleteRecordingSchedule(id: number): Promise<boolean>;
+  createRecording(recording: InsertRecording): Promise<Recording>;
+  getRecording(id: number): Promise<Recording | undefined>;
+  getRecordings(userId?: number): Promise<Recording[]>;
+  updateRecording(id: number, update: Partial<InsertRecording>): Promise<Recording | undefined>;
+  deleteRecording(id: number): Promise<boolean>;
+  
+  // Data usage operations
+  addDataUsage(usage: InsertDataUsage[]): Promise<void>;
+  getDataUsage(period: string, periodStart: Date, userId?: number): Promise<DataUsage[]>;
+  deleteDataUsage(period: string, startedBefore: Date): Promise<number>;
+  getDataQuotas(): Promise<DataQuota[]>;
+  saveDataQuota(quota: InsertDataQuota): Promise<DataQuota>;
+  
+  // Playlist key operations
+  createPlaylistKey(playlistKey: InsertPlaylistKey): Promise<PlaylistKey>;
+  getPlaylistKey(key: string): Promise<PlaylistKey | undefined>;
+  getUserPlaylistKey(userId: number): Promise<PlaylistKey | undefined>;
+  revokeUserPlaylistKeys(userId: number): Promise<PlaylistKey[]>;
+  touchPlaylistKey(id: number): Promise<void>;
   
   // Session store
   sessionStore: SessionStore;
@@ -245,7 +309,15 @@ export class MemStorage implements IStorage {
   private streamAnalyticsRecords: Map<number, StreamAnalytics>;
   private geoRestrictions: Map<number, GeoRestriction>;
   private activeTokens: Map<string, ActiveStreamToken>;
-  private drmKeys: Map<string, string>; // content_type:content_id -> key
+  private contentKeys: Map<string, ContentKey>; // key_id -> key
+  private streamHealthChecks: Map<number, StreamHealthCheck>;
+  private sourceReorderLogs: Map<number, SourceReorderLog>;
+  private vodLinkStatusRecords: Map<number, VodLinkStatus>;
+  private recordingSchedules: Map<number, RecordingSchedule>;
+  private recordings: Map<number, Recording>;
+  private dataUsageRecords: Map<number, DataUsage>;
+  private dataQuotas: Map<string, DataQuota>; // plan -> quota
+  private playlistKeys: Map<number, PlaylistKey>;
   
   // Counters for IDs
   private userCounter: number;
@@ -270,6 +342,15 @@ export class MemStorage implements IStorage {
   private streamAnalyticsCounter: number;
   private geoRestrictionCounter: number;
   private tokenCounter: number;
+  private contentKeyCounter: number;
+  private streamHealthCheckCounter: number;
+  private sourceReorderLogCounter: number;
+  private vodLinkStatusCounter: number;
+  private recordingScheduleCounter: number;
+  private recordingCounter: number;
+  private dataUsageCounter: number;
+  private dataQuotaCounter: number;
+  private playlistKeyCounter: number;
   
   constructor() {
     this.users = new Map();
@@ -291,7 +372,15 @@ export class MemStorage implements IStorage {
     this.streamAnalyticsRecords = new Map();
     this.geoRestrictions = new Map();
     this.activeTokens = new Map();
-    this.drmKeys = new Map();
+    this.contentKeys = new Map();
+    this.streamHealthChecks = new Map();
+    this.sourceReorderLogs = new Map();
+    this.vodLinkStatusRecords = new Map();
+    this.recordingSchedules = new Map();
+    this.recordings = new Map();
+    this.dataUsageRecords = new Map();
+    this.dataQuotas = new Map();
+    this.playlistKeys = new Map();
     
     this.userCounter = 1;
     this.categoryCounter = 1;
@@ -312,6 +401,15 @@ export class MemStorage implements IStorage {
     this.streamAnalyticsCounter = 1;
     this.geoRestrictionCounter = 1;
     this.tokenCounter = 1;
+    this.contentKeyCounter = 1;
+    this.streamHealthCheckCounter = 1;
+    this.sourceReorderLogCounter = 1;
+    this.vodLinkStatusCounter = 1;
+    this.recordingScheduleCounter = 1;
+    this.recordingCounter = 1;
+    this.dataUsageCounter = 1;
+    this.dataQuotaCounter = 1;
+    this.playlistKeyCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // Clear expired sessions once a day
@@ -357,7 +455,8 @@ export class MemStorage implements IStorage {
       premiumPlan: insertUser.premiumPlan || null,
       premiumExpiry: insertUser.premiumExpiry || null,
       stripeCustomerId: insertUser.stripeCustomerId || null,
-      stripeSubscriptionId: insertUser.stripeSubscriptionId || null
+      stripeSubscriptionId: insertUser.stripeSubscriptionId || null,
+      maxConcurrentStreams: null
     };
     this.users.set(id, user);
     return user;
@@ -468,7 +567,11 @@ export class MemStorage implements IStorage {
       countryId: channel.countryId ?? null,
       epgId: channel.epgId ?? null,
       status: channel.status ?? 'unknown',
-      lastChecked: channel.lastChecked ?? null
+      lastChecked: channel.lastChecked ?? null,
+      timeshiftEnabled: channel.timeshiftEnabled ?? false,
+      timeshiftWindow: channel.timeshiftWindow ?? 120,
+      catchupEnabled: channel.catchupEnabled ?? false,
+      catchupDays: channel.catchupDays ?? 7
     };
     this.channels.set(id, newChannel);
     return newChannel;
@@ -483,7 +586,25 @@ export class MemStorage implements IStorage {
     return updatedChannel;
   }
   
+  async replaceChannelStreamSources(id: number, expected: unknown, streamSources: StreamSource[]): Promise<boolean> {
+    const channel = this.channels.get(id);
+    if (!channel || JSON.stringify(channel.streamSources) !== JSON.stringify(expected)) {
+      return false;
+    }
+    
+    this.channels.set(id, { ...channel, streamSources });
+    return true;
+  }
+  
   async deleteChannel(id: number): Promise<boolean> {
+    Array.from(this.streamHealthChecks.entries()).forEach(([checkId, check]) => {
+      if (check.channelId === id) this.streamHealthChecks.delete(checkId);
+    });
+    
+    Array.from(this.sourceReorderLogs.entries()).forEach(([logId, entry]) => {
+      if (entry.channelId === id) this.sourceReorderLogs.delete(logId);
+    });
+    
     return this.channels.delete(id);
   }
   
@@ -495,6 +616,16 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getProgramsInRange(start: Date, end: Date, channelIds?: number[]): Promise<Program[]> {
+    return Array.from(this.programs.values())
+      .filter(program => 
+        program.endTime > start && 
+        program.startTime < end && 
+        (!channelIds || channelIds.includes(program.channelId))
+      )
+      .sort((a, b) => a.channelId - b.channelId || a.startTime.getTime() - b.startTime.getTime());
+  }
+  
   async getChannelPrograms(channelId: number): Promise<Program[]> {
     try {
       // First try to get the channel to check if it has an EPG ID
@@ -836,6 +967,11 @@ export class MemStorage implements IStorage {
       createdAt: now,
       lastRotatedAt: null,
       isRevoked: false,
+      lastHeartbeatAt: now,
+      bytesServed: 0,
+      watchHistoryId: token.watchHistoryId ?? null,
+      playlistKeyId: token.playlistKeyId ?? null,
+      externalPlayer: token.externalPlayer ?? false,
       ipAddress: token.ipAddress || null,
       userAgent: token.userAgent || null
     };
@@ -844,6 +980,15 @@ export class MemStorage implements IStorage {
     return newToken;
   }
   
+  async createActiveStreamTokenWithinLimit(token: InsertActiveStreamToken, limit: number): Promise<ActiveStreamToken | undefined> {
+    const now = new Date();
+    const liveCount = Array.from(this.activeTokens.values())
+      .filter(t => t.userId === token.userId && !t.isRevoked && t.expiresAt > now)
+      .length;
+    
+    return liveCount < limit ? this.createActiveStreamToken(token) : undefined;
+  }
+  
   async getActiveStreamToken(tokenId: string): Promise<ActiveStreamToken | undefined> {
     return this.activeTokens.get(tokenId);
   }
@@ -877,6 +1022,46 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
+  async getAllActiveStreamTokens(): Promise<ActiveStreamToken[]> {
+    return Array.from(this.activeTokens.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async touchStreamToken(tokenId: string, expiresAt: Date): Promise<ActiveStreamToken | undefined> {
+    const token = this.activeTokens.get(tokenId);
+    if (!token) return undefined;
+    
+    const updatedToken: ActiveStreamToken = {
+      ...token,
+      lastHeartbeatAt: new Date(),
+      expiresAt
+    };
+    
+    this.activeTokens.set(tokenId, updatedToken);
+    return updatedToken;
+  }
+  
+  async addStreamTokenBytes(tokenId: string, bytes: number): Promise<void> {
+    const token = this.activeTokens.get(tokenId);
+    if (token) {
+      this.activeTokens.set(tokenId, { ...token, bytesServed: token.bytesServed + bytes });
+    }
+  }
+  
+  async closeExpiredWatchSessions(expiredBefore: Date): Promise<number> {
+    let closedCount = 0;
+    
+    Array.from(this.activeTokens.values()).forEach(token => {
+      const watch = token.watchHistoryId ? this.watchHistoryRecords.get(token.watchHistoryId) : undefined;
+      if (token.expiresAt <= expiredBefore && watch && !watch.endTime) {
+        this.watchHistoryRecords.set(watch.id, { ...watch, endTime: watch.updatedAt || watch.startTime });
+        closedCount++;
+      }
+    });
+    
+    return closedCount;
+  }
+  
   async cleanupExpiredStreamTokens(): Promise<number> {
     const now = new Date();
     let removedCount = 0;
@@ -917,11 +1102,16 @@ export class MemStorage implements IStorage {
       );
   }
   
+  async getGeoRestrictions(contentType?: string): Promise<GeoRestriction[]> {
+    return Array.from(this.geoRestrictions.values())
+      .filter(restriction => !contentType || restriction.contentType === contentType);
+  }
+  
   async updateGeoRestriction(id: number, restriction: Partial<InsertGeoRestriction>): Promise<GeoRestriction | undefined> {
     const existingRestriction = this.geoRestrictions.get(id);
     if (!existingRestriction) return undefined;
     
-    const updatedRestriction = { ...existingRestriction, ...restriction };
+    const updatedRestriction = { ...existingRestriction, ...restriction, updatedAt: new Date() };
     this.geoRestrictions.set(id, updatedRestriction);
     return updatedRestriction;
   }
@@ -953,8 +1143,358 @@ export class MemStorage implements IStorage {
   
   // DRM & encryption operations
   async getDRMKeyForContent(contentType: string, contentId: number): Promise<string | null> {
-    const key = this.drmKeys.get(`${contentType}:${contentId}`);
-    return key || null;
+    const key = await this.getActiveContentKey(contentType, contentId);
+    return key ? key.keyValue : null;
+  }
+  
+  async createContentKey(key: InsertContentKey): Promise<ContentKey> {
+    // A content item has at most one active key; older keys stay valid for in-flight playlists
+    await this.deactivateContentKeys(key.contentType, key.contentId);
+    
+    const id = this.contentKeyCounter++;
+    const newKey: ContentKey = {
+      ...key,
+      id,
+      rotationInterval: key.rotationInterval ?? null,
+      isActive: true,
+      createdAt: new Date(),
+      deactivatedAt: null
+    };
+    
+    this.contentKeys.set(newKey.keyId, newKey);
+    return newKey;
+  }
+  
+  async getContentKey(keyId: string): Promise<ContentKey | undefined> {
+    return this.contentKeys.get(keyId);
+  }
+  
+  async getActiveContentKey(contentType: string, contentId: number): Promise<ContentKey | undefined> {
+    return Array.from(this.contentKeys.values()).find(
+      key => key.contentType === contentType && key.contentId === contentId && key.isActive
+    );
+  }
+  
+  async getActiveContentKeys(): Promise<ContentKey[]> {
+    return Array.from(this.contentKeys.values()).filter(key => key.isActive);
+  }
+  
+  async deactivateContentKeys(contentType: string, contentId: number): Promise<number> {
+    const now = new Date();
+    let deactivatedCount = 0;
+    
+    Array.from(this.contentKeys.entries()).forEach(([keyId, key]) => {
+      if (key.contentType === contentType && key.contentId === contentId && key.isActive) {
+        this.contentKeys.set(keyId, { ...key, isActive: false, deactivatedAt: now });
+        deactivatedCount++;
+      }
+    });
+    
+    return deactivatedCount;
+  }
+  
+  async deleteInactiveContentKeys(deactivatedBefore: Date): Promise<number> {
+    let removedCount = 0;
+    
+    Array.from(this.contentKeys.entries()).forEach(([keyId, key]) => {
+      if (!key.isActive && key.deactivatedAt && key.deactivatedAt < deactivatedBefore) {
+        this.contentKeys.delete(keyId);
+        removedCount++;
+      }
+    });
+    
+    return removedCount;
+  }
+  
+  // Stream health operations
+  async createStreamHealthCheck(check: InsertStreamHealthCheck): Promise<StreamHealthCheck> {
+    const id = this.streamHealthCheckCounter++;
+    const newCheck: StreamHealthCheck = {
+      ...check,
+      id,
+      failureReason: check.failureReason ?? null,
+      manifestLatency: check.manifestLatency ?? null,
+      segmentLatency: check.segmentLatency ?? null,
+      mediaSequence: check.mediaSequence ?? null,
+      checkedAt: new Date()
+    };
+    
+    this.streamHealthChecks.set(id, newCheck);
+    return newCheck;
+  }
+  
+  async getStreamHealthChecks(channelId: number, since: Date): Promise<StreamHealthCheck[]> {
+    return Array.from(this.streamHealthChecks.values())
+      .filter(check => check.channelId === channelId && check.checkedAt >= since)
+      .sort((a, b) => b.checkedAt.getTime() - a.checkedAt.getTime());
+  }
+  
+  async getLatestStreamHealthCheck(channelId: number, sourceUrl: string): Promise<StreamHealthCheck | undefined> {
+    let latest: StreamHealthCheck | undefined;
+    
+    Array.from(this.streamHealthChecks.values()).forEach(check => {
+      if (check.channelId === channelId && check.sourceUrl === sourceUrl && (!latest || check.checkedAt >= latest.checkedAt)) {
+        latest = check;
+      }
+    });
+    
+    return latest;
+  }
+  
+  async deleteStreamHealthChecks(checkedBefore: Date): Promise<number> {
+    let removedCount = 0;
+    
+    Array.from(this.streamHealthChecks.entries()).forEach(([id, check]) => {
+      if (check.checkedAt < checkedBefore) {
+        this.streamHealthChecks.delete(id);
+        removedCount++;
+      }
+    });
+    
+    return removedCount;
+  }
+  
+  async getStreamErrorEvents(contentType: string, contentId: number, since: Date): Promise<StreamAnalytics[]> {
+    return Array.from(this.streamAnalyticsRecords.values()).filter(
+      record => record.event === 'error' && 
+        record.contentType === contentType && 
+        record.contentId === contentId && 
+        record.timestamp >= since
+    );
+  }
+  
+  async createSourceReorderLog(entry: InsertSourceReorderLog): Promise<SourceReorderLog> {
+    const id = this.sourceReorderLogCounter++;
+    const newEntry: SourceReorderLog = {
+      ...entry,
+      id,
+      createdAt: new Date()
+    };
+    
+    this.sourceReorderLogs.set(id, newEntry);
+    return newEntry;
+  }
+  
+  async getSourceReorderLogs(channelId?: number, limit: number = 100): Promise<SourceReorderLog[]> {
+    return Array.from(this.sourceReorderLogs.values())
+      .filter(entry => channelId === undefined || entry.channelId === channelId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+  
+  // VOD link audit operations
+  async saveVodLinkStatus(status: InsertVodLinkStatus): Promise<VodLinkStatus> {
+    const existing = Array.from(this.vodLinkStatusRecords.values()).find(
+      record => record.contentType === status.contentType && 
+        record.contentId === status.contentId && 
+        record.sourceUrl === status.sourceUrl
+    );
+    
+    const id = existing ? existing.id : this.vodLinkStatusCounter++;
+    const record: VodLinkStatus = {
+      ...status,
+      id,
+      failureReason: status.failureReason ?? null,
+      lastChecked: new Date()
+    };
+    
+    this.vodLinkStatusRecords.set(id, record);
+    return record;
+  }
+  
+  async getVodLinkStatus(id: number): Promise<VodLinkStatus | undefined> {
+    return this.vodLinkStatusRecords.get(id);
+  }
+  
+  async getVodLinkStatuses(contentType?: string): Promise<VodLinkStatus[]> {
+    return Array.from(this.vodLinkStatusRecords.values())
+      .filter(record => contentType === undefined || record.contentType === contentType);
+  }
+  
+  async deleteVodLinkStatus(id: number): Promise<boolean> {
+    return this.vodLinkStatusRecords.delete(id);
+  }
+  
+  // Recording operations
+  async createRecordingSchedule(schedule: InsertRecordingSchedule): Promise<RecordingSchedule> {
+    const id = this.recordingScheduleCounter++;
+    const record: RecordingSchedule = {
+      ...schedule,
+      id,
+      season: schedule.season ?? null,
+      createdAt: new Date()
+    };
+    
+    this.recordingSchedules.set(id, record);
+    return record;
+  }
+  
+  async getRecordingSchedule(id: number): Promise<RecordingSchedule | undefined> {
+    return this.recordingSchedules.get(id);
+  }
+  
+  async getRecordingSchedules(userId?: number): Promise<RecordingSchedule[]> {
+    return Array.from(this.recordingSchedules.values())
+      .filter(schedule => userId === undefined || schedule.userId === userId)
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+  
+  async deleteRecordingSchedule(id: number): Promise<boolean> {
+    // Recordings made by the schedule are kept
+    Array.from(this.recordings.values())
+      .filter(recording => recording.scheduleId === id)
+      .forEach(recording => this.recordings.set(recording.id, { ...recording, scheduleId: null }));
+    
+    return this.recordingSchedules.delete(id);
+  }
+  
+  async createRecording(recording: InsertRecording): Promise<Recording> {
+    const id = this.recordingCounter++;
+    const record: Recording = {
+      ...recording,
+      id,
+      scheduleId: recording.scheduleId ?? null,
+      programId: recording.programId ?? null,
+      episodeTitle: recording.episodeTitle ?? null,
+      season: recording.season ?? null,
+      episode: recording.episode ?? null,
+      description: recording.description ?? null,
+      posterUrl: recording.posterUrl ?? null,
+      status: recording.status ?? 'scheduled',
+      duration: recording.duration ?? 0,
+      failureReason: recording.failureReason ?? null,
+      createdAt: new Date()
+    };
+    
+    this.recordings.set(id, record);
+    return record;
+  }
+  
+  async getRecording(id: number): Promise<Recording | undefined> {
+    return this.recordings.get(id);
+  }
+  
+  async getRecordings(userId?: number): Promise<Recording[]> {
+    return Array.from(this.recordings.values())
+      .filter(recording => userId === undefined || recording.userId === userId)
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  }
+  
+  async updateRecording(id: number, update: Partial<InsertRecording>): Promise<Recording | undefined> {
+    const recording = this.recordings.get(id);
+    if (!recording) return undefined;
+    
+    const updated: Recording = { ...recording, ...update };
+    this.recordings.set(id, updated);
+    return updated;
+  }
+  
+  async deleteRecording(id: number): Promise<boolean> {
+    return this.recordings.delete(id);
+  }
+  
+  // Data usage operations
+  async addDataUsage(usage: InsertDataUsage[]): Promise<void> {
+    for (const record of usage) {
+      const existing = Array.from(this.dataUsageRecords.values()).find(
+        existing => existing.userId === record.userId && 
+          existing.contentType === record.contentType && 
+          existing.contentId === record.contentId && 
+          existing.period === record.period && 
+          existing.periodStart.getTime() === record.periodStart.getTime()
+      );
+      
+      const id = existing ? existing.id : this.dataUsageCounter++;
+      this.dataUsageRecords.set(id, {
+        ...record,
+        id,
+        bytes: (existing?.bytes ?? 0) + (record.bytes ?? 0),
+        updatedAt: new Date()
+      });
+    }
+  }
+  
+  async getDataUsage(period: string, periodStart: Date, userId?: number): Promise<DataUsage[]> {
+    return Array.from(this.dataUsageRecords.values())
+      .filter(record => record.period === period && 
+        record.periodStart.getTime() === periodStart.getTime() && 
+        (userId === undefined || record.userId === userId));
+  }
+  
+  async deleteDataUsage(period: string, startedBefore: Date): Promise<number> {
+    let removedCount = 0;
+    
+    Array.from(this.dataUsageRecords.values()).forEach(record => {
+      if (record.period === period && record.periodStart < startedBefore) {
+        this.dataUsageRecords.delete(record.id);
+        removedCount++;
+      }
+    });
+    
+    return removedCount;
+  }
+  
+  async getDataQuotas(): Promise<DataQuota[]> {
+    return Array.from(this.dataQuotas.values());
+  }
+  
+  async saveDataQuota(quota: InsertDataQuota): Promise<DataQuota> {
+    const existing = this.dataQuotas.get(quota.plan);
+    const record: DataQuota = {
+      id: existing ? existing.id : this.dataQuotaCounter++,
+      plan: quota.plan,
+      monthlyLimit: quota.monthlyLimit ?? null,
+      warningPercent: quota.warningPercent ?? 80,
+      updatedAt: new Date()
+    };
+    
+    this.dataQuotas.set(quota.plan, record);
+    return record;
+  }
+  
+  // Playlist key operations
+  async createPlaylistKey(playlistKey: InsertPlaylistKey): Promise<PlaylistKey> {
+    const record: PlaylistKey = {
+      ...playlistKey,
+      id: this.playlistKeyCounter++,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      isRevoked: false
+    };
+    
+    this.playlistKeys.set(record.id, record);
+    return record;
+  }
+  
+  async getPlaylistKey(key: string): Promise<PlaylistKey | undefined> {
+    return Array.from(this.playlistKeys.values()).find(record => record.key === key);
+  }
+  
+  async getUserPlaylistKey(userId: number): Promise<PlaylistKey | undefined> {
+    return Array.from(this.playlistKeys.values())
+      .filter(record => record.userId === userId && !record.isRevoked)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+  
+  async revokeUserPlaylistKeys(userId: number): Promise<PlaylistKey[]> {
+    const revoked: PlaylistKey[] = [];
+    
+    Array.from(this.playlistKeys.values()).forEach(record => {
+      if (record.userId === userId && !record.isRevoked) {
+        const updated = { ...record, isRevoked: true };
+        this.playlistKeys.set(record.id, updated);
+        revoked.push(updated);
+      }
+    });
+    
+    return revoked;
+  }
+  
+  async touchPlaylistKey(id: number): Promise<void> {
+    const record = this.playlistKeys.get(id);
+    if (record) {
+      this.playlistKeys.set(id, { ...record, lastUsedAt: new Date() });
+    }
   }
   
   // Stream Analytics operations
@@ -1247,7 +1787,9 @@ export class MemStorage implements IStorage {
       endTime: event.endTime || null,
       duration: event.duration || null,
       progress: event.progress || 0,
-      completed: event.completed || false
+      completed: event.completed || false,
+      position: event.position ?? null,
+      updatedAt: event.updatedAt || now
     };
     this.watchHistoryRecords.set(id, record);
     return record;
@@ -1263,14 +1805,19 @@ export class MemStorage implements IStorage {
   }
   
   async getUserWatchStats(userId: number): Promise<any> {
-    const userHistory = await this.getUserWatchHistory(userId);
+    // Each record is one playback; playbacks without watch time are left out
+    // and content watched more than once counts once
+    const userHistory = (await this.getUserWatchHistory(userId)).filter(record => (record.duration || 0) > 0);
+    const contentKey = (record: WatchHistory) => `${record.contentType}:${record.contentId}`;
     
     // Calculate total watch time
     const totalSeconds = userHistory.reduce((sum, record) => sum + (record.duration || 0), 0);
-    const totalContent = userHistory.length;
-    const totalCompleted = userHistory.filter(record => record.completed).length;
+    const totalContent = new Set(userHistory.map(contentKey)).size;
+    const totalCompleted = new Set(userHistory.filter(record => record.completed).map(contentKey)).size;
+    const totalSessions = userHistory.length;
     
     // Group by content type
+    const contentByType: Record<string, { watched: Set<number>, completed: Set<number> }> = {};
     const byContentType = userHistory.reduce((acc, record) => {
       const contentType = record.contentType;
       if (!acc[contentType]) {
@@ -1280,12 +1827,15 @@ export class MemStorage implements IStorage {
           count: 0,
           completed: 0
         };
+        contentByType[contentType] = { watched: new Set(), completed: new Set() };
       }
       
       acc[contentType].seconds += (record.duration || 0);
-      acc[contentType].count++;
+      contentByType[contentType].watched.add(record.contentId);
+      acc[contentType].count = contentByType[contentType].watched.size;
       if (record.completed) {
-        acc[contentType].completed++;
+        contentByType[contentType].completed.add(record.contentId);
+        acc[contentType].completed = contentByType[contentType].completed.size;
       }
       
       return acc;
@@ -1403,7 +1953,7 @@ export class MemStorage implements IStorage {
     );
     
     return {
-      summary: { totalSeconds, totalContent, totalCompleted },
+      summary: { totalSeconds, totalContent, totalCompleted, totalSessions },
       byContentType: Object.values(byContentType),
       topCategories,
       recentActivity
@@ -1509,6 +2059,11 @@ export class MemStorage implements IStorage {
         enableRegistration: settings.enableRegistration ?? true,
         defaultUserQuota: settings.defaultUserQuota ?? 5,
         defaultUserConcurrentStreams: settings.defaultUserConcurrentStreams ?? 2,
+        streamCheckInterval: settings.streamCheckInterval ?? 5,
+        priorityStreamCheckInterval: settings.priorityStreamCheckInterval ?? 2,
+        streamCheckConcurrency: settings.streamCheckConcurrency ?? 5,
+        recordingPaddingBefore: settings.recordingPaddingBefore ?? 2,
+        recordingPaddingAfter: settings.recordingPaddingAfter ?? 5,
         lastUpdated: now
       };
     } else {
@@ -1603,6 +2158,16 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
+  // Per-user concurrent stream limit
+  async updateUserStreamLimit(userId: number, maxConcurrentStreams: number | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, maxConcurrentStreams };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
   async checkUserPremiumStatus(userId: number): Promise<{ isPremium: boolean; planName: string | null; expiryDate: Date | null }> {
     const user = this.users.get(userId);
     if (!user) {
@@ -1810,6 +2375,11 @@ export class MemStorage implements IStorage {
       enableRegistration: true,
       defaultUserQuota: 5,
       defaultUserConcurrentStreams: 2,
+      streamCheckInterval: 5,
+      priorityStreamCheckInterval: 2,
+      streamCheckConcurrency: 5,
+      recordingPaddingBefore: 2,
+      recordingPaddingAfter: 5,
       lastUpdated: new Date()
     };
     
@@ -1825,7 +2395,8 @@ export class MemStorage implements IStorage {
       premiumPlan: null,
       premiumExpiry: null,
       stripeCustomerId: null,
-      stripeSubscriptionId: null
+      stripeSubscriptionId: null,
+      maxConcurrentStreams: null
     };
     this.users.set(1, adminUser);
     
@@ -2331,26 +2902,32 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getUserWatchStats(userId: number): Promise<any> {
+    // Each row is one playback. Playbacks that never played (and the rows the
+    // stream proxy used to create for every request) have no watch time and
+    // are left out; content watched more than once counts once.
+    const watched = and(eq(watchHistory.userId, userId), gt(watchHistory.duration, 0));
+    
     // Get total watch time across all content types
     const totalWatchTime = await db
       .select({ 
-        totalSeconds: sql`SUM(${watchHistory.duration})`,
-        totalContent: sql`COUNT(*)`,
-        totalCompleted: sql`SUM(CASE WHEN ${watchHistory.completed} = true THEN 1 ELSE 0 END)`
+        totalSeconds: sql<number>`COALESCE(SUM(${watchHistory.duration}), 0)`.mapWith(Number),
+        totalContent: sql<number>`COUNT(DISTINCT (${watchHistory.contentType}, ${watchHistory.contentId}))`.mapWith(Number),
+        totalCompleted: sql<number>`COUNT(DISTINCT (${watchHistory.contentType}, ${watchHistory.contentId})) FILTER (WHERE ${watchHistory.completed} = true)`.mapWith(Number),
+        totalSessions: sql<number>`COUNT(*)`.mapWith(Number)
       })
       .from(watchHistory)
-      .where(eq(watchHistory.userId, userId));
+      .where(watched);
       
     // Get watch time by content type
     const watchTimeByType = await db
       .select({ 
         contentType: watchHistory.contentType,
-        seconds: sql`SUM(${watchHistory.duration})`,
-        count: sql`COUNT(*)`,
-        completed: sql`SUM(CASE WHEN ${watchHistory.completed} = true THEN 1 ELSE 0 END)`
+        seconds: sql<number>`COALESCE(SUM(${watchHistory.duration}), 0)`.mapWith(Number),
+        count: sql<number>`COUNT(DISTINCT ${watchHistory.contentId})`.mapWith(Number),
+        completed: sql<number>`COUNT(DISTINCT ${watchHistory.contentId}) FILTER (WHERE ${watchHistory.completed} = true)`.mapWith(Number)
       })
       .from(watchHistory)
-      .where(eq(watchHistory.userId, userId))
+      .where(watched)
       .groupBy(watchHistory.contentType);
       
     // Get most watched categories
@@ -2359,7 +2936,7 @@ export class DatabaseStorage implements IStorage {
       FROM watch_history wh
       JOIN movies m ON wh.content_type = 'movie' AND wh.content_id = m.id
       JOIN categories c ON m.category_id = c.id
-      WHERE wh.user_id = ${userId}
+      WHERE wh.user_id = ${userId} AND wh.duration > 0
       GROUP BY c.id, c.name
       UNION ALL
       SELECT c.name, c.id, COUNT(*) as count, SUM(wh.duration) as total_seconds
@@ -2367,14 +2944,14 @@ export class DatabaseStorage implements IStorage {
       JOIN episodes e ON wh.content_type = 'episode' AND wh.content_id = e.id
       JOIN series s ON e.series_id = s.id
       JOIN categories c ON s.category_id = c.id
-      WHERE wh.user_id = ${userId}
+      WHERE wh.user_id = ${userId} AND wh.duration > 0
       GROUP BY c.id, c.name
       UNION ALL
       SELECT c.name, c.id, COUNT(*) as count, SUM(wh.duration) as total_seconds
       FROM watch_history wh
       JOIN channels ch ON wh.content_type = 'channel' AND wh.content_id = ch.id
       JOIN categories c ON ch.category_id = c.id
-      WHERE wh.user_id = ${userId}
+      WHERE wh.user_id = ${userId} AND wh.duration > 0
       GROUP BY c.id, c.name
       ORDER BY total_seconds DESC
       LIMIT 5
@@ -2398,13 +2975,13 @@ export class DatabaseStorage implements IStorage {
       LEFT JOIN channels ch ON wh.content_type = 'channel' AND wh.content_id = ch.id
       LEFT JOIN episodes e ON wh.content_type = 'episode' AND wh.content_id = e.id
       LEFT JOIN series s ON e.series_id = s.id
-      WHERE wh.user_id = ${userId}
+      WHERE wh.user_id = ${userId} AND wh.duration > 0
       ORDER BY wh.start_time DESC
       LIMIT 10
     `);
     
     return {
-      summary: totalWatchTime[0] || { totalSeconds: 0, totalContent: 0, totalCompleted: 0 },
+      summary: totalWatchTime[0] || { totalSeconds: 0, totalContent: 0, totalCompleted: 0, totalSessions: 0 },
       byContentType: watchTimeByType,
       topCategories: mostWatchedCategories,
       recentActivity: recentActivity
@@ -2508,6 +3085,11 @@ export class DatabaseStorage implements IStorage {
           enableRegistration: Boolean(row.enableRegistration),
           defaultUserQuota: Number(row.defaultUserQuota || 5),
           defaultUserConcurrentStreams: Number(row.defaultUserConcurrentStreams || 2),
+          streamCheckInterval: Number(row.streamCheckInterval || 5),
+          priorityStreamCheckInterval: Number(row.priorityStreamCheckInterval || 2),
+          streamCheckConcurrency: Number(row.streamCheckConcurrency || 5),
+          recordingPaddingBefore: Number(row.recordingPaddingBefore ?? 2),
+          recordingPaddingAfter: Number(row.recordingPaddingAfter ?? 5),
           lastUpdated: row.lastUpdated ? new Date(row.lastUpdated) : new Date()
         };
         
@@ -2538,6 +3120,11 @@ export class DatabaseStorage implements IStorage {
             "enableRegistration", 
             "defaultUserQuota", 
             "defaultUserConcurrentStreams", 
+            "streamCheckInterval", 
+            "priorityStreamCheckInterval", 
+            "streamCheckConcurrency", 
+            "recordingPaddingBefore", 
+            "recordingPaddingAfter", 
             "lastUpdated"
           ) VALUES (
             ${settingsData.siteName || "StreamHive"},
@@ -2548,6 +3135,11 @@ export class DatabaseStorage implements IStorage {
             ${settingsData.enableRegistration ?? true},
             ${settingsData.defaultUserQuota ?? 5},
             ${settingsData.defaultUserConcurrentStreams ?? 2},
+            ${settingsData.streamCheckInterval ?? 5},
+            ${settingsData.priorityStreamCheckInterval ?? 2},
+            ${settingsData.streamCheckConcurrency ?? 5},
+            ${settingsData.recordingPaddingBefore ?? 2},
+            ${settingsData.recordingPaddingAfter ?? 5},
             ${now}
           ) RETURNING *
         `);
@@ -2563,6 +3155,11 @@ export class DatabaseStorage implements IStorage {
           enableRegistration: Boolean(row.enableRegistration),
           defaultUserQuota: Number(row.defaultUserQuota || 5),
           defaultUserConcurrentStreams: Number(row.defaultUserConcurrentStreams || 2),
+          streamCheckInterval: Number(row.streamCheckInterval || 5),
+          priorityStreamCheckInterval: Number(row.priorityStreamCheckInterval || 2),
+          streamCheckConcurrency: Number(row.streamCheckConcurrency || 5),
+          recordingPaddingBefore: Number(row.recordingPaddingBefore ?? 2),
+          recordingPaddingAfter: Number(row.recordingPaddingAfter ?? 5),
           lastUpdated: row.lastUpdated ? new Date(row.lastUpdated) : new Date()
         };
       } else {
@@ -2607,6 +3204,26 @@ export class DatabaseStorage implements IStorage {
           parts.push(sql`"defaultUserConcurrentStreams" = ${settingsData.defaultUserConcurrentStreams}`);
         }
         
+        if (settingsData.streamCheckInterval !== undefined) {
+          parts.push(sql`"streamCheckInterval" = ${settingsData.streamCheckInterval}`);
+        }
+        
+        if (settingsData.priorityStreamCheckInterval !== undefined) {
+          parts.push(sql`"priorityStreamCheckInterval" = ${settingsData.priorityStreamCheckInterval}`);
+        }
+        
+        if (settingsData.streamCheckConcurrency !== undefined) {
+          parts.push(sql`"streamCheckConcurrency" = ${settingsData.streamCheckConcurrency}`);
+        }
+        
+        if (settingsData.recordingPaddingBefore !== undefined) {
+          parts.push(sql`"recordingPaddingBefore" = ${settingsData.recordingPaddingBefore}`);
+        }
+        
+        if (settingsData.recordingPaddingAfter !== undefined) {
+          parts.push(sql`"recordingPaddingAfter" = ${settingsData.recordingPaddingAfter}`);
+        }
+        
         // Always update lastUpdated
         parts.push(sql`"lastUpdated" = ${now}`);
         
@@ -2645,6 +3262,11 @@ export class DatabaseStorage implements IStorage {
           enableRegistration: Boolean(row.enableRegistration),
           defaultUserQuota: Number(row.defaultUserQuota || 5),
           defaultUserConcurrentStreams: Number(row.defaultUserConcurrentStreams || 2),
+          streamCheckInterval: Number(row.streamCheckInterval || 5),
+          priorityStreamCheckInterval: Number(row.priorityStreamCheckInterval || 2),
+          streamCheckConcurrency: Number(row.streamCheckConcurrency || 5),
+          recordingPaddingBefore: Number(row.recordingPaddingBefore ?? 2),
+          recordingPaddingAfter: Number(row.recordingPaddingAfter ?? 5),
           lastUpdated: row.lastUpdated ? new Date(row.lastUpdated) : new Date()
         };
       }
@@ -2676,7 +3298,8 @@ export class DatabaseStorage implements IStorage {
       premiumPlan: insertUser.premiumPlan || null,
       premiumExpiry: insertUser.premiumExpiry || null,
       stripeCustomerId: insertUser.stripeCustomerId || null,
-      stripeSubscriptionId: insertUser.stripeSubscriptionId || null
+      stripeSubscriptionId: insertUser.stripeSubscriptionId || null,
+      maxConcurrentStreams: null
     };
     
     const [user] = await db.insert(users).values(userToInsert).returning();
@@ -2879,6 +3502,18 @@ export class DatabaseStorage implements IStorage {
     return updatedChannel;
   }
 
+  async replaceChannelStreamSources(id: number, expected: unknown, streamSources: StreamSource[]): Promise<boolean> {
+    // Only if nobody changed the sources since they were read (jsonb equality ignores key order)
+    const result = await db
+      .update(channels)
+      .set({ streamSources })
+      .where(and(
+        eq(channels.id, id),
+        sql`${channels.streamSources} = ${JSON.stringify(expected)}::jsonb`
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async deleteChannel(id: number): Promise<boolean> {
     try {
       // First check if channel exists
@@ -2902,6 +3537,14 @@ export class DatabaseStorage implements IStorage {
         console.error("Error deleting channel programs:", programError);
         // Continue with channel deletion even if program deletion fails
       }
+      
+      // The health history and reorder log reference the channel, so they have to go first
+      await db
+        .delete(streamHealthChecks)
+        .where(eq(streamHealthChecks.channelId, id));
+      await db
+        .delete(sourceReorderLog)
+        .where(eq(sourceReorderLog.channelId, id));
         
       try {
         // Then delete the channel
@@ -2942,6 +3585,24 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getProgramsInRange(start: Date, end: Date, channelIds?: number[]): Promise<Program[]> {
+    if (channelIds && channelIds.length === 0) {
+      return [];
+    }
+    
+    return await db
+      .select()
+      .from(programs)
+      .where(
+        and(
+          gt(programs.endTime, start),
+          lt(programs.startTime, end),
+          channelIds ? inArray(programs.channelId, channelIds) : undefined
+        )
+      )
+      .orderBy(asc(programs.channelId), asc(programs.startTime));
+  }
+
   async getChannelPrograms(channelId: number): Promise<Program[]> {
     try {
       // First try to get the channel to check if it has an EPG ID
@@ -3533,6 +4194,16 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
   
+  // Per-user concurrent stream limit
+  async updateUserStreamLimit(userId: number, maxConcurrentStreams: number | null): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set({ maxConcurrentStreams })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    return updatedUser;
+  }
+  
   async checkUserPremiumStatus(userId: number): Promise<{ isPremium: boolean; planName: string | null; expiryDate: Date | null }> {
     // Get the user record
     const user = await this.getUser(userId);
@@ -3845,6 +4516,28 @@ export class DatabaseStorage implements IStorage {
     return newToken;
   }
   
+  async createActiveStreamTokenWithinLimit(token: InsertActiveStreamToken, limit: number): Promise<ActiveStreamToken | undefined> {
+    return await db.transaction(async (tx) => {
+      // Serializes session opens of the user, so concurrent ones cannot all take the last free slot
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('active_stream_tokens'), ${token.userId})`);
+      
+      const [{ liveCount }] = await tx.select({ liveCount: sql<number>`COUNT(*)`.mapWith(Number) })
+        .from(activeStreamTokens)
+        .where(and(
+          eq(activeStreamTokens.userId, token.userId),
+          eq(activeStreamTokens.isRevoked, false),
+          gt(activeStreamTokens.expiresAt, new Date())
+        ));
+      
+      if (liveCount >= limit) {
+        return undefined;
+      }
+      
+      const [newToken] = await tx.insert(activeStreamTokens).values(token).returning();
+      return newToken;
+    });
+  }
+  
   async getActiveStreamToken(tokenId: string): Promise<ActiveStreamToken | undefined> {
     const [token] = await db.select()
       .from(activeStreamTokens)
@@ -3881,8 +4574,7 @@ export class DatabaseStorage implements IStorage {
         .values({
           ...oldToken,
           tokenId: newTokenId,
-          issuedAt: now,
-          lastAccessed: now
+          lastRotatedAt: now
         })
         .returning();
       
@@ -3894,11 +4586,54 @@ export class DatabaseStorage implements IStorage {
     const tokens = await db.select()
       .from(activeStreamTokens)
       .where(eq(activeStreamTokens.userId, userId))
-      .orderBy(desc(activeStreamTokens.lastAccessed));
+      .orderBy(desc(activeStreamTokens.createdAt));
     
     return tokens;
   }
   
+  async getAllActiveStreamTokens(): Promise<ActiveStreamToken[]> {
+    return await db.select()
+      .from(activeStreamTokens)
+      .orderBy(desc(activeStreamTokens.createdAt));
+  }
+  
+  async touchStreamToken(tokenId: string, expiresAt: Date): Promise<ActiveStreamToken | undefined> {
+    const [token] = await db.update(activeStreamTokens)
+      .set({
+        lastHeartbeatAt: new Date(),
+        expiresAt
+      })
+      .where(eq(activeStreamTokens.tokenId, tokenId))
+      .returning();
+    
+    return token;
+  }
+  
+  async addStreamTokenBytes(tokenId: string, bytes: number): Promise<void> {
+    await db.update(activeStreamTokens)
+      .set({ bytesServed: sql`${activeStreamTokens.bytesServed} + ${bytes}` })
+      .where(eq(activeStreamTokens.tokenId, tokenId));
+  }
+  
+  async closeExpiredWatchSessions(expiredBefore: Date): Promise<number> {
+    // Sessions that timed out stopped playing at their last heartbeat
+    const result = await db.update(watchHistory)
+      .set({ endTime: sql`coalesce(${watchHistory.updatedAt}, ${watchHistory.startTime})` })
+      .where(
+        and(
+          isNull(watchHistory.endTime),
+          inArray(
+            watchHistory.id,
+            db.select({ id: activeStreamTokens.watchHistoryId })
+              .from(activeStreamTokens)
+              .where(lte(activeStreamTokens.expiresAt, expiredBefore))
+          )
+        )
+      );
+    
+    return result.rowCount ? result.rowCount : 0;
+  }
+  
   async cleanupExpiredStreamTokens(): Promise<number> {
     const now = new Date();
     const result = await db.delete(activeStreamTokens)
@@ -3936,9 +4671,19 @@ export class DatabaseStorage implements IStorage {
     return restriction;
   }
   
+  async getGeoRestrictions(contentType?: string): Promise<GeoRestriction[]> {
+    if (contentType) {
+      return await db.select()
+        .from(geoRestrictions)
+        .where(eq(geoRestrictions.contentType, contentType));
+    }
+    
+    return await db.select().from(geoRestrictions);
+  }
+  
   async updateGeoRestriction(id: number, restriction: Partial<InsertGeoRestriction>): Promise<GeoRestriction | undefined> {
     const [updatedRestriction] = await db.update(geoRestrictions)
-      .set(restriction)
+      .set({ ...restriction, updatedAt: new Date() })
       .where(eq(geoRestrictions.id, id))
       .returning();
     
@@ -3975,8 +4720,323 @@ export class DatabaseStorage implements IStorage {
   
   // DRM & encryption operations
   async getDRMKeyForContent(contentType: string, contentId: number): Promise<string | null> {
-    // This would connect to a DRM key server or database - for now just return null
-    return null;
+    const key = await this.getActiveContentKey(contentType, contentId);
+    return key ? key.keyValue : null;
+  }
+  
+  async createContentKey(key: InsertContentKey): Promise<ContentKey> {
+    // A content item has at most one active key; older keys stay valid for in-flight playlists
+    await this.deactivateContentKeys(key.contentType, key.contentId);
+    
+    const [newKey] = await db.insert(contentKeys).values(key).returning();
+    return newKey;
+  }
+  
+  async getContentKey(keyId: string): Promise<ContentKey | undefined> {
+    const [key] = await db.select()
+      .from(contentKeys)
+      .where(eq(contentKeys.keyId, keyId));
+    
+    return key;
+  }
+  
+  async getActiveContentKey(contentType: string, contentId: number): Promise<ContentKey | undefined> {
+    const [key] = await db.select()
+      .from(contentKeys)
+      .where(
+        and(
+          eq(contentKeys.contentType, contentType),
+          eq(contentKeys.contentId, contentId),
+          eq(contentKeys.isActive, true)
+        )
+      )
+      .orderBy(desc(contentKeys.createdAt));
+    
+    return key;
+  }
+  
+  async getActiveContentKeys(): Promise<ContentKey[]> {
+    return await db.select()
+      .from(contentKeys)
+      .where(eq(contentKeys.isActive, true));
+  }
+  
+  async deactivateContentKeys(contentType: string, contentId: number): Promise<number> {
+    const result = await db.update(contentKeys)
+      .set({
+        isActive: false,
+        deactivatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(contentKeys.contentType, contentType),
+          eq(contentKeys.contentId, contentId),
+          eq(contentKeys.isActive, true)
+        )
+      );
+    
+    return result.rowCount ? result.rowCount : 0;
+  }
+  
+  async deleteInactiveContentKeys(deactivatedBefore: Date): Promise<number> {
+    const result = await db.delete(contentKeys)
+      .where(
+        and(
+          eq(contentKeys.isActive, false),
+          lt(contentKeys.deactivatedAt, deactivatedBefore)
+        )
+      );
+    
+    return result.rowCount ? result.rowCount : 0;
+  }
+  
+  // Stream health operations
+  async createStreamHealthCheck(check: InsertStreamHealthCheck): Promise<StreamHealthCheck> {
+    const [newCheck] = await db.insert(streamHealthChecks).values(check).returning();
+    return newCheck;
+  }
+  
+  async getStreamHealthChecks(channelId: number, since: Date): Promise<StreamHealthCheck[]> {
+    return await db.select()
+      .from(streamHealthChecks)
+      .where(
+        and(
+          eq(streamHealthChecks.channelId, channelId),
+          gte(streamHealthChecks.checkedAt, since)
+        )
+      )
+      .orderBy(desc(streamHealthChecks.checkedAt));
+  }
+  
+  async getLatestStreamHealthCheck(channelId: number, sourceUrl: string): Promise<StreamHealthCheck | undefined> {
+    const [check] = await db.select()
+      .from(streamHealthChecks)
+      .where(
+        and(
+          eq(streamHealthChecks.channelId, channelId),
+          eq(streamHealthChecks.sourceUrl, sourceUrl)
+        )
+      )
+      .orderBy(desc(streamHealthChecks.checkedAt))
+      .limit(1);
+    
+    return check;
+  }
+  
+  async deleteStreamHealthChecks(checkedBefore: Date): Promise<number> {
+    const result = await db.delete(streamHealthChecks)
+      .where(lt(streamHealthChecks.checkedAt, checkedBefore));
+    
+    return result.rowCount ? result.rowCount : 0;
+  }
+  
+  async getStreamErrorEvents(contentType: string, contentId: number, since: Date): Promise<StreamAnalytics[]> {
+    return await db.select()
+      .from(streamAnalytics)
+      .where(
+        and(
+          eq(streamAnalytics.event, 'error'),
+          eq(streamAnalytics.contentType, contentType),
+          eq(streamAnalytics.contentId, contentId),
+          gte(streamAnalytics.timestamp, since)
+        )
+      );
+  }
+  
+  async createSourceReorderLog(entry: InsertSourceReorderLog): Promise<SourceReorderLog> {
+    const [newEntry] = await db.insert(sourceReorderLog).values(entry).returning();
+    return newEntry;
+  }
+  
+  async getSourceReorderLogs(channelId?: number, limit: number = 100): Promise<SourceReorderLog[]> {
+    return await db.select()
+      .from(sourceReorderLog)
+      .where(channelId !== undefined ? eq(sourceReorderLog.channelId, channelId) : undefined)
+      .orderBy(desc(sourceReorderLog.createdAt))
+      .limit(limit);
+  }
+  
+  // VOD link audit operations
+  async saveVodLinkStatus(status: InsertVodLinkStatus): Promise<VodLinkStatus> {
+    const [existing] = await db.select()
+      .from(vodLinkStatuses)
+      .where(
+        and(
+          eq(vodLinkStatuses.contentType, status.contentType),
+          eq(vodLinkStatuses.contentId, status.contentId),
+          eq(vodLinkStatuses.sourceUrl, status.sourceUrl)
+        )
+      );
+    
+    if (existing) {
+      const [updated] = await db.update(vodLinkStatuses)
+        .set({ ...status, lastChecked: new Date() })
+        .where(eq(vodLinkStatuses.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    const [created] = await db.insert(vodLinkStatuses).values(status).returning();
+    return created;
+  }
+  
+  async getVodLinkStatus(id: number): Promise<VodLinkStatus | undefined> {
+    const [status] = await db.select().from(vodLinkStatuses).where(eq(vodLinkStatuses.id, id));
+    return status;
+  }
+  
+  async getVodLinkStatuses(contentType?: string): Promise<VodLinkStatus[]> {
+    return await db.select()
+      .from(vodLinkStatuses)
+      .where(contentType !== undefined ? eq(vodLinkStatuses.contentType, contentType) : undefined);
+  }
+  
+  async deleteVodLinkStatus(id: number): Promise<boolean> {
+    const result = await db.delete(vodLinkStatuses).where(eq(vodLinkStatuses.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+  
+  // Recording operations
+  async createRecordingSchedule(schedule: InsertRecordingSchedule): Promise<RecordingSchedule> {
+    const [created] = await db.insert(recordingSchedules).values(schedule).returning();
+    return created;
+  }
+  
+  async getRecordingSchedule(id: number): Promise<RecordingSchedule | undefined> {
+    const [schedule] = await db.select().from(recordingSchedules).where(eq(recordingSchedules.id, id));
+    return schedule;
+  }
+  
+  async getRecordingSchedules(userId?: number): Promise<RecordingSchedule[]> {
+    return await db.select()
+      .from(recordingSchedules)
+      .where(userId !== undefined ? eq(recordingSchedules.userId, userId) : undefined)
+      .orderBy(asc(recordingSchedules.title));
+  }
+  
+  async deleteRecordingSchedule(id: number): Promise<boolean> {
+    // Recordings made by the schedule are kept
+    await db.update(recordings)
+      .set({ scheduleId: null })
+      .where(eq(recordings.scheduleId, id));
+    
+    const result = await db.delete(recordingSchedules).where(eq(recordingSchedules.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+  
+  async createRecording(recording: InsertRecording): Promise<Recording> {
+    const [created] = await db.insert(recordings).values(recording).returning();
+    return created;
+  }
+  
+  async getRecording(id: number): Promise<Recording | undefined> {
+    const [recording] = await db.select().from(recordings).where(eq(recordings.id, id));
+    return recording;
+  }
+  
+  async getRecordings(userId?: number): Promise<Recording[]> {
+    return await db.select()
+      .from(recordings)
+      .where(userId !== undefined ? eq(recordings.userId, userId) : undefined)
+      .orderBy(desc(recordings.startTime));
+  }
+  
+  async updateRecording(id: number, update: Partial<InsertRecording>): Promise<Recording | undefined> {
+    const [updated] = await db.update(recordings)
+      .set(update)
+      .where(eq(recordings.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteRecording(id: number): Promise<boolean> {
+    const result = await db.delete(recordings).where(eq(recordings.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+  
+  // Data usage operations
+  async addDataUsage(usage: InsertDataUsage[]): Promise<void> {
+    if (usage.length === 0) return;
+    
+    // A single statement: all totals are added to or none are, and concurrent
+    // additions to the same total cannot both insert it or lose one another
+    await db.insert(dataUsage)
+      .values(usage)
+      .onConflictDoUpdate({
+        target: [dataUsage.userId, dataUsage.contentType, dataUsage.contentId, dataUsage.period, dataUsage.periodStart],
+        set: { bytes: sql`${dataUsage.bytes} + excluded.bytes`, updatedAt: new Date() }
+      });
+  }
+  
+  async getDataUsage(period: string, periodStart: Date, userId?: number): Promise<DataUsage[]> {
+    return await db.select()
+      .from(dataUsage)
+      .where(
+        and(
+          eq(dataUsage.period, period),
+          eq(dataUsage.periodStart, periodStart),
+          userId !== undefined ? eq(dataUsage.userId, userId) : undefined
+        )
+      );
+  }
+  
+  async deleteDataUsage(period: string, startedBefore: Date): Promise<number> {
+    const result = await db.delete(dataUsage)
+      .where(and(eq(dataUsage.period, period), lt(dataUsage.periodStart, startedBefore)));
+    
+    return result.rowCount ? result.rowCount : 0;
+  }
+  
+  async getDataQuotas(): Promise<DataQuota[]> {
+    return await db.select().from(dataQuotas);
+  }
+  
+  async saveDataQuota(quota: InsertDataQuota): Promise<DataQuota> {
+    const [saved] = await db.insert(dataQuotas)
+      .values(quota)
+      .onConflictDoUpdate({
+        target: dataQuotas.plan,
+        set: { monthlyLimit: quota.monthlyLimit ?? null, warningPercent: quota.warningPercent ?? 80, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+  
+  // Playlist key operations
+  async createPlaylistKey(playlistKey: InsertPlaylistKey): Promise<PlaylistKey> {
+    const [record] = await db.insert(playlistKeys).values(playlistKey).returning();
+    return record;
+  }
+  
+  async getPlaylistKey(key: string): Promise<PlaylistKey | undefined> {
+    const [record] = await db.select()
+      .from(playlistKeys)
+      .where(eq(playlistKeys.key, key));
+    
+    return record;
+  }
+  
+  async getUserPlaylistKey(userId: number): Promise<PlaylistKey | undefined> {
+    const [record] = await db.select()
+      .from(playlistKeys)
+      .where(and(eq(playlistKeys.userId, userId), eq(playlistKeys.isRevoked, false)))
+      .orderBy(desc(playlistKeys.createdAt))
+      .limit(1);
+    
+    return record;
+  }
+  
+  async revokeUserPlaylistKeys(userId: number): Promise<PlaylistKey[]> {
+    return await db.update(playlistKeys)
+      .set({ isRevoked: true })
+      .where(and(eq(playlistKeys.userId, userId), eq(playlistKeys.isRevoked, false)))
+      .returning();
+  }
+  
+  async touchPlaylistKey(id: number): Promise<void> {
+    await db.update(playlistKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(playlistKeys.id, id));
   }
 }
 
@@ -1,56 +1,312 @@
 import axios from 'axios';
-import { Channel, StreamSource } from '@shared/schema';
+import { Channel, StreamSource, StreamHealthCheck, StreamRequestProfile } from '@shared/schema';
 import { storage } from './storage';
+import { parseM3U8, HlsPlaylist } from './utils/hls-manifest';
+import { isSourceDisabled } from './utils/source-ranking';
+import { getUpstreamRequestConfig } from './utils/upstream-request';
+import { streamChecks } from './utils/metrics';
 
-// Time in milliseconds between stream status checks
-const CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+// Time in milliseconds between runs of the scheduler, which checks the
+// channels whose check interval (from site settings) has passed
+const SCHEDULER_TICK_MS = 60 * 1000; // 1 minute
+
+// Used when no site settings exist
+const DEFAULT_CHECK_INTERVAL_MINUTES = 5;
+const DEFAULT_PRIORITY_CHECK_INTERVAL_MINUTES = 2;
+const DEFAULT_CHECK_CONCURRENCY = 5;
+
+// How long finished on-demand checks remain available for progress reporting
+const CHECK_JOB_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+
+// Timeout of each request made by a probe
+const PROBE_TIMEOUT_MS = 5000;
+
+// How long probe results are kept in the health history
+const HEALTH_HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
 
 // Stored timeout ID for the interval
 let checkIntervalId: NodeJS.Timeout | null = null;
 
+// Whether a scheduled run is in progress, so slow runs do not overlap
+let scheduledRunInProgress = false;
+
+// Channels being checked right now, by scheduled runs and on-demand checks
+const channelsInCheck: Set<number> = new Set();
+
+// On-demand checks by ID
+const checkJobs: Map<number, StreamCheckJob> = new Map();
+let nextCheckJobId = 1;
+
+export type StreamCheckScope = 'channel' | 'category' | 'all';
+
+// Progress of an on-demand check started by an admin
+export type StreamCheckJob = {
+  id: number;
+  scope: StreamCheckScope;
+  scopeId: number | null;           // Channel or category ID
+  total: number;
+  completed: number;                // Includes channels skipped because a check was already running
+  online: number;
+  offline: number;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: Date;
+  finishedAt: Date | null;
+};
+
+type CheckSettings = {
+  interval: number;                 // in minutes
+  priorityInterval: number;         // in minutes, for premium and watched channels
+  concurrency: number;
+};
+
+// Result of probing a single stream source
+export type StreamProbeResult = {
+  isOnline: boolean;
+  failureReason: string | null;
+  manifestLatency: number | null;   // in ms
+  segmentLatency: number | null;    // in ms
+  mediaSequence: number | null;     // live HLS only
+};
+
+// Health of a stream source over the health history
+export type SourceHealthSummary = {
+  url: string;
+  label?: string;
+  priority: number;
+  pinned: boolean;
+  disabledUntil: string | null;     // Set while disabled by source ranking
+  uptime24h: number | null;         // percentage, null without probes in the period
+  uptime7d: number | null;
+  averageLatency: number | null;    // in ms, manifest and segment latency of successful probes
+  lastCheckedAt: Date | null;
+  isOnline: boolean | null;
+  lastFailureReason: string | null;
+  lastFailureAt: Date | null;
+};
+
+class ProbeError extends Error {}
+
 /**
- * Checks if a stream URL is accessible
- * @param url The stream URL to check
- * @param format The format of the stream ('hls', 'mp4', etc.)
- * @returns Promise resolving to true if accessible, false otherwise
+ * Fetches a playlist or manifest and measures how long it took
+ * @returns The body, the URL after redirects and the latency in ms
+ */
+async function fetchManifest(
+  url: string,
+  profile: StreamRequestProfile | undefined
+): Promise<{ body: string; finalUrl: string; latency: number }> {
+  const startedAt = Date.now();
+  const response = await axios.get(url, {
+    timeout: PROBE_TIMEOUT_MS,
+    responseType: 'text',
+    ...getUpstreamRequestConfig(profile, USER_AGENT)
+  });
+  
+  return {
+    body: typeof response.data === 'string' ? response.data : String(response.data),
+    finalUrl: response.request?.res?.responseUrl || url,
+    latency: Date.now() - startedAt
+  };
+}
+
+/**
+ * Requests a media segment and measures the time until its first byte.
+ * The body is not downloaded.
+ * @returns The latency in ms
+ */
+async function fetchSegment(url: string, profile: StreamRequestProfile | undefined): Promise<number> {
+  const startedAt = Date.now();
+  const response = await axios.get(url, {
+    timeout: PROBE_TIMEOUT_MS,
+    responseType: 'stream',
+    ...getUpstreamRequestConfig(profile, USER_AGENT)
+  });
+  
+  const latency = Date.now() - startedAt;
+  response.data.destroy();
+  
+  return latency;
+}
+
+/**
+ * Returns the URIs of a playlist (variants of a master playlist, segments of
+ * a media playlist), resolved against the playlist URL
+ */
+function getPlaylistUris(playlist: HlsPlaylist, playlistUrl: string): string[] {
+  const uris: string[] = [];
+  
+  for (const line of playlist.lines) {
+    if (line.type === 'uri') {
+      uris.push(new URL(line.uri, playlistUrl).toString());
+    }
+  }
+  
+  return uris;
+}
+
+/**
+ * Returns the value of a tag of a playlist, if present
+ */
+function getTagValue(playlist: HlsPlaylist, name: string): string | null | undefined {
+  for (const line of playlist.lines) {
+    if (line.type === 'tag' && line.name === name) {
+      return line.value;
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Probes an HLS stream: the master playlist, its first variant and a segment
+ * of it. Live streams must also advance their media sequence between probes.
+ * @param source The stream source
+ * @param previous The previous probe of the source, if any
+ * @throws ProbeError or a request error if the stream cannot be played
  */
-export async function checkStreamStatus(url: string, format: string): Promise<boolean> {
+async function probeHlsStream(source: StreamSource, previous: StreamHealthCheck | undefined): Promise<StreamProbeResult> {
+  let manifest = await fetchManifest(source.url, source.requestProfile);
+  let manifestLatency = manifest.latency;
+  let playlist = parsePlaylist(manifest.body);
+  
+  // Follow the master playlist into its first variant
+  if (playlist.isMaster) {
+    const variantUrl = getPlaylistUris(playlist, manifest.finalUrl)[0];
+    if (!variantUrl) {
+      throw new ProbeError('Master playlist has no variants');
+    }
+    
+    manifest = await fetchManifest(variantUrl, source.requestProfile);
+    manifestLatency += manifest.latency;
+    playlist = parsePlaylist(manifest.body);
+    
+    if (playlist.isMaster) {
+      throw new ProbeError('Variant is not a media playlist');
+    }
+  }
+  
+  const segments = getPlaylistUris(playlist, manifest.finalUrl);
+  if (segments.length === 0) {
+    throw new ProbeError('Media playlist has no segments');
+  }
+  
+  const isLive = getTagValue(playlist, 'EXT-X-ENDLIST') === undefined && getTagValue(playlist, 'EXT-X-PLAYLIST-TYPE') !== 'VOD';
+  const mediaSequence = isLive ? parseInt(getTagValue(playlist, 'EXT-X-MEDIA-SEQUENCE') || '0') : null;
+  
+  // A live playlist that has not moved on for several target durations is stale,
+  // even though the origin still serves it. The sequence is recorded anyway, so
+  // the stream stays offline until it advances again.
+  if (mediaSequence !== null && previous && previous.mediaSequence !== null) {
+    const targetDuration = parseFloat(getTagValue(playlist, 'EXT-X-TARGETDURATION') || '10');
+    const elapsed = Date.now() - previous.checkedAt.getTime();
+    
+    if (mediaSequence === previous.mediaSequence && elapsed > targetDuration * 3 * 1000) {
+      return {
+        isOnline: false,
+        failureReason: `Media sequence is not advancing (stuck at ${mediaSequence})`,
+        manifestLatency,
+        segmentLatency: null,
+        mediaSequence
+      };
+    }
+  }
+  
+  // The newest segment of a live stream, the first one of a VOD
+  const segmentLatency = await fetchSegment(isLive ? segments[segments.length - 1] : segments[0], source.requestProfile);
+  
+  return { isOnline: true, failureReason: null, manifestLatency, segmentLatency, mediaSequence };
+}
+
+function parsePlaylist(body: string): HlsPlaylist {
+  try {
+    return parseM3U8(body);
+  } catch {
+    throw new ProbeError('Response is not an HLS playlist');
+  }
+}
+
+/**
+ * Describes why a probe failed, for the health history
+ */
+function describeProbeError(error: unknown): string {
+  if (error instanceof ProbeError) {
+    return error.message;
+  }
+  
+  if (axios.isAxiosError(error)) {
+    const target = error.config?.url ? ` (${error.config.url})` : '';
+    
+    if (error.response) {
+      return `HTTP ${error.response.status}${target}`;
+    }
+    
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+      ? `Timed out${target}`
+      : `${error.code || error.message}${target}`;
+  }
+  
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Probes a stream source. HLS streams are followed down to a segment; DASH
+ * manifests must parse as an MPD, and other formats must answer a HEAD request.
+ * @param source The stream source to probe
+ * @param previous The previous probe of the source, used to detect stale live playlists
+ * @returns The probe result, never throws
+ */
+export async function probeStreamSource(source: StreamSource, previous?: StreamHealthCheck): Promise<StreamProbeResult> {
   try {
-    // Different check methods based on stream format
+    const format = /\.mpd$/i.test(new URL(source.url).pathname) ? 'dash' : (source.format || 'hls');
+    
     if (format === 'hls') {
-      // For HLS streams, attempt to get the m3u8 manifest
-      const response = await axios.get(url, {
-        timeout: 5000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      });
-      
-      // Check that the response looks like an HLS manifest
-      return response.status === 200 && 
-             response.data && 
-             typeof response.data === 'string' && 
-             (response.data.includes('#EXTM3U') || response.data.includes('#EXT-X-VERSION'));
-    } else {
-      // For other formats (like MP4), just check if we can access the header
-      const response = await axios.head(url, {
-        timeout: 5000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      });
+      return await probeHlsStream(source, previous);
+    }
+    
+    if (format === 'dash') {
+      const manifest = await fetchManifest(source.url, source.requestProfile);
+      if (!/<(?:[\w.-]+:)?MPD[\s>]/.test(manifest.body)) {
+        throw new ProbeError('Response is not a DASH manifest');
+      }
       
-      // Check that the response is OK and has the right content type
-      return response.status === 200;
+      return { isOnline: true, failureReason: null, manifestLatency: manifest.latency, segmentLatency: null, mediaSequence: null };
     }
+    
+    // For other formats (like MP4), just check if we can access the header
+    const startedAt = Date.now();
+    await axios.head(source.url, {
+      timeout: PROBE_TIMEOUT_MS,
+      ...getUpstreamRequestConfig(source.requestProfile, USER_AGENT)
+    });
+    
+    return { isOnline: true, failureReason: null, manifestLatency: null, segmentLatency: Date.now() - startedAt, mediaSequence: null };
   } catch (error) {
-    console.error(`Error checking stream URL ${url}:`, error);
-    return false;
+    return {
+      isOnline: false,
+      failureReason: describeProbeError(error),
+      manifestLatency: null,
+      segmentLatency: null,
+      mediaSequence: null
+    };
   }
 }
 
 /**
- * Checks a channel's streams and updates its status in the database
+ * Checks if a stream URL is accessible
+ * @param url The stream URL to check
+ * @param format The format of the stream ('hls', 'mp4', etc.)
+ * @param requestProfile Upstream request settings of the source, if any
+ * @returns Promise resolving to true if accessible, false otherwise
+ */
+export async function checkStreamStatus(url: string, format: string, requestProfile?: StreamRequestProfile): Promise<boolean> {
+  const result = await probeStreamSource({ url, format, priority: 0, requestProfile });
+  return result.isOnline;
+}
+
+/**
+ * Checks a channel's streams, records every probe in the health history
+ * and updates the channel status in the database
  * @param channel The channel to check
  * @returns Promise resolving to the updated status
  */
@@ -72,63 +328,279 @@ export async function checkAndUpdateChannelStatus(channel: Channel): Promise<str
   // Sort sources by priority (lower numbers first)
   const sortedSources = [...sources].sort((a, b) => a.priority - b.priority);
   
-  // Try checking each source until one works
+  // Probe every source, so the health history covers backups as well
+  let isOnline = false;
+  
   for (const source of sortedSources) {
-    const isOnline = await checkStreamStatus(source.url, source.format);
+    const previous = await storage.getLatestStreamHealthCheck(channel.id, source.url);
+    const result = await probeStreamSource(source, previous);
+    streamChecks.inc({ result: result.isOnline ? 'online' : 'offline' });
     
-    if (isOnline) {
-      // Update channel status to online
-      await storage.updateChannel(channel.id, {
-        status: 'online',
-        lastChecked: new Date()
-      });
-      
-      return 'online';
+    await storage.createStreamHealthCheck({
+      channelId: channel.id,
+      sourceUrl: source.url,
+      ...result
+    });
+    
+    if (result.isOnline) {
+      isOnline = true;
+    } else {
+      console.warn(`Channel ${channel.name} source ${source.label || source.url} is offline: ${result.failureReason}`);
     }
   }
   
-  // If we get here, no sources are online
+  const status = isOnline ? 'online' : 'offline';
   await storage.updateChannel(channel.id, {
-    status: 'offline',
+    status,
     lastChecked: new Date()
   });
   
-  return 'offline';
+  return status;
 }
 
 /**
- * Checks all channels and updates their status
+ * Summarizes the health history of a channel's stream sources
+ * @param channel The channel
+ * @returns Uptime, latency and the last failure of each current source, by priority
  */
-export async function checkAllChannels(): Promise<void> {
-  try {
-    // Get all channels
-    const channels = await storage.getChannels();
-    console.log(`Checking status for ${channels.length} channels...`);
+export async function getChannelSourceHealth(channel: Channel): Promise<SourceHealthSummary[]> {
+  const now = Date.now();
+  const dayAgo = now - 24 * 60 * 60 * 1000;
+  const checks = await storage.getStreamHealthChecks(channel.id, new Date(now - 7 * 24 * 60 * 60 * 1000));
+  
+  const uptime = (sourceChecks: StreamHealthCheck[]) => sourceChecks.length > 0
+    ? Math.round(sourceChecks.filter(check => check.isOnline).length / sourceChecks.length * 1000) / 10
+    : null;
+  
+  const sources = Array.isArray(channel.streamSources) ? channel.streamSources as StreamSource[] : [];
+  
+  return [...sources].sort((a, b) => a.priority - b.priority).map(source => {
+    // Checks are ordered newest first
+    const sourceChecks = checks.filter(check => check.sourceUrl === source.url);
+    const lastCheck = sourceChecks[0];
+    const lastFailure = sourceChecks.find(check => !check.isOnline);
     
-    // Process channels in batches to avoid overwhelming the system
-    const batchSize = 5;
+    const latencies = sourceChecks
+      .filter(check => check.isOnline)
+      .map(check => (check.manifestLatency || 0) + (check.segmentLatency || 0));
     
-    for (let i = 0; i < channels.length; i += batchSize) {
-      const batch = channels.slice(i, i + batchSize);
-      
-      // Process this batch in parallel
-      await Promise.all(
-        batch.map(async (channel) => {
-          const status = await checkAndUpdateChannelStatus(channel);
+    return {
+      url: source.url,
+      label: source.label,
+      priority: source.priority,
+      pinned: !!source.pinned,
+      disabledUntil: isSourceDisabled(source) ? source.disabledUntil! : null,
+      uptime24h: uptime(sourceChecks.filter(check => check.checkedAt.getTime() >= dayAgo)),
+      uptime7d: uptime(sourceChecks),
+      averageLatency: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+      lastCheckedAt: lastCheck ? lastCheck.checkedAt : null,
+      isOnline: lastCheck ? lastCheck.isOnline : null,
+      lastFailureReason: lastFailure ? lastFailure.failureReason : null,
+      lastFailureAt: lastFailure ? lastFailure.checkedAt : null
+    };
+  });
+}
+
+/**
+ * Returns the stream checker settings from site settings
+ */
+async function getCheckSettings(): Promise<CheckSettings> {
+  const settings = await storage.getSiteSettings();
+
+  return {
+    interval: Math.max(1, settings?.streamCheckInterval ?? DEFAULT_CHECK_INTERVAL_MINUTES),
+    priorityInterval: Math.max(1, settings?.priorityStreamCheckInterval ?? DEFAULT_PRIORITY_CHECK_INTERVAL_MINUTES),
+    concurrency: Math.max(1, settings?.streamCheckConcurrency ?? DEFAULT_CHECK_CONCURRENCY)
+  };
+}
+
+/**
+ * Returns the IDs of the channels someone is watching right now
+ */
+async function getWatchedChannelIds(): Promise<Set<number>> {
+  const now = Date.now();
+  const tokens = await storage.getAllActiveStreamTokens();
+
+  return new Set(
+    tokens
+      .filter(token => token.contentType === 'channel' && !token.isRevoked && token.expiresAt.getTime() > now)
+      .map(token => token.contentId)
+  );
+}
+
+/**
+ * Checks channels with a limited number of checks running at once. Channels
+ * that are already being checked are skipped.
+ *
+ * @param channels The channels to check
+ * @param concurrency Maximum number of channels checked at once
+ * @param onChecked Called after each channel with its new status, or null if it was skipped or the check failed
+ */
+async function checkChannels(
+  channels: Channel[],
+  concurrency: number,
+  onChecked: (channel: Channel, status: string | null) => void
+): Promise<void> {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < channels.length) {
+      const channel = channels[next++];
+
+      if (channelsInCheck.has(channel.id)) {
+        onChecked(channel, null);
+        continue;
+      }
+
+      channelsInCheck.add(channel.id);
+      try {
+        onChecked(channel, await checkAndUpdateChannelStatus(channel));
+      } catch (error) {
+        console.error(`Error checking channel ${channel.id}:`, error);
+        onChecked(channel, null);
+      } finally {
+        channelsInCheck.delete(channel.id);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, channels.length) }, worker));
+}
+
+/**
+ * Checks the channels whose check interval has passed and updates their
+ * status. Premium channels and channels being watched use the priority
+ * interval.
+ */
+export async function checkDueChannels(): Promise<void> {
+  if (scheduledRunInProgress) {
+    return;
+  }
+
+  scheduledRunInProgress = true;
+
+  try {
+    const settings = await getCheckSettings();
+    const channels = await storage.getChannels();
+    const watched = await getWatchedChannelIds();
+    const now = Date.now();
+
+    const due = channels.filter(channel => {
+      if (!channel.lastChecked) {
+        return true;
+      }
+
+      const interval = channel.isPremium || watched.has(channel.id) ? settings.priorityInterval : settings.interval;
+
+      // Half a tick of tolerance, so checks do not slip by a whole tick each time
+      return now - channel.lastChecked.getTime() >= interval * 60 * 1000 - SCHEDULER_TICK_MS / 2;
+    });
+
+    if (due.length > 0) {
+      console.log(`Checking status for ${due.length} of ${channels.length} channels...`);
+
+      await checkChannels(due, settings.concurrency, (channel, status) => {
+        if (status) {
           console.log(`Channel ${channel.name} (ID: ${channel.id}) status: ${status}`);
-        })
-      );
-      
-      // Small delay between batches
-      if (i + batchSize < channels.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+      });
+
+      console.log('Finished checking due channel statuses');
+
+      // Forget probes older than the retention period
+      const removed = await storage.deleteStreamHealthChecks(new Date(Date.now() - HEALTH_HISTORY_RETENTION_MS));
+      if (removed > 0) {
+        console.log(`Removed ${removed} old stream health checks`);
       }
     }
-    
-    console.log('Finished checking all channel statuses');
   } catch (error) {
-    console.error('Error checking all channels:', error);
+    console.error('Error checking due channels:', error);
+  } finally {
+    scheduledRunInProgress = false;
+  }
+}
+
+/**
+ * Starts checking a channel, the channels of a category or all channels right
+ * away, regardless of their check interval
+ *
+ * @param scope What to check
+ * @param scopeId The channel or category ID, for those scopes
+ * @returns The job, which is updated as channels are checked
+ */
+export async function startStreamCheck(scope: StreamCheckScope, scopeId: number | null = null): Promise<StreamCheckJob> {
+  pruneCheckJobs();
+
+  const settings = await getCheckSettings();
+  let channels: Channel[];
+
+  if (scope === 'channel') {
+    const channel = scopeId !== null ? await storage.getChannel(scopeId) : undefined;
+    channels = channel ? [channel] : [];
+  } else {
+    channels = await storage.getChannels();
+    if (scope === 'category') {
+      channels = channels.filter(channel => channel.categoryId === scopeId);
+    }
   }
+
+  const job: StreamCheckJob = {
+    id: nextCheckJobId++,
+    scope,
+    scopeId: scope === 'all' ? null : scopeId,
+    total: channels.length,
+    completed: 0,
+    online: 0,
+    offline: 0,
+    status: 'running',
+    startedAt: new Date(),
+    finishedAt: null
+  };
+  checkJobs.set(job.id, job);
+
+  checkChannels(channels, settings.concurrency, (_channel, status) => {
+    job.completed++;
+    if (status === 'online') job.online++;
+    else if (status === 'offline') job.offline++;
+  })
+    .then(() => {
+      job.status = 'completed';
+      job.finishedAt = new Date();
+    })
+    .catch(error => {
+      console.error(`Error running stream check ${job.id}:`, error);
+      job.status = 'failed';
+      job.finishedAt = new Date();
+    });
+
+  return job;
+}
+
+/**
+ * Returns an on-demand check by ID
+ */
+export function getStreamCheckJob(id: number): StreamCheckJob | undefined {
+  return checkJobs.get(id);
+}
+
+/**
+ * Returns the on-demand checks of the last hour, newest first
+ */
+export function getStreamCheckJobs(): StreamCheckJob[] {
+  pruneCheckJobs();
+  return Array.from(checkJobs.values()).sort((a, b) => b.id - a.id);
+}
+
+/**
+ * Forgets on-demand checks that finished more than CHECK_JOB_RETENTION_MS ago
+ */
+function pruneCheckJobs(): void {
+  const now = Date.now();
+  Array.from(checkJobs.entries()).forEach(([id, job]) => {
+    if (job.finishedAt && now - job.finishedAt.getTime() > CHECK_JOB_RETENTION_MS) {
+      checkJobs.delete(id);
+    }
+  });
 }
 
 /**
@@ -141,12 +613,12 @@ export function startStreamChecker(): void {
   }
   
   // Run an initial check right away
-  checkAllChannels();
+  checkDueChannels();
   
   // Set up periodic checking
-  checkIntervalId = setInterval(checkAllChannels, CHECK_INTERVAL_MS);
+  checkIntervalId = setInterval(checkDueChannels, SCHEDULER_TICK_MS);
   
-  console.log(`Stream checker started, will check every ${CHECK_INTERVAL_MS / 60000} minutes`);
+  console.log('Stream checker started, check intervals are configured in site settings');
 }
 
 /**
@@ -158,4 +630,4 @@ export function stopStreamChecker(): void {
     checkIntervalId = null;
     console.log('Stream checker stopped');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,402 @@
+import fs from 'fs';
+import path from 'path';
+import { Channel, StreamSource } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  openCapture,
+  rotateCapture,
+  setCaptureSources,
+  pollCapture,
+  saveCaptureIndex,
+  readCaptureIndex,
+  readCapturedMedia,
+  HlsCapture,
+  CaptureIndex,
+  CapturedMap
+} from './hls-capture';
+
+/**
+ * Catch-up archive of live channels
+ *
+ * Every channel with catch-up enabled is captured continuously (see
+ * hls-capture) and kept for the channel's catchupDays. The archive is split
+ * into hourly chunks, each a capture directory of its own, so old hours can
+ * be dropped as a whole and only the chunks a program overlaps are read when
+ * it is played. Sequences carry on from chunk to chunk, so a segment is
+ * identified by its sequence alone.
+ *
+ * The stream proxy serves a past EPG program as a VOD playlist of the
+ * archived segments between its start and end.
+ */
+
+const CATCHUP_DIR = process.env.CATCHUP_DIR || path.join(process.cwd(), 'catchup');
+
+const POLL_TICK = 1000; // How often archives are looked at
+const RETRY_DELAY = 10 * 1000; // Wait after a failed poll before trying again
+const SYNC_INTERVAL = 60 * 1000; // How often archives are matched to the channel settings and pruned
+const CHUNK_LENGTH = 60 * 60 * 1000; // Archives are split into hourly chunks
+const CHUNK_INDEX_CACHE_SIZE = 48; // Indexes of finished chunks kept in memory for playback
+
+// A finished chunk of an archive
+type ArchiveChunk = {
+  dir: string;
+  firstSequence: number;
+  lastSequence: number;
+  mapIds: number[];
+  startsAt: number;
+  endsAt: number;
+};
+
+type ChannelArchive = {
+  capture: HlsCapture;        // Capturing into the chunk of the current hour
+  chunkNumber: number;
+  chunks: ArchiveChunk[];     // Finished chunks, oldest first
+  days: number;
+  nextPollAt: number;
+  polling: boolean;
+  failing: boolean;           // Failure already logged, until the next successful poll
+};
+
+const archives: Map<number, ChannelArchive> = new Map();
+const chunkIndexes: Map<string, CaptureIndex> = new Map();
+
+let pollInterval: NodeJS.Timeout | null = null;
+let syncInterval: NodeJS.Timeout | null = null;
+let syncInProgress = false;
+
+const getChannelDir = (channelId: number) => path.join(CATCHUP_DIR, `channel-${channelId}`);
+
+const getChunkDir = (channelId: number, chunkNumber: number) => path.join(getChannelDir(channelId), `chunk-${chunkNumber}`);
+
+const getCurrentChunkNumber = () => Math.floor(Date.now() / CHUNK_LENGTH);
+
+const getSources = (channel: Channel): StreamSource[] =>
+  Array.isArray(channel.streamSources) ? channel.streamSources as StreamSource[] : [];
+
+/**
+ * Describes a chunk by what it holds
+ *
+ * @returns The description, or null if nothing was captured into it
+ */
+function summarizeChunk(dir: string, index: CaptureIndex): ArchiveChunk | null {
+  const first = index.segments[0];
+  const last = index.segments[index.segments.length - 1];
+  if (!first || !last) {
+    return null;
+  }
+
+  return {
+    dir,
+    firstSequence: first.sequence,
+    lastSequence: last.sequence,
+    mapIds: index.maps.map(map => map.id),
+    startsAt: new Date(first.programDateTime).getTime(),
+    endsAt: new Date(last.programDateTime).getTime() + last.duration * 1000
+  };
+}
+
+/**
+ * Returns the index of a finished chunk, from memory if it was read recently
+ */
+async function getChunkIndex(chunk: ArchiveChunk): Promise<CaptureIndex | null> {
+  let index = chunkIndexes.get(chunk.dir);
+  if (!index) {
+    index = await readCaptureIndex(chunk.dir) ?? undefined;
+    if (!index) {
+      return null;
+    }
+
+    if (chunkIndexes.size >= CHUNK_INDEX_CACHE_SIZE) {
+      chunkIndexes.delete(chunkIndexes.keys().next().value!);
+    }
+    chunkIndexes.set(chunk.dir, index);
+  }
+
+  return index;
+}
+
+/**
+ * Opens the archive of a channel: the chunks on disk from before a restart,
+ * and the capture of the current hour
+ */
+async function openArchive(channel: Channel): Promise<ChannelArchive> {
+  const chunkNumber = getCurrentChunkNumber();
+  const dirs = await fs.promises.readdir(getChannelDir(channel.id)).catch(() => [] as string[]);
+  const chunks: ArchiveChunk[] = [];
+
+  const numbers = dirs
+    .map(dir => dir.match(/^chunk-(\d+)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => parseInt(match[1]))
+    .filter(number => number !== chunkNumber)
+    .sort((a, b) => a - b);
+
+  for (const number of numbers) {
+    const dir = getChunkDir(channel.id, number);
+    const index = await readCaptureIndex(dir);
+    const chunk = index && summarizeChunk(dir, index);
+
+    if (chunk) {
+      chunks.push(chunk);
+    } else {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  const capture = await openCapture(getChunkDir(channel.id, chunkNumber));
+
+  // A new chunk carries on the sequences of the archive, after a gap
+  const last = chunks[chunks.length - 1];
+  if (last && capture.index.segments.length === 0) {
+    capture.index.nextSequence = Math.max(capture.index.nextSequence, last.lastSequence + 1);
+    capture.index.nextMapId = Math.max(capture.index.nextMapId, ...last.mapIds.map(id => id + 1));
+    capture.pendingDiscontinuity = true;
+  }
+
+  return { capture, chunkNumber, chunks, days: channel.catchupDays, nextPollAt: 0, polling: false, failing: false };
+}
+
+/**
+ * Finishes the chunk being captured into and continues in the chunk of the
+ * current hour
+ */
+async function rotateArchive(channelId: number, archive: ChannelArchive, chunkNumber: number): Promise<void> {
+  const { capture } = archive;
+  const chunk = summarizeChunk(capture.dir, capture.index);
+
+  if (chunk) {
+    await saveCaptureIndex(capture);
+    archive.chunks.push(chunk);
+  } else {
+    await fs.promises.rm(capture.dir, { recursive: true, force: true });
+  }
+
+  await rotateCapture(capture, getChunkDir(channelId, chunkNumber));
+  archive.chunkNumber = chunkNumber;
+}
+
+/**
+ * Polls an archive, moving on to a new chunk when the hour changes. A failed
+ * poll makes the archive look for a source again after RETRY_DELAY.
+ */
+async function runArchive(channelId: number, archive: ChannelArchive): Promise<void> {
+  archive.polling = true;
+
+  try {
+    const chunkNumber = getCurrentChunkNumber();
+    if (chunkNumber !== archive.chunkNumber) {
+      await rotateArchive(channelId, archive, chunkNumber);
+    }
+
+    const { recorded, nextPollIn } = await pollCapture(archive.capture);
+    archive.nextPollAt = Date.now() + nextPollIn;
+
+    // The archive may have been removed while it was polling
+    if (recorded > 0 && archives.get(channelId) === archive) {
+      await saveCaptureIndex(archive.capture);
+    }
+
+    if (archive.failing) {
+      console.log(`Catch-up archive of channel ${channelId} resumed`);
+      archive.failing = false;
+    }
+  } catch (error) {
+    if (!archive.failing) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Catch-up archive of channel ${channelId} failed: ${reason}`);
+      archive.failing = true;
+    }
+
+    archive.nextPollAt = Date.now() + RETRY_DELAY;
+  } finally {
+    archive.polling = false;
+  }
+}
+
+/**
+ * Starts the archives that are due to poll
+ */
+function pollArchives(): void {
+  const now = Date.now();
+
+  Array.from(archives.entries()).forEach(([channelId, archive]) => {
+    if (!archive.polling && archive.nextPollAt <= now) {
+      runArchive(channelId, archive);
+    }
+  });
+}
+
+/**
+ * Removes the chunks of an archive that are older than its channel keeps
+ */
+async function pruneArchive(archive: ChannelArchive): Promise<void> {
+  const keepAfter = Date.now() - archive.days * 24 * 60 * 60 * 1000;
+
+  while (archive.chunks.length > 0 && archive.chunks[0].endsAt < keepAfter) {
+    const chunk = archive.chunks.shift()!;
+    chunkIndexes.delete(chunk.dir);
+    await fs.promises.rm(chunk.dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Matches the archives to the channel settings: starts archiving channels
+ * that have catch-up enabled, stops archiving (and deletes the archives of)
+ * channels that no longer have it or no longer exist, and prunes old chunks
+ */
+async function syncArchives(): Promise<void> {
+  if (syncInProgress) {
+    return;
+  }
+
+  syncInProgress = true;
+
+  try {
+    const channels = (await storage.getChannels()).filter(channel => channel.catchupEnabled);
+    const enabledDirs = new Set(channels.map(channel => path.basename(getChannelDir(channel.id))));
+
+    for (const channel of channels) {
+      let archive = archives.get(channel.id);
+
+      if (!archive) {
+        archive = await openArchive(channel);
+        archives.set(channel.id, archive);
+        console.log(`Catch-up archive of channel ${channel.id} started (${channel.catchupDays} days)`);
+      }
+
+      archive.days = channel.catchupDays;
+      setCaptureSources(archive.capture, getSources(channel));
+      await pruneArchive(archive);
+    }
+
+    for (const channelId of Array.from(archives.keys())) {
+      if (!channels.some(channel => channel.id === channelId)) {
+        archives.delete(channelId);
+        console.log(`Catch-up archive of channel ${channelId} stopped`);
+      }
+    }
+
+    // Archives of channels that are not archived any more, also from before a restart
+    const dirs = await fs.promises.readdir(CATCHUP_DIR).catch(() => [] as string[]);
+    for (const dir of dirs) {
+      if (/^channel-\d+$/.test(dir) && !enabledDirs.has(dir)) {
+        await fs.promises.rm(path.join(CATCHUP_DIR, dir), { recursive: true, force: true });
+        Array.from(chunkIndexes.keys())
+          .filter(chunkDir => chunkDir.startsWith(path.join(CATCHUP_DIR, dir) + path.sep))
+          .forEach(chunkDir => chunkIndexes.delete(chunkDir));
+      }
+    }
+  } catch (error) {
+    console.error('Error syncing catch-up archives:', error);
+  } finally {
+    syncInProgress = false;
+  }
+}
+
+/**
+ * Returns the archived segments of a channel that overlap a time range, as
+ * one capture index
+ *
+ * @param channelId ID of the channel
+ * @param startTime Start of the range, e.g. of an EPG program
+ * @param endTime End of the range
+ * @returns The index, or null if the channel is not archived or nothing of the range is
+ */
+export async function getCatchupIndex(channelId: number, startTime: Date, endTime: Date): Promise<CaptureIndex | null> {
+  const archive = archives.get(channelId);
+  if (!archive) {
+    return null;
+  }
+
+  const start = startTime.getTime();
+  const end = endTime.getTime();
+  const indexes: CaptureIndex[] = [];
+
+  for (const chunk of archive.chunks) {
+    if (chunk.endsAt > start && chunk.startsAt < end) {
+      const index = await getChunkIndex(chunk);
+      if (index) {
+        indexes.push(index);
+      }
+    }
+  }
+
+  // The program may have ended within the current hour
+  indexes.push(archive.capture.index);
+
+  const segments = indexes.flatMap(index => index.segments).filter(segment => {
+    const segmentStart = new Date(segment.programDateTime).getTime();
+    return segmentStart < end && segmentStart + segment.duration * 1000 > start;
+  });
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const mapIds = new Set(segments.map(segment => segment.mapId));
+  const maps: CapturedMap[] = indexes.flatMap(index => index.maps).filter(map => mapIds.has(map.id));
+
+  return { segments, maps, nextSequence: 0, nextMapId: 0, discontinuitySequence: 0 };
+}
+
+/**
+ * Reads an archived segment or init section of a channel
+ *
+ * @param channelId ID of the channel
+ * @param kind Whether to read a segment (by sequence) or an init section (by ID)
+ * @param id Sequence of the segment or ID of the init section
+ * @returns The data, or null if it is not (or no longer) archived
+ */
+export async function readCatchupMedia(
+  channelId: number,
+  kind: 'segment' | 'map',
+  id: number
+): Promise<{ data: Buffer; contentType: string | undefined } | null> {
+  const archive = archives.get(channelId);
+  if (!archive) {
+    return null;
+  }
+
+  const chunk = archive.chunks.find(chunk => kind === 'segment'
+    ? id >= chunk.firstSequence && id <= chunk.lastSequence
+    : chunk.mapIds.includes(id));
+
+  if (!chunk) {
+    return readCapturedMedia(archive.capture.dir, archive.capture.index, kind, id);
+  }
+
+  const index = await getChunkIndex(chunk);
+  return index ? readCapturedMedia(chunk.dir, index, kind, id) : null;
+}
+
+/**
+ * Starts the catch-up archive
+ */
+export function startCatchupArchive(): void {
+  stopCatchupArchive();
+
+  syncArchives();
+  syncInterval = setInterval(syncArchives, SYNC_INTERVAL);
+  pollInterval = setInterval(pollArchives, POLL_TICK);
+
+  console.log(`Catch-up archive started, archiving to ${CATCHUP_DIR}`);
+}
+
+/**
+ * Stops the catch-up archive. Archives are kept on disk and continue when
+ * it is started again.
+ */
+export function stopCatchupArchive(): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+  }
+
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+    archives.clear();
+    chunkIndexes.clear();
+    console.log('Catch-up archive stopped');
+  }
+}
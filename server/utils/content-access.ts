@@ -0,0 +1,81 @@
+import { storage } from '../storage';
+
+/**
+ * Checks whether a user is entitled to watch a piece of content. Free content
+ * is open to everyone; premium content needs an active premium subscription or
+ * a pay-per-view purchase of the content (for episodes, of the episode or its
+ * series). Entitlement to a series means its episodes can be watched.
+ * Recordings are only open to the user who made them, and are premium when
+ * their channel is.
+ *
+ * @param userId ID of the user
+ * @param contentType 'movie', 'episode', 'series', 'channel' or 'recording'
+ * @param contentId ID of the content
+ * @returns true if the user may watch the content
+ */
+export async function hasContentEntitlement(userId: number, contentType: string, contentId: number): Promise<boolean> {
+  let isPremium = false;
+  const purchasable: { contentType: string; contentId: number }[] = [{ contentType, contentId }];
+
+  switch (contentType) {
+    case 'movie': {
+      const movie = await storage.getMovie(contentId);
+      if (!movie) return false;
+      isPremium = movie.isPremium;
+      break;
+    }
+
+    case 'episode': {
+      // Episodes are premium when their series is
+      const episode = await storage.getEpisode(contentId);
+      const series = episode ? await storage.getSeries(episode.seriesId) : undefined;
+      if (!episode || !series) return false;
+      isPremium = series.isPremium;
+      purchasable.push({ contentType: 'series', contentId: series.id });
+      break;
+    }
+
+    case 'series': {
+      const series = await storage.getSeries(contentId);
+      if (!series) return false;
+      isPremium = series.isPremium;
+      break;
+    }
+
+    case 'channel': {
+      const channel = await storage.getChannel(contentId);
+      if (!channel) return false;
+      isPremium = channel.isPremium;
+      break;
+    }
+
+    case 'recording': {
+      const recording = await storage.getRecording(contentId);
+      const channel = recording ? await storage.getChannel(recording.channelId) : undefined;
+      if (!recording || !channel || recording.userId !== userId) return false;
+      isPremium = channel.isPremium;
+      purchasable.push({ contentType: 'channel', contentId: channel.id });
+      break;
+    }
+
+    default:
+      return false;
+  }
+
+  if (!isPremium) {
+    return true;
+  }
+
+  const premiumStatus = await storage.checkUserPremiumStatus(userId);
+  if (premiumStatus.isPremium) {
+    return true;
+  }
+
+  for (const item of purchasable) {
+    if (await storage.getUserPPVForContent(userId, item.contentType, item.contentId)) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,274 @@
+/**
+ * Minimal MPEG-DASH manifest (MPD) URL rewriter
+ *
+ * Like hls-manifest.ts, the manifest is not rebuilt from a parsed tree: the
+ * XML is tokenized and only URLs (BaseURL contents and URL attributes of
+ * segment elements) are replaced in the original text, so everything else,
+ * including namespaces, ContentProtection and unknown elements, is kept as-is.
+ */
+
+// What an URL inside a manifest points to
+// - base: a BaseURL, either a directory or (with SegmentBase) the media file itself
+// - segment: a single segment, init section or index
+// - template: a SegmentTemplate URL, which may contain $Number$, $Time$, ... identifiers
+export type DashUriKind = 'base' | 'segment' | 'template';
+
+// URL attributes of segment elements
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  SegmentURL: ['media', 'index'],
+  Initialization: ['sourceURL'],
+  RepresentationIndex: ['sourceURL'],
+  BitstreamSwitching: ['sourceURL']
+};
+
+const TEMPLATE_ATTRIBUTES = ['media', 'initialization', 'index', 'bitstreamSwitching'];
+
+// Elements that point clients at other manifest URLs; clients keep reloading
+// the proxied manifest instead
+const REMOVED_ELEMENTS = new Set(['Location', 'PatchLocation']);
+
+// Elements that can carry BaseURL and segment information
+const SEGMENT_INFO_PARENTS = new Set(['MPD', 'Period', 'AdaptationSet', 'Representation']);
+
+// SegmentTemplate identifiers ($$ is an escaped dollar sign)
+const TEMPLATE_IDENTIFIER = /\$(RepresentationID|Number|Time|Bandwidth|SubNumber)(%0\d+[dxX])?\$/g;
+
+// Matches comments, CDATA, processing instructions, doctypes and tags
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+const ATTRIBUTE = /(\s+)([^\s=/>]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/g;
+
+type TemplateUrl = {
+  value: string;        // Template as written in the manifest
+  base: string;         // Base URL in effect where it was written
+};
+
+type Frame = {
+  name: string;
+  base: string;                               // Base URL in effect inside the element
+  hasOwnBase: boolean;                        // Whether the element has a BaseURL child
+  hasSegmentInfo: boolean;                    // Whether it has SegmentBase/List/Template children
+  templateUrls: Record<string, TemplateUrl>;  // SegmentTemplate URLs inherited or defined here
+};
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Element name without namespace prefix
+function localName(name: string): string {
+  const separator = name.indexOf(':');
+  return separator === -1 ? name : name.substring(separator + 1);
+}
+
+/**
+ * Returns the identifiers of a SegmentTemplate URL in order of appearance
+ * e.g. ['$RepresentationID$', '$Number%05d$'] for `$RepresentationID$/$Number%05d$.m4s`
+ */
+export function getTemplateIdentifiers(template: string): string[] {
+  return template.match(TEMPLATE_IDENTIFIER) || [];
+}
+
+/**
+ * Fills in the identifiers of a SegmentTemplate URL with already formatted
+ * values, in order of appearance
+ *
+ * @param template The template URL
+ * @param values One value per identifier occurrence
+ * @returns The URL, or null if the number of values does not match
+ */
+export function expandTemplate(template: string, values: string[]): string | null {
+  if (getTemplateIdentifiers(template).length !== values.length) {
+    return null;
+  }
+
+  let index = 0;
+  return template
+    .replace(TEMPLATE_IDENTIFIER, () => values[index++])
+    .replace(/\$\$/g, '$');
+}
+
+/**
+ * Rewrites every URL in an MPD: BaseURL elements, SegmentTemplate URLs and
+ * the URLs of SegmentList, SegmentBase and index elements. URLs are first
+ * resolved against the BaseURL hierarchy (starting at the manifest URL).
+ * Location and PatchLocation elements are removed.
+ *
+ * Replacement URLs must be absolute or absolute-path (/...), because they
+ * are resolved against the rewritten BaseURLs by players.
+ *
+ * @param text The manifest content
+ * @param mpdUrl The absolute URL the manifest was fetched from
+ * @param rewrite Callback mapping an absolute upstream URL to its replacement
+ * @returns The rewritten manifest
+ * @throws SyntaxError if the content is not an MPD
+ */
+export function rewriteMpdUrls(
+  text: string,
+  mpdUrl: string,
+  rewrite: (absoluteUrl: string, kind: DashUriKind) => string
+): string {
+  if (!/<(?:[\w.-]+:)?MPD[\s>]/.test(text)) {
+    throw new SyntaxError('Not an MPD manifest');
+  }
+
+  const resolve = (url: string, base: string) => new URL(url.trim(), base).toString();
+
+  // Rewrites the given attributes of a tag, and appends extra ones
+  const rewriteAttributes = (
+    attributes: string,
+    names: string[],
+    replace: (name: string, value: string) => string,
+    extra: Record<string, string> = {}
+  ) => {
+    const rewritten = attributes.replace(ATTRIBUTE, (match, space, name, equals, doubleQuoted, singleQuoted) => {
+      if (!names.includes(name)) return match;
+      const value = unescapeXml(doubleQuoted ?? singleQuoted);
+      return `${space}${name}${equals}"${escapeXml(replace(name, value))}"`;
+    });
+
+    return rewritten + Object.entries(extra).map(([name, value]) => ` ${name}="${escapeXml(value)}"`).join('');
+  };
+
+  // SegmentTemplate URLs inherited from an ancestor resolve against the base of
+  // the element that uses them, so they are re-resolved where the base changes
+  const inheritedTemplateUrls = (frame: Frame, present: string[]) => {
+    const extra: Record<string, string> = {};
+    for (const [name, templateUrl] of Object.entries(frame.templateUrls)) {
+      if (!present.includes(name) && templateUrl.base !== frame.base) {
+        extra[name] = rewrite(resolve(templateUrl.value, frame.base), 'template');
+      }
+    }
+    return extra;
+  };
+
+  const stack: Frame[] = [{ name: '', base: mpdUrl, hasOwnBase: false, hasSegmentInfo: false, templateUrls: {} }];
+  let output = '';
+  let position = 0;
+  let skipDepth = 0;      // > 0 while inside a removed element
+  let baseUrlText: string | null = null;  // Collects the content of a BaseURL element
+
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN.exec(text)) !== null) {
+    const [token, closing, rawName, attributes = '', selfClosing] = match;
+    const between = text.substring(position, match.index);
+    position = match.index + token.length;
+
+    if (baseUrlText !== null) {
+      baseUrlText += between;
+    } else if (skipDepth === 0) {
+      output += between;
+    }
+
+    // Comments, CDATA and declarations
+    if (!rawName) {
+      if (baseUrlText !== null) {
+        baseUrlText += token.startsWith('<![CDATA[') ? token.slice(9, -3) : '';
+      } else if (skipDepth === 0) {
+        output += token;
+      }
+      continue;
+    }
+
+    const name = localName(rawName);
+    const parent = stack[stack.length - 1];
+
+    if (skipDepth > 0) {
+      if (closing) skipDepth--;
+      else if (!selfClosing) skipDepth++;
+      continue;
+    }
+
+    if (!closing && REMOVED_ELEMENTS.has(name)) {
+      if (!selfClosing) skipDepth = 1;
+      continue;
+    }
+
+    if (name === 'BaseURL') {
+      if (!closing && !selfClosing) {
+        output += token;
+        baseUrlText = '';
+      } else if (closing && baseUrlText !== null) {
+        const absolute = resolve(unescapeXml(baseUrlText), parent.base);
+
+        // Multiple BaseURLs are alternatives; the first one is used for resolution
+        if (!parent.hasOwnBase) {
+          parent.base = absolute;
+          parent.hasOwnBase = true;
+        }
+
+        output += escapeXml(rewrite(absolute, 'base')) + token;
+        baseUrlText = null;
+      } else {
+        output += token;
+      }
+      continue;
+    }
+
+    if (closing) {
+      const frame = stack.pop()!;
+
+      // An element with its own BaseURL that uses an inherited SegmentTemplate
+      // gets the template URLs re-resolved against its base
+      if (frame.hasOwnBase && !frame.hasSegmentInfo) {
+        const extra = inheritedTemplateUrls(frame, []);
+        if (Object.keys(extra).length > 0) {
+          output += `<SegmentTemplate${rewriteAttributes('', [], (_, value) => value, extra)}/>`;
+        }
+      }
+
+      output += token;
+      continue;
+    }
+
+    if (name === 'SegmentTemplate') {
+      parent.hasSegmentInfo = true;
+      const present: string[] = [];
+
+      const rewritten = rewriteAttributes(attributes, TEMPLATE_ATTRIBUTES, (attribute, value) => {
+        present.push(attribute);
+        parent.templateUrls[attribute] = { value, base: parent.base };
+        return rewrite(resolve(value, parent.base), 'template');
+      }, {});
+
+      const extra = inheritedTemplateUrls(parent, present);
+      output += `<${rawName}${rewriteAttributes(rewritten, [], (_, value) => value, extra)}${selfClosing ? '/' : ''}>`;
+    } else if (URL_ATTRIBUTES[name]) {
+      const rewritten = rewriteAttributes(attributes, URL_ATTRIBUTES[name], (_, value) => rewrite(resolve(value, parent.base), 'segment'));
+      output += `<${rawName}${rewritten}${selfClosing ? '/' : ''}>`;
+    } else {
+      if (name === 'SegmentList' || name === 'SegmentBase') {
+        parent.hasSegmentInfo = true;
+      }
+      output += token;
+    }
+
+    // Remember the element so its BaseURL and segment information apply to its children
+    if (!selfClosing) {
+      stack.push({
+        name,
+        base: parent.base,
+        hasOwnBase: false,
+        hasSegmentInfo: false,
+        templateUrls: SEGMENT_INFO_PARENTS.has(name) ? { ...parent.templateUrls } : parent.templateUrls
+      });
+    }
+  }
+
+  return output + text.substring(position);
+}
@@ -0,0 +1,350 @@
+import { storage } from '../storage';
+import { resolveSessionId } from './stream-sessions';
+
+/**
+ * Data usage accounting of the stream proxy
+ *
+ * The proxy reports the bytes of every response it sends to a viewer. They
+ * are collected in memory and added every FLUSH_INTERVAL to the data_usage
+ * table, per user and content as totals of the day and month (UTC) they were
+ * served in, and to the stream session they were served in.
+ *
+ * Each plan ('free' for users without premium) can have a monthly data quota
+ * in data_quotas. Viewers are warned once they have used the plan's warning
+ * percentage, and the proxy stops serving them once the whole quota is used,
+ * until the next calendar month (UTC). Plans without a quota are unlimited.
+ */
+
+const FLUSH_INTERVAL = 30 * 1000; // 30 seconds
+const QUOTA_CHECK_TTL = 60 * 1000; // How long the proxy trusts a quota lookup before checking the database again
+const DAILY_USAGE_RETENTION = 90 * 24 * 60 * 60 * 1000; // Daily totals are kept 90 days, monthly totals forever
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+export const DEFAULT_WARNING_PERCENT = 80;
+
+// Plans that can have a data quota
+export const DATA_QUOTA_PLANS = ['free', 'daily', 'monthly', 'annual'];
+
+// What a response was served for
+export type ServedContent = {
+  userId: number;
+  sessionId?: string;
+  contentType: string;
+  contentId: number;
+};
+
+export type DataQuotaStatus = {
+  plan: string;
+  used: number;             // Bytes served this month
+  limit: number | null;     // Bytes per month, null when unlimited
+  warningPercent: number;
+  status: 'ok' | 'warning' | 'exceeded';
+};
+
+// A user's usage of one piece of content
+export type ContentDataUsage = {
+  contentType: string;
+  contentId: number;
+  title: string;
+  bytes: number;
+};
+
+export type DataConsumer = {
+  userId: number;
+  username: string;
+  bytes: number;
+  quota: DataQuotaStatus;
+};
+
+// Bytes served since the last flush, per user, content and day (UTC) they were served on, and per session
+const pendingUsage: Map<string, ServedContent & { dayStart: Date; bytes: number }> = new Map();
+const pendingSessionBytes: Map<string, number> = new Map();
+
+// Recent quota lookups, with the bytes of their month flushed since
+const quotaChecks: Map<number, {
+  plan: string;
+  monthStart: number;
+  used: number;
+  limit: number | null;
+  warningPercent: number;
+  checkedAt: number;
+}> = new Map();
+
+let flushInterval: NodeJS.Timeout | null = null;
+let flushInProgress = false;
+let prunedAt = 0;
+
+const getDayStart = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const getMonthStart = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Counts bytes served to a viewer towards their data usage
+ */
+export function recordServedBytes(content: ServedContent, bytes: number): void {
+  if (bytes <= 0) {
+    return;
+  }
+
+  // Counted towards the day they are served on, even if they are flushed after midnight
+  const dayStart = getDayStart(new Date());
+  const key = `${content.userId}:${content.contentType}:${content.contentId}:${dayStart.getTime()}`;
+  const pending = pendingUsage.get(key);
+  if (pending) {
+    pending.bytes += bytes;
+  } else {
+    pendingUsage.set(key, { 
+      userId: content.userId, 
+      contentType: content.contentType, 
+      contentId: content.contentId, 
+      dayStart, 
+      bytes 
+    });
+  }
+
+  // Tokens issued before a rotation are still used for a short while
+  if (content.sessionId) {
+    const sessionId = resolveSessionId(content.sessionId);
+    pendingSessionBytes.set(sessionId, (pendingSessionBytes.get(sessionId) || 0) + bytes);
+  }
+}
+
+/**
+ * Returns the bytes served to a user in a month that have not been flushed yet
+ */
+function getPendingBytes(userId: number, monthStart: Date): number {
+  let bytes = 0;
+
+  Array.from(pendingUsage.values()).forEach(pending => {
+    if (pending.userId === userId && getMonthStart(pending.dayStart).getTime() === monthStart.getTime()) {
+      bytes += pending.bytes;
+    }
+  });
+
+  return bytes;
+}
+
+/**
+ * Returns a user's data usage this month against the quota of their plan
+ *
+ * @param userId ID of the user
+ * @param fresh Look the quota and usage up again instead of trusting a recent lookup
+ */
+export async function getDataQuotaStatus(userId: number, fresh = false): Promise<DataQuotaStatus> {
+  const monthStart = getMonthStart(new Date());
+  let check = quotaChecks.get(userId);
+
+  if (!check || fresh || Date.now() - check.checkedAt >= QUOTA_CHECK_TTL || check.monthStart !== monthStart.getTime()) {
+    const premiumStatus = await storage.checkUserPremiumStatus(userId);
+    const plan = premiumStatus.isPremium && premiumStatus.planName ? premiumStatus.planName.toLowerCase() : 'free';
+    const quota = (await storage.getDataQuotas()).find(quota => quota.plan === plan);
+    const usage = await storage.getDataUsage('month', monthStart, userId);
+
+    check = {
+      plan,
+      monthStart: monthStart.getTime(),
+      used: usage.reduce((total, record) => total + record.bytes, 0),
+      limit: quota && quota.monthlyLimit !== null ? quota.monthlyLimit * BYTES_PER_GB : null,
+      warningPercent: quota?.warningPercent ?? DEFAULT_WARNING_PERCENT,
+      checkedAt: Date.now()
+    };
+    quotaChecks.set(userId, check);
+  }
+
+  const used = check.used + getPendingBytes(userId, monthStart);
+  let status: DataQuotaStatus['status'] = 'ok';
+  if (check.limit !== null && used >= check.limit) {
+    status = 'exceeded';
+  } else if (check.limit !== null && used >= check.limit * check.warningPercent / 100) {
+    status = 'warning';
+  }
+
+  return { plan: check.plan, used, limit: check.limit, warningPercent: check.warningPercent, status };
+}
+
+/**
+ * Message shown to a viewer about their quota, or null if there is nothing to say
+ */
+export function getDataQuotaMessage(quota: DataQuotaStatus): string | null {
+  if (quota.limit === null || quota.status === 'ok') {
+    return null;
+  }
+
+  const limitGb = Math.round(quota.limit / BYTES_PER_GB);
+  if (quota.status === 'exceeded') {
+    return `You have used your ${limitGb} GB of streaming data for this month`;
+  }
+
+  return `You have used ${Math.floor(quota.used / quota.limit * 100)}% of your ${limitGb} GB of streaming data for this month`;
+}
+
+/**
+ * Adds the bytes served since the last flush to the database. Bytes are only
+ * taken off the pending counts once they are saved, so those of failed
+ * writes are saved by the next flush.
+ */
+async function flushDataUsage(): Promise<void> {
+  if (flushInProgress) {
+    return;
+  }
+
+  flushInProgress = true;
+
+  const usage = Array.from(pendingUsage.entries()).map(([key, pending]) => ({ key, ...pending }));
+  const sessionBytes = Array.from(pendingSessionBytes.entries());
+
+  try {
+    for (const { key, userId, contentType, contentId, dayStart, bytes } of usage) {
+      const monthStart = getMonthStart(dayStart);
+      await storage.addDataUsage([
+        { userId, contentType, contentId, period: 'day', periodStart: dayStart, bytes },
+        { userId, contentType, contentId, period: 'month', periodStart: monthStart, bytes }
+      ]);
+
+      // Bytes served while they were being saved stay pending
+      const pending = pendingUsage.get(key);
+      if (pending && pending.bytes > bytes) {
+        pending.bytes -= bytes;
+      } else {
+        pendingUsage.delete(key);
+      }
+
+      const check = quotaChecks.get(userId);
+      if (check && check.monthStart === monthStart.getTime()) {
+        check.used += bytes;
+      }
+    }
+
+    for (const [sessionId, bytes] of sessionBytes) {
+      await storage.addStreamTokenBytes(sessionId, bytes);
+      const remaining = (pendingSessionBytes.get(sessionId) || 0) - bytes;
+      if (remaining > 0) {
+        pendingSessionBytes.set(sessionId, remaining);
+      } else {
+        pendingSessionBytes.delete(sessionId);
+      }
+    }
+
+    if (Date.now() - prunedAt >= 24 * 60 * 60 * 1000) {
+      prunedAt = Date.now();
+      const removed = await storage.deleteDataUsage('day', new Date(Date.now() - DAILY_USAGE_RETENTION));
+      if (removed > 0) {
+        console.log(`Removed ${removed} daily data usage records`);
+      }
+    }
+  } catch (error) {
+    console.error('Error saving data usage:', error);
+  } finally {
+    flushInProgress = false;
+  }
+}
+
+/**
+ * Returns the title of a piece of content for usage reports
+ */
+async function getContentTitle(contentType: string, contentId: number): Promise<string> {
+  switch (contentType) {
+    case 'movie':
+      return (await storage.getMovie(contentId))?.title || `Movie ${contentId}`;
+
+    case 'episode': {
+      const episode = await storage.getEpisode(contentId);
+      if (!episode) return `Episode ${contentId}`;
+      const series = await storage.getSeries(episode.seriesId);
+      return `${series ? series.title : 'Unknown series'} S${episode.season}E${episode.episode}: ${episode.title}`;
+    }
+
+    case 'channel':
+      return (await storage.getChannel(contentId))?.name || `Channel ${contentId}`;
+
+    case 'recording':
+      return (await storage.getRecording(contentId))?.title || `Recording ${contentId}`;
+
+    default:
+      return `${contentType} ${contentId}`;
+  }
+}
+
+/**
+ * Returns a user's data usage: this month against their quota, today, and
+ * this month per content (most used first)
+ *
+ * @param userId ID of the user
+ */
+export async function getUserDataUsage(userId: number): Promise<{
+  quota: DataQuotaStatus;
+  today: number;
+  byContent: ContentDataUsage[];
+}> {
+  const now = new Date();
+  const quota = await getDataQuotaStatus(userId, true);
+  const today = (await storage.getDataUsage('day', getDayStart(now), userId))
+    .reduce((total, record) => total + record.bytes, 0);
+
+  const byContent: ContentDataUsage[] = [];
+  for (const record of await storage.getDataUsage('month', getMonthStart(now), userId)) {
+    byContent.push({
+      contentType: record.contentType,
+      contentId: record.contentId,
+      title: await getContentTitle(record.contentType, record.contentId),
+      bytes: record.bytes
+    });
+  }
+
+  return { quota, today, byContent: byContent.sort((a, b) => b.bytes - a.bytes) };
+}
+
+/**
+ * Returns the users who were served the most data today or this month
+ *
+ * @param period 'day' or 'month'
+ * @param limit Number of users to return
+ */
+export async function getTopDataConsumers(period: 'day' | 'month', limit: number): Promise<DataConsumer[]> {
+  const now = new Date();
+  const usage = await storage.getDataUsage(period, period === 'day' ? getDayStart(now) : getMonthStart(now));
+
+  const totals: Map<number, number> = new Map();
+  for (const record of usage) {
+    totals.set(record.userId, (totals.get(record.userId) || 0) + record.bytes);
+  }
+
+  const top = Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+
+  const consumers: DataConsumer[] = [];
+  for (const [userId, bytes] of top) {
+    const user = await storage.getUser(userId);
+    consumers.push({
+      userId,
+      username: user ? user.username : `User ${userId}`,
+      bytes,
+      quota: await getDataQuotaStatus(userId)
+    });
+  }
+
+  return consumers;
+}
+
+/**
+ * Starts saving data usage
+ */
+export function startDataUsageAccounting(): void {
+  stopDataUsageAccounting();
+
+  flushInterval = setInterval(flushDataUsage, FLUSH_INTERVAL);
+
+  console.log(`Data usage accounting started, saving every ${FLUSH_INTERVAL / 1000} seconds`);
+}
+
+/**
+ * Stops saving data usage, saving what was counted so far
+ */
+export function stopDataUsageAccounting(): void {
+  if (flushInterval) {
+    clearInterval(flushInterval);
+    flushInterval = null;
+    flushDataUsage();
+    console.log('Data usage accounting stopped');
+  }
+}
@@ -0,0 +1,76 @@
+import { storage } from '../storage';
+import { isGeoIPAvailable, lookupCountry } from './geoip';
+
+// Decisions are cached briefly because the stream proxy checks every request
+const DECISION_CACHE_TTL = 60 * 1000; // 1 minute
+
+// Cached decisions keyed by 'contentType:contentId:countryCode'
+const decisionCache: Map<string, { allowed: boolean; cachedAt: number }> = new Map();
+
+export type GeoAccessResult = {
+  allowed: boolean;
+  countryCode: string | null;
+};
+
+/**
+ * Checks the restrictions that apply to a piece of content; episodes are
+ * also subject to the restrictions of their series, and recordings to those
+ * of their channel
+ */
+async function isAllowedInCountry(contentType: string, contentId: number, countryCode: string): Promise<boolean> {
+  if (!(await storage.checkGeoRestriction(contentType, contentId, countryCode))) {
+    return false;
+  }
+
+  if (contentType === 'episode') {
+    const episode = await storage.getEpisode(contentId);
+    if (episode && !(await storage.checkGeoRestriction('series', episode.seriesId, countryCode))) {
+      return false;
+    }
+  }
+
+  if (contentType === 'recording') {
+    const recording = await storage.getRecording(contentId);
+    if (recording && !(await storage.checkGeoRestriction('channel', recording.channelId, countryCode))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Checks whether content may be streamed to a client IP address.
+ * Clients whose country cannot be resolved are refused by whitelists and
+ * allowed by blacklists. Without a GeoIP database nothing is enforced.
+ *
+ * @param contentType 'movie', 'episode', 'series' or 'channel'
+ * @param contentId ID of the content
+ * @param ip Client IP address
+ * @returns Whether access is allowed, and the resolved country
+ */
+export async function checkGeoAccess(contentType: string, contentId: number, ip: string | undefined): Promise<GeoAccessResult> {
+  if (!isGeoIPAvailable()) {
+    return { allowed: true, countryCode: null };
+  }
+
+  const countryCode = ip ? lookupCountry(ip) : null;
+  const cacheKey = `${contentType}:${contentId}:${countryCode || ''}`;
+
+  const cached = decisionCache.get(cacheKey);
+  if (cached && Date.now() - cached.cachedAt < DECISION_CACHE_TTL) {
+    return { allowed: cached.allowed, countryCode };
+  }
+
+  const allowed = await isAllowedInCountry(contentType, contentId, countryCode || '');
+  decisionCache.set(cacheKey, { allowed, cachedAt: Date.now() });
+
+  return { allowed, countryCode };
+}
+
+/**
+ * Forgets cached decisions after restrictions change
+ */
+export function clearGeoAccessCache(): void {
+  decisionCache.clear();
+}
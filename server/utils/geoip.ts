@@ -0,0 +1,217 @@
+import fs from 'fs';
+import net from 'net';
+import maxmind, { Reader, CountryResponse } from 'maxmind';
+
+/**
+ * Offline IP to country lookup
+ *
+ * The database is loaded from the file given in GEOIP_DATABASE_PATH, either:
+ * - a MaxMind-format .mmdb file (GeoLite2/GeoIP2 Country or City, DB-IP, ...)
+ * - a CSV range file with one range per line: start,end,country_code
+ *   where start and end are IP addresses or integers (DB-IP and IP2Location
+ *   LITE country CSVs use this layout). A header line is skipped.
+ */
+
+type IpRange = {
+  start: bigint;
+  end: bigint;
+  countryCode: string;
+};
+
+const GEOIP_DATABASE_PATH = process.env.GEOIP_DATABASE_PATH;
+
+// Start of the IPv4-mapped IPv6 range (::ffff:0:0/96)
+const IPV4_MAPPED_START = BigInt('0xffff00000000');
+const IPV4_MAX = BigInt('0xffffffff');
+
+let mmdbReader: Reader<CountryResponse> | null = null;
+let csvRanges: { v4: IpRange[]; v6: IpRange[] } | null = null;
+let loadedAt: Date | null = null;
+
+/**
+ * Converts an IPv4 or IPv6 address to a number, with IPv4-mapped IPv6
+ * addresses (::ffff:1.2.3.4) converted to their IPv4 value
+ *
+ * @returns The address and its family, or null if it is not a valid IP address
+ */
+function ipToBigInt(ip: string): { value: bigint; family: 4 | 6 } | null {
+  const family = net.isIP(ip);
+
+  if (family === 4) {
+    const value = ip.split('.').reduce((acc, octet) => (acc << BigInt(8)) + BigInt(parseInt(octet, 10)), BigInt(0));
+    return { value, family: 4 };
+  }
+
+  if (family === 6) {
+    // Dotted IPv4 tail (e.g. ::ffff:1.2.3.4)
+    const dotted = ip.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+    let address = ip;
+    if (dotted) {
+      const v4 = ipToBigInt(dotted[2])!.value;
+      address = `${dotted[1]}${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`;
+    }
+
+    // Expand :: into the missing zero groups
+    const [head, tail] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail !== undefined && tail !== '' ? tail.split(':') : [];
+    const missing = 8 - headGroups.length - tailGroups.length;
+    const groups = tail !== undefined
+      ? [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+      : headGroups;
+
+    const value = groups.reduce((acc, group) => (acc << BigInt(16)) + BigInt(parseInt(group, 16)), BigInt(0));
+
+    if (value >= IPV4_MAPPED_START && value <= IPV4_MAPPED_START + IPV4_MAX) {
+      return { value: value - IPV4_MAPPED_START, family: 4 };
+    }
+
+    return { value, family: 6 };
+  }
+
+  return null;
+}
+
+/**
+ * Parses a CSV range boundary, which is either an IP address or an integer
+ */
+function parseRangeBoundary(field: string): { value: bigint; family: 4 | 6 } | null {
+  if (/^\d+$/.test(field)) {
+    const value = BigInt(field);
+
+    if (value <= IPV4_MAX) {
+      return { value, family: 4 };
+    }
+    if (value >= IPV4_MAPPED_START && value <= IPV4_MAPPED_START + IPV4_MAX) {
+      return { value: value - IPV4_MAPPED_START, family: 4 };
+    }
+    return { value, family: 6 };
+  }
+
+  return ipToBigInt(field);
+}
+
+/**
+ * Loads a CSV range file into sorted IPv4 and IPv6 range lists
+ */
+function loadCsvRanges(path: string): { v4: IpRange[]; v6: IpRange[] } {
+  const ranges: { v4: IpRange[]; v6: IpRange[] } = { v4: [], v6: [] };
+  const lines = fs.readFileSync(path, 'utf8').split(/\r?\n/);
+
+  for (const line of lines) {
+    const fields = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+    if (fields.length < 3) continue;
+
+    const start = parseRangeBoundary(fields[0]);
+    const end = parseRangeBoundary(fields[1]);
+    const countryCode = fields[2].toUpperCase();
+
+    // Skips the header line and ranges without a country ('-' or 'ZZ')
+    if (!start || !end || start.family !== end.family || !/^[A-Z]{2}$/.test(countryCode) || countryCode === 'ZZ') {
+      continue;
+    }
+
+    (start.family === 4 ? ranges.v4 : ranges.v6).push({ start: start.value, end: end.value, countryCode });
+  }
+
+  const byStart = (a: IpRange, b: IpRange) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0);
+  ranges.v4.sort(byStart);
+  ranges.v6.sort(byStart);
+
+  return ranges;
+}
+
+/**
+ * Finds the range containing a value with a binary search
+ */
+function findRange(ranges: IpRange[], value: bigint): IpRange | null {
+  let low = 0;
+  let high = ranges.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const range = ranges[middle];
+
+    if (value < range.start) {
+      high = middle - 1;
+    } else if (value > range.end) {
+      low = middle + 1;
+    } else {
+      return range;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Loads the GeoIP database configured in GEOIP_DATABASE_PATH
+ * Without a database, countries cannot be resolved and geo-restrictions are not enforced.
+ */
+export async function loadGeoIPDatabase(): Promise<void> {
+  if (!GEOIP_DATABASE_PATH) {
+    console.warn('GEOIP_DATABASE_PATH is not set; geo-restrictions will not be enforced');
+    return;
+  }
+
+  try {
+    if (GEOIP_DATABASE_PATH.toLowerCase().endsWith('.csv')) {
+      csvRanges = loadCsvRanges(GEOIP_DATABASE_PATH);
+      console.log(`Loaded GeoIP CSV database with ${csvRanges.v4.length + csvRanges.v6.length} ranges`);
+    } else {
+      // Reload automatically when the database file is updated
+      mmdbReader = await maxmind.open<CountryResponse>(GEOIP_DATABASE_PATH, { watchForUpdates: true });
+      console.log(`Loaded GeoIP database ${mmdbReader.metadata.databaseType}`);
+    }
+
+    loadedAt = new Date();
+  } catch (error) {
+    console.error(`Error loading GeoIP database from ${GEOIP_DATABASE_PATH}:`, error);
+  }
+}
+
+/**
+ * Whether a GeoIP database is loaded and countries can be resolved
+ */
+export function isGeoIPAvailable(): boolean {
+  return mmdbReader !== null || csvRanges !== null;
+}
+
+/**
+ * Resolves the country of an IP address
+ *
+ * @param ip IPv4 or IPv6 address
+ * @returns ISO 3166-1 alpha-2 country code, or null if unknown
+ */
+export function lookupCountry(ip: string): string | null {
+  if (mmdbReader) {
+    if (!maxmind.validate(ip)) return null;
+
+    const result = mmdbReader.get(ip);
+    return result?.country?.iso_code || result?.registered_country?.iso_code || null;
+  }
+
+  if (csvRanges) {
+    const address = ipToBigInt(ip);
+    if (!address) return null;
+
+    const range = findRange(address.family === 4 ? csvRanges.v4 : csvRanges.v6, address.value);
+    return range ? range.countryCode : null;
+  }
+
+  return null;
+}
+
+/**
+ * Returns information about the loaded GeoIP database (for admins)
+ */
+export function getGeoIPStatus() {
+  return {
+    available: isGeoIPAvailable(),
+    path: GEOIP_DATABASE_PATH || null,
+    format: mmdbReader ? 'mmdb' : csvRanges ? 'csv' : null,
+    databaseType: mmdbReader?.metadata.databaseType || null,
+    ranges: csvRanges ? csvRanges.v4.length + csvRanges.v6.length : null,
+    loadedAt
+  };
+}
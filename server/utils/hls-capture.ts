@@ -0,0 +1,498 @@
+import fs from 'fs';
+import path from 'path';
+import { StreamSource, StreamRequestProfile } from '@shared/schema';
+import { getResourceWithoutCaching } from './segment-cache';
+import { orderSourcesForPlayback } from './source-failover';
+import { parseM3U8, rewritePlaylistUris, getAttribute, HlsUriContext } from './hls-manifest';
+import { getUpstreamIv, decryptSegment } from './hls-encryption';
+
+/**
+ * Capture of live HLS streams to local disk
+ *
+ * A capture follows the media playlist of a channel's best HLS source and
+ * stores every new segment in its directory, decrypted, together with an
+ * index.json describing the captured segments. The timeshift recorder keeps
+ * a rolling window this way, the catch-up archive keeps days of a channel in
+ * hourly chunks, and the program recorder captures scheduled programs.
+ * Captures reuse what viewers of the channel have in the segment cache but
+ * never add to it, so they cost few extra upstream requests for a watched
+ * channel and do not evict what viewers are watching.
+ */
+
+const MAX_CAPTURE_BANDWIDTH = parseInt(process.env.RECORDING_MAX_BANDWIDTH || '5000000'); // Highest variant captured, in bits/s
+const MIN_POLL_INTERVAL = 1000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; StreamRecorder/1.0)';
+
+// A captured segment
+export type CapturedSegment = {
+  sequence: number;          // Media sequence in the served playlist, continuous across source switches
+  file: string;              // File name in the capture directory
+  contentType: string | undefined;
+  duration: number;          // Seconds
+  programDateTime: string;   // ISO date the segment starts at
+  discontinuity: boolean;    // Not continuous with the previous segment (gap, source switch or upstream discontinuity)
+  mapId: number | null;      // Init section the segment needs (fragmented MP4 sources)
+};
+
+// A captured init section (EXT-X-MAP)
+export type CapturedMap = {
+  id: number;
+  file: string;
+  contentType: string | undefined;
+};
+
+// What has been captured, persisted as index.json in the capture directory
+export type CaptureIndex = {
+  segments: CapturedSegment[];
+  maps: CapturedMap[];
+  nextSequence: number;
+  nextMapId: number;
+  discontinuitySequence: number;  // Discontinuities that have been removed with their segments
+};
+
+export type HlsCapture = {
+  dir: string;
+  index: CaptureIndex;
+  sources: StreamSource[];
+  source: StreamSource | null;            // Source being captured
+  mediaPlaylistUrl: string | null;        // Its media playlist (a variant of the master playlist)
+  lastRecordedPlaylistUrl: string | null; // Media playlist captured before a failure or source switch
+  lastUpstreamSequence: number | null;    // Media sequence of the last captured upstream segment
+  lastMapUrl: string | null;              // Init section of the last captured segment
+  continuesAt: number | null;             // End of the last segment captured before the capture was rotated
+  pendingDiscontinuity: boolean;
+};
+
+// A segment of the upstream media playlist
+type UpstreamSegment = {
+  url: string;
+  duration: number;
+  discontinuity: boolean;
+  mapUrl: string | null;
+  context: HlsUriContext;
+};
+
+class CaptureError extends Error {}
+
+const isHlsSource = (source: StreamSource) =>
+  (source.format || 'hls').toLowerCase() === 'hls' && !/\.mpd$/i.test(new URL(source.url).pathname);
+
+/**
+ * Returns the file extension of an URL path (e.g. '.ts'), or the given default
+ */
+function getExtension(url: string, fallback: string): string {
+  const extension = new URL(url).pathname.match(/\.[a-z0-9]{1,5}$/i);
+  return extension ? extension[0].toLowerCase() : fallback;
+}
+
+/**
+ * Picks the variant of a master playlist to record: the best one within
+ * MAX_CAPTURE_BANDWIDTH, or the lowest if all are above it. Alternative
+ * renditions (EXT-X-MEDIA) are not recorded, so sources with separate audio
+ * playlists are recorded without them.
+ *
+ * @returns Absolute URL of the variant's media playlist
+ */
+function selectVariant(text: string, playlistUrl: string): string {
+  const variants: { url: string; bandwidth: number }[] = [];
+  let bandwidth: number | null = null;
+
+  for (const line of parseM3U8(text).lines) {
+    if (line.type === 'tag' && line.name === 'EXT-X-STREAM-INF' && line.attributes) {
+      bandwidth = parseInt(getAttribute(line.attributes, 'BANDWIDTH') || '0') || 0;
+    } else if (line.type === 'uri' && bandwidth !== null) {
+      variants.push({ url: new URL(line.uri, playlistUrl).toString(), bandwidth });
+      bandwidth = null;
+    }
+  }
+
+  if (variants.length === 0) {
+    throw new CaptureError('Master playlist has no variants');
+  }
+
+  variants.sort((a, b) => a.bandwidth - b.bandwidth);
+  const withinLimit = variants.filter(variant => variant.bandwidth <= MAX_CAPTURE_BANDWIDTH);
+
+  return withinLimit.length > 0 ? withinLimit[withinLimit.length - 1].url : variants[0].url;
+}
+
+/**
+ * Finds the media playlist to record: a variant of the best HLS source that
+ * is not failing. Switching to another source or variant is a discontinuity.
+ */
+async function resolveMediaPlaylist(capture: HlsCapture): Promise<void> {
+  const source = orderSourcesForPlayback(capture.sources).find(isHlsSource);
+  if (!source) {
+    throw new CaptureError('Channel has no HLS source');
+  }
+
+  const manifest = await getResourceWithoutCaching(source.url, USER_AGENT, source.requestProfile);
+  const text = manifest.body.toString('utf8');
+  const mediaPlaylistUrl = parseM3U8(text).isMaster ? selectVariant(text, manifest.finalUrl) : manifest.finalUrl;
+
+  if (mediaPlaylistUrl !== capture.lastRecordedPlaylistUrl) {
+    capture.lastUpstreamSequence = null;
+    capture.lastMapUrl = null;
+    capture.pendingDiscontinuity = capture.index.segments.length > 0;
+  }
+
+  capture.source = source;
+  capture.mediaPlaylistUrl = mediaPlaylistUrl;
+  capture.lastRecordedPlaylistUrl = mediaPlaylistUrl;
+}
+
+/**
+ * Parses a media playlist into its segments, with their URLs resolved and
+ * the encryption in effect for each segment and init section
+ */
+function parseMediaPlaylist(
+  text: string,
+  playlistUrl: string
+): { segments: UpstreamSegment[]; mapContexts: Map<string, HlsUriContext> } {
+  const playlist = parseM3U8(text);
+  if (playlist.isMaster) {
+    throw new CaptureError('Expected a media playlist');
+  }
+
+  // Resolve every URI, keeping the context it appears in
+  const segmentContexts: Map<string, HlsUriContext> = new Map();
+  const mapContexts: Map<string, HlsUriContext> = new Map();
+  rewritePlaylistUris(playlist, playlistUrl, (url, kind, context) => {
+    if (kind === 'segment') segmentContexts.set(url, context);
+    if (kind === 'map') mapContexts.set(url, context);
+    return url;
+  });
+
+  const segments: UpstreamSegment[] = [];
+  let duration = 0;
+  let discontinuity = false;
+  let mapUrl: string | null = null;
+
+  for (const line of playlist.lines) {
+    if (line.type === 'tag' && line.name === 'EXTINF') {
+      duration = parseFloat(line.value || '') || 0;
+    } else if (line.type === 'tag' && line.name === 'EXT-X-DISCONTINUITY') {
+      discontinuity = true;
+    } else if (line.type === 'tag' && line.name === 'EXT-X-BYTERANGE') {
+      throw new CaptureError('Byte-range segments cannot be recorded');
+    } else if (line.type === 'tag' && line.name === 'EXT-X-MAP' && line.attributes) {
+      if (getAttribute(line.attributes, 'BYTERANGE')) {
+        throw new CaptureError('Byte-range init sections cannot be recorded');
+      }
+      mapUrl = getAttribute(line.attributes, 'URI') || null;
+    } else if (line.type === 'uri') {
+      const context = segmentContexts.get(line.uri);
+      if (context) {
+        segments.push({ url: line.uri, duration, discontinuity, mapUrl, context });
+      }
+      duration = 0;
+      discontinuity = false;
+    }
+  }
+
+  return { segments, mapContexts };
+}
+
+/**
+ * Downloads a segment or init section, decrypting it if the upstream
+ * encrypts it with AES-128
+ */
+async function fetchMedia(
+  url: string,
+  context: HlsUriContext | undefined,
+  profile: StreamRequestProfile | undefined
+): Promise<{ data: Buffer; contentType: string | undefined }> {
+  const response = await getResourceWithoutCaching(url, USER_AGENT, profile);
+  const key = context?.key;
+
+  if (!key) {
+    return { data: response.body, contentType: response.contentType };
+  }
+
+  if (key.method !== 'AES-128') {
+    throw new CaptureError(`${key.method} encrypted streams cannot be recorded`);
+  }
+
+  const keyData = await getResourceWithoutCaching(key.uri, USER_AGENT, profile);
+  return {
+    data: decryptSegment(response.body, keyData.body, getUpstreamIv(key, context.mediaSequence)),
+    contentType: response.contentType
+  };
+}
+
+/**
+ * Records the init section of a segment, unless it is the one recorded last
+ *
+ * @returns ID of the init section, or null if the segment has none
+ */
+async function recordMap(
+  capture: HlsCapture,
+  segment: UpstreamSegment,
+  mapContexts: Map<string, HlsUriContext>
+): Promise<number | null> {
+  const { index } = capture;
+  if (!segment.mapUrl) {
+    return null;
+  }
+
+  if (segment.mapUrl === capture.lastMapUrl && index.maps.length > 0) {
+    return index.maps[index.maps.length - 1].id;
+  }
+
+  const { data, contentType } = await fetchMedia(segment.mapUrl, mapContexts.get(segment.mapUrl), capture.source?.requestProfile);
+  const id = index.nextMapId++;
+  const file = `init-${id}${getExtension(segment.mapUrl, '.mp4')}`;
+
+  await fs.promises.writeFile(path.join(capture.dir, file), data);
+  index.maps.push({ id, file, contentType });
+  capture.lastMapUrl = segment.mapUrl;
+
+  return id;
+}
+
+/**
+ * Captures the segments added to the upstream media playlist since the last poll
+ */
+async function captureNewSegments(capture: HlsCapture): Promise<{ recorded: number; nextPollIn: number }> {
+  if (!capture.mediaPlaylistUrl) {
+    await resolveMediaPlaylist(capture);
+  }
+
+  const { index } = capture;
+  const profile = capture.source?.requestProfile;
+  const manifest = await getResourceWithoutCaching(capture.mediaPlaylistUrl!, USER_AGENT, profile);
+  const { segments, mapContexts } = parseMediaPlaylist(manifest.body.toString('utf8'), manifest.finalUrl);
+
+  if (segments.length === 0) {
+    throw new CaptureError('Media playlist has no segments');
+  }
+
+  // The upstream restarted its media sequence numbers
+  const lastSequence = segments[segments.length - 1].context.mediaSequence;
+  if (capture.lastUpstreamSequence !== null && lastSequence < capture.lastUpstreamSequence) {
+    capture.lastUpstreamSequence = null;
+    capture.pendingDiscontinuity = true;
+  }
+
+  const previousSequence = capture.lastUpstreamSequence;
+  const newSegments = segments.filter(segment => previousSequence === null || segment.context.mediaSequence > previousSequence);
+
+  // Segments were missed, e.g. while the upstream was unreachable
+  if (previousSequence !== null && newSegments.length > 0 && newSegments[0].context.mediaSequence > previousSequence + 1) {
+    capture.pendingDiscontinuity = true;
+  }
+
+  // Continuous segments follow the previous one; otherwise the new segments end now
+  const previous = index.segments[index.segments.length - 1];
+  const previousEnd = previous ? new Date(previous.programDateTime).getTime() + previous.duration * 1000 : capture.continuesAt ?? 0;
+  const newDuration = newSegments.reduce((total, segment) => total + segment.duration, 0);
+  let startsAt = (previous || capture.continuesAt !== null) && !capture.pendingDiscontinuity
+    ? previousEnd
+    : Math.max(Date.now() - newDuration * 1000, previousEnd);
+
+  for (const segment of newSegments) {
+    const mapId = await recordMap(capture, segment, mapContexts);
+    const { data, contentType } = await fetchMedia(segment.url, segment.context, profile);
+    const sequence = index.nextSequence++;
+    const file = `${sequence}${getExtension(segment.url, '.ts')}`;
+
+    await fs.promises.writeFile(path.join(capture.dir, file), data);
+    index.segments.push({
+      sequence,
+      file,
+      contentType,
+      duration: segment.duration,
+      programDateTime: new Date(startsAt).toISOString(),
+      discontinuity: capture.pendingDiscontinuity || segment.discontinuity,
+      mapId
+    });
+
+    startsAt += segment.duration * 1000;
+    capture.lastUpstreamSequence = segment.context.mediaSequence;
+    capture.continuesAt = null;
+    capture.pendingDiscontinuity = false;
+  }
+
+  // Live playlists change about every target duration; poll at twice that rate
+  const targetDuration = segments[segments.length - 1].duration || 6;
+  return { recorded: newSegments.length, nextPollIn: Math.max(targetDuration * 500, MIN_POLL_INTERVAL) };
+}
+
+/**
+ * Opens a capture in a directory, continuing what was captured there before
+ * (e.g. before a restart) after a discontinuity
+ */
+export async function openCapture(dir: string): Promise<HlsCapture> {
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  let index: CaptureIndex;
+  try {
+    index = JSON.parse(await fs.promises.readFile(path.join(dir, 'index.json'), 'utf8')) as CaptureIndex;
+  } catch {
+    index = { segments: [], maps: [], nextSequence: 0, nextMapId: 0, discontinuitySequence: 0 };
+  }
+
+  return {
+    dir,
+    index,
+    sources: [],
+    source: null,
+    mediaPlaylistUrl: null,
+    lastRecordedPlaylistUrl: null,
+    lastUpstreamSequence: null,
+    lastMapUrl: null,
+    continuesAt: null,
+    pendingDiscontinuity: index.segments.length > 0
+  };
+}
+
+/**
+ * Continues a capture in a new, empty directory, e.g. to split a long
+ * archive into chunks. Sequences and init section IDs carry on from the
+ * previous directory, and the first segment captured into the new one
+ * follows on from the last segment of the previous one.
+ * The caller saves the index of the previous directory first.
+ */
+export async function rotateCapture(capture: HlsCapture, dir: string): Promise<void> {
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const { index } = capture;
+  const last = index.segments[index.segments.length - 1];
+
+  capture.dir = dir;
+  capture.index = {
+    segments: [],
+    maps: [],
+    nextSequence: index.nextSequence,
+    nextMapId: index.nextMapId,
+    discontinuitySequence: 0
+  };
+  capture.lastMapUrl = null;
+  if (last) {
+    capture.continuesAt = new Date(last.programDateTime).getTime() + last.duration * 1000;
+  }
+}
+
+/**
+ * Sets the stream sources of the captured channel. The capture follows
+ * source changes, and goes back to a preferred source once it recovers.
+ */
+export function setCaptureSources(capture: HlsCapture, sources: StreamSource[]): void {
+  capture.sources = sources;
+
+  const preferred = orderSourcesForPlayback(sources).find(isHlsSource);
+  if (capture.source && preferred?.url === capture.source.url) {
+    capture.source = preferred;
+  } else if (capture.source) {
+    capture.mediaPlaylistUrl = null;
+  }
+}
+
+/**
+ * Captures the segments added to the upstream media playlist since the last
+ * poll. After a failure the next poll looks for a source again.
+ *
+ * @returns The number of captured segments, and how long to wait before the next poll
+ * @throws Error if the source cannot be captured
+ */
+export async function pollCapture(capture: HlsCapture): Promise<{ recorded: number; nextPollIn: number }> {
+  try {
+    return await captureNewSegments(capture);
+  } catch (error) {
+    capture.mediaPlaylistUrl = null;
+    throw error;
+  }
+}
+
+/**
+ * Removes the segments that ended before a point in time, and the init
+ * sections no segment uses any more, together with their files
+ *
+ * @param before Time in ms since the epoch
+ * @returns The number of removed files
+ */
+export async function removeCapturedSegments(capture: HlsCapture, before: number): Promise<number> {
+  const { index } = capture;
+  const removed: string[] = [];
+
+  while (index.segments.length > 0) {
+    const segment = index.segments[0];
+    const endsAt = new Date(segment.programDateTime).getTime() + segment.duration * 1000;
+    if (endsAt >= before) break;
+
+    index.segments.shift();
+    removed.push(segment.file);
+    if (segment.discontinuity) {
+      index.discontinuitySequence++;
+    }
+  }
+
+  // The newest init section is kept for the segments still to come
+  const usedMaps = new Set(index.segments.map(segment => segment.mapId));
+  index.maps = index.maps.filter(map => {
+    if (usedMaps.has(map.id) || map.id === index.nextMapId - 1) return true;
+    removed.push(map.file);
+    return false;
+  });
+
+  for (const file of removed) {
+    await fs.promises.rm(path.join(capture.dir, file), { force: true });
+  }
+
+  return removed.length;
+}
+
+/**
+ * Persists the capture index (written to a temporary file first, so a crash
+ * never leaves a truncated index)
+ */
+export async function saveCaptureIndex(capture: HlsCapture): Promise<void> {
+  const indexPath = path.join(capture.dir, 'index.json');
+  await fs.promises.writeFile(`${indexPath}.tmp`, JSON.stringify(capture.index));
+  await fs.promises.rename(`${indexPath}.tmp`, indexPath);
+}
+
+/**
+ * Reads the index of a finished capture
+ *
+ * @returns The index, or null if the directory has none
+ */
+export async function readCaptureIndex(dir: string): Promise<CaptureIndex | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(dir, 'index.json'), 'utf8')) as CaptureIndex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a captured segment or init section
+ *
+ * @param dir The capture directory
+ * @param index Its index
+ * @param kind Whether to read a segment (by sequence) or an init section (by ID)
+ * @param id Sequence of the segment or ID of the init section
+ * @returns The data, or null if it is not (or no longer) captured
+ */
+export async function readCapturedMedia(
+  dir: string,
+  index: CaptureIndex,
+  kind: 'segment' | 'map',
+  id: number
+): Promise<{ data: Buffer; contentType: string | undefined } | null> {
+  const entry = kind === 'segment'
+    ? index.segments.find(segment => segment.sequence === id)
+    : index.maps.find(map => map.id === id);
+
+  if (!entry) {
+    return null;
+  }
+
+  try {
+    const data = await fs.promises.readFile(path.join(dir, entry.file));
+    return { data, contentType: entry.contentType };
+  } catch {
+    // Removed while the request was handled
+    return null;
+  }
+}
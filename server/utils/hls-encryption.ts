@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import { ContentKey } from '@shared/schema';
+import { storage } from '../storage';
+import { HlsPlaylist, HlsSegmentKey, getAttribute } from './hls-manifest';
+
+/**
+ * AES-128 encryption of proxied HLS streams
+ *
+ * Content with an active key in content_keys is encrypted by the stream proxy:
+ * every segment is encrypted (after decrypting the upstream encryption, if
+ * any) with the content key and a per-segment IV, and the rewritten playlist
+ * points players at the key endpoint of the proxy. Keys of live channels can
+ * be rotated periodically; retired keys stay available for KEY_RETENTION so
+ * players holding an older playlist can finish their segments.
+ */
+
+// Key lookups are cached because the proxy needs the key for every playlist and segment
+const KEY_CACHE_TTL = 10 * 1000; // 10 seconds
+const KEY_RETENTION = 60 * 60 * 1000; // 1 hour
+const ROTATION_CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+let rotationInterval: NodeJS.Timeout | null = null;
+
+// Active key per content ('channel:12'), null when the content is not encrypted
+const activeKeyCache: Map<string, { key: ContentKey | null; cachedAt: number }> = new Map();
+
+// Keys by key ID, including retired keys
+const keyCache: Map<string, { key: ContentKey | null; cachedAt: number }> = new Map();
+
+/**
+ * Returns the active encryption key of a piece of content
+ *
+ * @param contentType 'movie', 'episode' or 'channel'
+ * @param contentId ID of the content
+ * @returns The key, or null if the content is not encrypted
+ */
+export async function getActiveContentKey(contentType: string, contentId: number): Promise<ContentKey | null> {
+  const cacheKey = `${contentType}:${contentId}`;
+  const cached = activeKeyCache.get(cacheKey);
+  if (cached && Date.now() - cached.cachedAt < KEY_CACHE_TTL) {
+    return cached.key;
+  }
+
+  const key = (await storage.getActiveContentKey(contentType, contentId)) || null;
+  activeKeyCache.set(cacheKey, { key, cachedAt: Date.now() });
+
+  return key;
+}
+
+/**
+ * Returns a key by its public key ID, whether active or retired
+ *
+ * @param keyId The key ID used in key and segment URLs
+ * @returns The key, or null if it does not exist (anymore)
+ */
+export async function getContentKeyById(keyId: string): Promise<ContentKey | null> {
+  const cached = keyCache.get(keyId);
+  if (cached && Date.now() - cached.cachedAt < KEY_CACHE_TTL) {
+    return cached.key;
+  }
+
+  const key = (await storage.getContentKey(keyId)) || null;
+  keyCache.set(keyId, { key, cachedAt: Date.now() });
+
+  return key;
+}
+
+/**
+ * Generates a new key for a piece of content, replacing the active key.
+ * Used both to enable encryption and to rotate keys.
+ *
+ * @param contentType 'movie', 'episode' or 'channel'
+ * @param contentId ID of the content
+ * @param rotationInterval Seconds after which the key is rotated automatically, or null
+ * @returns The new key
+ */
+export async function createContentKey(contentType: string, contentId: number, rotationInterval: number | null): Promise<ContentKey> {
+  const key = await storage.createContentKey({
+    contentType,
+    contentId,
+    keyId: crypto.randomBytes(12).toString('hex'),
+    keyValue: crypto.randomBytes(16).toString('hex'),
+    rotationInterval
+  });
+
+  activeKeyCache.delete(`${contentType}:${contentId}`);
+  return key;
+}
+
+/**
+ * Replaces the active key of a piece of content, keeping its rotation interval
+ *
+ * @returns The new key, or undefined if the content is not encrypted
+ */
+export async function rotateContentKey(contentType: string, contentId: number): Promise<ContentKey | undefined> {
+  const current = await storage.getActiveContentKey(contentType, contentId);
+  if (!current) {
+    return undefined;
+  }
+
+  return createContentKey(contentType, contentId, current.rotationInterval);
+}
+
+/**
+ * Stops encrypting a piece of content. Retired keys remain available for
+ * KEY_RETENTION so that playback in progress is not interrupted.
+ *
+ * @returns true if the content was encrypted
+ */
+export async function disableContentEncryption(contentType: string, contentId: number): Promise<boolean> {
+  const deactivated = await storage.deactivateContentKeys(contentType, contentId);
+  activeKeyCache.delete(`${contentType}:${contentId}`);
+
+  return deactivated > 0;
+}
+
+/**
+ * Whether the encryption of a media playlist can be replaced with our own:
+ * it must be unencrypted or use whole-segment AES-128 encryption
+ * (SAMPLE-AES and DRM systems cannot be decrypted by the proxy)
+ */
+export function canReencryptPlaylist(playlist: HlsPlaylist): boolean {
+  return playlist.lines.every(line => {
+    if (line.type !== 'tag' || line.name !== 'EXT-X-KEY' || !line.attributes) {
+      return true;
+    }
+
+    const method = getAttribute(line.attributes, 'METHOD');
+    return method === 'NONE' || method === 'AES-128';
+  });
+}
+
+/**
+ * Returns the IV used to encrypt a segment with a content key. It is derived
+ * from the key and the segment URL, so the playlist and segment requests
+ * agree on it without storing anything.
+ *
+ * @param key The content key
+ * @param segmentUrl Absolute upstream URL of the segment
+ * @returns 16-byte IV
+ */
+export function getSegmentIv(key: ContentKey, segmentUrl: string): Buffer {
+  return crypto
+    .createHash('sha256')
+    .update(`${key.keyId}|${segmentUrl}`)
+    .digest()
+    .subarray(0, 16);
+}
+
+/**
+ * Returns the IV used by the upstream to encrypt a segment: the IV attribute
+ * of its EXT-X-KEY tag or, if there is none, its media sequence number
+ *
+ * @param key The upstream key in effect for the segment
+ * @param mediaSequence Media sequence number of the segment
+ * @returns 16-byte IV
+ */
+export function getUpstreamIv(key: HlsSegmentKey, mediaSequence: number): Buffer {
+  if (key.iv) {
+    const hex = key.iv.replace(/^0x/i, '').padStart(32, '0');
+    return Buffer.from(hex.slice(-32), 'hex');
+  }
+
+  const iv = Buffer.alloc(16);
+  iv.writeBigUInt64BE(BigInt(mediaSequence), 8);
+  return iv;
+}
+
+/**
+ * Encrypts a segment with AES-128-CBC and PKCS#7 padding, as HLS expects
+ */
+export function encryptSegment(data: Buffer, key: Buffer, iv: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('aes-128-cbc', key, iv);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/**
+ * Decrypts an AES-128-CBC encrypted segment
+ *
+ * @throws Error if the key or IV do not match the data
+ */
+export function decryptSegment(data: Buffer, key: Buffer, iv: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('aes-128-cbc', key, iv);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * Starts rotating content keys that have a rotation interval, and removing
+ * retired keys once KEY_RETENTION has passed
+ */
+export function startKeyRotation(): void {
+  if (rotationInterval) {
+    clearInterval(rotationInterval);
+  }
+
+  rotationInterval = setInterval(async () => {
+    try {
+      const now = Date.now();
+      const keys = await storage.getActiveContentKeys();
+
+      for (const key of keys) {
+        if (key.rotationInterval && now - key.createdAt.getTime() >= key.rotationInterval * 1000) {
+          await createContentKey(key.contentType, key.contentId, key.rotationInterval);
+          console.log(`Rotated encryption key for ${key.contentType} ${key.contentId}`);
+        }
+      }
+
+      const removed = await storage.deleteInactiveContentKeys(new Date(now - KEY_RETENTION));
+      if (removed > 0) {
+        console.log(`Removed ${removed} retired encryption keys`);
+      }
+
+      // Forget cached lookups of removed keys
+      Array.from(keyCache.entries()).forEach(([keyId, entry]) => {
+        if (now - entry.cachedAt >= KEY_CACHE_TTL) keyCache.delete(keyId);
+      });
+    } catch (error) {
+      console.error('Error rotating encryption keys:', error);
+    }
+  }, ROTATION_CHECK_INTERVAL);
+
+  console.log('Encryption key rotation started');
+}
+
+/**
+ * Stops the key rotation
+ */
+export function stopKeyRotation(): void {
+  if (rotationInterval) {
+    clearInterval(rotationInterval);
+    rotationInterval = null;
+    console.log('Encryption key rotation stopped');
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Minimal M3U8 (HLS playlist) parser and serializer
+ *
+ * The parser keeps every line of the playlist, including unknown tags and
+ * comments, so that serializing an unmodified playlist gives back the same
+ * content. Only URIs are rewritten; everything else is passed through as-is.
+ */
+
+// What an URI inside a playlist points to
+export type HlsUriKind = 'playlist' | 'segment' | 'key' | 'map' | 'data';
+
+export type HlsAttribute = {
+  name: string;
+  value: string;      // Raw value, including quotes for quoted-string values
+};
+
+export type HlsLine =
+  | { type: 'tag'; name: string; value: string | null; attributes: HlsAttribute[] | null }
+  | { type: 'uri'; uri: string }
+  | { type: 'comment'; text: string }
+  | { type: 'blank' };
+
+export interface HlsPlaylist {
+  lines: HlsLine[];
+  isMaster: boolean;
+}
+
+// Encryption of a media segment, from the EXT-X-KEY tag in effect
+export type HlsSegmentKey = {
+  method: string;       // 'AES-128', 'SAMPLE-AES', ...
+  uri: string;          // Absolute key URL
+  iv: string | null;    // Explicit IV attribute (0x-prefixed hex), if any
+};
+
+// Where an URI appears in a media playlist
+export type HlsUriContext = {
+  key: HlsSegmentKey | null;
+  mediaSequence: number;  // Sequence number of the current segment (the default IV)
+};
+
+// Tags whose value is an attribute list (RFC 8216 section 4.2)
+const ATTRIBUTE_LIST_TAGS = new Set([
+  'EXT-X-KEY',
+  'EXT-X-SESSION-KEY',
+  'EXT-X-MAP',
+  'EXT-X-MEDIA',
+  'EXT-X-STREAM-INF',
+  'EXT-X-I-FRAME-STREAM-INF',
+  'EXT-X-SESSION-DATA',
+  'EXT-X-DATERANGE',
+  'EXT-X-START',
+  'EXT-X-PART',
+  'EXT-X-PART-INF',
+  'EXT-X-PRELOAD-HINT',
+  'EXT-X-RENDITION-REPORT',
+  'EXT-X-SERVER-CONTROL',
+  'EXT-X-SKIP',
+  'EXT-X-CONTENT-STEERING'
+]);
+
+// Tags that carry a URI attribute, and what that URI points to
+const URI_TAGS: Record<string, HlsUriKind> = {
+  'EXT-X-KEY': 'key',
+  'EXT-X-SESSION-KEY': 'key',
+  'EXT-X-MAP': 'map',
+  'EXT-X-MEDIA': 'playlist',
+  'EXT-X-I-FRAME-STREAM-INF': 'playlist',
+  'EXT-X-RENDITION-REPORT': 'playlist',
+  'EXT-X-SESSION-DATA': 'data',
+  'EXT-X-PART': 'segment',
+  'EXT-X-PRELOAD-HINT': 'segment'
+};
+
+// Tags that only appear in master (multivariant) playlists
+const MASTER_TAGS = new Set([
+  'EXT-X-STREAM-INF',
+  'EXT-X-I-FRAME-STREAM-INF',
+  'EXT-X-MEDIA',
+  'EXT-X-SESSION-DATA',
+  'EXT-X-SESSION-KEY'
+]);
+
+/**
+ * Parses an attribute list such as `METHOD=AES-128,URI="key.bin",IV=0x1234`
+ * Quoted values may contain commas, so a plain split is not enough.
+ */
+export function parseAttributeList(value: string): HlsAttribute[] {
+  const attributes: HlsAttribute[] = [];
+  const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(value)) !== null) {
+    attributes.push({ name: match[1], value: match[2] });
+  }
+
+  return attributes;
+}
+
+/**
+ * Serializes an attribute list back to its playlist form
+ */
+export function serializeAttributeList(attributes: HlsAttribute[]): string {
+  return attributes.map(attr => `${attr.name}=${attr.value}`).join(',');
+}
+
+/**
+ * Returns the (unquoted) value of an attribute, if present
+ */
+export function getAttribute(attributes: HlsAttribute[], name: string): string | undefined {
+  const attribute = attributes.find(attr => attr.name === name);
+  if (!attribute) return undefined;
+
+  return attribute.value.startsWith('"') && attribute.value.endsWith('"')
+    ? attribute.value.slice(1, -1)
+    : attribute.value;
+}
+
+/**
+ * Sets an attribute as a quoted string, adding it if it does not exist yet
+ */
+export function setQuotedAttribute(attributes: HlsAttribute[], name: string, value: string): void {
+  const attribute = attributes.find(attr => attr.name === name);
+  if (attribute) {
+    attribute.value = `"${value}"`;
+  } else {
+    attributes.push({ name, value: `"${value}"` });
+  }
+}
+
+/**
+ * Parses an M3U8 playlist
+ *
+ * @param text The playlist content
+ * @returns The parsed playlist
+ * @throws SyntaxError if the content is not an M3U8 playlist
+ */
+export function parseM3U8(text: string): HlsPlaylist {
+  // Strip a UTF-8 byte order mark if present
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rawLines = content.split(/\r?\n/);
+
+  if (!rawLines[0] || !rawLines[0].trim().startsWith('#EXTM3U')) {
+    throw new SyntaxError('Not an M3U8 playlist');
+  }
+
+  const lines: HlsLine[] = [];
+  let isMaster = false;
+
+  for (const rawLine of rawLines) {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      lines.push({ type: 'blank' });
+    } else if (line.startsWith('#EXT')) {
+      const separator = line.indexOf(':');
+      const name = (separator === -1 ? line : line.substring(0, separator)).substring(1);
+      const value = separator === -1 ? null : line.substring(separator + 1);
+      const attributes = value !== null && ATTRIBUTE_LIST_TAGS.has(name)
+        ? parseAttributeList(value)
+        : null;
+
+      if (MASTER_TAGS.has(name)) {
+        isMaster = true;
+      }
+
+      lines.push({ type: 'tag', name, value, attributes });
+    } else if (line.startsWith('#')) {
+      lines.push({ type: 'comment', text: line.substring(1) });
+    } else {
+      lines.push({ type: 'uri', uri: line });
+    }
+  }
+
+  // Drop the trailing blank line produced by a final newline; serialize adds it back
+  if (lines.length > 0 && lines[lines.length - 1].type === 'blank') {
+    lines.pop();
+  }
+
+  return { lines, isMaster };
+}
+
+/**
+ * Serializes a playlist back to M3U8 text
+ */
+export function serializeM3U8(playlist: HlsPlaylist): string {
+  const output = playlist.lines.map(line => {
+    switch (line.type) {
+      case 'tag':
+        if (line.attributes) {
+          return `#${line.name}:${serializeAttributeList(line.attributes)}`;
+        }
+        return line.value === null ? `#${line.name}` : `#${line.name}:${line.value}`;
+      case 'uri':
+        return line.uri;
+      case 'comment':
+        return `#${line.text}`;
+      case 'blank':
+        return '';
+    }
+  });
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Rewrites every URI in a playlist: variant and rendition playlists, media
+ * segments, partial segments, keys, init sections (EXT-X-MAP) and session data.
+ * Each URI is first resolved against the URL the playlist was loaded from.
+ *
+ * The callback also receives the encryption and media sequence number in
+ * effect at the URI, which are needed to decrypt segments.
+ *
+ * @param playlist The parsed playlist (modified in place)
+ * @param playlistUrl The absolute URL the playlist was fetched from
+ * @param rewrite Callback mapping an absolute upstream URL to its replacement
+ * @returns The same playlist, for chaining
+ */
+export function rewritePlaylistUris(
+  playlist: HlsPlaylist,
+  playlistUrl: string,
+  rewrite: (absoluteUrl: string, kind: HlsUriKind, context: HlsUriContext) => string
+): HlsPlaylist {
+  // Malformed URIs in an upstream playlist are left as they are
+  const resolve = (uri: string) => {
+    try {
+      return new URL(uri, playlistUrl).toString();
+    } catch {
+      return uri;
+    }
+  };
+
+  // Inline (data:) and DRM system URIs (e.g. skd:) are not fetched over HTTP, nor are malformed URIs
+  const isFetchable = (uri: string) => {
+    try {
+      return /^https?:$/.test(new URL(uri, playlistUrl).protocol);
+    } catch {
+      return false;
+    }
+  };
+
+  const context: HlsUriContext = { key: null, mediaSequence: 0 };
+
+  for (const line of playlist.lines) {
+    if (line.type === 'uri') {
+      // In a master playlist URI lines are variant streams, otherwise media segments
+      if (isFetchable(line.uri)) {
+        line.uri = rewrite(resolve(line.uri), playlist.isMaster ? 'playlist' : 'segment', { ...context });
+      }
+
+      if (!playlist.isMaster) {
+        context.mediaSequence++;
+      }
+    } else if (line.type === 'tag' && line.name === 'EXT-X-MEDIA-SEQUENCE' && line.value !== null) {
+      context.mediaSequence = parseInt(line.value, 10) || 0;
+    } else if (line.type === 'tag' && line.attributes && URI_TAGS[line.name]) {
+      const method = line.name.endsWith('KEY') ? getAttribute(line.attributes, 'METHOD') : undefined;
+      const uri = getAttribute(line.attributes, 'URI');
+
+      // Keep track of the encryption applied to the following segments
+      if (line.name === 'EXT-X-KEY') {
+        context.key = method && method !== 'NONE' && uri !== undefined
+          ? { method, uri: resolve(uri), iv: getAttribute(line.attributes, 'IV') || null }
+          : null;
+      }
+
+      // Encryption METHOD=NONE has no key to fetch
+      if (method === 'NONE') continue;
+
+      if (uri === undefined || !isFetchable(uri)) continue;
+
+      // A preload hint may point to an init section instead of a part
+      const kind = line.name === 'EXT-X-PRELOAD-HINT' && getAttribute(line.attributes, 'TYPE') === 'MAP'
+        ? 'map'
+        : URI_TAGS[line.name];
+
+      setQuotedAttribute(line.attributes, 'URI', rewrite(resolve(uri), kind, { ...context }));
+    }
+  }
+
+  return playlist;
+}
+
+/**
+ * Replaces the encryption of a media playlist: removes every EXT-X-KEY tag
+ * and adds a new one before each segment and init section (EXT-X-MAP), so
+ * that each can have its own IV. Low-latency parts and preload hints are
+ * removed because parts cannot be decrypted on their own; players fall back
+ * to loading whole segments.
+ *
+ * Call this after rewritePlaylistUris; the callback gets the rewritten URI.
+ *
+ * @param playlist The parsed media playlist (modified in place)
+ * @param getKeyAttributes Returns the EXT-X-KEY attributes for a segment or init section URI
+ * @returns The same playlist, for chaining
+ */
+export function replaceSegmentKeys(
+  playlist: HlsPlaylist,
+  getKeyAttributes: (uri: string) => HlsAttribute[]
+): HlsPlaylist {
+  const removedTags = new Set(['EXT-X-KEY', 'EXT-X-PART', 'EXT-X-PART-INF', 'EXT-X-PRELOAD-HINT']);
+  const lines: HlsLine[] = [];
+
+  for (const line of playlist.lines) {
+    if (line.type === 'tag' && removedTags.has(line.name)) {
+      continue;
+    }
+
+    const uri = line.type === 'uri'
+      ? line.uri
+      : line.type === 'tag' && line.name === 'EXT-X-MAP' && line.attributes
+        ? getAttribute(line.attributes, 'URI')
+        : undefined;
+
+    if (uri !== undefined) {
+      const attributes = getKeyAttributes(uri);
+      lines.push({ type: 'tag', name: 'EXT-X-KEY', value: serializeAttributeList(attributes), attributes });
+    }
+
+    lines.push(line);
+  }
+
+  playlist.lines = lines;
+  return playlist;
+}
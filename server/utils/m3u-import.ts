@@ -0,0 +1,393 @@
+import fs from 'fs';
+import path from 'path';
+import { Category, Channel, Country, InsertChannel, StreamSource, StreamRequestProfile } from '@shared/schema';
+import { storage } from '../storage';
+
+/**
+ * Bulk channel import from M3U/M3U8 playlists
+ *
+ * Entries are read from #EXTINF lines (tvg-id, tvg-name, tvg-logo,
+ * group-title and tvg-country) and the URL line that follows them; #EXTGRP
+ * and the VLC user agent and referrer options are understood too. Entries
+ * with the same tvg-id (or, without one, the same name) are one channel with
+ * several stream sources.
+ *
+ * Playlist channels are matched to existing channels by EPG ID, then by name.
+ * Matched channels get the playlist's stream URLs they do not have yet as
+ * extra sources, and empty fields filled in; nothing an admin set is
+ * overwritten, so importing the same playlist again changes nothing. Group
+ * titles become categories (created when missing) and tvg-country codes are
+ * looked up in the countries table.
+ *
+ * The plan of an import can be computed without applying it, for a dry run.
+ */
+
+export const MAX_PLAYLIST_BYTES = 50 * 1024 * 1024; // 50 MB
+
+// Playlist files that may be imported from the server's disk
+const PLAYLIST_EXTENSIONS = ['.m3u', '.m3u8'];
+
+// An entry of the playlist
+export type M3UEntry = {
+  name: string;
+  url: string;
+  tvgId: string | null;
+  tvgName: string | null;
+  tvgLogo: string | null;
+  groupTitle: string | null;
+  tvgCountry: string | null;
+  requestProfile?: StreamRequestProfile;
+};
+
+// What importing the playlist does to one channel
+export type M3UImportChange = {
+  action: 'new' | 'updated' | 'unchanged';
+  channelId: number | null;
+  name: string;
+  epgId: string | null;
+  category: string | null;
+  country: string | null;
+  newSources: string[];     // Stream URLs the channel gets
+  changes: string[];        // Fields of an existing channel that are filled in
+};
+
+export type M3UImportPlan = {
+  entries: number;
+  summary: { new: number; updated: number; unchanged: number };
+  newCategories: string[];        // Group titles without a category, created by the import
+  unknownCountries: string[];     // tvg-country codes without a country, left unset
+  changes: M3UImportChange[];
+};
+
+export class M3UImportError extends Error {}
+
+// A playlist channel with what the import writes for it
+type PlannedChannel = M3UImportChange & {
+  logo: string | null;
+  sources: StreamSource[];
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Same slugs as the admin category form
+const generateSlug = (name: string) => name.toLowerCase().replace(/[^\w\s-]/g, '').replace(/\s+/g, '-');
+
+const getSources = (channel: Channel): StreamSource[] =>
+  Array.isArray(channel.streamSources) ? channel.streamSources as StreamSource[] : [];
+
+const getStreamFormat = (url: string) => {
+  const pathname = url.split('?')[0].toLowerCase();
+  if (pathname.endsWith('.mpd')) return 'dash';
+  if (pathname.endsWith('.mp4')) return 'mp4';
+  return 'hls';
+};
+
+/**
+ * Splits the text after "#EXTINF:" into its attributes and title. The title
+ * follows the first comma that is not inside a quoted attribute value.
+ */
+function parseExtinf(info: string): { attributes: Record<string, string>; title: string } {
+  let inQuotes = false;
+  let titleStart = -1;
+
+  for (let i = 0; i < info.length; i++) {
+    if (info[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (info[i] === ',' && !inQuotes) {
+      titleStart = i + 1;
+      break;
+    }
+  }
+
+  const head = titleStart >= 0 ? info.slice(0, titleStart - 1) : info;
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w-]+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(head)) !== null) {
+    attributes[match[1].toLowerCase()] = match[2].trim();
+  }
+
+  return { attributes, title: titleStart >= 0 ? info.slice(titleStart).trim() : '' };
+}
+
+/**
+ * Parses an M3U/M3U8 playlist into its entries; lines it does not understand are skipped
+ *
+ * @param content Text of the playlist
+ */
+export function parseM3U(content: string): M3UEntry[] {
+  const entries: M3UEntry[] = [];
+  let info: ReturnType<typeof parseExtinf> | null = null;
+  let group: string | null = null;
+  let requestProfile: StreamRequestProfile = {};
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('#EXTINF:')) {
+      info = parseExtinf(line.slice('#EXTINF:'.length));
+      group = null;
+      requestProfile = {};
+    } else if (line.startsWith('#EXTGRP:')) {
+      group = line.slice('#EXTGRP:'.length).trim() || null;
+    } else if (line.startsWith('#EXTVLCOPT:')) {
+      const [option, ...value] = line.slice('#EXTVLCOPT:'.length).split('=');
+      if (option === 'http-user-agent') requestProfile.userAgent = value.join('=');
+      if (option === 'http-referrer') requestProfile.referer = value.join('=');
+    } else if (!line.startsWith('#')) {
+      // A URL; entries without an #EXTINF line are named after their URL
+      const attributes = info?.attributes || {};
+      const name = info?.title || attributes['tvg-name'] || line;
+
+      entries.push({
+        name,
+        url: line,
+        tvgId: attributes['tvg-id'] || null,
+        tvgName: attributes['tvg-name'] || null,
+        tvgLogo: attributes['tvg-logo'] || null,
+        groupTitle: attributes['group-title'] || group,
+        tvgCountry: attributes['tvg-country'] || null,
+        ...(Object.keys(requestProfile).length > 0 ? { requestProfile } : {})
+      });
+
+      info = null;
+      group = null;
+      requestProfile = {};
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Reads a playlist from the server's disk
+ *
+ * @param filePath Absolute path of an .m3u or .m3u8 file
+ */
+export async function readPlaylistFile(filePath: string): Promise<string> {
+  if (!path.isAbsolute(filePath) || !PLAYLIST_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+    throw new M3UImportError('The path must be an absolute path to an .m3u or .m3u8 file');
+  }
+
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(filePath);
+  } catch {
+    throw new M3UImportError(`Playlist file not found: ${filePath}`);
+  }
+
+  if (!stats.isFile() || stats.size > MAX_PLAYLIST_BYTES) {
+    throw new M3UImportError(`The playlist must be a file of at most ${MAX_PLAYLIST_BYTES / (1024 * 1024)} MB`);
+  }
+
+  return fs.promises.readFile(filePath, 'utf8');
+}
+
+/**
+ * Works out what importing a playlist does, channel by channel
+ */
+async function planImport(entries: M3UEntry[]): Promise<{ plan: M3UImportPlan; channels: PlannedChannel[] }> {
+  const existingChannels = await storage.getChannels();
+  const categories = await storage.getCategories();
+  const countries = await storage.getCountries();
+
+  const byEpgId = new Map<string, Channel>();
+  const byName = new Map<string, Channel>();
+  for (const channel of existingChannels) {
+    if (channel.epgId) byEpgId.set(channel.epgId.toLowerCase(), channel);
+    byName.set(normalizeName(channel.name), channel);
+  }
+
+  const findCategory = (title: string): Category | undefined =>
+    categories.find(category =>
+      category.name.toLowerCase() === title.toLowerCase() || category.slug === generateSlug(title)
+    );
+
+  const newCategories = new Set<string>();
+  const unknownCountries = new Set<string>();
+
+  const findCountry = (codes: string): Country | undefined => {
+    for (const code of codes.split(/[;,|]/).map(code => code.trim()).filter(Boolean)) {
+      const country = countries.find(country => country.code.toLowerCase() === code.toLowerCase());
+      if (country) return country;
+    }
+    unknownCountries.add(codes);
+    return undefined;
+  };
+
+  // Entries of the same channel are grouped, in playlist order. Entries
+  // without a tvg-id join the group of an entry with the same name that has one.
+  const idsByName = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.tvgId) idsByName.set(normalizeName(entry.tvgName || entry.name), entry.tvgId.toLowerCase());
+  }
+
+  const groups = new Map<string, M3UEntry[]>();
+  for (const entry of entries) {
+    const name = normalizeName(entry.tvgName || entry.name);
+    const tvgId = entry.tvgId ? entry.tvgId.toLowerCase() : idsByName.get(name);
+    const key = tvgId ? `id:${tvgId}` : `name:${name}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  const channels: PlannedChannel[] = [];
+
+  Array.from(groups.values()).forEach(group => {
+    const first = group[0];
+    const epgId = group.find(entry => entry.tvgId)?.tvgId || null;
+    const logo = group.find(entry => entry.tvgLogo)?.tvgLogo || null;
+    const groupTitle = group.find(entry => entry.groupTitle)?.groupTitle || null;
+    const countryCodes = group.find(entry => entry.tvgCountry)?.tvgCountry || null;
+
+    const category = groupTitle ? findCategory(groupTitle) : undefined;
+    if (groupTitle && !category) {
+      newCategories.add(groupTitle);
+    }
+    const country = countryCodes ? findCountry(countryCodes) : undefined;
+
+    const existing = (epgId && byEpgId.get(epgId.toLowerCase())) ||
+      byName.get(normalizeName(first.tvgName || first.name)) ||
+      byName.get(normalizeName(first.name));
+    const existingUrls = new Set(existing ? getSources(existing).map(source => source.url) : []);
+
+    // Stream URLs the channel does not have yet, after its existing sources
+    let priority = existing ? Math.max(0, ...getSources(existing).map(source => source.priority)) : 0;
+    const sources: StreamSource[] = [];
+    for (const entry of group) {
+      if (existingUrls.has(entry.url)) continue;
+      existingUrls.add(entry.url);
+      sources.push({
+        url: entry.url,
+        priority: ++priority,
+        format: getStreamFormat(entry.url),
+        label: sources.length === 0 && !existing ? 'Main' : 'Backup',
+        ...(entry.requestProfile ? { requestProfile: entry.requestProfile } : {})
+      });
+    }
+
+    const changes: string[] = [];
+    if (existing) {
+      if (!existing.logo && logo) changes.push('logo');
+      if (!existing.epgId && epgId) changes.push('epgId');
+      if (!existing.categoryId && groupTitle) changes.push('category');
+      if (!existing.countryId && country) changes.push('country');
+    }
+
+    channels.push({
+      action: !existing ? 'new' : sources.length > 0 || changes.length > 0 ? 'updated' : 'unchanged',
+      channelId: existing ? existing.id : null,
+      name: existing ? existing.name : first.name,
+      epgId: existing?.epgId || epgId,
+      category: groupTitle,
+      country: country ? country.code : null,
+      newSources: sources.map(source => source.url),
+      changes,
+      logo,
+      sources
+    });
+  });
+
+  const count = (action: M3UImportChange['action']) => channels.filter(channel => channel.action === action).length;
+
+  return {
+    plan: {
+      entries: entries.length,
+      summary: { new: count('new'), updated: count('updated'), unchanged: count('unchanged') },
+      newCategories: Array.from(newCategories),
+      unknownCountries: Array.from(unknownCountries),
+      changes: channels.map(({ logo, sources, ...change }) => change)
+    },
+    channels
+  };
+}
+
+/**
+ * Returns what importing a playlist would do, without changing anything
+ *
+ * @param content Text of the playlist
+ */
+export async function previewM3UImport(content: string): Promise<M3UImportPlan> {
+  const entries = parseM3U(content);
+  if (entries.length === 0) {
+    throw new M3UImportError('The playlist has no entries');
+  }
+
+  return (await planImport(entries)).plan;
+}
+
+/**
+ * Imports a playlist: creates new channels and categories, and merges new
+ * stream URLs and missing fields into existing channels
+ *
+ * @param content Text of the playlist
+ * @returns The plan that was applied
+ */
+export async function applyM3UImport(content: string): Promise<M3UImportPlan> {
+  const entries = parseM3U(content);
+  if (entries.length === 0) {
+    throw new M3UImportError('The playlist has no entries');
+  }
+
+  const { plan, channels } = await planImport(entries);
+
+  const categoryIds = new Map<string, number>();
+  for (const category of await storage.getCategories()) {
+    categoryIds.set(category.name.toLowerCase(), category.id);
+    categoryIds.set(category.slug, category.id);
+  }
+
+  const getCategoryId = async (title: string | null): Promise<number | null> => {
+    if (!title) return null;
+    const known = categoryIds.get(title.toLowerCase()) ?? categoryIds.get(generateSlug(title));
+    if (known !== undefined) return known;
+
+    const category = await storage.createCategory({ name: title, slug: generateSlug(title) });
+    categoryIds.set(title.toLowerCase(), category.id);
+    categoryIds.set(category.slug, category.id);
+    return category.id;
+  };
+
+  const countryIds = new Map((await storage.getCountries()).map(country => [country.code, country.id]));
+
+  for (const channel of channels) {
+    if (channel.action === 'unchanged') continue;
+
+    const countryId = channel.country ? countryIds.get(channel.country) ?? null : null;
+
+    if (channel.action === 'new') {
+      await storage.createChannel({
+        name: channel.name,
+        logo: channel.logo,
+        epgId: channel.epgId,
+        categoryId: await getCategoryId(channel.category),
+        countryId,
+        streamSources: channel.sources
+      });
+      continue;
+    }
+
+    const existing = await storage.getChannel(channel.channelId!);
+    if (!existing) continue;
+
+    const update: Partial<InsertChannel> = {};
+    if (channel.sources.length > 0) update.streamSources = [...getSources(existing), ...channel.sources];
+    if (channel.changes.includes('logo')) update.logo = channel.logo;
+    if (channel.changes.includes('epgId')) update.epgId = channel.epgId;
+    if (channel.changes.includes('category')) update.categoryId = await getCategoryId(channel.category);
+    if (channel.changes.includes('country')) update.countryId = countryId;
+
+    await storage.updateChannel(existing.id, update);
+  }
+
+  console.log(`Imported M3U playlist: ${plan.summary.new} new, ${plan.summary.updated} updated, ${plan.summary.unchanged} unchanged channels`);
+
+  return plan;
+}
@@ -0,0 +1,231 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Server metrics in the Prometheus text exposition format
+ *
+ * Modules update the counters, gauges and histograms defined at the bottom of
+ * this file as things happen; values that are cheaper to read when scraped
+ * (such as the number of live stream sessions) are set by the /metrics route
+ * just before it renders. Everything is kept in memory and starts from zero
+ * when the server restarts, which Prometheus handles for counters.
+ */
+
+type Labels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+type Metric = {
+  name: string;
+  help: string;
+  type: MetricType;
+  render: () => string[];
+};
+
+const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // seconds
+
+const metrics: Metric[] = [];
+
+// Label values may contain anything; backslashes, quotes and newlines are escaped
+const escapeLabelValue = (value: string | number) =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const getLabelKey = (labels: Labels) =>
+  Object.keys(labels).sort().map(name => `${name}="${escapeLabelValue(labels[name])}"`).join(',');
+
+const formatSample = (name: string, labelKey: string, value: number) =>
+  `${name}${labelKey ? `{${labelKey}}` : ''} ${Number.isFinite(value) ? value : 0}`;
+
+/**
+ * Creates a counter, a value that only goes up (per combination of labels)
+ *
+ * @param name Metric name, ending in _total by convention
+ * @param help Description shown by Prometheus
+ */
+function createCounter(name: string, help: string) {
+  const values: Map<string, number> = new Map();
+
+  metrics.push({
+    name,
+    help,
+    type: 'counter',
+    render: () => Array.from(values.entries()).map(([labelKey, value]) => formatSample(name, labelKey, value))
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1): void {
+      const labelKey = getLabelKey(labels);
+      values.set(labelKey, (values.get(labelKey) || 0) + value);
+    }
+  };
+}
+
+/**
+ * Creates a gauge, a value that can go up and down (per combination of labels)
+ *
+ * @param name Metric name
+ * @param help Description shown by Prometheus
+ */
+function createGauge(name: string, help: string) {
+  const values: Map<string, number> = new Map();
+
+  metrics.push({
+    name,
+    help,
+    type: 'gauge',
+    render: () => Array.from(values.entries()).map(([labelKey, value]) => formatSample(name, labelKey, value))
+  });
+
+  return {
+    set(labels: Labels, value: number): void {
+      values.set(getLabelKey(labels), value);
+    }
+  };
+}
+
+/**
+ * Creates a histogram of observed values (per combination of labels)
+ *
+ * @param name Metric name, ending in the unit (e.g. _seconds)
+ * @param help Description shown by Prometheus
+ * @param buckets Upper bounds of the buckets, in increasing order
+ */
+function createHistogram(name: string, help: string, buckets = DEFAULT_LATENCY_BUCKETS) {
+  const series: Map<string, { counts: number[]; sum: number; count: number }> = new Map();
+
+  metrics.push({
+    name,
+    help,
+    type: 'histogram',
+    render: () => {
+      const lines: string[] = [];
+
+      Array.from(series.entries()).forEach(([labelKey, { counts, sum, count }]) => {
+        const prefix = labelKey ? `${labelKey},` : '';
+        buckets.forEach((bound, index) => {
+          lines.push(`${name}_bucket{${prefix}le="${bound}"} ${counts[index]}`);
+        });
+        lines.push(`${name}_bucket{${prefix}le="+Inf"} ${count}`);
+        lines.push(formatSample(`${name}_sum`, labelKey, sum));
+        lines.push(formatSample(`${name}_count`, labelKey, count));
+      });
+
+      return lines;
+    }
+  });
+
+  return {
+    observe(labels: Labels, value: number): void {
+      const labelKey = getLabelKey(labels);
+      let observed = series.get(labelKey);
+      if (!observed) {
+        observed = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(labelKey, observed);
+      }
+
+      // Buckets are cumulative: a value counts in every bucket it fits in
+      buckets.forEach((bound, index) => {
+        if (value <= bound) {
+          observed!.counts[index]++;
+        }
+      });
+      observed.sum += value;
+      observed.count++;
+    }
+  };
+}
+
+/**
+ * Renders all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Express middleware that times every request. Requests are labelled with
+ * the route pattern that handled them (e.g. /api/movies/:id), so IDs and
+ * stream tokens do not end up in label values; requests no API route
+ * handled (the client app and its assets) are labelled "other".
+ */
+export function observeHttpRequests(req: Request, res: Response, next: NextFunction): void {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'other';
+    httpRequestDuration.observe(
+      { method: req.method, route, status: res.statusCode },
+      Number(process.hrtime.bigint() - startedAt) / 1e9
+    );
+  });
+
+  next();
+}
+
+// HTTP
+export const httpRequestDuration = createHistogram(
+  'http_request_duration_seconds',
+  'Time to respond to HTTP requests, per route'
+);
+
+// Stream sessions and the stream proxy
+export const activeStreamSessions = createGauge(
+  'stream_sessions_active',
+  'Live stream sessions, per content type'
+);
+export const proxyBytesIn = createCounter(
+  'stream_proxy_upstream_bytes_total',
+  'Bytes fetched from upstream sources by the stream proxy and the recorders sharing its cache'
+);
+export const proxyBytesOut = createCounter(
+  'stream_proxy_served_bytes_total',
+  'Bytes the stream proxy served to viewers, per content type'
+);
+export const upstreamErrors = createCounter(
+  'stream_proxy_upstream_errors_total',
+  'Failed upstream requests, per stream source (ID as in proxy references)'
+);
+
+// Segment cache (set from its statistics when scraped)
+export const segmentCacheRequests = createGauge(
+  'segment_cache_requests',
+  'Segment cache lookups since the cache was last cleared, per result (hit, coalesced or miss)'
+);
+export const segmentCacheHitRatio = createGauge(
+  'segment_cache_hit_ratio',
+  'Share of segment cache lookups that did not reach the upstream'
+);
+export const segmentCacheBytes = createGauge(
+  'segment_cache_size_bytes',
+  'Bytes held in the segment cache'
+);
+
+// Stream checker
+export const streamChecks = createCounter(
+  'stream_checks_total',
+  'Stream source probes by the stream checker, per result (online or offline)'
+);
+export const streamCheckChannels = createGauge(
+  'stream_check_channels',
+  'Channels per status found by the stream checker'
+);
+
+// EPG
+export const epgImportDuration = createHistogram(
+  'epg_import_duration_seconds',
+  'Time to fetch and import an EPG source, per result (completed or failed)',
+  [1, 5, 15, 30, 60, 120, 300, 600, 1800]
+);
+
+// Crypto payments
+export const cryptoPaymentVerifications = createCounter(
+  'crypto_payment_verifications_total',
+  'Crypto payment verifications, per currency and outcome'
+);
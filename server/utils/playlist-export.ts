@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { Channel, PlaylistKey, User, StreamSource } from '@shared/schema';
+import { storage } from '../storage';
+import { hasContentEntitlement } from './content-access';
+import { checkGeoAccess } from './geo-restrictions';
+import { endPlaylistKeySessions } from './stream-sessions';
+import { getGuideChannelId } from './xmltv-export';
+
+/**
+ * Personal playlists for external players
+ *
+ * Users can watch in VLC, Kodi, TiviMate and other players through an M3U
+ * playlist of the channels they are entitled to. The playlist and its guide
+ * are authenticated by a secret playlist key in their URLs, which users can
+ * revoke or replace at any time. Playlist entries do not contain stream
+ * tokens: each entry points at a play URL that opens a stream session when
+ * the player requests it, subject to the same premium, geo, data quota and
+ * concurrent stream checks as the web player, and redirects to the stream
+ * proxy.
+ */
+
+export type ResolvedPlaylistKey = {
+  playlistKey: PlaylistKey;
+  user: User;
+};
+
+// Attribute values are quoted; quotes and line breaks would break the entry
+const cleanAttribute = (value: string) => value.replace(/"/g, "'").replace(/[\r\n]+/g, ' ').trim();
+
+/**
+ * Replaces a user's playlist key with a new one. Players using the old key
+ * stop working, including streams they are playing.
+ *
+ * @param userId ID of the user
+ * @returns The new playlist key
+ */
+export async function createPlaylistKey(userId: number): Promise<PlaylistKey> {
+  await revokePlaylistKey(userId);
+
+  return storage.createPlaylistKey({
+    userId,
+    key: crypto.randomBytes(24).toString('base64url')
+  });
+}
+
+/**
+ * Revokes a user's playlist key and ends the streams opened with it
+ *
+ * @param userId ID of the user
+ * @returns true if the user had a playlist key
+ */
+export async function revokePlaylistKey(userId: number): Promise<boolean> {
+  const revoked = await storage.revokeUserPlaylistKeys(userId);
+  for (const playlistKey of revoked) {
+    await endPlaylistKeySessions(playlistKey.id);
+  }
+
+  return revoked.length > 0;
+}
+
+/**
+ * Looks up the user a playlist key belongs to
+ *
+ * @param key Playlist key from a playlist URL
+ * @returns The key and its user, or undefined if the key is unknown or revoked
+ */
+export async function resolvePlaylistKey(key: string): Promise<ResolvedPlaylistKey | undefined> {
+  const playlistKey = await storage.getPlaylistKey(key);
+  if (!playlistKey || playlistKey.isRevoked) {
+    return undefined;
+  }
+
+  const user = await storage.getUser(playlistKey.userId);
+  if (!user) {
+    return undefined;
+  }
+
+  await storage.touchPlaylistKey(playlistKey.id);
+  return { playlistKey, user };
+}
+
+/**
+ * Whether a user may watch a channel from an IP address: it has stream
+ * sources, is free or the user is entitled to it, and is not geo-restricted
+ * in the address's country
+ *
+ * @param userId ID of the user
+ * @param ip IP address of the player
+ * @param channel The channel
+ */
+export async function isPlaylistChannel(userId: number, ip: string | undefined, channel: Channel): Promise<boolean> {
+  if (!Array.isArray(channel.streamSources) || (channel.streamSources as StreamSource[]).length === 0) {
+    return false;
+  }
+  if (channel.isPremium && !(await hasContentEntitlement(userId, 'channel', channel.id))) {
+    return false;
+  }
+
+  return (await checkGeoAccess('channel', channel.id, ip)).allowed;
+}
+
+/**
+ * Returns the channels a user may watch from an IP address (see isPlaylistChannel)
+ *
+ * @param userId ID of the user
+ * @param ip IP address of the player
+ */
+export async function getPlaylistChannels(userId: number, ip: string | undefined): Promise<Channel[]> {
+  const channels = await storage.getChannels();
+  const available: Channel[] = [];
+
+  for (const channel of channels) {
+    if (await isPlaylistChannel(userId, ip, channel)) {
+      available.push(channel);
+    }
+  }
+
+  return available.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Builds the M3U playlist of a user's channels
+ *
+ * @param channels Channels to include (see getPlaylistChannels)
+ * @param playlistUrl Absolute URL of the playlist key's routes (…/api/playlist/<key>)
+ * @returns The M3U playlist
+ */
+export async function buildChannelPlaylist(channels: Channel[], playlistUrl: string): Promise<string> {
+  const categories = new Map((await storage.getCategories()).map(category => [category.id, category.name]));
+  const countries = new Map((await storage.getCountries()).map(country => [country.id, country.code]));
+
+  const lines = [`#EXTM3U url-tvg="${playlistUrl}/guide.xml" x-tvg-url="${playlistUrl}/guide.xml"`];
+
+  for (const channel of channels) {
+    const attributes = [
+      `tvg-id="${cleanAttribute(getGuideChannelId(channel))}"`,
+      `tvg-name="${cleanAttribute(channel.name)}"`
+    ];
+    if (channel.logo) {
+      attributes.push(`tvg-logo="${cleanAttribute(channel.logo)}"`);
+    }
+    const country = channel.countryId ? countries.get(channel.countryId) : undefined;
+    if (country) {
+      attributes.push(`tvg-country="${cleanAttribute(country)}"`);
+    }
+    const category = channel.categoryId ? categories.get(channel.categoryId) : undefined;
+    if (category) {
+      attributes.push(`group-title="${cleanAttribute(category)}"`);
+    }
+
+    lines.push(`#EXTINF:-1 ${attributes.join(' ')},${channel.name.replace(/[\r\n]+/g, ' ')}`);
+    lines.push(`${playlistUrl}/channels/${channel.id}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,525 @@
+import fs from 'fs';
+import path from 'path';
+import { Channel, Program, Recording, RecordingSchedule, StreamSource } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  openCapture,
+  setCaptureSources,
+  pollCapture,
+  removeCapturedSegments,
+  saveCaptureIndex,
+  readCaptureIndex,
+  HlsCapture,
+  CaptureIndex
+} from './hls-capture';
+
+/**
+ * Program recorder (cloud PVR)
+ *
+ * Users schedule recordings of EPG programs, or of every program of a
+ * channel matching a title (and season). The recorder captures the channel
+ * (see hls-capture) from recordingPaddingBefore minutes before a program
+ * starts until recordingPaddingAfter minutes after it ends. Recordings of
+ * the same program by different users share one capture directory, which is
+ * removed with the last of them. The stream proxy serves recordings as VOD
+ * playlists, and as growing event playlists while they are being recorded.
+ *
+ * Every user may keep defaultUserQuota hours of recordings: completed
+ * recordings count with their recorded duration, scheduled ones with their
+ * padded length.
+ */
+
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || path.join(process.cwd(), 'recordings');
+
+const POLL_TICK = 1000; // How often captures are looked at
+const RETRY_DELAY = 10 * 1000; // Wait after a failed poll before trying again
+const SCHEDULE_INTERVAL = 30 * 1000; // How often recordings are started and stopped
+const SERIES_INTERVAL = 15 * 60 * 1000; // How often series schedules look for new programs in the EPG
+const FINISHED_INDEX_CACHE_SIZE = 50; // Indexes of finished recordings kept in memory for playback
+
+const DEFAULT_QUOTA_HOURS = 5;
+const DEFAULT_PADDING_BEFORE = 2; // minutes
+const DEFAULT_PADDING_AFTER = 5; // minutes
+
+// A capture in progress, shared by the recordings of the same program
+type ActiveRecording = {
+  capture: HlsCapture;
+  captureStart: number;
+  nextPollAt: number;
+  polling: boolean;
+  lastError: string | null;   // Set while polls fail, logged once
+};
+
+export type RecordingQuota = {
+  quota: number;   // Seconds the user may record
+  used: number;    // Seconds recorded or scheduled
+};
+
+/**
+ * Error in a recording request, with a message that can be shown to the user
+ */
+export class RecordingError extends Error {}
+
+// Captures in progress by recording ID (recordings of the same program have the same one)
+const activeRecordings: Map<number, ActiveRecording> = new Map();
+const finishedIndexes: Map<number, { dir: string; index: CaptureIndex; inProgress: false }> = new Map();
+
+let pollInterval: NodeJS.Timeout | null = null;
+let scheduleInterval: NodeJS.Timeout | null = null;
+let scheduleInProgress = false;
+let seriesExpandedAt = 0;
+
+// Recordings of the same channel and time range are captured into the same directory
+const getRecordingDir = (recording: Recording) =>
+  path.join(RECORDINGS_DIR, `channel-${recording.channelId}-${recording.startTime.getTime()}-${recording.endTime.getTime()}`);
+
+const isSameCapture = (a: Recording, b: Recording) => getRecordingDir(a) === getRecordingDir(b);
+
+const getSources = (channel: Channel): StreamSource[] =>
+  Array.isArray(channel.streamSources) ? channel.streamSources as StreamSource[] : [];
+
+const getCapturedDuration = (index: CaptureIndex) =>
+  Math.round(index.segments.reduce((total, segment) => total + segment.duration, 0));
+
+/**
+ * Returns the padding around programs, in ms
+ */
+async function getPadding(): Promise<{ before: number; after: number }> {
+  const settings = await storage.getSiteSettings();
+
+  return {
+    before: (settings?.recordingPaddingBefore ?? DEFAULT_PADDING_BEFORE) * 60 * 1000,
+    after: (settings?.recordingPaddingAfter ?? DEFAULT_PADDING_AFTER) * 60 * 1000
+  };
+}
+
+/**
+ * Returns the recording quota of a user and how much of it is used
+ *
+ * @param userId ID of the user
+ */
+export async function getRecordingQuota(userId: number): Promise<RecordingQuota> {
+  const settings = await storage.getSiteSettings();
+  const { before, after } = await getPadding();
+  let used = 0;
+
+  for (const recording of await storage.getRecordings(userId)) {
+    if (recording.status === 'scheduled' || recording.status === 'recording') {
+      used += Math.round((recording.endTime.getTime() - recording.startTime.getTime() + before + after) / 1000);
+    } else {
+      used += recording.duration;
+    }
+  }
+
+  return { quota: (settings?.defaultUserQuota ?? DEFAULT_QUOTA_HOURS) * 3600, used };
+}
+
+/**
+ * Schedules the recording of a program for a user
+ *
+ * @param userId ID of the user
+ * @param channelId ID of the channel the program is on
+ * @param program The EPG program
+ * @param scheduleId ID of the series schedule the recording is made for, if any
+ * @throws RecordingError if the program has ended, is already scheduled or does not fit the quota
+ */
+export async function scheduleRecording(
+  userId: number,
+  channelId: number,
+  program: Program,
+  scheduleId: number | null = null
+): Promise<Recording> {
+  if (program.endTime.getTime() <= Date.now()) {
+    throw new RecordingError('This program has already ended');
+  }
+
+  const existing = await storage.getRecordings(userId);
+  if (existing.some(recording =>
+    recording.channelId === channelId && recording.startTime.getTime() === program.startTime.getTime()
+  )) {
+    throw new RecordingError('This program is already scheduled for recording');
+  }
+
+  const { before, after } = await getPadding();
+  const { quota, used } = await getRecordingQuota(userId);
+  const length = Math.round((program.endTime.getTime() - program.startTime.getTime() + before + after) / 1000);
+  if (used + length > quota) {
+    throw new RecordingError('Not enough recording time left in your quota');
+  }
+
+  return storage.createRecording({
+    userId,
+    scheduleId,
+    channelId,
+    programId: program.id,
+    title: program.title,
+    episodeTitle: program.episodeTitle,
+    season: program.season,
+    episode: program.episode,
+    description: program.description,
+    posterUrl: program.posterUrl,
+    startTime: program.startTime,
+    endTime: program.endTime,
+    status: 'scheduled'
+  });
+}
+
+/**
+ * Schedules the upcoming programs a series schedule matches that are not
+ * scheduled yet, as far as the quota of its user allows
+ *
+ * @returns The number of scheduled recordings
+ */
+async function expandSeriesSchedule(schedule: RecordingSchedule): Promise<number> {
+  const now = Date.now();
+  const title = schedule.title.trim().toLowerCase();
+  const programs = (await storage.getChannelPrograms(schedule.channelId))
+    .filter(program =>
+      program.endTime.getTime() > now &&
+      program.title.trim().toLowerCase() === title &&
+      (schedule.season === null || program.season === schedule.season)
+    )
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  const recordings = await storage.getRecordings(schedule.userId);
+  let scheduled = 0;
+
+  for (const program of programs) {
+    if (recordings.some(recording =>
+      recording.channelId === schedule.channelId && recording.startTime.getTime() === program.startTime.getTime()
+    )) {
+      continue;
+    }
+
+    try {
+      await scheduleRecording(schedule.userId, schedule.channelId, program, schedule.id);
+      scheduled++;
+    } catch (error) {
+      // Later programs do not fit the quota either
+      if (error instanceof RecordingError) break;
+      throw error;
+    }
+  }
+
+  return scheduled;
+}
+
+/**
+ * Creates a series schedule for a user and schedules its upcoming programs
+ *
+ * @param userId ID of the user
+ * @param channelId ID of the channel
+ * @param title Program title to record, matched case-insensitively
+ * @param season Season to record, or null for all seasons
+ * @throws RecordingError if the user already has the same schedule
+ */
+export async function scheduleSeriesRecording(
+  userId: number,
+  channelId: number,
+  title: string,
+  season: number | null
+): Promise<{ schedule: RecordingSchedule; scheduled: number }> {
+  const existing = await storage.getRecordingSchedules(userId);
+  if (existing.some(schedule =>
+    schedule.channelId === channelId &&
+    schedule.title.trim().toLowerCase() === title.trim().toLowerCase() &&
+    schedule.season === season
+  )) {
+    throw new RecordingError('This series is already scheduled for recording');
+  }
+
+  const schedule = await storage.createRecordingSchedule({ userId, channelId, title: title.trim(), season });
+  const scheduled = await expandSeriesSchedule(schedule);
+
+  return { schedule, scheduled };
+}
+
+/**
+ * Deletes a series schedule and the recordings it scheduled that have not
+ * started yet. Recordings it made are kept.
+ */
+export async function deleteSeriesSchedule(schedule: RecordingSchedule): Promise<void> {
+  for (const recording of await storage.getRecordings(schedule.userId)) {
+    if (recording.scheduleId === schedule.id && recording.status === 'scheduled') {
+      await storage.deleteRecording(recording.id);
+    }
+  }
+
+  await storage.deleteRecordingSchedule(schedule.id);
+}
+
+/**
+ * Whether other recordings (that did not fail) use the capture of a recording
+ */
+async function isCaptureShared(recording: Recording): Promise<boolean> {
+  return (await storage.getRecordings()).some(other =>
+    other.id !== recording.id && other.status !== 'failed' && isSameCapture(other, recording)
+  );
+}
+
+/**
+ * Deletes a recording, stopping it if it is being recorded, together with
+ * its captured files unless other recordings share them
+ */
+export async function deleteRecording(recording: Recording): Promise<void> {
+  activeRecordings.delete(recording.id);
+  finishedIndexes.delete(recording.id);
+
+  if (!(await isCaptureShared(recording))) {
+    await fs.promises.rm(getRecordingDir(recording), { recursive: true, force: true });
+  }
+  await storage.deleteRecording(recording.id);
+}
+
+/**
+ * Returns what has been captured of a recording, for playback
+ *
+ * @param recordingId ID of the recording
+ * @returns The capture directory and index, and whether it is still being
+ *          recorded; null if nothing has been captured
+ */
+export async function getRecordingCapture(
+  recordingId: number
+): Promise<{ dir: string; index: CaptureIndex; inProgress: boolean } | null> {
+  const active = activeRecordings.get(recordingId);
+  if (active) {
+    return { dir: active.capture.dir, index: active.capture.index, inProgress: true };
+  }
+
+  // Playback requests every segment, so finished indexes are not read from disk each time
+  const finished = finishedIndexes.get(recordingId);
+  if (finished) {
+    return finished;
+  }
+
+  const recording = await storage.getRecording(recordingId);
+  if (recording?.status !== 'completed') {
+    return null;
+  }
+
+  const dir = getRecordingDir(recording);
+  const index = await readCaptureIndex(dir);
+  if (!index) {
+    return null;
+  }
+
+  if (finishedIndexes.size >= FINISHED_INDEX_CACHE_SIZE) {
+    finishedIndexes.delete(finishedIndexes.keys().next().value!);
+  }
+  finishedIndexes.set(recordingId, { dir, index, inProgress: false });
+
+  return { dir, index, inProgress: false };
+}
+
+/**
+ * Returns the IDs of the recordings a capture is made for
+ */
+const getCaptureRecordingIds = (active: ActiveRecording) =>
+  Array.from(activeRecordings.entries()).filter(([, other]) => other === active).map(([recordingId]) => recordingId);
+
+/**
+ * Polls a capture, dropping what was captured from before the recording
+ * started (the first poll captures the whole upstream playlist)
+ */
+async function runCapture(active: ActiveRecording): Promise<void> {
+  const recordingIds = getCaptureRecordingIds(active).join(', ');
+  active.polling = true;
+  let changes = 0;
+
+  try {
+    const { recorded, nextPollIn } = await pollCapture(active.capture);
+    changes += recorded;
+    active.nextPollAt = Date.now() + nextPollIn;
+
+    if (active.lastError) {
+      console.log(`Recording ${recordingIds} resumed`);
+      active.lastError = null;
+    }
+  } catch (error) {
+    if (!active.lastError) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Recording ${recordingIds} failed: ${reason}`);
+      active.lastError = reason;
+    }
+
+    active.nextPollAt = Date.now() + RETRY_DELAY;
+  }
+
+  try {
+    // The recordings may have been stopped or deleted while it was polling
+    if (getCaptureRecordingIds(active).length > 0) {
+      changes += await removeCapturedSegments(active.capture, active.captureStart);
+      if (changes > 0) {
+        await saveCaptureIndex(active.capture);
+      }
+    }
+  } catch (error) {
+    console.error(`Error saving recording ${recordingIds}:`, error);
+  } finally {
+    active.polling = false;
+  }
+}
+
+/**
+ * Starts the captures that are due to poll
+ */
+function pollCaptures(): void {
+  const now = Date.now();
+
+  new Set(activeRecordings.values()).forEach(active => {
+    if (!active.polling && active.nextPollAt <= now) {
+      runCapture(active);
+    }
+  });
+}
+
+/**
+ * Starts capturing a recording, or continues a capture from before a restart.
+ * A recording of a program that is already being captured joins that capture.
+ */
+async function startRecording(recording: Recording, captureStart: number): Promise<void> {
+  const channel = await storage.getChannel(recording.channelId);
+  if (!channel) {
+    await storage.updateRecording(recording.id, { status: 'failed', failureReason: 'The channel no longer exists' });
+    return;
+  }
+
+  const dir = getRecordingDir(recording);
+  const shared = Array.from(activeRecordings.values()).find(active => active.capture.dir === dir);
+  if (shared) {
+    activeRecordings.set(recording.id, shared);
+  } else {
+    const capture = await openCapture(dir);
+    setCaptureSources(capture, getSources(channel));
+    activeRecordings.set(recording.id, { capture, captureStart, nextPollAt: 0, polling: false, lastError: null });
+  }
+
+  if (recording.status !== 'recording') {
+    await storage.updateRecording(recording.id, { status: 'recording' });
+  }
+
+  console.log(`Recording ${recording.id} of "${recording.title}" on channel ${recording.channelId} started`);
+}
+
+/**
+ * Stops capturing a recording and marks it completed, or failed if nothing
+ * was captured
+ */
+async function finishRecording(recording: Recording): Promise<void> {
+  const active = activeRecordings.get(recording.id);
+  activeRecordings.delete(recording.id);
+
+  let index: CaptureIndex | null = null;
+  if (active) {
+    await saveCaptureIndex(active.capture);
+    index = active.capture.index;
+  } else if (recording.status === 'recording') {
+    index = await readCaptureIndex(getRecordingDir(recording));
+  }
+
+  if (index && index.segments.length > 0) {
+    await storage.updateRecording(recording.id, { status: 'completed', duration: getCapturedDuration(index) });
+    console.log(`Recording ${recording.id} of "${recording.title}" completed`);
+    return;
+  }
+
+  const failureReason = active?.lastError || (recording.status === 'scheduled'
+    ? 'The recorder was not running during the program'
+    : 'Nothing could be recorded from the channel');
+
+  await storage.updateRecording(recording.id, { status: 'failed', duration: 0, failureReason });
+  if (!(await isCaptureShared(recording))) {
+    await fs.promises.rm(getRecordingDir(recording), { recursive: true, force: true });
+  }
+  console.warn(`Recording ${recording.id} of "${recording.title}" failed: ${failureReason}`);
+}
+
+/**
+ * Starts recordings whose (padded) program has begun, finishes those whose
+ * program is over, and lets series schedules pick up new EPG programs
+ */
+async function runSchedule(): Promise<void> {
+  if (scheduleInProgress) {
+    return;
+  }
+
+  scheduleInProgress = true;
+
+  try {
+    if (Date.now() - seriesExpandedAt >= SERIES_INTERVAL) {
+      seriesExpandedAt = Date.now();
+
+      for (const schedule of await storage.getRecordingSchedules()) {
+        const scheduled = await expandSeriesSchedule(schedule);
+        if (scheduled > 0) {
+          console.log(`Series schedule ${schedule.id} ("${schedule.title}") scheduled ${scheduled} recordings`);
+        }
+      }
+    }
+
+    const { before, after } = await getPadding();
+    const now = Date.now();
+    const pending = (await storage.getRecordings())
+      .filter(recording => recording.status === 'scheduled' || recording.status === 'recording');
+
+    for (const recording of pending) {
+      const captureStart = recording.startTime.getTime() - before;
+      const captureEnd = recording.endTime.getTime() + after;
+
+      try {
+        if (now >= captureEnd) {
+          await finishRecording(recording);
+        } else if (now >= captureStart) {
+          const active = activeRecordings.get(recording.id);
+          if (active) {
+            // Follow changes to the channel's sources
+            const channel = await storage.getChannel(recording.channelId);
+            if (channel) {
+              setCaptureSources(active.capture, getSources(channel));
+            }
+          } else {
+            await startRecording(recording, captureStart);
+          }
+        }
+      } catch (error) {
+        console.error(`Error updating recording ${recording.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error running recording schedule:', error);
+  } finally {
+    scheduleInProgress = false;
+  }
+}
+
+/**
+ * Starts the program recorder
+ */
+export function startProgramRecorder(): void {
+  stopProgramRecorder();
+
+  runSchedule();
+  scheduleInterval = setInterval(runSchedule, SCHEDULE_INTERVAL);
+  pollInterval = setInterval(pollCaptures, POLL_TICK);
+
+  console.log(`Program recorder started, recording to ${RECORDINGS_DIR}`);
+}
+
+/**
+ * Stops the program recorder. Recordings in progress continue where they
+ * left off when it is started again.
+ */
+export function stopProgramRecorder(): void {
+  if (scheduleInterval) {
+    clearInterval(scheduleInterval);
+    scheduleInterval = null;
+  }
+
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+    activeRecordings.clear();
+    seriesExpandedAt = 0;
+    console.log('Program recorder stopped');
+  }
+}
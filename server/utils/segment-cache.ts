@@ -0,0 +1,321 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { proxyBytesIn } from './metrics';
+import { StreamRequestProfile } from '@shared/schema';
+import { getUpstreamRequestConfig } from './upstream-request';
+
+/**
+ * Shared in-process cache for upstream HLS playlists and segments
+ *
+ * Every viewer of a live channel requests the same playlists and segments, so
+ * responses are cached by upstream URL and shared between viewers. Concurrent
+ * misses for the same URL are coalesced into a single upstream request, and
+ * the total cache size is bounded with least-recently-used eviction.
+ * Responses too large to cache are not read into memory at all: callers get
+ * a ResourceTooLargeError and stream them from the upstream instead.
+ * Background readers can use what viewers have cached without adding to it.
+ */
+
+export type CachedResourceKind = 'playlist' | 'segment';
+
+export type CachedResponse = {
+  body: Buffer;
+  contentType: string | undefined;
+  finalUrl: string;     // URL after redirects, used to resolve relative URIs in playlists
+};
+
+export class ResourceTooLargeError extends Error {}
+
+type CacheEntry = CachedResponse & {
+  expiresAt: number;
+  size: number;
+};
+
+// Size limits
+const MAX_CACHE_BYTES = parseInt(process.env.STREAM_CACHE_MAX_MB || '256') * 1024 * 1024;
+const MAX_ENTRY_BYTES = 16 * 1024 * 1024; // Larger responses are not cached (ResourceTooLargeError)
+
+// TTLs suited to live HLS and DASH
+const LIVE_PLAYLIST_MIN_TTL = 1000; // 1 second
+const LIVE_PLAYLIST_MAX_TTL = 5000; // 5 seconds
+const MASTER_PLAYLIST_TTL = 30 * 1000; // 30 seconds
+const VOD_PLAYLIST_TTL = 5 * 60 * 1000; // 5 minutes
+const SEGMENT_TTL = 5 * 60 * 1000; // 5 minutes (segment URIs do not change content)
+
+const UPSTREAM_TIMEOUT = 10000; // 10 seconds
+
+// Entries in least-recently-used order (Map keeps insertion order)
+const entries: Map<string, CacheEntry> = new Map();
+
+// Upstream requests currently in flight, shared by concurrent misses
+const inFlight: Map<string, Promise<CachedResponse>> = new Map();
+
+// Upstream requests of background readers in flight, whose responses are not cached
+const uncachedInFlight: Map<string, Promise<CachedResponse>> = new Map();
+
+let totalBytes = 0;
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  coalesced: 0,
+  evictions: 0,
+  uncacheable: 0
+};
+
+/**
+ * Returns how long a fetched playlist may be served from cache. Live media
+ * playlists change every target duration, so they are cached for half of it;
+ * playlists that will not change (VOD, master playlists) are cached longer.
+ * DASH manifests are handled the same way, using their minimum update period.
+ */
+function getPlaylistTtl(text: string): number {
+  if (/<(?:[\w.-]+:)?MPD[\s>]/.test(text)) {
+    return getMpdTtl(text);
+  }
+
+  if (text.includes('#EXT-X-ENDLIST')) {
+    return VOD_PLAYLIST_TTL;
+  }
+
+  if (text.includes('#EXT-X-STREAM-INF')) {
+    return MASTER_PLAYLIST_TTL;
+  }
+
+  const targetDuration = text.match(/#EXT-X-TARGETDURATION:(\d+(?:\.\d+)?)/);
+  const ttl = targetDuration ? (parseFloat(targetDuration[1]) * 1000) / 2 : LIVE_PLAYLIST_MIN_TTL;
+
+  return Math.min(Math.max(ttl, LIVE_PLAYLIST_MIN_TTL), LIVE_PLAYLIST_MAX_TTL);
+}
+
+/**
+ * Returns how long a DASH manifest may be served from cache: static
+ * manifests do not change, dynamic ones are refreshed by players every
+ * minimumUpdatePeriod (an ISO 8601 duration such as PT2S)
+ */
+function getMpdTtl(text: string): number {
+  if (!/\stype\s*=\s*["']dynamic["']/.test(text)) {
+    return VOD_PLAYLIST_TTL;
+  }
+
+  const updatePeriod = text.match(/minimumUpdatePeriod\s*=\s*["']P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?["']/);
+  if (!updatePeriod) {
+    return LIVE_PLAYLIST_MIN_TTL;
+  }
+
+  const [, days, hours, minutes, seconds] = updatePeriod;
+  const period = ((parseInt(days || '0') * 24 + parseInt(hours || '0')) * 60 + parseInt(minutes || '0')) * 60 + parseFloat(seconds || '0');
+
+  return Math.min(Math.max((period * 1000) / 2, LIVE_PLAYLIST_MIN_TTL), LIVE_PLAYLIST_MAX_TTL);
+}
+
+/**
+ * Removes an entry and updates the byte count
+ */
+function removeEntry(url: string): void {
+  const entry = entries.get(url);
+  if (entry) {
+    entries.delete(url);
+    totalBytes -= entry.size;
+  }
+}
+
+/**
+ * Stores an entry, evicting least recently used entries to stay within MAX_CACHE_BYTES
+ */
+function storeEntry(url: string, entry: CacheEntry): void {
+  removeEntry(url);
+
+  while (totalBytes + entry.size > MAX_CACHE_BYTES && entries.size > 0) {
+    const oldest = entries.keys().next().value as string;
+    removeEntry(oldest);
+    stats.evictions++;
+  }
+
+  entries.set(url, entry);
+  totalBytes += entry.size;
+}
+
+/**
+ * Fetches a resource from upstream. The body is read as it arrives, and the
+ * request is abandoned as soon as the Content-Length or the data received
+ * shows that it is too large to cache.
+ */
+async function fetchResource(
+  url: string,
+  userAgent: string,
+  profile: StreamRequestProfile | undefined
+): Promise<CachedResponse> {
+  const response = await axios.get<Readable>(url, {
+    responseType: 'stream',
+    timeout: UPSTREAM_TIMEOUT,
+    ...getUpstreamRequestConfig(profile, userAgent)
+  });
+
+  const tooLarge = () => {
+    response.data.destroy();
+    return new ResourceTooLargeError(`Upstream resource is larger than ${MAX_ENTRY_BYTES} bytes`);
+  };
+
+  if (parseInt(response.headers['content-length'] || '0') > MAX_ENTRY_BYTES) {
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response.data) {
+    proxyBytesIn.inc({}, chunk.length);
+    size += chunk.length;
+    if (size > MAX_ENTRY_BYTES) {
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+
+  return {
+    body: Buffer.concat(chunks, size),
+    contentType: response.headers['content-type'],
+    finalUrl: response.request?.res?.responseUrl || url
+  };
+}
+
+/**
+ * Fetches a resource from upstream and caches it
+ */
+async function fetchAndStore(
+  url: string,
+  kind: CachedResourceKind,
+  userAgent: string,
+  profile: StreamRequestProfile | undefined
+): Promise<CachedResponse> {
+  let result: CachedResponse;
+  try {
+    result = await fetchResource(url, userAgent, profile);
+  } catch (error) {
+    if (error instanceof ResourceTooLargeError) {
+      stats.uncacheable++;
+    }
+    throw error;
+  }
+
+  const ttl = kind === 'playlist' ? getPlaylistTtl(result.body.toString('utf8')) : SEGMENT_TTL;
+  storeEntry(url, { ...result, expiresAt: Date.now() + ttl, size: result.body.length });
+
+  return result;
+}
+
+/**
+ * Returns an upstream resource from the cache, fetching it on a miss.
+ * Concurrent misses for the same URL wait for a single upstream request.
+ * Upstream errors are not cached and are thrown to every waiting caller.
+ *
+ * @throws ResourceTooLargeError if the resource is too large to cache
+ *
+ * @param url The absolute upstream URL
+ * @param kind Whether the resource is a playlist or a segment (determines the TTL)
+ * @param userAgent User agent to send upstream on a miss
+ * @param profile Request profile of the stream source the URL belongs to
+ * @returns The cached or freshly fetched response
+ */
+export async function getCachedResource(
+  url: string,
+  kind: CachedResourceKind,
+  userAgent: string,
+  profile?: StreamRequestProfile
+): Promise<CachedResponse> {
+  const entry = entries.get(url);
+
+  if (entry && entry.expiresAt > Date.now()) {
+    // Move to the most recently used position
+    entries.delete(url);
+    entries.set(url, entry);
+    stats.hits++;
+    return entry;
+  }
+
+  if (entry) {
+    removeEntry(url);
+  }
+
+  const pending = inFlight.get(url);
+  if (pending) {
+    stats.coalesced++;
+    return pending;
+  }
+
+  stats.misses++;
+  const request = fetchAndStore(url, kind, userAgent, profile).finally(() => {
+    inFlight.delete(url);
+  });
+  inFlight.set(url, request);
+
+  return request;
+}
+
+/**
+ * Returns an upstream resource from the cache if it is there (or on its way),
+ * and fetches it without caching it otherwise. Background readers such as
+ * recordings use this, so they neither evict what viewers are watching nor
+ * count towards the cache statistics. Concurrent reads of the same URL (e.g.
+ * the timeshift window and the catch-up archive of a channel) still wait for
+ * a single upstream request.
+ *
+ * @throws ResourceTooLargeError if the resource is too large to cache
+ *
+ * @param url The absolute upstream URL
+ * @param userAgent User agent to send upstream if the resource is not cached
+ * @param profile Request profile of the stream source the URL belongs to
+ * @returns The cached or freshly fetched response
+ */
+export async function getResourceWithoutCaching(
+  url: string,
+  userAgent: string,
+  profile?: StreamRequestProfile
+): Promise<CachedResponse> {
+  const entry = entries.get(url);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry;
+  }
+
+  const pending = inFlight.get(url) || uncachedInFlight.get(url);
+  if (pending) {
+    return pending;
+  }
+
+  const request = fetchResource(url, userAgent, profile).finally(() => {
+    uncachedInFlight.delete(url);
+  });
+  uncachedInFlight.set(url, request);
+
+  return request;
+}
+
+/**
+ * Returns cache statistics (for the admin dashboard)
+ */
+export function getSegmentCacheStats() {
+  const lookups = stats.hits + stats.misses + stats.coalesced;
+
+  return {
+    ...stats,
+    // Coalesced requests did not reach the upstream either, so they count as hits
+    hitRate: lookups > 0 ? (stats.hits + stats.coalesced) / lookups : 0,
+    entries: entries.size,
+    inFlight: inFlight.size,
+    sizeBytes: totalBytes,
+    maxSizeBytes: MAX_CACHE_BYTES
+  };
+}
+
+/**
+ * Empties the cache and resets its statistics
+ */
+export function clearSegmentCache(): void {
+  entries.clear();
+  totalBytes = 0;
+  stats.hits = 0;
+  stats.misses = 0;
+  stats.coalesced = 0;
+  stats.evictions = 0;
+  stats.uncacheable = 0;
+}
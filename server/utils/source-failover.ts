@@ -0,0 +1,146 @@
+import axios from 'axios';
+import { StreamSource } from '@shared/schema';
+import { isSourceDisabled } from './source-ranking';
+import { upstreamErrors } from './metrics';
+import { getSourceId } from './stream-token';
+
+// How long a failed source is skipped before it is tried again
+const BASE_COOLDOWN_MS = 30 * 1000; // 30 seconds
+const MAX_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
+
+type SourceFailure = {
+  failures: number;     // Consecutive failures since the last success
+  failedAt: number;     // Timestamp of the most recent failure
+  lastError: string;
+};
+
+// Failure state keyed by upstream source URL
+const failedSources: Map<string, SourceFailure> = new Map();
+
+/**
+ * Returns how long a source stays in cooldown after the given number of
+ * consecutive failures (doubles each time, capped at MAX_COOLDOWN_MS)
+ */
+function getCooldown(failures: number): number {
+  return Math.min(BASE_COOLDOWN_MS * Math.pow(2, failures - 1), MAX_COOLDOWN_MS);
+}
+
+/**
+ * Checks whether a source is currently cooling down after a failure
+ *
+ * @param url The upstream source URL
+ * @returns true if the source failed recently and should be skipped
+ */
+export function isSourceCoolingDown(url: string): boolean {
+  const failure = failedSources.get(url);
+  if (!failure) return false;
+
+  return Date.now() - failure.failedAt < getCooldown(failure.failures);
+}
+
+/**
+ * Records an upstream failure for a source
+ *
+ * @param url The upstream source URL
+ * @param reason Short description of what went wrong
+ */
+export function markSourceFailed(url: string, reason: string): void {
+  const existing = failedSources.get(url);
+  // Labelled by source ID: URLs can carry credentials and would make a series each
+  upstreamErrors.inc({ source: getSourceId(url) });
+
+  failedSources.set(url, {
+    failures: (existing?.failures || 0) + 1,
+    failedAt: Date.now(),
+    lastError: reason
+  });
+}
+
+/**
+ * Clears the failure state of a source after a successful upstream request
+ *
+ * @param url The upstream source URL
+ */
+export function markSourceHealthy(url: string): void {
+  failedSources.delete(url);
+}
+
+/**
+ * Orders stream sources for playback: by priority (lower is better), with
+ * sources that are cooling down after a failure moved to the end so they are
+ * only used as a last resort. Once a cooldown expires the source returns to
+ * its normal position, which lets the primary take over again after it recovers.
+ * Sources disabled by source ranking come after all others.
+ *
+ * @param sources The content's stream sources
+ * @returns A new array of sources in the order they should be tried
+ */
+export function orderSourcesForPlayback(sources: StreamSource[]): StreamSource[] {
+  const sorted = [...sources].sort((a, b) => a.priority - b.priority);
+
+  const enabled = sorted.filter(source => !isSourceDisabled(source));
+  const disabled = sorted.filter(source => isSourceDisabled(source));
+
+  const available = enabled.filter(source => !isSourceCoolingDown(source.url));
+  const coolingDown = enabled.filter(source => isSourceCoolingDown(source.url));
+
+  return [...available, ...coolingDown, ...disabled];
+}
+
+/**
+ * Decides whether an upstream error means the source itself is failing
+ * (and the next source should be tried) rather than a client-side problem
+ *
+ * @param error The error thrown by the upstream request
+ * @param isManifest Whether the request was for a playlist/manifest
+ * @param isSourceRequest Whether the request was for the source URL itself,
+ *   rather than a URI found in its manifest
+ * @returns true if the proxy should fail over to the next source
+ */
+export function isSourceFailure(error: unknown, isManifest: boolean, isSourceRequest = false): boolean {
+  // Requests we cancelled ourselves (viewer disconnected) say nothing about the source
+  if (axios.isCancel(error)) {
+    return false;
+  }
+  
+  if (!axios.isAxiosError(error)) {
+    // A manifest that does not parse means the origin is serving something else (e.g. an error page)
+    return isManifest && error instanceof SyntaxError;
+  }
+
+  // Network errors and timeouts have no response at all
+  if (!error.response) {
+    return true;
+  }
+
+  const status = error.response.status;
+
+  // Server errors always count against the source
+  if (status >= 500) {
+    return true;
+  }
+
+  // A missing or forbidden manifest means the source is unusable
+  if (isManifest && (status === 403 || status === 404 || status === 410)) {
+    return true;
+  }
+
+  // So does any error from the source URL itself, whatever its format (a
+  // progressive movie file that is gone or forbidden), except for a byte
+  // range the viewer asked for that the file does not have
+  return isSourceRequest && status >= 400 && status !== 416;
+}
+
+/**
+ * Returns the current failure state of all sources (for diagnostics)
+ */
+export function getSourceFailures(): Array<{ url: string; sourceId: string; failures: number; failedAt: Date; lastError: string; coolingDown: boolean }> {
+  return Array.from(failedSources.entries()).map(([url, failure]) => ({
+    url,
+    sourceId: getSourceId(url),
+    failures: failure.failures,
+    failedAt: new Date(failure.failedAt),
+    lastError: failure.lastError,
+    coolingDown: isSourceCoolingDown(url)
+  }));
+}
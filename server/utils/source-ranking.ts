@@ -0,0 +1,224 @@
+import { Channel, StreamSource, StreamHealthCheck, StreamAnalytics, SourceReorderChange } from '@shared/schema';
+import { storage } from '../storage';
+
+/**
+ * Automatic ordering of channel stream sources
+ *
+ * Sources are scored from the stream checker's health history (success rate
+ * and latency) and from viewer-side errors recorded in stream_analytics, and
+ * reordered so the healthiest source is tried first. Sources whose latest
+ * probes all failed are disabled for a while, which makes playback use them
+ * only as a last resort. Pinned sources keep their position and are never
+ * disabled. Every change is written to the source reorder log.
+ */
+
+const REORDER_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const HEALTH_WINDOW = 24 * 60 * 60 * 1000; // Health data considered for scoring
+const MIN_CHECKS = 6; // Probes needed before a source is scored
+const SCORE_MARGIN = 5; // A source only overtakes another with a clearly better score
+const FAILURES_TO_DISABLE = 3; // Consecutive failed probes before a source is disabled
+const DISABLE_DURATION = 60 * 60 * 1000; // 1 hour
+
+let reorderInterval: NodeJS.Timeout | null = null;
+
+type ScoredSource = {
+  source: StreamSource;
+  score: number | null;
+};
+
+/**
+ * Scores a source from 100 (always online, fast, no viewer errors) downwards
+ *
+ * @param checks Probes of the source in the health window, newest first
+ * @param viewerErrors Viewer-side errors attributed to the source in the health window
+ * @returns The score, or null if there are not enough probes yet
+ */
+function scoreSource(checks: StreamHealthCheck[], viewerErrors: number): number | null {
+  if (checks.length < MIN_CHECKS) {
+    return null;
+  }
+
+  const online = checks.filter(check => check.isOnline);
+  const successRate = online.length / checks.length;
+
+  const latencies = online.map(check => (check.manifestLatency || 0) + (check.segmentLatency || 0));
+  const averageLatency = latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0;
+
+  // One point per 100 ms of latency and two per viewer error, both capped
+  const score = successRate * 100 - Math.min(averageLatency / 100, 20) - Math.min(viewerErrors * 2, 30);
+  return Math.round(score * 10) / 10;
+}
+
+/**
+ * Returns the source URL a viewer-side error was recorded for, if any
+ */
+function getErrorSourceUrl(event: StreamAnalytics): string | undefined {
+  const customData = event.customData as Record<string, unknown> | null;
+  return typeof customData?.sourceUrl === 'string' ? customData.sourceUrl : undefined;
+}
+
+/**
+ * Whether a source is disabled at the given time
+ */
+export function isSourceDisabled(source: StreamSource, now: number = Date.now()): boolean {
+  return !!source.disabledUntil && new Date(source.disabledUntil).getTime() > now;
+}
+
+/**
+ * Orders scored sources best first. Each source moves up past the sources
+ * before it only while its score is better by more than SCORE_MARGIN, so
+ * sources with similar scores keep their current order.
+ */
+function rankSources(sources: ScoredSource[]): ScoredSource[] {
+  const ranked: ScoredSource[] = [];
+
+  for (const item of sources) {
+    let index = ranked.length;
+    while (index > 0 && (item.score as number) - (ranked[index - 1].score as number) > SCORE_MARGIN) {
+      index--;
+    }
+    ranked.splice(index, 0, item);
+  }
+
+  return ranked;
+}
+
+/**
+ * Reorders and disables the stream sources of a channel from its health data
+ *
+ * @param channel The channel
+ * @returns The reorder log entry changes, or null if nothing changed (or
+ *   the sources were changed by someone else meanwhile)
+ */
+export async function reorderChannelSources(channel: Channel): Promise<SourceReorderChange[] | null> {
+  if (!Array.isArray(channel.streamSources) || channel.streamSources.length === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  const since = new Date(now - HEALTH_WINDOW);
+  const checks = await storage.getStreamHealthChecks(channel.id, since);
+  const errors = await storage.getStreamErrorEvents('channel', channel.id, since);
+
+  const current = [...(channel.streamSources as StreamSource[])].sort((a, b) => a.priority - b.priority);
+  const priorities = current.map(source => source.priority);
+
+  const scored: ScoredSource[] = current.map(source => ({
+    source,
+    score: scoreSource(
+      checks.filter(check => check.sourceUrl === source.url),
+      errors.filter(event => getErrorSourceUrl(event) === source.url).length
+    )
+  }));
+
+  // Pinned and unscored sources keep their position; the others are ranked
+  // into the remaining positions
+  const isMovable = (item: ScoredSource) => !item.source.pinned && item.score !== null;
+  const ranked = rankSources(scored.filter(isMovable));
+  const ordered = scored.map(item => isMovable(item) ? ranked.shift()! : item);
+
+  // Sources whose latest probes all failed are disabled, as long as another
+  // source remains enabled; disabled sources that recovered are enabled again
+  const hasFailedRepeatedly = (source: StreamSource) => {
+    const latest = checks.filter(check => check.sourceUrl === source.url).slice(0, FAILURES_TO_DISABLE);
+    return latest.length === FAILURES_TO_DISABLE && latest.every(check => !check.isOnline);
+  };
+
+  const enabledCount = current.filter(source => !isSourceDisabled(source, now) && !hasFailedRepeatedly(source)).length;
+
+  const changes: SourceReorderChange[] = [];
+  let changed = false;
+
+  const updated = ordered.map((item, index) => {
+    const source: StreamSource = { ...item.source, priority: priorities[index] };
+    const change: SourceReorderChange = {
+      url: source.url,
+      label: source.label,
+      previousPriority: item.source.priority,
+      newPriority: source.priority,
+      score: item.score
+    };
+
+    const isFailing = hasFailedRepeatedly(source);
+
+    if (source.disabledUntil && !isFailing) {
+      // The source is online again
+      delete source.disabledUntil;
+      change.reenabled = true;
+      changed = true;
+    } else if (isFailing && !source.pinned && !isSourceDisabled(source, now) && enabledCount > 0) {
+      source.disabledUntil = new Date(now + DISABLE_DURATION).toISOString();
+      change.disabledUntil = source.disabledUntil;
+      changed = true;
+    } else if (source.disabledUntil && !isSourceDisabled(source, now)) {
+      // Expired, and it cannot be disabled again
+      delete source.disabledUntil;
+      change.reenabled = true;
+      changed = true;
+    }
+
+    if (source.priority !== item.source.priority) {
+      changed = true;
+    }
+
+    changes.push(change);
+    return source;
+  });
+
+  if (!changed) {
+    return null;
+  }
+
+  // Admins may have edited the sources since the channel was read (added,
+  // removed or pinned some); their edit wins, and the next pass ranks the
+  // sources as they are now
+  if (!(await storage.replaceChannelStreamSources(channel.id, channel.streamSources, updated))) {
+    return null;
+  }
+  await storage.createSourceReorderLog({ channelId: channel.id, changes });
+
+  return changes;
+}
+
+/**
+ * Reorders the stream sources of every channel
+ */
+export async function reorderAllChannelSources(): Promise<void> {
+  try {
+    const channels = await storage.getChannels();
+
+    for (const channel of channels) {
+      const changes = await reorderChannelSources(channel);
+      if (changes) {
+        const order = changes.map(change => `${change.label || change.url} (${change.score ?? 'n/a'})`).join(', ');
+        console.log(`Reordered stream sources of channel ${channel.name} (ID: ${channel.id}): ${order}`);
+      }
+    }
+  } catch (error) {
+    console.error('Error reordering stream sources:', error);
+  }
+}
+
+/**
+ * Starts the periodic source reordering
+ */
+export function startSourceReordering(): void {
+  if (reorderInterval) {
+    clearInterval(reorderInterval);
+  }
+
+  reorderInterval = setInterval(reorderAllChannelSources, REORDER_INTERVAL);
+
+  console.log(`Stream source reordering started, will run every ${REORDER_INTERVAL / 60000} minutes`);
+}
+
+/**
+ * Stops the periodic source reordering
+ */
+export function stopSourceReordering(): void {
+  if (reorderInterval) {
+    clearInterval(reorderInterval);
+    reorderInterval = null;
+    console.log('Stream source reordering stopped');
+  }
+}
@@ -1,17 +1,119 @@
 import axios from 'axios';
 import { Request, Response } from 'express';
-import { validateStreamToken } from './stream-token';
+import { StreamSource, StreamRequestProfile, ContentKey } from '@shared/schema';
+import { 
+  validateStreamToken, 
+  createProxyReference, 
+  resolveProxyReference, 
+  getSourceId 
+} from './stream-token';
+import { 
+  parseM3U8, 
+  serializeM3U8, 
+  rewritePlaylistUris, 
+  replaceSegmentKeys, 
+  HlsUriKind, 
+  HlsUriContext 
+} from './hls-manifest';
+import { rewriteMpdUrls, getTemplateIdentifiers, expandTemplate, DashUriKind } from './dash-manifest';
+import { 
+  orderSourcesForPlayback, 
+  markSourceFailed, 
+  markSourceHealthy, 
+  isSourceFailure 
+} from './source-failover';
+import { getCachedResource, CachedResponse, ResourceTooLargeError } from './segment-cache';
+import { getUpstreamRequestConfig } from './upstream-request';
+import { getTimeshiftWindow, readTimeshiftMedia } from './timeshift-recorder';
+import { getRecordingCapture } from './program-recorder';
+import { getCatchupIndex, readCatchupMedia } from './catchup-archive';
+import { readCapturedMedia, CaptureIndex, CapturedMap } from './hls-capture';
+import { validateStreamSession } from './stream-sessions';
+import { checkGeoAccess } from './geo-restrictions';
+import { hasContentEntitlement } from './content-access';
+import { getDataQuotaStatus, recordServedBytes, ServedContent } from './data-usage';
+import { proxyBytesIn, proxyBytesOut } from './metrics';
+import { 
+  getActiveContentKey, 
+  getContentKeyById, 
+  canReencryptPlaylist, 
+  getSegmentIv, 
+  getUpstreamIv, 
+  encryptSegment, 
+  decryptSegment 
+} from './hls-encryption';
 import { storage } from '../storage';
 
 // Cache for holding stream source information to minimize DB queries
 type StreamCache = {
-  url: string;
+  sources: StreamSource[];
   timestamp: number;
-  format: string;
+};
+
+// Per-request information needed to rewrite manifest URIs
+type ProxyContext = {
+  token: string;
+  contentKey: string;   // e.g. 'channel:12', references are only valid for this content
+  contentType: string;
+  contentId: number;
+  userId: number;
 };
 
 const streamCache: Record<string, StreamCache> = {};
+
+// Sources of encrypted content that cannot be encrypted by the proxy ('channel:12|<source ID>'),
+// with the reason: their media is served as the upstream serves it (warned about once)
+const unencryptableSources: Map<string, string> = new Map();
+const DASH_UNENCRYPTED_REASON = 'DASH sources are not encrypted by the proxy';
+const PROGRESSIVE_UNENCRYPTED_REASON = 'Progressive sources (e.g. MP4 files) are not encrypted by the proxy';
+
+// Upstream media the proxy cannot use, e.g. a segment that does not decrypt with its upstream key
+class UpstreamDataError extends Error {}
+
+// Last viewer-side error recorded per viewer and source ('12|<source url>')
+const recordedViewerErrors: Map<string, number> = new Map();
+const VIEWER_ERROR_INTERVAL = 60 * 1000; // At most one error per viewer and source per minute
 const CACHE_TTL = 300000; // 5 minutes in milliseconds
+const UPSTREAM_TIMEOUT = 10000; // 10 seconds before an upstream request counts as failed
+const MIN_TIMESHIFT_SEGMENTS = 3; // Shorter windows are not offered; players fall back to the live stream
+
+// Captured media (timeshift windows, catch-up archives and recordings): <ts|c|r>/[<keyId>/][init-]<number>[.<extension>]
+const CAPTURED_MEDIA_PATTERN = /^(ts|c|r)\/(?:([0-9a-f]+)\/)?(init-)?(\d+)(?:\.[a-z0-9]{1,5})?$/i;
+
+// Headers passed through for byte-range requests (seeking in MP4 and other VOD files)
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range'];
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'last-modified',
+  'etag'
+];
+
+/**
+ * Counts the bytes of a response towards the viewer's data usage once it is
+ * finished or the viewer went away. Responses on a connection are sent one
+ * after the other, so the bytes written to the socket in the meantime are
+ * those of the response (headers included).
+ * 
+ * @param res Express response
+ * @param content Viewer, stream session and content the response is served for
+ */
+function countServedBytes(res: Response, content: ServedContent): void {
+  const socket = res.socket;
+  if (!socket) {
+    return;
+  }
+  
+  const bytesBefore = socket.bytesWritten;
+  
+  res.once('close', () => {
+    const bytes = Math.max(socket.bytesWritten - bytesBefore, 0);
+    proxyBytesOut.inc({ content_type: content.contentType }, bytes);
+    recordServedBytes(content, bytes);
+  });
+}
 
 /**
  * Proxy handler for secure stream requests
@@ -34,189 +136,1015 @@ export async function proxyStream(req: Request, res: Response): Promise<void> {
       return send403(res, 'Invalid or expired stream token');
     }
     
-    // Get actual stream URL based on content type and ID
-    let streamUrl: string | null = null;
-    let contentFormat: string = 'hls'; // Default format
+    // The token is only valid while its stream session is (not ended, revoked or rotated away)
+    if (!(await validateStreamSession(payload))) {
+      return send403(res, 'Stream session has ended');
+    }
+    
+    // Geo restrictions are checked on every request, not only when the token is issued
+    const geoAccess = await checkGeoAccess(payload.contentType, payload.contentId, req.ip);
+    if (!geoAccess.allowed) {
+      return send451(res, 'This content is not available in your country');
+    }
+    
+    // Viewers who used up their monthly data quota are cut off until the next month
+    const dataQuota = await getDataQuotaStatus(payload.userId);
+    if (dataQuota.status === 'exceeded') {
+      return send403(res, 'Your monthly data quota has been used up');
+    }
+    
+    countServedBytes(res, { 
+      userId: payload.userId, 
+      sessionId: payload.tokenId, 
+      contentType: payload.contentType, 
+      contentId: payload.contentId 
+    });
+    
+    // Recordings are served from local disk, not from stream sources. They are
+    // encrypted like their channel, so keys are looked up for the channel.
+    if (payload.contentType === 'recording') {
+      const recording = await storage.getRecording(payload.contentId);
+      if (!recording) {
+        return send404(res, 'Recording not found');
+      }
+      
+      const recordingContext: ProxyContext = { 
+        token, 
+        contentKey: `recording:${recording.id}`, 
+        contentType: 'channel', 
+        contentId: recording.channelId, 
+        userId: payload.userId 
+      };
+      return proxyRecording(recording.id, req.params[0] || '', recordingContext, res);
+    }
+    
+    // Get all stream sources for the content so we can fail over between them
+    let sources: StreamSource[] = [];
     
     // Check cache first to avoid DB queries for every chunk
     const cacheKey = `${payload.contentType}:${payload.contentId}`;
     const cachedStream = streamCache[cacheKey];
     
     if (cachedStream && (Date.now() - cachedStream.timestamp) < CACHE_TTL) {
-      streamUrl = cachedStream.url;
-      contentFormat = cachedStream.format;
+      sources = cachedStream.sources;
     } else {
-      // Get stream source from database
-      switch (payload.contentType) {
-        case 'movie': {
-          const movie = await storage.getMovie(payload.contentId);
-          if (!movie || !movie.streamSources || !Array.isArray(movie.streamSources) || movie.streamSources.length === 0) {
-            return send404(res, 'Stream source not found');
-          }
-          
-          // Sort stream sources by priority (lower is better)
-          const sources = [...movie.streamSources].sort((a, b) => a.priority - b.priority);
-          streamUrl = sources[0].url;
-          contentFormat = sources[0].format || 'hls';
-          break;
-        }
-        
-        case 'episode': {
-          const episode = await storage.getEpisode(payload.contentId);
-          if (!episode || !episode.streamSources || !Array.isArray(episode.streamSources) || episode.streamSources.length === 0) {
-            return send404(res, 'Stream source not found');
-          }
-          
-          // Sort stream sources by priority (lower is better)
-          const sources = [...episode.streamSources].sort((a, b) => a.priority - b.priority);
-          streamUrl = sources[0].url;
-          contentFormat = sources[0].format || 'hls';
-          break;
-        }
-        
-        case 'channel': {
-          const channel = await storage.getChannel(payload.contentId);
-          if (!channel || !channel.streamSources || !Array.isArray(channel.streamSources) || channel.streamSources.length === 0) {
-            return send404(res, 'Stream source not found');
-          }
-          
-          // Sort stream sources by priority (lower is better)
-          const sources = [...channel.streamSources].sort((a, b) => a.priority - b.priority);
-          streamUrl = sources[0].url;
-          contentFormat = sources[0].format || 'hls';
-          break;
-        }
-        
-        default:
-          return send400(res, 'Invalid content type');
+      // Get stream sources from database
+      const loaded = await loadStreamSources(payload.contentType, payload.contentId);
+      if (!loaded) {
+        return send400(res, 'Invalid content type');
       }
+      sources = loaded;
       
       // Cache the result
-      if (streamUrl) {
+      if (sources.length > 0) {
         streamCache[cacheKey] = {
-          url: streamUrl,
-          timestamp: Date.now(),
-          format: contentFormat
+          sources,
+          timestamp: Date.now()
         };
       }
     }
     
-    if (!streamUrl) {
+    if (sources.length === 0) {
       return send404(res, 'Stream source not found');
     }
     
-    // Record watch event (for analytics)
-    try {
-      await storage.recordWatchEvent({
-        userId: payload.userId,
-        contentType: payload.contentType,
-        contentId: payload.contentId,
-        startTime: new Date(),
-        duration: 0,
-        progress: 0,
-        completed: false
-      });
-    } catch (error) {
-      console.error('Error recording watch event:', error);
-      // Continue with stream proxy even if recording fails
-    }
-    
-    // Handle different stream formats
-    if (contentFormat === 'hls' && req.path.endsWith('.m3u8')) {
-      // For HLS manifests, we need to proxy the manifest and rewrite URLs within it
-      return proxyHlsManifest(streamUrl, req, res);
-    } else if (contentFormat === 'hls' && req.path.endsWith('.ts')) {
-      // For HLS segments (.ts files), just proxy the content directly
-      return proxyContent(streamUrl, req, res); 
-    } else {
-      // For other formats, proxy the content directly
-      return proxyContent(streamUrl, req, res);
+    const context: ProxyContext = { 
+      token, 
+      contentKey: cacheKey, 
+      contentType: payload.contentType, 
+      contentId: payload.contentId, 
+      userId: payload.userId 
+    };
+    
+    // Requests for URIs found inside a rewritten manifest carry an opaque reference
+    const subPath = req.params[0] || '';
+    const referenceMatch = subPath.match(/^(p|s)\/([^/]+)$/);
+    if (referenceMatch) {
+      return proxyReference(referenceMatch[1] === 'p', referenceMatch[2], sources, context, req, res);
+    }
+    
+    // DASH SegmentTemplate URLs: t/<reference>/<identifier values filled in by the player>
+    const templateMatch = subPath.match(/^t\/([^/]+)\/(.+)$/);
+    if (templateMatch) {
+      return proxyTemplateReference(templateMatch[1], templateMatch[2], sources, context, req, res);
+    }
+    
+    // Segments of encrypted content: e/<keyId>[/<upstream key reference>/<upstream IV>]/<reference>
+    const encryptedMatch = subPath.match(/^e\/([0-9a-f]+)\/(?:([^/]+)\/([0-9a-f]{32})\/)?([^/]+)$/);
+    if (encryptedMatch) {
+      const [, keyId, upstreamKeyReference, upstreamIv, reference] = encryptedMatch;
+      const upstreamKey = upstreamKeyReference ? { reference: upstreamKeyReference, iv: upstreamIv } : null;
+      return proxyEncryptedSegment(keyId, upstreamKey, reference, sources, context, req, res);
+    }
+    
+    // Encryption keys: k/<keyId>
+    const keyMatch = subPath.match(/^k\/([0-9a-f]+)$/);
+    if (keyMatch) {
+      return sendContentKey(keyMatch[1], context, res);
+    }
+    
+    // Timeshift window of a live channel: timeshift.m3u8, and its media ts/[<keyId>/]<segment or init section>
+    if (subPath === 'timeshift.m3u8') {
+      const window = payload.contentType === 'channel' ? getTimeshiftWindow(payload.contentId) : null;
+      return sendCapturePlaylist(window, 'live', 'ts', context, res);
+    }
+    
+    // Past programs of a channel from its catch-up archive: catchup/<programId>.m3u8, and its media c/[<keyId>/]<segment or init section>
+    const catchupMatch = subPath.match(/^catchup\/(\d+)\.m3u8$/);
+    if (catchupMatch && payload.contentType === 'channel') {
+      return sendCatchupPlaylist(parseInt(catchupMatch[1]), context, res);
+    }
+    
+    const capturedMatch = subPath.match(CAPTURED_MEDIA_PATTERN);
+    if (capturedMatch && capturedMatch[1] !== 'r' && payload.contentType === 'channel') {
+      const [, mediaPrefix, keyId, init, id] = capturedMatch;
+      const read = mediaPrefix === 'ts' ? readTimeshiftMedia : readCatchupMedia;
+      return sendCapturedMedia(
+        mediaPrefix, 
+        init ? 'map' : 'segment', 
+        parseInt(id), 
+        keyId || null, 
+        (kind, mediaId) => read(payload.contentId, kind, mediaId), 
+        context, 
+        res
+      );
     }
+    
+    // Anything else is the stream itself
+    if (subPath !== '' && subPath !== 'index.m3u8') {
+      return send404(res, 'Stream content not found');
+    }
+    
+    // Try each source in order (healthy sources by priority, recently failed ones last)
+    for (const source of orderSourcesForPlayback(sources)) {
+      let isManifest = false;
+      
+      try {
+        const format = getSourceFormat(source);
+        isManifest = format === 'hls' || format === 'dash';
+        
+        if (format === 'hls') {
+          // For HLS manifests, we need to proxy the manifest and rewrite URLs within it
+          await proxyHlsManifest(source.url, getSourceId(source.url), source.requestProfile, context, req, res);
+        } else if (format === 'dash') {
+          await proxyDashManifest(source.url, getSourceId(source.url), source.requestProfile, context, req, res);
+        } else {
+          // For other formats, proxy the content directly (unencrypted, see getUnencryptedSources)
+          if (await getActiveContentKey(context.contentType, context.contentId)) {
+            markUnencryptable(context, getSourceId(source.url), PROGRESSIVE_UNENCRYPTED_REASON);
+          }
+          await proxyContent(source.url, source.requestProfile, req, res);
+        }
+        
+        markSourceHealthy(source.url);
+        return;
+      } catch (error) {
+        // A source URL that does not parse is as unusable as one that fails
+        const isInvalidUrl = error instanceof TypeError && (error as NodeJS.ErrnoException).code === 'ERR_INVALID_URL';
+        
+        // Once data has been sent to the client we can no longer switch sources
+        if (res.headersSent || !(isInvalidUrl || isSourceFailure(error, isManifest, true))) {
+          throw error;
+        }
+        
+        const reason = error instanceof Error ? error.message : 'Unknown upstream error';
+        markSourceFailed(source.url, reason);
+        recordViewerSourceError(context, source.url, reason);
+        console.warn(`Stream source failed for ${cacheKey} (${source.label || source.url}): ${reason}`);
+      }
+    }
+    
+    return send502(res, 'All stream sources are unavailable');
   } catch (error) {
+    // The viewer went away and we cancelled the upstream request; nothing to answer
+    if (axios.isCancel(error)) {
+      return;
+    }
+    
+    if (res.headersSent) {
+      console.error('Error in stream proxy after response started:', error);
+      res.end();
+      return;
+    }
+    
+    // Upstream answered with an error status that is not a source failure (e.g. 404 on a segment)
+    if (axios.isAxiosError(error) && error.response) {
+      return sendUpstreamError(res, error.response.status, error.response.headers['content-range']);
+    }
+    
     console.error('Error in stream proxy:', error);
     return send500(res, 'Internal server error');
   }
 }
 
 /**
- * Proxies HLS manifest and rewrites URLs to use our secure proxy
+ * Proxies a URI referenced from a rewritten manifest (variant playlist,
+ * segment, key or init section). The reference tells us which source the
+ * URI came from, so failures are recorded against that source; the player
+ * then reloads the top-level manifest, which fails over to the next source.
+ */
+async function proxyReference(
+  isPlaylist: boolean,
+  reference: string,
+  sources: StreamSource[],
+  context: ProxyContext,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const resolved = resolveReference(context, reference);
+  if (!resolved) {
+    return send403(res, 'Invalid stream reference');
+  }
+  
+  return proxyResolvedReference(isPlaylist, resolved, sources, context, req, res);
+}
+
+/**
+ * Proxies a DASH segment requested through a SegmentTemplate. The player
+ * fills in the template identifiers ($Number$, $Time$, ...) of the proxied
+ * template, and the values are substituted into the signed upstream template.
+ */
+async function proxyTemplateReference(
+  reference: string,
+  valuePath: string,
+  sources: StreamSource[],
+  context: ProxyContext,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const resolved = resolveReference(context, reference);
+  if (!resolved) {
+    return send403(res, 'Invalid stream reference');
+  }
+  
+  // Drop the file extension appended after the last identifier
+  const extension = getUrlExtension(resolved.url);
+  const path = extension && valuePath.endsWith(extension) ? valuePath.slice(0, -extension.length) : valuePath;
+  
+  // Values can only take the place of identifiers, never change the rest of the URL
+  const values = path.split('/');
+  if (values.some(value => !/^[\w~.-]+$/.test(value) || value === '.' || value === '..')) {
+    return send400(res, 'Invalid segment template values');
+  }
+  
+  const url = expandTemplate(resolved.url, values);
+  if (!url) {
+    return send400(res, 'Invalid segment template values');
+  }
+  
+  return proxyResolvedReference(false, { sourceId: resolved.sourceId, url }, sources, context, req, res);
+}
+
+/**
+ * Proxies an upstream URL taken from a manifest, recording failures against
+ * the source it came from
  */
-async function proxyHlsManifest(baseUrl: string, req: Request, res: Response): Promise<void> {
+async function proxyResolvedReference(
+  isPlaylist: boolean,
+  resolved: { sourceId: string; url: string },
+  sources: StreamSource[],
+  context: ProxyContext,
+  req: Request,
+  res: Response
+): Promise<void> {
+  // Segments of encrypted content are only served through e/ URLs (the
+  // references in them must not be usable on their own)
+  if (!isPlaylist && !(await mayServePlainMedia(context, resolved.sourceId))) {
+    return send403(res, 'This content is only served encrypted');
+  }
+  
+  const source = sources.find(s => getSourceId(s.url) === resolved.sourceId);
+  const profile = source?.requestProfile;
+  
   try {
-    const response = await axios.get(baseUrl, {
-      responseType: 'text',
-      headers: {
-        'User-Agent': req.headers['user-agent'] || 'Mozilla/5.0'
-      }
-    });
+    if (isPlaylist) {
+      await proxyHlsManifest(resolved.url, resolved.sourceId, profile, context, req, res);
+    } else if (req.headers.range) {
+      // Partial requests go straight to the upstream
+      await proxyContent(resolved.url, profile, req, res);
+    } else {
+      await proxyCachedSegment(resolved.url, profile, req, res);
+    }
     
-    if (response.status !== 200) {
-      return send404(res, 'Stream manifest not found');
+    if (source) markSourceHealthy(source.url);
+  } catch (error) {
+    if (res.headersSent || !isSourceFailure(error, isPlaylist)) {
+      throw error;
     }
     
-    // Set content type header
-    res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+    const reason = error instanceof Error ? error.message : 'Unknown upstream error';
+    if (source) {
+      markSourceFailed(source.url, reason);
+      recordViewerSourceError(context, source.url, reason);
+    }
+    console.warn(`Stream reference failed for ${context.contentKey} (${resolved.url}): ${reason}`);
     
-    // Get the token from the original request
-    const token = req.params.token;
+    return send502(res, 'Stream source unavailable');
+  }
+}
+
+/**
+ * Records that a source of encrypted content is served unencrypted, warning
+ * the first time
+ */
+function markUnencryptable(context: ProxyContext, sourceId: string, reason: string): void {
+  const key = `${context.contentKey}|${sourceId}`;
+  if (!unencryptableSources.has(key)) {
+    unencryptableSources.set(key, reason);
+    console.warn(`Cannot encrypt ${context.contentKey} (source ${sourceId}): ${reason}`);
+  }
+}
+
+/**
+ * Lists the stream sources of a piece of content that the proxy serves
+ * unencrypted even when the content is encrypted, and why. Only HLS sources
+ * with unencrypted or AES-128 segments can be encrypted; HLS sources with
+ * another upstream encryption are only listed once a playlist of theirs has
+ * been served.
+ *
+ * @param contentType 'movie', 'episode' or 'channel'
+ * @param contentId ID of the content
+ * @returns The sources, by ID as in proxy references
+ */
+export async function getUnencryptedSources(
+  contentType: string, 
+  contentId: number
+): Promise<{ sourceId: string; label: string | null; reason: string }[]> {
+  const unencrypted: { sourceId: string; label: string | null; reason: string }[] = [];
+  
+  for (const source of (await loadStreamSources(contentType, contentId)) || []) {
+    const sourceId = getSourceId(source.url);
+    let reason = unencryptableSources.get(`${contentType}:${contentId}|${sourceId}`);
+    try {
+      const format = getSourceFormat(source);
+      if (format === 'dash') {
+        reason = DASH_UNENCRYPTED_REASON;
+      } else if (format !== 'hls') {
+        reason = PROGRESSIVE_UNENCRYPTED_REASON;
+      }
+    } catch {
+      // Malformed URLs are never served
+      continue;
+    }
     
-    // Rewrite URLs in the manifest to use our proxy
-    let manifest = response.data;
+    if (reason) {
+      unencrypted.push({ sourceId, label: source.label || null, reason });
+    }
+  }
+  
+  return unencrypted;
+}
+
+/**
+ * Whether media of a source may be served unencrypted: encrypted content is
+ * never served unencrypted, unless the proxy cannot encrypt the source (see
+ * proxyHlsManifest and proxyDashManifest) and its manifests therefore only
+ * reference plain media
+ */
+async function mayServePlainMedia(context: ProxyContext, sourceId: string): Promise<boolean> {
+  if (unencryptableSources.has(`${context.contentKey}|${sourceId}`)) {
+    return true;
+  }
+  
+  return !(await getActiveContentKey(context.contentType, context.contentId));
+}
+
+/**
+ * Serves a segment or init section of encrypted content: the upstream data is
+ * decrypted if the upstream encrypts it, then encrypted with the content key
+ * and the IV announced for it in the rewritten playlist
+ */
+async function proxyEncryptedSegment(
+  keyId: string,
+  upstreamKey: { reference: string; iv: string } | null,
+  reference: string,
+  sources: StreamSource[],
+  context: ProxyContext,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const key = await getContentKeyById(keyId);
+  if (!key || !isKeyForContent(key, context)) {
+    return send403(res, 'Invalid encryption key');
+  }
+  
+  const resolved = resolveReference(context, reference);
+  const resolvedKey = upstreamKey ? resolveReference(context, upstreamKey.reference) : null;
+  if (!resolved || (upstreamKey && !resolvedKey)) {
+    return send403(res, 'Invalid stream reference');
+  }
+  
+  const source = sources.find(s => getSourceId(s.url) === resolved.sourceId);
+  const userAgent = req.headers['user-agent'] || 'Mozilla/5.0';
+  
+  try {
+    // Segments are cached unencrypted (as served by the upstream) and shared by all viewers
+    const segment = await getCachedResource(resolved.url, 'segment', userAgent, source?.requestProfile);
+    let data = segment.body;
     
-    // Replace relative URLs
-    // For .ts segment files
-    manifest = manifest.replace(/^([^#].+\.ts.*)$/gm, `/api/stream/${token}/$1`);
+    if (upstreamKey && resolvedKey) {
+      const upstreamKeyData = await getCachedResource(resolvedKey.url, 'segment', userAgent, source?.requestProfile);
+      try {
+        data = decryptSegment(data, upstreamKeyData.body, Buffer.from(upstreamKey.iv, 'hex'));
+      } catch (error) {
+        throw new UpstreamDataError(`Segment does not decrypt with the upstream key: ${error instanceof Error ? error.message : error}`);
+      }
+    }
     
-    // For sub-manifests (quality levels)
-    manifest = manifest.replace(/^([^#].+\.m3u8.*)$/gm, `/api/stream/${token}/$1`);
+    const encrypted = encryptSegment(data, Buffer.from(key.keyValue, 'hex'), getSegmentIv(key, resolved.url));
     
-    // Replace absolute URLs if present
-    const urlRegex = /(https?:\/\/[^"'\s]+\.ts[^"'\s]*|https?:\/\/[^"'\s]+\.m3u8[^"'\s]*)/g;
-    manifest = manifest.replace(urlRegex, (match: string) => {
-      // Extract the path from the URL
-      const url = new URL(match);
-      const path = url.pathname.substring(1); // Remove leading slash
-      return `/api/stream/${token}/${path}`;
-    });
+    if (segment.contentType) {
+      res.setHeader('Content-Type', segment.contentType);
+    }
+    res.send(encrypted);
     
-    // Send the modified manifest
-    res.send(manifest);
+    if (source) markSourceHealthy(source.url);
   } catch (error) {
-    console.error('Error proxying HLS manifest:', error);
-    return send500(res, 'Error proxying stream manifest');
+    // Segments too large to cache cannot be encrypted either, so like
+    // segments that do not decrypt they make the source unusable
+    const isUnusable = error instanceof ResourceTooLargeError || error instanceof UpstreamDataError;
+    if (res.headersSent || !(isUnusable || isSourceFailure(error, false))) {
+      throw error;
+    }
+    
+    const reason = error instanceof Error ? error.message : 'Unknown upstream error';
+    if (source) {
+      markSourceFailed(source.url, reason);
+      recordViewerSourceError(context, source.url, reason);
+    }
+    console.warn(`Encrypted stream reference failed for ${context.contentKey} (${resolved.url}): ${reason}`);
+    
+    return send502(res, 'Stream source unavailable');
   }
 }
 
 /**
- * Proxies stream content (like .ts segments or direct video)
+ * Serves the encryption key announced in a rewritten playlist. The stream
+ * token and session have been checked by proxyStream; the entitlement is
+ * checked again here so that keys are only handed out to viewers who may
+ * watch the content (premium subscription or pay-per-view purchase).
  */
-async function proxyContent(baseUrl: string, req: Request, res: Response): Promise<void> {
-  try {
-    // Get path segments (removing the first element which is the token)
-    const pathSegments = req.path.split('/').slice(1);
-    
-    // Build the actual URL by combining the base URL with the requested path
-    const actualUrl = pathSegments.length > 0 
-      ? new URL(pathSegments.join('/'), baseUrl).toString()
-      : baseUrl;
-    
-    const response = await axios.get(actualUrl, {
-      responseType: 'stream',
-      headers: {
-        'User-Agent': req.headers['user-agent'] || 'Mozilla/5.0'
+async function sendContentKey(keyId: string, context: ProxyContext, res: Response): Promise<void> {
+  const key = await getContentKeyById(keyId);
+  if (!key || !isKeyForContent(key, context)) {
+    return send404(res, 'Encryption key not found');
+  }
+  
+  if (!(await hasContentEntitlement(context.userId, context.contentType, context.contentId))) {
+    return send403(res, 'This content requires premium subscription or purchase');
+  }
+  
+  res.setHeader('Content-Type', 'application/octet-stream');
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(Buffer.from(key.keyValue, 'hex'));
+}
+
+/**
+ * Serves the recording of a user's scheduled program: the playlist at the
+ * root of the stream URL (or index.m3u8), its media at r/[<keyId>/]<segment
+ * or init section>, and encryption keys at k/<keyId>
+ */
+async function proxyRecording(recordingId: number, subPath: string, context: ProxyContext, res: Response): Promise<void> {
+  const keyMatch = subPath.match(/^k\/([0-9a-f]+)$/);
+  if (keyMatch) {
+    return sendContentKey(keyMatch[1], context, res);
+  }
+  
+  const recording = await getRecordingCapture(recordingId);
+  if (!recording) {
+    return send404(res, 'Recording not found');
+  }
+  
+  if (subPath === '' || subPath === 'index.m3u8') {
+    return sendCapturePlaylist(recording.index, recording.inProgress ? 'event' : 'vod', 'r', context, res);
+  }
+  
+  const mediaMatch = subPath.match(CAPTURED_MEDIA_PATTERN);
+  if (mediaMatch && mediaMatch[1] === 'r') {
+    const [, mediaPrefix, keyId, init, id] = mediaMatch;
+    return sendCapturedMedia(
+      mediaPrefix, 
+      init ? 'map' : 'segment', 
+      parseInt(id), 
+      keyId || null, 
+      (kind, mediaId) => readCapturedMedia(recording.dir, recording.index, kind, mediaId), 
+      context, 
+      res
+    );
+  }
+  
+  return send404(res, 'Stream content not found');
+}
+
+/**
+ * Serves a past EPG program of a channel from its catch-up archive, as a
+ * VOD playlist of exactly the program's time range
+ */
+async function sendCatchupPlaylist(programId: number, context: ProxyContext, res: Response): Promise<void> {
+  const program = (await storage.getChannelPrograms(context.contentId)).find(program => program.id === programId);
+  if (!program || program.endTime.getTime() > Date.now()) {
+    return send404(res, 'Program is not available for catch-up');
+  }
+  
+  const index = await getCatchupIndex(context.contentId, program.startTime, program.endTime);
+  return sendCapturePlaylist(index, 'vod', 'c', context, res);
+}
+
+/**
+ * Serves captured segments (see hls-capture) as a media playlist:
+ * - 'live' for the timeshift window. No EXT-X-PLAYLIST-TYPE is declared:
+ *   segments leave the start of the window as it moves, which an EVENT
+ *   playlist does not allow.
+ * - 'event' for a recording in progress, which only grows
+ * - 'vod' for a finished recording or a program from the catch-up archive
+ * Program date-times let players show the wall-clock time of every position.
+ */
+async function sendCapturePlaylist(
+  index: CaptureIndex | null, 
+  type: 'live' | 'event' | 'vod', 
+  mediaPrefix: string, 
+  context: ProxyContext, 
+  res: Response
+): Promise<void> {
+  // The capture changes while it records; work on a snapshot
+  const segments = index ? [...index.segments] : [];
+  if (!index || segments.length < (type === 'live' ? MIN_TIMESHIFT_SEGMENTS : 1)) {
+    return send404(res, 'Stream content not found');
+  }
+  
+  // Encrypted content is encrypted with the content key, like the live stream
+  const key = await getActiveContentKey(context.contentType, context.contentId);
+  const mediaPath = `/api/stream/${context.token}/${mediaPrefix}/${key ? `${key.keyId}/` : ''}`;
+  const keyTag = (kind: 'segment' | 'map', id: number) => key
+    ? [`#EXT-X-KEY:METHOD=AES-128,URI="/api/stream/${context.token}/k/${key.keyId}",IV=0x${getSegmentIv(key, getCapturedMediaId(context, mediaPrefix, kind, id)).toString('hex')}`]
+    : [];
+  
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:6',
+    `#EXT-X-TARGETDURATION:${Math.ceil(Math.max(...segments.map(segment => segment.duration)))}`,
+    ...(type === 'live' ? [] : [`#EXT-X-PLAYLIST-TYPE:${type.toUpperCase()}`]),
+    `#EXT-X-MEDIA-SEQUENCE:${segments[0].sequence}`,
+    `#EXT-X-DISCONTINUITY-SEQUENCE:${index.discontinuitySequence}`
+  ];
+  let currentMapId: number | null = null;
+  
+  for (const segment of segments) {
+    if (segment.discontinuity) {
+      lines.push('#EXT-X-DISCONTINUITY');
+    }
+    
+    const map: CapturedMap | undefined = segment.mapId !== null && segment.mapId !== currentMapId
+      ? index.maps.find(m => m.id === segment.mapId)
+      : undefined;
+    if (map) {
+      lines.push(...keyTag('map', map.id), `#EXT-X-MAP:URI="${mediaPath}${map.file}"`);
+      currentMapId = map.id;
+    }
+    
+    lines.push(
+      ...keyTag('segment', segment.sequence),
+      `#EXT-X-PROGRAM-DATE-TIME:${segment.programDateTime}`,
+      `#EXTINF:${segment.duration.toFixed(3)},`,
+      `${mediaPath}${segment.file}`
+    );
+  }
+  
+  if (type === 'vod') {
+    lines.push('#EXT-X-ENDLIST');
+  }
+  
+  res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+  res.setHeader('Cache-Control', type === 'vod' ? 'private, max-age=60' : 'no-cache');
+  res.send(lines.join('\n') + '\n');
+}
+
+/**
+ * Serves a captured segment or init section, encrypted with the content key
+ * given in its URL if the content is encrypted
+ */
+async function sendCapturedMedia(
+  mediaPrefix: string,
+  kind: 'segment' | 'map',
+  id: number,
+  keyId: string | null,
+  read: (kind: 'segment' | 'map', id: number) => Promise<{ data: Buffer; contentType: string | undefined } | null>,
+  context: ProxyContext,
+  res: Response
+): Promise<void> {
+  let key: ContentKey | null = null;
+  if (keyId) {
+    key = await getContentKeyById(keyId);
+    if (!key || !isKeyForContent(key, context)) {
+      return send403(res, 'Invalid encryption key');
+    }
+  } else if (await getActiveContentKey(context.contentType, context.contentId)) {
+    // Encrypted content is never served unencrypted
+    return send403(res, 'This content is only served encrypted');
+  }
+  
+  const media = await read(kind, id);
+  if (!media) {
+    return send404(res, 'Stream content not found');
+  }
+  
+  const data = key
+    ? encryptSegment(media.data, Buffer.from(key.keyValue, 'hex'), getSegmentIv(key, getCapturedMediaId(context, mediaPrefix, kind, id)))
+    : media.data;
+  
+  if (media.contentType) {
+    res.setHeader('Content-Type', media.contentType);
+  }
+  res.send(data);
+}
+
+/**
+ * Identifies a captured segment or init section when deriving its IV, as
+ * the upstream URL does for live segments. The timeshift window and the
+ * catch-up archive of a channel number their segments independently.
+ */
+function getCapturedMediaId(context: ProxyContext, mediaPrefix: string, kind: 'segment' | 'map', id: number): string {
+  return `capture:${context.contentKey}:${mediaPrefix}:${kind}:${id}`;
+}
+
+/**
+ * Loads the stream sources of a movie, episode or channel
+ *
+ * @returns The sources (empty if the content does not exist), or null for other content types
+ */
+async function loadStreamSources(contentType: string, contentId: number): Promise<StreamSource[] | null> {
+  let content: { streamSources: unknown } | undefined;
+  switch (contentType) {
+    case 'movie':
+      content = await storage.getMovie(contentId);
+      break;
+    case 'episode':
+      content = await storage.getEpisode(contentId);
+      break;
+    case 'channel':
+      content = await storage.getChannel(contentId);
+      break;
+    default:
+      return null;
+  }
+  
+  return content && Array.isArray(content.streamSources) ? content.streamSources as StreamSource[] : [];
+}
+
+/**
+ * Whether a content key belongs to the content a stream token was issued for
+ */
+function isKeyForContent(key: ContentKey, context: ProxyContext): boolean {
+  return key.contentType === context.contentType && key.contentId === context.contentId;
+}
+
+/**
+ * Resolves a proxy reference from a request path
+ */
+function resolveReference(context: ProxyContext, reference: string): { sourceId: string; url: string } | null {
+  // Drop the cosmetic file extension appended after the signature
+  const [payload, signature] = reference.split('.');
+  return resolveProxyReference(context.contentKey, `${payload}.${signature}`);
+}
+
+/**
+ * Builds the proxied URL that replaces an upstream URI in a manifest
+ */
+function buildProxyUrl(context: ProxyContext, sourceId: string, url: string, kind: HlsUriKind): string {
+  const reference = createProxyReference(context.contentKey, sourceId, url);
+  
+  if (kind === 'playlist') {
+    return `/api/stream/${context.token}/p/${reference}.m3u8`;
+  }
+  
+  // Keep the upstream file extension as a hint for players and logs
+  return `/api/stream/${context.token}/s/${reference}${getUrlExtension(url)}`;
+}
+
+/**
+ * Builds the proxied URL that replaces an upstream URL in a DASH manifest.
+ * SegmentTemplate URLs stay templates: every identifier becomes a path
+ * segment of the proxied URL, which the player fills in.
+ */
+function buildDashProxyUrl(context: ProxyContext, sourceId: string, url: string, kind: DashUriKind): string {
+  const identifiers = kind === 'template' ? getTemplateIdentifiers(url) : [];
+  if (identifiers.length === 0) {
+    return buildProxyUrl(context, sourceId, url, 'segment');
+  }
+  
+  const reference = createProxyReference(context.contentKey, sourceId, url);
+  return `/api/stream/${context.token}/t/${reference}/${identifiers.join('/')}${getUrlExtension(url)}`;
+}
+
+/**
+ * Records a source failure during playback as a viewer-side error in the
+ * stream analytics, attributed to the source so that source ranking can use
+ * it. A failing source fails every segment request, so errors are throttled.
+ */
+function recordViewerSourceError(context: ProxyContext, sourceUrl: string, reason: string): void {
+  const now = Date.now();
+  const key = `${context.userId}|${sourceUrl}`;
+  
+  const lastRecorded = recordedViewerErrors.get(key);
+  if (lastRecorded && now - lastRecorded < VIEWER_ERROR_INTERVAL) {
+    return;
+  }
+  
+  recordedViewerErrors.set(key, now);
+  if (recordedViewerErrors.size > 1000) {
+    Array.from(recordedViewerErrors.entries()).forEach(([entryKey, recordedAt]) => {
+      if (now - recordedAt >= VIEWER_ERROR_INTERVAL) recordedViewerErrors.delete(entryKey);
+    });
+  }
+  
+  storage.recordStreamAnalytics({
+    userId: context.userId,
+    contentType: context.contentType,
+    contentId: context.contentId,
+    event: 'error',
+    error: reason,
+    customData: { sourceUrl }
+  }).catch(error => console.error('Error recording stream source error:', error));
+}
+
+/**
+ * Returns the file extension of an URL path (e.g. '.ts'), or an empty string
+ */
+function getUrlExtension(url: string): string {
+  const extension = new URL(url).pathname.match(/\.[a-z0-9]{1,5}$/i);
+  return extension ? extension[0] : '';
+}
+
+/**
+ * Returns the format of a stream source: sources with an .mpd URL are DASH
+ * even when their format was entered differently
+ */
+function getSourceFormat(source: StreamSource): string {
+  if (/\.mpd$/i.test(new URL(source.url).pathname)) {
+    return 'dash';
+  }
+  
+  return (source.format || 'hls').toLowerCase();
+}
+
+/**
+ * Builds the proxied URL of a segment or init section of encrypted content.
+ * Segments the upstream already encrypts carry a reference to the upstream
+ * key and the upstream IV, so the proxy can decrypt them first.
+ */
+function buildEncryptedProxyUrl(
+  context: ProxyContext, 
+  sourceId: string, 
+  url: string, 
+  key: ContentKey, 
+  uriContext: HlsUriContext
+): string {
+  const reference = createProxyReference(context.contentKey, sourceId, url);
+  
+  let upstream = '';
+  if (uriContext.key) {
+    const keyReference = createProxyReference(context.contentKey, sourceId, uriContext.key.uri);
+    const iv = getUpstreamIv(uriContext.key, uriContext.mediaSequence).toString('hex');
+    upstream = `${keyReference}/${iv}/`;
+  }
+  
+  return `/api/stream/${context.token}/e/${key.keyId}/${upstream}${reference}${getUrlExtension(url)}`;
+}
+
+/**
+ * Proxies HLS manifest and rewrites URLs to use our secure proxy
+ * Throws on upstream errors so the caller can fail over to another source
+ */
+async function proxyHlsManifest(
+  manifestUrl: string, 
+  sourceId: string, 
+  profile: StreamRequestProfile | undefined, 
+  context: ProxyContext, 
+  req: Request, 
+  res: Response
+): Promise<void> {
+  // Playlists are shared between all viewers of the content through the segment cache
+  const manifest = await getCachedResource(manifestUrl, 'playlist', req.headers['user-agent'] || 'Mozilla/5.0', profile);
+  
+  // Relative URIs resolve against the final URL, after any redirects
+  const playlistUrl = manifest.finalUrl;
+  
+  // Parse the manifest and point every URI in it at our proxy
+  const playlist = parseM3U8(manifest.body.toString('utf8'));
+  
+  // Media playlists of encrypted content get their segments encrypted with the content key
+  const key = playlist.isMaster ? null : await getActiveContentKey(context.contentType, context.contentId);
+  
+  if (key && canReencryptPlaylist(playlist)) {
+    const ivs: Map<string, string> = new Map();
+    
+    rewritePlaylistUris(playlist, playlistUrl, (url, kind, uriContext) => {
+      if (kind !== 'segment' && kind !== 'map') {
+        return buildProxyUrl(context, sourceId, url, kind);
       }
+      
+      const proxyUrl = buildEncryptedProxyUrl(context, sourceId, url, key, uriContext);
+      ivs.set(proxyUrl, getSegmentIv(key, url).toString('hex'));
+      return proxyUrl;
     });
     
-    // Forward content-type header
-    if (response.headers['content-type']) {
-      res.setHeader('Content-Type', response.headers['content-type']);
+    replaceSegmentKeys(playlist, (uri) => {
+      const iv = ivs.get(uri);
+      
+      // URIs that are not proxied (e.g. data: URIs) are passed through unencrypted
+      if (!iv) {
+        return [{ name: 'METHOD', value: 'NONE' }];
+      }
+      
+      return [
+        { name: 'METHOD', value: 'AES-128' },
+        { name: 'URI', value: `"/api/stream/${context.token}/k/${key.keyId}"` },
+        { name: 'IV', value: `0x${iv}` }
+      ];
+    });
+  } else {
+    if (key) {
+      markUnencryptable(context, sourceId, 'The upstream uses an encryption other than AES-128');
     }
     
-    // Pipe the stream response
-    response.data.pipe(res);
+    rewritePlaylistUris(playlist, playlistUrl, (url, kind) => buildProxyUrl(context, sourceId, url, kind));
+  }
+  
+  // Set content type header
+  res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+  res.setHeader('Cache-Control', 'no-cache');
+  
+  // Send the modified manifest
+  res.send(serializeM3U8(playlist));
+}
+
+/**
+ * Proxies a DASH manifest and rewrites its URLs to use our secure proxy
+ * Throws on upstream errors so the caller can fail over to another source
+ */
+async function proxyDashManifest(
+  manifestUrl: string, 
+  sourceId: string, 
+  profile: StreamRequestProfile | undefined, 
+  context: ProxyContext, 
+  req: Request, 
+  res: Response
+): Promise<void> {
+  // Manifests are shared between all viewers of the content through the segment cache
+  const manifest = await getCachedResource(manifestUrl, 'playlist', req.headers['user-agent'] || 'Mozilla/5.0', profile);
+  
+  // AES-128 segment encryption only exists in HLS; DASH sources are passed through as-is
+  const key = await getActiveContentKey(context.contentType, context.contentId);
+  if (key) {
+    markUnencryptable(context, sourceId, DASH_UNENCRYPTED_REASON);
+  }
+  
+  // Relative URLs resolve against the final URL, after any redirects
+  const mpd = rewriteMpdUrls(
+    manifest.body.toString('utf8'), 
+    manifest.finalUrl, 
+    (url, kind) => buildDashProxyUrl(context, sourceId, url, kind)
+  );
+  
+  res.setHeader('Content-Type', 'application/dash+xml');
+  res.setHeader('Cache-Control', 'no-cache');
+  
+  res.send(mpd);
+}
+
+/**
+ * Proxies stream content (like .ts segments or direct video)
+ * Supports byte-range requests so players can seek in progressive files,
+ * and HEAD requests so players can probe size and range support.
+ * Throws on upstream errors so the caller can fail over to another source
+ */
+async function proxyContent(
+  url: string, 
+  profile: StreamRequestProfile | undefined, 
+  req: Request, 
+  res: Response
+): Promise<void> {
+  const isHead = req.method === 'HEAD';
+  
+  // Forward range headers so the upstream only sends the requested bytes
+  const forwarded: Record<string, string> = {};
+  for (const header of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[header];
+    if (typeof value === 'string') {
+      forwarded[header] = value;
+    }
+  }
+  
+  const response = await axios.request({
+    url,
+    method: isHead ? 'HEAD' : 'GET',
+    responseType: 'stream',
+    timeout: UPSTREAM_TIMEOUT,
+    ...getUpstreamRequestConfig(profile, req.headers['user-agent'] || 'Mozilla/5.0', forwarded),
+    signal: abortOnDisconnect(res)
+  });
+  
+  // Mirror the upstream status (200 or 206) and the headers needed for byte serving
+  res.status(response.status);
+  for (const header of FORWARDED_RESPONSE_HEADERS) {
+    const value = response.headers[header];
+    if (value !== undefined && value !== null) {
+      res.setHeader(header, String(value));
+    }
+  }
+  
+  if (isHead) {
+    response.data.destroy();
+    res.end();
+    return;
+  }
+  
+  // Stop reading from the upstream as soon as the viewer disconnects
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      response.data.destroy();
+    }
+  });
+  
+  // If the upstream dies mid-transfer, log it and abort the client response
+  response.data.on('error', (error: Error) => {
+    if (!res.destroyed) {
+      console.error('Upstream stream error:', error);
+      res.destroy(error);
+    }
+  });
+  
+  response.data.on('data', (chunk: Buffer) => proxyBytesIn.inc({}, chunk.length));
+  
+  // Pipe the stream response
+  response.data.pipe(res);
+}
+
+/**
+ * Serves an HLS segment, key or init section through the shared segment cache
+ * Resources too large to cache (such as a whole MP4 file referenced by a DASH
+ * SegmentBase manifest) are streamed from the upstream instead.
+ * Throws on upstream errors so the caller can record the source failure
+ */
+async function proxyCachedSegment(
+  url: string, 
+  profile: StreamRequestProfile | undefined, 
+  req: Request, 
+  res: Response
+): Promise<void> {
+  let segment: CachedResponse;
+  try {
+    segment = await getCachedResource(url, 'segment', req.headers['user-agent'] || 'Mozilla/5.0', profile);
   } catch (error) {
-    console.error('Error proxying stream content:', error);
-    return send500(res, 'Error proxying stream content');
+    if (error instanceof ResourceTooLargeError) {
+      return proxyContent(url, profile, req, res);
+    }
+    throw error;
+  }
+  
+  if (segment.contentType) {
+    res.setHeader('Content-Type', segment.contentType);
+  }
+  
+  res.send(segment.body);
+}
+
+/**
+ * Returns an abort signal that fires when the client connection closes
+ * before the response has been completely sent
+ */
+function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  
+  return controller.signal;
+}
+
+/**
+ * Maps an upstream error status to the response sent to the client
+ */
+function sendUpstreamError(res: Response, status: number, contentRange?: string): void {
+  switch (status) {
+    case 404:
+    case 410:
+      return send404(res, 'Stream content not found');
+    case 401:
+    case 403:
+      return send403(res, 'Stream content access denied by upstream');
+    case 416:
+      // Tell the client the actual size so it can retry with a valid range
+      if (contentRange) {
+        res.setHeader('Content-Range', contentRange);
+      }
+      res.status(416).json({ error: 'Requested range not satisfiable' });
+      return;
+    default:
+      return send502(res, `Upstream responded with status ${status}`);
   }
 }
 
@@ -233,6 +1161,14 @@ function send404(res: Response, message: string): void {
   res.status(404).json({ error: message });
 }
 
+function send451(res: Response, message: string): void {
+  res.status(451).json({ error: message });
+}
+
 function send500(res: Response, message: string): void {
   res.status(500).json({ error: message });
-}
\ No newline at end of file
+}
+
+function send502(res: Response, message: string): void {
+  res.status(502).json({ error: message });
+}
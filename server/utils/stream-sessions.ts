@@ -0,0 +1,439 @@
+import crypto from 'crypto';
+import { ActiveStreamToken } from '@shared/schema';
+import { storage } from '../storage';
+import { generateStreamToken, StreamTokenPayload, TOKEN_EXPIRY } from './stream-token';
+import { openWatchSession, updateWatchSession, closeWatchSession, WatchProgress } from './watch-sessions';
+
+// Players send a heartbeat every HEARTBEAT_INTERVAL; a session that misses
+// heartbeats for SESSION_TIMEOUT no longer counts towards the user's limit
+export const HEARTBEAT_INTERVAL = 30 * 1000; // 30 seconds
+const SESSION_TIMEOUT = 90 * 1000; // 90 seconds
+
+// Tokens are rotated through the heartbeat shortly before they expire; the
+// previous session ID stays usable for a short grace period so requests that
+// are already in flight with the old token do not fail
+const ROTATE_BEFORE_EXPIRY = 2 * 60 * 1000; // 2 minutes
+const ROTATION_GRACE_PERIOD = 60 * 1000; // 1 minute
+
+// External players (M3U playlists, Xtream Codes apps) do not send heartbeats, so
+// their tokens cannot be rotated and are issued for longer. They still stop
+// working as soon as the session ends, which happens SESSION_TIMEOUT after
+// the player's last request through the stream proxy.
+const EXTERNAL_PLAYER_TOKEN_EXPIRY = 12 * 60 * 60 * 1000; // 12 hours
+
+// How long the stream proxy trusts a session lookup before checking the database again
+const SESSION_CHECK_TTL = 10 * 1000; // 10 seconds
+
+const DEFAULT_CONCURRENT_STREAMS = 2;
+const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+let cleanupInterval: NodeJS.Timeout | null = null;
+
+// Recent session lookups made by the stream proxy, keyed by session ID
+const sessionChecks: Map<string, { valid: boolean; checkedAt: number }> = new Map();
+
+// Session IDs replaced by a rotation, mapped to their replacement
+const rotatedSessions: Map<string, { tokenId: string; rotatedAt: number }> = new Map();
+
+export type StreamSessionRequest = {
+  userId: number;
+  contentType: string;    // 'movie', 'episode', 'channel'
+  contentId: number;
+  ipAddress?: string;
+  userAgent?: string;
+  sessionId?: string;     // Existing session to renew instead of opening a new one
+  takeover?: boolean;     // End the oldest sessions if the user is at their limit
+  playlistKeyId?: number; // Playlist key of the external player opening the session
+  externalPlayer?: boolean; // Opened by a player that sends no heartbeats
+};
+
+export type StreamSessionResult =
+  | { success: true; token: string; sessionId: string; expiresAt: Date }
+  | { success: false; limit: number; sessions: ActiveStreamToken[] };
+
+export type StreamHeartbeatResult = {
+  session: ActiveStreamToken;
+  token?: string;         // Set when the token was rotated; the player must switch to it
+};
+
+/**
+ * Returns the current ID of a session, following a recent rotation
+ */
+export function resolveSessionId(sessionId: string): string {
+  const rotated = rotatedSessions.get(sessionId);
+  if (rotated && Date.now() - rotated.rotatedAt < ROTATION_GRACE_PERIOD) {
+    return rotated.tokenId;
+  }
+
+  return sessionId;
+}
+
+/**
+ * Checks whether a session row is live and belongs to the given user
+ */
+function isSessionLive(session: ActiveStreamToken | undefined, userId: number): session is ActiveStreamToken {
+  return !!session && session.userId === userId && !session.isRevoked && session.expiresAt > new Date();
+}
+
+/**
+ * Returns the maximum number of simultaneous streams for a user: the
+ * per-user override if set, otherwise the site-wide default
+ *
+ * @param userId ID of the user
+ * @returns Maximum number of concurrent stream sessions
+ */
+export async function getUserStreamLimit(userId: number): Promise<number> {
+  const user = await storage.getUser(userId);
+  if (user?.maxConcurrentStreams !== null && user?.maxConcurrentStreams !== undefined) {
+    return user.maxConcurrentStreams;
+  }
+
+  const settings = await storage.getSiteSettings();
+  return settings?.defaultUserConcurrentStreams ?? DEFAULT_CONCURRENT_STREAMS;
+}
+
+/**
+ * Returns the user's live stream sessions (not revoked and not timed out), oldest first
+ *
+ * @param userId ID of the user
+ */
+export async function getLiveStreamSessions(userId: number): Promise<ActiveStreamToken[]> {
+  const now = new Date();
+  const tokens = await storage.getUserActiveStreamTokens(userId);
+
+  return tokens
+    .filter(token => !token.isRevoked && token.expiresAt > now)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Opens a stream session and issues a token bound to it. When the user is
+ * already at their concurrent stream limit the request is refused, unless
+ * takeover is set, in which case the oldest sessions are ended to make room.
+ *
+ * @param request Who is requesting which content
+ * @returns The token and session ID, or the limit and the sessions blocking the request
+ */
+export async function openStreamSession(request: StreamSessionRequest): Promise<StreamSessionResult> {
+  const expiresAt = new Date(Date.now() + SESSION_TIMEOUT);
+
+  // A player renewing its token keeps its existing session
+  if (request.sessionId) {
+    const existing = await storage.getActiveStreamToken(resolveSessionId(request.sessionId));
+    if (
+      isSessionLive(existing, request.userId) &&
+      existing.contentType === request.contentType &&
+      existing.contentId === request.contentId
+    ) {
+      await storage.touchStreamToken(existing.tokenId, expiresAt);
+      return {
+        success: true,
+        token: generateStreamToken(request.contentType, request.contentId, request.userId, existing.tokenId),
+        sessionId: existing.tokenId,
+        expiresAt
+      };
+    }
+  }
+
+  const limit = await getUserStreamLimit(request.userId);
+  const sessions = await getLiveStreamSessions(request.userId);
+
+  if (sessions.length >= limit) {
+    if (!request.takeover) {
+      return { success: false, limit, sessions };
+    }
+
+    // End the oldest sessions so that the new one fits within the limit
+    const excess = sessions.slice(0, sessions.length - limit + 1);
+    for (const session of excess) {
+      await endStreamSession(session.tokenId);
+    }
+  }
+
+  // Each new session is one playback in the user's watch history
+  const watch = await openWatchSession(request.userId, request.contentType, request.contentId);
+
+  // The limit is checked again as the session is stored, in case concurrent
+  // requests of the user took the free slots in the meantime
+  const sessionId = crypto.randomBytes(16).toString('hex');
+  const created = await storage.createActiveStreamTokenWithinLimit({
+    userId: request.userId,
+    tokenId: sessionId,
+    contentType: request.contentType,
+    contentId: request.contentId,
+    expiresAt,
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+    watchHistoryId: watch.id,
+    playlistKeyId: request.playlistKeyId,
+    externalPlayer: request.externalPlayer
+  }, limit);
+
+  if (!created) {
+    // The playback never started
+    await storage.updateWatchEvent(watch.id, { endTime: watch.startTime });
+    return { success: false, limit, sessions: await getLiveStreamSessions(request.userId) };
+  }
+
+  return {
+    success: true,
+    token: generateStreamToken(
+      request.contentType, 
+      request.contentId, 
+      request.userId, 
+      sessionId, 
+      request.externalPlayer ? EXTERNAL_PLAYER_TOKEN_EXPIRY : TOKEN_EXPIRY
+    ),
+    sessionId,
+    expiresAt
+  };
+}
+
+/**
+ * Opens a stream session for an external player. Players cannot ask the user
+ * which device to stop when the concurrent stream limit is reached, so the
+ * oldest sessions the same player opened (from the same address, with the
+ * same playlist key if any) are ended to make room: the channel the player is
+ * switching away from. Sessions on other devices are never ended.
+ *
+ * @param request Who is requesting which content
+ * @returns The token and session ID, or the limit and the sessions blocking the request
+ */
+export async function openExternalStreamSession(request: StreamSessionRequest): Promise<StreamSessionResult> {
+  const externalRequest = { ...request, externalPlayer: true, takeover: false };
+
+  const result = await openStreamSession(externalRequest);
+  if (result.success) {
+    return result;
+  }
+
+  const excess = result.sessions.length - result.limit + 1;
+  const samePlayer = result.sessions.filter(session =>
+    session.externalPlayer &&
+    session.playlistKeyId === (request.playlistKeyId ?? null) &&
+    session.ipAddress === (request.ipAddress ?? null)
+  );
+  if (result.limit === 0 || samePlayer.length < excess) {
+    return result;
+  }
+
+  // Sessions are oldest first
+  for (const session of samePlayer.slice(0, excess)) {
+    await endStreamSession(session.tokenId);
+  }
+
+  return openStreamSession(externalRequest);
+}
+
+/**
+ * Checks that the session a stream token is bound to is still live. Called by
+ * the stream proxy on every request, so lookups are cached for SESSION_CHECK_TTL;
+ * sessions ended through this module are dropped from the cache immediately.
+ * Proxied requests also count as activity and keep the session alive.
+ *
+ * @param payload The validated stream token payload
+ * @returns true if the token may be used
+ */
+export async function validateStreamSession(payload: StreamTokenPayload): Promise<boolean> {
+  if (!payload.tokenId) {
+    return false;
+  }
+
+  const sessionId = resolveSessionId(payload.tokenId);
+  const cached = sessionChecks.get(sessionId);
+  if (cached && Date.now() - cached.checkedAt < SESSION_CHECK_TTL) {
+    return cached.valid;
+  }
+
+  const session = await storage.getActiveStreamToken(sessionId);
+  const valid = isSessionLive(session, payload.userId) &&
+    session.contentType === payload.contentType &&
+    session.contentId === payload.contentId;
+
+  sessionChecks.set(sessionId, { valid, checkedAt: Date.now() });
+
+  if (valid && Date.now() - session!.lastHeartbeatAt.getTime() > HEARTBEAT_INTERVAL) {
+    await storage.touchStreamToken(sessionId, new Date(Date.now() + SESSION_TIMEOUT));
+  }
+
+  return valid;
+}
+
+/**
+ * Replaces a session's ID and issues a new token for it. Tokens carrying the
+ * old session ID keep working for ROTATION_GRACE_PERIOD, then stop working.
+ */
+async function rotateStreamSession(session: ActiveStreamToken): Promise<{ session: ActiveStreamToken; token: string } | undefined> {
+  const newSessionId = crypto.randomBytes(16).toString('hex');
+  const rotated = await storage.rotateStreamToken(session.tokenId, newSessionId);
+  if (!rotated) {
+    return undefined;
+  }
+
+  rotatedSessions.set(session.tokenId, { tokenId: newSessionId, rotatedAt: Date.now() });
+  sessionChecks.delete(session.tokenId);
+
+  return {
+    session: rotated,
+    token: generateStreamToken(rotated.contentType, rotated.contentId, rotated.userId, newSessionId)
+  };
+}
+
+/**
+ * Keeps a stream session alive, rotating its token when it is about to expire
+ *
+ * @param sessionId ID of the session
+ * @param userId ID of the user the session must belong to
+ * @param progress Playback position reported by the player, added to the watch history
+ * @returns The updated session (and new token if rotated), or undefined if it
+ *          has ended (timed out, revoked or evicted)
+ */
+export async function heartbeatStreamSession(
+  sessionId: string, 
+  userId: number, 
+  progress?: WatchProgress
+): Promise<StreamHeartbeatResult | undefined> {
+  const session = await storage.getActiveStreamToken(resolveSessionId(sessionId));
+  if (!isSessionLive(session, userId)) {
+    return undefined;
+  }
+
+  if (progress) {
+    await updateWatchSession(session, progress);
+  }
+
+  const expiresAt = new Date(Date.now() + SESSION_TIMEOUT);
+
+  // Tokens are issued when the session is opened and on every rotation
+  const tokenIssuedAt = (session.lastRotatedAt || session.createdAt).getTime();
+  if (Date.now() - tokenIssuedAt > TOKEN_EXPIRY - ROTATE_BEFORE_EXPIRY) {
+    const rotated = await rotateStreamSession(session);
+    if (rotated) {
+      const touched = await storage.touchStreamToken(rotated.session.tokenId, expiresAt);
+      return { session: touched || rotated.session, token: rotated.token };
+    }
+  }
+
+  const touched = await storage.touchStreamToken(session.tokenId, expiresAt);
+  return touched ? { session: touched } : undefined;
+}
+
+/**
+ * Ends a stream session immediately; its token stops working on the next request
+ *
+ * @param sessionId ID of the session
+ * @param userId If given, the session is only ended when it belongs to this user
+ * @param progress Final playback position reported by a player that stopped
+ * @returns true if the session was ended
+ */
+export async function endStreamSession(sessionId: string, userId?: number, progress?: WatchProgress): Promise<boolean> {
+  const currentId = resolveSessionId(sessionId);
+  const session = await storage.getActiveStreamToken(currentId);
+  if (!session || (userId !== undefined && session.userId !== userId)) {
+    return false;
+  }
+
+  if (progress) {
+    await updateWatchSession(session, progress);
+  }
+  await closeWatchSession(session, new Date());
+
+  const ended = await storage.revokeStreamToken(currentId);
+  sessionChecks.set(currentId, { valid: false, checkedAt: Date.now() });
+  
+  return ended;
+}
+
+/**
+ * Ends all stream sessions of a user (on logout, or when an admin blocks the user)
+ *
+ * @param userId ID of the user
+ * @returns Number of sessions ended
+ */
+export async function endUserStreamSessions(userId: number): Promise<number> {
+  const sessions = await storage.getUserActiveStreamTokens(userId);
+
+  let ended = 0;
+  for (const session of sessions) {
+    if (await endStreamSession(session.tokenId)) {
+      ended++;
+    }
+  }
+
+  return ended;
+}
+
+/**
+ * Ends the stream sessions opened through a playlist key (when it is revoked)
+ *
+ * @param playlistKeyId ID of the playlist key
+ * @returns Number of sessions ended
+ */
+export async function endPlaylistKeySessions(playlistKeyId: number): Promise<number> {
+  const sessions = await storage.getAllActiveStreamTokens();
+
+  let ended = 0;
+  for (const session of sessions) {
+    if (session.playlistKeyId === playlistKeyId && await endStreamSession(session.tokenId)) {
+      ended++;
+    }
+  }
+
+  return ended;
+}
+
+/**
+ * Returns all live stream sessions across users, newest first (for admins)
+ */
+export async function getAllLiveStreamSessions(): Promise<ActiveStreamToken[]> {
+  const now = new Date();
+  const tokens = await storage.getAllActiveStreamTokens();
+
+  return tokens.filter(token => !token.isRevoked && token.expiresAt > now);
+}
+
+/**
+ * Starts periodically removing timed out stream sessions
+ */
+export function startStreamSessionCleanup(): void {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+  }
+
+  cleanupInterval = setInterval(async () => {
+    try {
+      // Close the watch history of sessions that timed out before they are removed
+      await storage.closeExpiredWatchSessions(new Date());
+
+      const removed = await storage.cleanupExpiredStreamTokens();
+      
+      // Forget lookups and rotations that can no longer be used
+      const now = Date.now();
+      Array.from(sessionChecks.entries()).forEach(([sessionId, check]) => {
+        if (now - check.checkedAt >= SESSION_CHECK_TTL) sessionChecks.delete(sessionId);
+      });
+      Array.from(rotatedSessions.entries()).forEach(([sessionId, rotation]) => {
+        if (now - rotation.rotatedAt >= ROTATION_GRACE_PERIOD) rotatedSessions.delete(sessionId);
+      });
+
+      if (removed > 0) {
+        console.log(`Removed ${removed} expired stream sessions`);
+      }
+    } catch (error) {
+      console.error('Error cleaning up stream sessions:', error);
+    }
+  }, CLEANUP_INTERVAL);
+
+  console.log('Stream session cleanup started');
+}
+
+/**
+ * Stops the stream session cleanup
+ */
+export function stopStreamSessionCleanup(): void {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+    cleanupInterval = null;
+    console.log('Stream session cleanup stopped');
+  }
+}
@@ -2,15 +2,16 @@ import crypto from 'crypto';
 
 // Secret key for token signing (should be stored in environment variable in production)
 const TOKEN_SECRET = process.env.STREAM_TOKEN_SECRET || 'your-stream-token-secret-key';
-const TOKEN_EXPIRY = process.env.STREAM_TOKEN_EXPIRY_MINUTES ? 
+export const TOKEN_EXPIRY = process.env.STREAM_TOKEN_EXPIRY_MINUTES ? 
   parseInt(process.env.STREAM_TOKEN_EXPIRY_MINUTES, 10) * 60 * 1000 : 
   15 * 60 * 1000; // Default 15 minutes in milliseconds
 
-interface StreamTokenPayload {
+export interface StreamTokenPayload {
   contentType: string;  // 'movie', 'episode', 'channel'
   contentId: number;
   userId: number;
   expiry: number;       // Timestamp when token expires
+  tokenId?: string;     // Stream session (active_stream_tokens row) the token belongs to
 }
 
 /**
@@ -19,15 +20,24 @@ interface StreamTokenPayload {
  * @param contentType Type of content ('movie', 'episode', 'channel')
  * @param contentId ID of the content
  * @param userId ID of the user requesting the stream
+ * @param tokenId Optional stream session ID to bind the token to
+ * @param expiresIn How long the token is valid, in milliseconds
  * @returns Signed token string
  */
-export function generateStreamToken(contentType: string, contentId: number, userId: number): string {
+export function generateStreamToken(
+  contentType: string, 
+  contentId: number, 
+  userId: number, 
+  tokenId?: string, 
+  expiresIn: number = TOKEN_EXPIRY
+): string {
   // Create token payload
   const payload: StreamTokenPayload = {
     contentType,
     contentId,
     userId,
-    expiry: Date.now() + TOKEN_EXPIRY, // Token expires in 15 minutes
+    expiry: Date.now() + expiresIn, // Token expires in 15 minutes by default
+    tokenId
   };
   
   // Stringify payload
@@ -39,8 +49,8 @@ export function generateStreamToken(contentType: string, contentId: number, user
     .update(payloadStr)
     .digest('hex');
   
-  // Return base64 encoded payload + signature
-  return Buffer.from(`${payloadStr}|${signature}`).toString('base64');
+  // Return base64url encoded payload + signature (safe to use as a URL path segment)
+  return Buffer.from(`${payloadStr}|${signature}`).toString('base64url');
 }
 
 /**
@@ -82,4 +92,110 @@ export function validateStreamToken(token: string): StreamTokenPayload | null {
     console.error('Error validating stream token:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Returns a short, stable identifier for a stream source URL
+ * Used inside proxy references so upstream failures can be attributed to a source
+ * 
+ * @param sourceUrl The stream source URL
+ * @returns Identifier string
+ */
+export function getSourceId(sourceUrl: string): string {
+  return crypto.createHash('sha256').update(sourceUrl).digest('hex').substring(0, 12);
+}
+
+// Key proxy reference payloads are encrypted with, derived from the token secret
+const REFERENCE_KEY = crypto.createHash('sha256').update(`proxy-reference|${TOKEN_SECRET}`).digest();
+
+const REFERENCE_IV_BYTES = 12;
+const REFERENCE_TAG_BYTES = 16;
+
+/**
+ * Creates an opaque, signed reference to an upstream URL
+ * Rewritten manifests point at these references instead of upstream URLs. The
+ * URL is encrypted (AES-256-GCM), so clients never see the origin or any
+ * credentials in it, and signed, so they cannot make the proxy fetch
+ * arbitrary URLs. The IV is derived from the URL, so a URL always gets the
+ * same reference (e.g. across reloads of a live playlist).
+ * 
+ * @param contentKey Content the reference belongs to ('channel:12')
+ * @param sourceId ID of the stream source the URL was found in
+ * @param url Absolute upstream URL
+ * @returns Reference string (base64url encrypted payload + signature)
+ */
+export function createProxyReference(contentKey: string, sourceId: string, url: string): string {
+  const plaintext = `${sourceId}|${url}`;
+  const iv = crypto
+    .createHmac('sha256', REFERENCE_KEY)
+    .update(`${contentKey}|${plaintext}`)
+    .digest()
+    .subarray(0, REFERENCE_IV_BYTES);
+  
+  const cipher = crypto.createCipheriv('aes-256-gcm', REFERENCE_KEY, iv);
+  cipher.setAAD(Buffer.from(contentKey));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const payload = Buffer.concat([iv, encrypted, cipher.getAuthTag()]).toString('base64url');
+  
+  const signature = crypto
+    .createHmac('sha256', TOKEN_SECRET)
+    .update(`${contentKey}|${payload}`)
+    .digest('base64url')
+    .substring(0, 22);
+  
+  return `${payload}.${signature}`;
+}
+
+/**
+ * Resolves a reference created by createProxyReference
+ * 
+ * @param contentKey Content the reference must belong to
+ * @param reference The reference string
+ * @returns The source ID and upstream URL if the signature is valid, null otherwise
+ */
+export function resolveProxyReference(contentKey: string, reference: string): { sourceId: string; url: string } | null {
+  const [payload, signature] = reference.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+  
+  const expectedSignature = crypto
+    .createHmac('sha256', TOKEN_SECRET)
+    .update(`${contentKey}|${payload}`)
+    .digest('base64url')
+    .substring(0, 22);
+  
+  if (signature !== expectedSignature) {
+    console.warn('Stream proxy reference signature invalid');
+    return null;
+  }
+  
+  const data = Buffer.from(payload, 'base64url');
+  if (data.length < REFERENCE_IV_BYTES + REFERENCE_TAG_BYTES) {
+    return null;
+  }
+  
+  let decoded: string;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', REFERENCE_KEY, data.subarray(0, REFERENCE_IV_BYTES));
+    decipher.setAAD(Buffer.from(contentKey));
+    decipher.setAuthTag(data.subarray(data.length - REFERENCE_TAG_BYTES));
+    decoded = Buffer.concat([
+      decipher.update(data.subarray(REFERENCE_IV_BYTES, data.length - REFERENCE_TAG_BYTES)),
+      decipher.final()
+    ]).toString();
+  } catch {
+    console.warn('Stream proxy reference cannot be decrypted');
+    return null;
+  }
+  
+  const separator = decoded.indexOf('|');
+  if (separator === -1) {
+    return null;
+  }
+  
+  return {
+    sourceId: decoded.substring(0, separator),
+    url: decoded.substring(separator + 1)
+  };
+}
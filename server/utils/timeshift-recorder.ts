@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { Channel, StreamSource } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  openCapture,
+  setCaptureSources,
+  pollCapture,
+  removeCapturedSegments,
+  saveCaptureIndex,
+  readCapturedMedia,
+  HlsCapture,
+  CaptureIndex
+} from './hls-capture';
+
+/**
+ * Timeshift recorder for live channels
+ *
+ * Every channel with timeshift enabled is captured continuously (see
+ * hls-capture), keeping a rolling window of the channel's timeshiftWindow
+ * minutes on local disk. The stream proxy serves the window as a sliding
+ * live playlist, so viewers can pause, rewind and jump back within it.
+ *
+ * Segments are stored unencrypted; the proxy encrypts them with the content
+ * key when the channel is encrypted, as it does for live segments.
+ */
+
+const TIMESHIFT_DIR = process.env.TIMESHIFT_DIR || path.join(process.cwd(), 'timeshift');
+
+const POLL_TICK = 1000; // How often recorders are looked at
+const RETRY_DELAY = 10 * 1000; // Wait after a failed poll before trying again
+const SYNC_INTERVAL = 60 * 1000; // How often recorders are matched to the channel settings
+
+type ChannelRecorder = {
+  capture: HlsCapture;
+  windowMinutes: number;
+  nextPollAt: number;
+  polling: boolean;
+  failing: boolean;   // Failure already logged, until the next successful poll
+};
+
+const recorders: Map<number, ChannelRecorder> = new Map();
+
+let pollInterval: NodeJS.Timeout | null = null;
+let syncInterval: NodeJS.Timeout | null = null;
+let syncInProgress = false;
+
+const getChannelDir = (channelId: number) => path.join(TIMESHIFT_DIR, `channel-${channelId}`);
+
+const getSources = (channel: Channel): StreamSource[] =>
+  Array.isArray(channel.streamSources) ? channel.streamSources as StreamSource[] : [];
+
+/**
+ * Polls a recorder, then prunes and saves its window. A failed poll makes
+ * the recorder look for a source again after RETRY_DELAY.
+ */
+async function runRecorder(channelId: number, recorder: ChannelRecorder): Promise<void> {
+  recorder.polling = true;
+  let changes = 0;
+
+  try {
+    const { recorded, nextPollIn } = await pollCapture(recorder.capture);
+    changes += recorded;
+    recorder.nextPollAt = Date.now() + nextPollIn;
+
+    if (recorder.failing) {
+      console.log(`Timeshift recording of channel ${channelId} resumed`);
+      recorder.failing = false;
+    }
+  } catch (error) {
+    if (!recorder.failing) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Timeshift recording of channel ${channelId} failed: ${reason}`);
+      recorder.failing = true;
+    }
+
+    recorder.nextPollAt = Date.now() + RETRY_DELAY;
+  }
+
+  try {
+    // The recorder may have been removed while it was polling
+    if (recorders.get(channelId) === recorder) {
+      changes += await removeCapturedSegments(recorder.capture, Date.now() - recorder.windowMinutes * 60 * 1000);
+      if (changes > 0) {
+        await saveCaptureIndex(recorder.capture);
+      }
+    }
+  } catch (error) {
+    console.error(`Error saving timeshift window of channel ${channelId}:`, error);
+  } finally {
+    recorder.polling = false;
+  }
+}
+
+/**
+ * Starts the recorders that are due to poll
+ */
+function pollRecorders(): void {
+  const now = Date.now();
+
+  Array.from(recorders.entries()).forEach(([channelId, recorder]) => {
+    if (!recorder.polling && recorder.nextPollAt <= now) {
+      runRecorder(channelId, recorder);
+    }
+  });
+}
+
+/**
+ * Matches the recorders to the channel settings: starts recording channels
+ * that have timeshift enabled, and stops recording (and deletes the
+ * recordings of) channels that no longer have it or no longer exist
+ */
+async function syncRecorders(): Promise<void> {
+  if (syncInProgress) {
+    return;
+  }
+
+  syncInProgress = true;
+
+  try {
+    const channels = (await storage.getChannels()).filter(channel => channel.timeshiftEnabled);
+    const enabledDirs = new Set(channels.map(channel => path.basename(getChannelDir(channel.id))));
+
+    for (const channel of channels) {
+      let recorder = recorders.get(channel.id);
+
+      if (!recorder) {
+        recorder = {
+          capture: await openCapture(getChannelDir(channel.id)),
+          windowMinutes: channel.timeshiftWindow,
+          nextPollAt: 0,
+          polling: false,
+          failing: false
+        };
+        recorders.set(channel.id, recorder);
+        console.log(`Timeshift recording of channel ${channel.id} started (${channel.timeshiftWindow} minute window)`);
+      }
+
+      recorder.windowMinutes = channel.timeshiftWindow;
+      setCaptureSources(recorder.capture, getSources(channel));
+    }
+
+    for (const channelId of Array.from(recorders.keys())) {
+      if (!channels.some(channel => channel.id === channelId)) {
+        recorders.delete(channelId);
+        console.log(`Timeshift recording of channel ${channelId} stopped`);
+      }
+    }
+
+    // Recordings of channels that are not recorded any more, also from before a restart
+    const dirs = await fs.promises.readdir(TIMESHIFT_DIR).catch(() => [] as string[]);
+    for (const dir of dirs) {
+      if (/^channel-\d+$/.test(dir) && !enabledDirs.has(dir)) {
+        await fs.promises.rm(path.join(TIMESHIFT_DIR, dir), { recursive: true, force: true });
+      }
+    }
+  } catch (error) {
+    console.error('Error syncing timeshift recorders:', error);
+  } finally {
+    syncInProgress = false;
+  }
+}
+
+/**
+ * Returns the recorded window of a channel, or null if it is not recorded
+ */
+export function getTimeshiftWindow(channelId: number): CaptureIndex | null {
+  return recorders.get(channelId)?.capture.index || null;
+}
+
+/**
+ * Reads a segment or init section of the recorded window of a channel
+ *
+ * @param channelId ID of the channel
+ * @param kind Whether to read a segment (by sequence) or an init section (by ID)
+ * @param id Sequence of the segment or ID of the init section
+ * @returns The data, or null if it is not (or no longer) in the window
+ */
+export async function readTimeshiftMedia(
+  channelId: number,
+  kind: 'segment' | 'map',
+  id: number
+): Promise<{ data: Buffer; contentType: string | undefined } | null> {
+  const recorder = recorders.get(channelId);
+  return recorder ? readCapturedMedia(recorder.capture.dir, recorder.capture.index, kind, id) : null;
+}
+
+/**
+ * Starts the timeshift recorder
+ */
+export function startTimeshiftRecorder(): void {
+  stopTimeshiftRecorder();
+
+  syncRecorders();
+  syncInterval = setInterval(syncRecorders, SYNC_INTERVAL);
+  pollInterval = setInterval(pollRecorders, POLL_TICK);
+
+  console.log(`Timeshift recorder started, recording to ${TIMESHIFT_DIR}`);
+}
+
+/**
+ * Stops the timeshift recorder. Recordings are kept on disk, so the windows
+ * survive a restart.
+ */
+export function stopTimeshiftRecorder(): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+  }
+
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+    recorders.clear();
+    console.log('Timeshift recorder stopped');
+  }
+}
@@ -0,0 +1,94 @@
+import { AxiosProxyConfig } from 'axios';
+import { StreamRequestProfile } from '@shared/schema';
+
+/**
+ * Upstream request settings of stream sources
+ *
+ * Some origins only answer requests with a particular User-Agent, Referer,
+ * Origin or cookie, or only from certain networks. Such sources carry a
+ * request profile, and every upstream request made for them (stream proxy,
+ * segment cache, stream checker, VOD link auditor) is built from it.
+ */
+
+export type UpstreamRequestConfig = {
+  headers: Record<string, string>;
+  proxy?: AxiosProxyConfig;
+};
+
+/**
+ * Sets a header, replacing it whatever the case of its existing name
+ */
+function setHeader(headers: Record<string, string>, name: string, value: string): void {
+  for (const existing of Object.keys(headers)) {
+    if (existing.toLowerCase() === name.toLowerCase()) {
+      delete headers[existing];
+    }
+  }
+
+  headers[name] = value;
+}
+
+/**
+ * Converts a proxy URL into the axios proxy configuration
+ *
+ * @returns The configuration, or undefined if the URL is not a valid HTTP(S) URL
+ */
+export function parseProxyUrl(proxyUrl: string): AxiosProxyConfig | undefined {
+  let url: URL;
+  try {
+    url = new URL(proxyUrl);
+  } catch {
+    return undefined;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return undefined;
+  }
+
+  return {
+    protocol: url.protocol.slice(0, -1),
+    host: url.hostname,
+    port: url.port ? parseInt(url.port) : (url.protocol === 'https:' ? 443 : 80),
+    auth: url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined
+  };
+}
+
+/**
+ * Builds the headers and proxy of an upstream request for a stream source
+ *
+ * @param profile The request profile of the source, if any
+ * @param defaultUserAgent User agent sent when the profile does not set one
+ * @param extraHeaders Request-specific headers (e.g. Range), which take precedence
+ */
+export function getUpstreamRequestConfig(
+  profile: StreamRequestProfile | undefined,
+  defaultUserAgent: string,
+  extraHeaders: Record<string, string> = {}
+): UpstreamRequestConfig {
+  const headers: Record<string, string> = { 'User-Agent': defaultUserAgent };
+
+  for (const [name, value] of Object.entries(profile?.headers || {})) {
+    setHeader(headers, name, value);
+  }
+
+  if (profile?.userAgent) {
+    setHeader(headers, 'User-Agent', profile.userAgent);
+  }
+
+  if (profile?.referer) {
+    setHeader(headers, 'Referer', profile.referer);
+  }
+
+  for (const [name, value] of Object.entries(extraHeaders)) {
+    setHeader(headers, name, value);
+  }
+
+  const proxy = profile?.proxy ? parseProxyUrl(profile.proxy) : undefined;
+  if (profile?.proxy && !proxy) {
+    console.warn(`Ignoring invalid stream source proxy: ${profile.proxy}`);
+  }
+
+  return proxy ? { headers, proxy } : { headers };
+}
@@ -0,0 +1,335 @@
+import { Movie, Episode, StreamSource, VodLinkStatus } from '@shared/schema';
+import { storage } from '../storage';
+import { probeStreamSource } from '../stream-checker';
+
+/**
+ * Auditor of movie and episode stream sources
+ *
+ * VOD links are not watched like channels: the auditor walks the whole
+ * catalogue slowly, one source per AUDIT_INTERVAL, and records the result of
+ * each source in vod_link_statuses. Sources are audited again once
+ * RECHECK_AFTER has passed, never-audited sources first. The broken links
+ * report, and its bulk fix and removal, are built on those statuses.
+ */
+
+const AUDIT_INTERVAL = 10 * 1000; // 10 seconds per source
+const RECHECK_AFTER = 24 * 60 * 60 * 1000; // 1 day
+const QUEUE_REBUILD_INTERVAL = 60 * 60 * 1000; // How often to look for due sources once a pass is done
+
+export type VodContentType = 'movie' | 'episode';
+
+// A stream source of a movie or episode
+export type VodLink = {
+  contentType: VodContentType;
+  contentId: number;
+  sourceUrl: string;
+};
+
+// A broken link in the report
+export type BrokenVodLink = {
+  id: number;                       // ID of the link status
+  contentType: VodContentType;
+  contentId: number;
+  title: string;                    // For episodes, including the series and episode number
+  sourceUrl: string;
+  sourceLabel?: string;
+  failureReason: string | null;
+  lastChecked: Date;
+};
+
+let auditInterval: NodeJS.Timeout | null = null;
+let auditInProgress = false;
+
+// Sources of the current pass, and sources to audit before them
+let auditQueue: VodLink[] = [];
+let priorityQueue: VodLink[] = [];
+let queueBuiltAt = 0;
+
+const linkKey = (link: VodLink) => `${link.contentType}:${link.contentId}:${link.sourceUrl}`;
+
+const getSources = (content: Movie | Episode): StreamSource[] =>
+  Array.isArray(content.streamSources) ? content.streamSources as StreamSource[] : [];
+
+/**
+ * Loads all movies and episodes
+ */
+async function getCatalogue(): Promise<{ movies: Movie[]; episodes: Episode[] }> {
+  const movies = await storage.getMovies();
+  const episodes: Episode[] = [];
+
+  for (const series of await storage.getAllSeries()) {
+    episodes.push(...await storage.getEpisodes(series.id));
+  }
+
+  return { movies, episodes };
+}
+
+/**
+ * Builds the queue of sources to audit in this pass and removes the statuses
+ * of sources that no longer exist
+ */
+async function buildAuditQueue(): Promise<void> {
+  const { movies, episodes } = await getCatalogue();
+  const statuses = await storage.getVodLinkStatuses();
+
+  const links: VodLink[] = [
+    ...movies.flatMap(movie => getSources(movie).map(source => ({ contentType: 'movie' as const, contentId: movie.id, sourceUrl: source.url }))),
+    ...episodes.flatMap(episode => getSources(episode).map(source => ({ contentType: 'episode' as const, contentId: episode.id, sourceUrl: source.url })))
+  ];
+
+  const existing = new Set(links.map(linkKey));
+  const lastChecked: Map<string, number> = new Map();
+
+  for (const status of statuses) {
+    const key = linkKey(status as VodLink);
+    if (existing.has(key)) {
+      lastChecked.set(key, status.lastChecked.getTime());
+    } else {
+      await storage.deleteVodLinkStatus(status.id);
+    }
+  }
+
+  const now = Date.now();
+  auditQueue = links
+    .filter(link => now - (lastChecked.get(linkKey(link)) ?? 0) >= RECHECK_AFTER)
+    .sort((a, b) => (lastChecked.get(linkKey(a)) ?? 0) - (lastChecked.get(linkKey(b)) ?? 0));
+  queueBuiltAt = now;
+
+  if (auditQueue.length > 0) {
+    console.log(`VOD link audit: ${auditQueue.length} of ${links.length} sources are due`);
+  }
+}
+
+/**
+ * Audits a single source, if the movie or episode still has it
+ */
+async function auditLink(link: VodLink): Promise<VodLinkStatus | undefined> {
+  const content = link.contentType === 'movie'
+    ? await storage.getMovie(link.contentId)
+    : await storage.getEpisode(link.contentId);
+
+  const source = content && getSources(content).find(source => source.url === link.sourceUrl);
+  if (!source) {
+    return undefined;
+  }
+
+  const result = await probeStreamSource(source);
+
+  return storage.saveVodLinkStatus({
+    ...link,
+    isOnline: result.isOnline,
+    failureReason: result.failureReason
+  });
+}
+
+/**
+ * Audits the next source in the queue
+ */
+async function auditNextLink(): Promise<void> {
+  if (auditInProgress) {
+    return;
+  }
+
+  auditInProgress = true;
+
+  try {
+    if (priorityQueue.length === 0 && auditQueue.length === 0 && Date.now() - queueBuiltAt >= QUEUE_REBUILD_INTERVAL) {
+      await buildAuditQueue();
+    }
+
+    const link = priorityQueue.shift() || auditQueue.shift();
+    if (link) {
+      const status = await auditLink(link);
+      if (status && !status.isOnline) {
+        console.warn(`Broken VOD link on ${link.contentType} ${link.contentId}: ${link.sourceUrl} (${status.failureReason})`);
+      }
+    }
+  } catch (error) {
+    console.error('Error auditing VOD links:', error);
+  } finally {
+    auditInProgress = false;
+  }
+}
+
+/**
+ * Audits the given sources before the rest of the catalogue
+ */
+export function queueVodLinkAudit(links: VodLink[]): void {
+  const queued = new Set(priorityQueue.map(linkKey));
+  priorityQueue.push(...links.filter(link => !queued.has(linkKey(link))));
+}
+
+/**
+ * Returns the broken movie or episode links, most recently checked first
+ *
+ * @param contentType 'movie' or 'episode'
+ */
+export async function getBrokenVodLinks(contentType: VodContentType): Promise<BrokenVodLink[]> {
+  const statuses = (await storage.getVodLinkStatuses(contentType)).filter(status => !status.isOnline);
+  const seriesTitles: Map<number, string> = new Map();
+  const report: BrokenVodLink[] = [];
+
+  for (const status of statuses) {
+    let title: string;
+    let sources: StreamSource[];
+
+    if (contentType === 'movie') {
+      const movie = await storage.getMovie(status.contentId);
+      if (!movie) continue;
+      title = movie.title;
+      sources = getSources(movie);
+    } else {
+      const episode = await storage.getEpisode(status.contentId);
+      if (!episode) continue;
+
+      if (!seriesTitles.has(episode.seriesId)) {
+        const series = await storage.getSeries(episode.seriesId);
+        seriesTitles.set(episode.seriesId, series ? series.title : 'Unknown series');
+      }
+
+      title = `${seriesTitles.get(episode.seriesId)} S${episode.season}E${episode.episode}: ${episode.title}`;
+      sources = getSources(episode);
+    }
+
+    // The source may have been changed since it was audited
+    const source = sources.find(source => source.url === status.sourceUrl);
+    if (!source) continue;
+
+    report.push({
+      id: status.id,
+      contentType,
+      contentId: status.contentId,
+      title,
+      sourceUrl: status.sourceUrl,
+      sourceLabel: source.label,
+      failureReason: status.failureReason,
+      lastChecked: status.lastChecked
+    });
+  }
+
+  return report.sort((a, b) => b.lastChecked.getTime() - a.lastChecked.getTime());
+}
+
+/**
+ * Changes the stream sources of broken links, grouped per movie or episode
+ *
+ * @param ids IDs of the link statuses
+ * @param change Returns the new source, or null to remove it
+ * @returns The number of changed sources
+ */
+async function updateBrokenLinks(ids: number[], change: (source: StreamSource) => StreamSource | null): Promise<number> {
+  const byContent: Map<string, VodLinkStatus[]> = new Map();
+
+  for (const id of ids) {
+    const status = await storage.getVodLinkStatus(id);
+    if (!status) continue;
+
+    const key = `${status.contentType}:${status.contentId}`;
+    byContent.set(key, [...(byContent.get(key) || []), status]);
+  }
+
+  let changedCount = 0;
+
+  for (const statuses of Array.from(byContent.values())) {
+    const { contentType, contentId } = statuses[0];
+    const content = contentType === 'movie' ? await storage.getMovie(contentId) : await storage.getEpisode(contentId);
+    if (!content) continue;
+
+    const urls = new Set(statuses.map(status => status.sourceUrl));
+    const changedLinks: VodLink[] = [];
+
+    const streamSources = getSources(content).flatMap(source => {
+      if (!urls.has(source.url)) return [source];
+
+      const changed = change(source);
+      if (changed?.url === source.url) return [source];
+
+      changedCount++;
+      if (!changed) return [];
+
+      changedLinks.push({ contentType: contentType as VodContentType, contentId, sourceUrl: changed.url });
+      return [changed];
+    });
+
+    if (contentType === 'movie') {
+      await storage.updateMovie(contentId, { streamSources });
+    } else {
+      await storage.updateEpisode(contentId, { streamSources });
+    }
+
+    // The old statuses no longer apply; changed sources are audited right away
+    for (const status of statuses) {
+      if (!streamSources.some(source => source.url === status.sourceUrl)) {
+        await storage.deleteVodLinkStatus(status.id);
+      }
+    }
+
+    queueVodLinkAudit(changedLinks);
+  }
+
+  return changedCount;
+}
+
+/**
+ * Fixes broken links by replacing part of their URLs, e.g. an old host name
+ *
+ * @param ids IDs of the link statuses
+ * @param find Text to replace in the source URLs
+ * @param replace Replacement text
+ * @returns The number of changed sources
+ */
+export async function fixBrokenVodLinks(ids: number[], find: string, replace: string): Promise<number> {
+  return updateBrokenLinks(ids, source => ({ ...source, url: source.url.split(find).join(replace) }));
+}
+
+/**
+ * Removes broken links from their movies and episodes
+ *
+ * @param ids IDs of the link statuses
+ * @returns The number of removed sources
+ */
+export async function removeBrokenVodLinks(ids: number[]): Promise<number> {
+  return updateBrokenLinks(ids, () => null);
+}
+
+/**
+ * Audits broken links again right away, e.g. after fixing them at the origin
+ *
+ * @param ids IDs of the link statuses
+ */
+export async function recheckBrokenVodLinks(ids: number[]): Promise<void> {
+  const links: VodLink[] = [];
+
+  for (const id of ids) {
+    const status = await storage.getVodLinkStatus(id);
+    if (status) {
+      links.push({ contentType: status.contentType as VodContentType, contentId: status.contentId, sourceUrl: status.sourceUrl });
+    }
+  }
+
+  queueVodLinkAudit(links);
+}
+
+/**
+ * Starts the VOD link auditor
+ */
+export function startVodLinkAuditor(): void {
+  if (auditInterval) {
+    clearInterval(auditInterval);
+  }
+
+  auditInterval = setInterval(auditNextLink, AUDIT_INTERVAL);
+
+  console.log(`VOD link auditor started, will check a source every ${AUDIT_INTERVAL / 1000} seconds`);
+}
+
+/**
+ * Stops the VOD link auditor
+ */
+export function stopVodLinkAuditor(): void {
+  if (auditInterval) {
+    clearInterval(auditInterval);
+    auditInterval = null;
+    console.log('VOD link auditor stopped');
+  }
+}
@@ -0,0 +1,102 @@
+import { ActiveStreamToken, WatchHistory, InsertWatchHistory } from '@shared/schema';
+import { storage } from '../storage';
+
+/**
+ * Watch history of stream sessions
+ *
+ * Every stream session (one playback in one player) has a single
+ * watch_history row, created when the session is opened. Players report their
+ * position and the content's duration with every heartbeat, and the time
+ * between heartbeats during which the player was playing is added to the
+ * row's watch time. The row is closed when the session ends: when the player
+ * stops, when it is ended by an admin or another device, or when it times out.
+ */
+
+// Longer gaps between heartbeats (a suspended tab, a lost connection) only count up to this
+const MAX_HEARTBEAT_GAP = 60 * 1000; // 1 minute, twice the heartbeat interval
+
+// Content watched up to this percentage counts as completed (credits are rarely watched)
+const COMPLETED_PERCENT = 90;
+
+// What a player reports with a heartbeat
+export type WatchProgress = {
+  position: number;           // Seconds into the content
+  duration: number | null;    // Length of the content in seconds, null for live streams
+  playing: boolean;           // false while paused
+};
+
+/**
+ * Starts the watch history row of a new playback
+ *
+ * @returns The new watch history row
+ */
+export async function openWatchSession(userId: number, contentType: string, contentId: number): Promise<WatchHistory> {
+  const now = new Date();
+
+  return storage.recordWatchEvent({
+    userId,
+    contentType,
+    contentId,
+    startTime: now,
+    updatedAt: now,
+    duration: 0,
+    progress: 0,
+    position: 0,
+    completed: false
+  });
+}
+
+/**
+ * Adds a heartbeat to the watch history row of a stream session
+ *
+ * @param session The stream session
+ * @param progress What the player reported
+ */
+export async function updateWatchSession(session: ActiveStreamToken, progress: WatchProgress): Promise<void> {
+  if (!session.watchHistoryId) {
+    return;
+  }
+
+  const watch = await storage.getWatchHistory(session.watchHistoryId);
+  if (!watch || watch.endTime) {
+    return;
+  }
+
+  const now = new Date();
+  const lastUpdate = (watch.updatedAt || watch.startTime).getTime();
+  const watched = progress.playing ? Math.min(now.getTime() - lastUpdate, MAX_HEARTBEAT_GAP) : 0;
+
+  const update: Partial<InsertWatchHistory> = {
+    updatedAt: now,
+    duration: (watch.duration || 0) + Math.max(0, Math.round(watched / 1000)),
+    position: Math.round(progress.position)
+  };
+
+  if (progress.duration && progress.duration > 0) {
+    update.progress = Math.min(100, Math.round((progress.position / progress.duration) * 100));
+    update.completed = watch.completed || update.progress >= COMPLETED_PERCENT;
+  }
+
+  await storage.updateWatchEvent(watch.id, update);
+}
+
+/**
+ * Closes the watch history row of a stream session that has ended
+ *
+ * @param session The stream session
+ * @param endedAt When playback stopped; sessions that timed out stopped at their last heartbeat
+ */
+export async function closeWatchSession(session: ActiveStreamToken, endedAt?: Date): Promise<void> {
+  if (!session.watchHistoryId) {
+    return;
+  }
+
+  const watch = await storage.getWatchHistory(session.watchHistoryId);
+  if (!watch || watch.endTime) {
+    return;
+  }
+
+  await storage.updateWatchEvent(watch.id, {
+    endTime: endedAt || watch.updatedAt || new Date()
+  });
+}
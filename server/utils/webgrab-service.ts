@@ -5,11 +5,11 @@ import { exec } from 'child_process';
 import { storage } from '../storage';
 import { epgService } from '../epg-service';
 import axios from 'axios';
-import * as xml2js from 'xml2js';
+import { Readable } from 'stream';
+import { openGuideSource, parseXmltv, XmltvChannel } from './xmltv-import';
 
 const execAsync = promisify(exec);
 const writeFileAsync = promisify(fs.writeFile);
-const readFileAsync = promisify(fs.readFile);
 const mkdirAsync = promisify(fs.mkdir);
 const existsAsync = promisify(fs.exists);
 
@@ -290,58 +290,40 @@ export class WebGrabService {
         throw new Error('EPG source not found');
       }
       
-      // Determine if we're using a local WebGrab+ file or a remote URL
-      let xmlContent: string;
-      if (source.url.startsWith('file://')) {
-        // Local file from WebGrab+
-        const filePath = source.url.replace('file://', '');
-        xmlContent = await readFileAsync(filePath, 'utf8');
-      } else {
-        // Try to fetch from the EPG source URL
-        try {
-          const response = await axios.get(source.url);
-          xmlContent = response.data;
-        } catch (error) {
-          console.error(`Failed to fetch EPG data from ${source.url}:`, error);
-          
-          // As a fallback, generate a sample XMLTV file for testing
-          console.log('Using sample XMLTV data for testing');
-          
-          // Generate file in the output directory
-          const outputFile = path.join(this.webgrabOutputDir, 'guide.xml');
-          const sampleXML = await this.generateSampleXMLTV(sourceId);
-          await writeFileAsync(outputFile, sampleXML, 'utf8');
-          
-          xmlContent = sampleXML;
+      // Read the channels of the local WebGrab+ file or the remote URL
+      let xmltvChannels: XmltvChannel[];
+      try {
+        xmltvChannels = await this.readGuideChannels(await openGuideSource(source.url));
+      } catch (error) {
+        if (source.url.startsWith('file://')) {
+          throw error;
         }
+        console.error(`Failed to fetch EPG data from ${source.url}:`, error);
+        
+        // As a fallback, generate a sample XMLTV file for testing
+        console.log('Using sample XMLTV data for testing');
+        
+        // Generate file in the output directory
+        const outputFile = path.join(this.webgrabOutputDir, 'guide.xml');
+        const sampleXML = await this.generateSampleXMLTV(sourceId);
+        await writeFileAsync(outputFile, sampleXML, 'utf8');
+        
+        xmltvChannels = await this.readGuideChannels(Readable.from([Buffer.from(sampleXML)]));
       }
       
-      // Parse XML to extract channel information
-      const parser = new xml2js.Parser({ explicitArray: true });
-      const result = await parser.parseStringPromise(xmlContent);
-      
-      if (!result.tv || !result.tv.channel) {
+      if (xmltvChannels.length === 0) {
         console.log('No channel data found in XMLTV file');
         return 0;
       }
       
-      const xmltvChannels = result.tv.channel as Array<{
-        $: { id: string };
-        'display-name': string[] | string;
-      }>;
-      
       console.log(`Found ${xmltvChannels.length} channels in XMLTV file`);
       
       let mappingsCreated = 0;
       
       // Process each XMLTV channel
       for (const xmltvChannel of xmltvChannels) {
-        const channelId = xmltvChannel.$.id;
-        const displayName = Array.isArray(xmltvChannel['display-name']) 
-          ? xmltvChannel['display-name'][0]
-          : typeof xmltvChannel['display-name'] === 'string' 
-            ? xmltvChannel['display-name']
-            : '';
+        const channelId = xmltvChannel.id;
+        const displayName = xmltvChannel.displayNames[0] || '';
         
         // Skip if we already have a mapping for this channel
         const existingMapping = existingMappings.find(m => 
@@ -398,6 +380,15 @@ export class WebGrabService {
     }
   }
   
+  /**
+   * Read the channels of an XMLTV guide; its programmes are skipped as they stream past
+   */
+  private async readGuideChannels(input: Readable): Promise<XmltvChannel[]> {
+    const channels: XmltvChannel[] = [];
+    await parseXmltv(input, { channel: channel => { channels.push(channel); } });
+    return channels;
+  }
+  
   /**
    * Calculate similarity between two strings
    * Uses Levenshtein distance for string similarity
@@ -503,19 +494,10 @@ export class WebGrabService {
         return false;
       }
       
-      // Get XML content from source
-      let xmlContent: string;
+      // Get the channels of the source's guide
+      let xmltvChannels: XmltvChannel[];
       try {
-        // Try to fetch from the EPG source URL
-        if (source.url.startsWith('file://')) {
-          // Local file
-          const filePath = source.url.replace('file://', '');
-          xmlContent = await readFileAsync(filePath, 'utf8');
-        } else {
-          // Remote URL
-          const response = await axios.get(source.url);
-          xmlContent = response.data;
-        }
+        xmltvChannels = await this.readGuideChannels(await openGuideSource(source.url));
       } catch (error) {
         console.error(`Failed to fetch EPG data from ${source.url}:`, error);
         
@@ -534,31 +516,19 @@ export class WebGrabService {
         return true;
       }
       
-      // Parse XML to extract channel information
+      // Match the channel against the guide's channels
       try {
-        const parser = new xml2js.Parser({ explicitArray: true });
-        const result = await parser.parseStringPromise(xmlContent);
-        
-        if (!result.tv || !result.tv.channel) {
+        if (xmltvChannels.length === 0) {
           console.log('No channel data found in XMLTV file');
           return false;
         }
         
-        const xmltvChannels = result.tv.channel as Array<{
-          $: { id: string };
-          'display-name': string[] | string;
-        }>;
-        
         // Find the best matching channel in the EPG
         let bestMatch: { id: string, name: string, score: number } | null = null;
         
         for (const xmltvChannel of xmltvChannels) {
-          const channelId = xmltvChannel.$.id;
-          const displayName = Array.isArray(xmltvChannel['display-name']) 
-            ? xmltvChannel['display-name'][0]
-            : typeof xmltvChannel['display-name'] === 'string' 
-              ? xmltvChannel['display-name']
-              : '';
+          const channelId = xmltvChannel.id;
+          const displayName = xmltvChannel.displayNames[0] || '';
           
           const similarity = this.calculateNameSimilarity(
             displayName.toLowerCase(), 
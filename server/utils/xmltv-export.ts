@@ -0,0 +1,186 @@
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { Response } from 'express';
+import { Channel, Program } from '@shared/schema';
+import { storage } from '../storage';
+
+/**
+ * XMLTV guide export
+ *
+ * Serializes channels and their programs as an XMLTV document, the guide
+ * format external players (VLC, Kodi, TiviMate) read alongside an M3U
+ * playlist. Channels are identified by their EPG ID when they have one, so
+ * guides and playlists match what the EPG sources use; other channels are
+ * identified by our channel ID.
+ */
+
+const gzip = promisify(zlib.gzip);
+
+// Guides cover this much by default, and at most MAX_GUIDE_DAYS
+const DEFAULT_HOURS_BEFORE = 6;
+const DEFAULT_DAYS_AFTER = 7;
+export const MAX_GUIDE_DAYS = 14;
+
+export type GuideWindow = {
+  start: Date;
+  end: Date;
+};
+
+/**
+ * Returns the XMLTV channel ID of a channel, which playlists use as tvg-id
+ */
+export function getGuideChannelId(channel: Channel): string {
+  return channel.epgId || String(channel.id);
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// XMLTV times look like 20240131183000 +0000
+const formatXmltvTime = (date: Date) =>
+  `${date.toISOString().replace(/[-:T]/g, '').substring(0, 14)} +0000`;
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+/**
+ * Returns the default guide window: from a few hours ago to a week ahead
+ */
+export function getDefaultGuideWindow(): GuideWindow {
+  return {
+    start: new Date(Date.now() - DEFAULT_HOURS_BEFORE * 60 * 60 * 1000),
+    end: new Date(Date.now() + DEFAULT_DAYS_AFTER * 24 * 60 * 60 * 1000)
+  };
+}
+
+/**
+ * Renders the elements of a programme after its title, in the order the
+ * XMLTV DTD requires
+ */
+function renderProgramDetails(program: Program): string[] {
+  const lines: string[] = [];
+
+  if (program.episodeTitle) {
+    lines.push(`    <sub-title>${escapeXml(program.episodeTitle)}</sub-title>`);
+  }
+  if (program.description) {
+    lines.push(`    <desc>${escapeXml(program.description)}</desc>`);
+  }
+
+  const directors = toStringArray(program.directors);
+  const actors = toStringArray(program.castMembers);
+  if (directors.length > 0 || actors.length > 0) {
+    lines.push('    <credits>');
+    directors.forEach(name => lines.push(`      <director>${escapeXml(name)}</director>`));
+    actors.forEach(name => lines.push(`      <actor>${escapeXml(name)}</actor>`));
+    lines.push('    </credits>');
+  }
+
+  if (program.year) {
+    lines.push(`    <date>${program.year}</date>`);
+  }
+  if (program.category) {
+    lines.push(`    <category>${escapeXml(program.category)}</category>`);
+  }
+  if (program.posterUrl) {
+    lines.push(`    <icon src="${escapeXml(program.posterUrl)}" />`);
+  }
+
+  // Seasons and episodes are stored 1-based; xmltv_ns numbers from 0
+  if (program.season || program.episode) {
+    const season = program.season ? String(program.season - 1) : '';
+    const episode = program.episode ? String(program.episode - 1) : '';
+    lines.push(`    <episode-num system="xmltv_ns">${season}.${episode}.</episode-num>`);
+
+    const onscreen = [
+      program.season ? `S${String(program.season).padStart(2, '0')}` : '',
+      program.episode ? `E${String(program.episode).padStart(2, '0')}` : ''
+    ].join('');
+    lines.push(`    <episode-num system="onscreen">${onscreen}</episode-num>`);
+  }
+
+  if (program.rating) {
+    lines.push('    <rating>');
+    lines.push(`      <value>${escapeXml(program.rating)}</value>`);
+    lines.push('    </rating>');
+  }
+
+  return lines;
+}
+
+/**
+ * Builds an XMLTV document
+ *
+ * @param channels Channels to include
+ * @param programs Programs of those channels
+ * @returns The XMLTV document
+ */
+export function buildXmltvGuide(channels: Channel[], programs: Program[]): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE tv SYSTEM "xmltv.dtd">',
+    '<tv generator-info-name="Streamvy">'
+  ];
+
+  const guideIds = new Map<number, string>();
+  for (const channel of channels) {
+    const guideId = getGuideChannelId(channel);
+    guideIds.set(channel.id, guideId);
+
+    lines.push(`  <channel id="${escapeXml(guideId)}">`);
+    lines.push(`    <display-name>${escapeXml(channel.name)}</display-name>`);
+    if (channel.logo) {
+      lines.push(`    <icon src="${escapeXml(channel.logo)}" />`);
+    }
+    lines.push('  </channel>');
+  }
+
+  for (const program of programs) {
+    const guideId = guideIds.get(program.channelId);
+    if (!guideId) {
+      continue;
+    }
+
+    lines.push(
+      `  <programme start="${formatXmltvTime(program.startTime)}" stop="${formatXmltvTime(program.endTime)}" channel="${escapeXml(guideId)}">`
+    );
+    lines.push(`    <title>${escapeXml(program.title)}</title>`);
+    lines.push(...renderProgramDetails(program));
+    lines.push('  </programme>');
+  }
+
+  lines.push('</tv>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds the XMLTV guide of channels over a time window
+ *
+ * @param channels Channels to include
+ * @param window Programs overlapping this window are included
+ * @returns The XMLTV document
+ */
+export async function exportXmltvGuide(channels: Channel[], window: GuideWindow): Promise<string> {
+  const programs = await storage.getProgramsInRange(window.start, window.end, channels.map(channel => channel.id));
+  return buildXmltvGuide(channels, programs);
+}
+
+/**
+ * Sends an XMLTV document, gzip-compressed if requested (guide.xml.gz)
+ */
+export async function sendXmltvGuide(res: Response, xml: string, compress: boolean): Promise<void> {
+  if (compress) {
+    res.setHeader('Content-Type', 'application/gzip');
+    res.send(await gzip(xml));
+    return;
+  }
+
+  res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+  res.send(xml);
+}
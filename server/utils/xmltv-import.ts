@@ -0,0 +1,425 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StringDecoder } from 'string_decoder';
+import { fileURLToPath, pathToFileURL } from 'url';
+import axios from 'axios';
+import sax from 'sax';
+
+/**
+ * Streaming XMLTV reader for EPG imports
+ *
+ * Guides are read from http(s) URLs, file:// URLs and uploads, and parsed
+ * with a SAX parser one chunk at a time: each <channel> and <programme> is
+ * handed to the caller as soon as it is complete, and the next chunk is only
+ * read once the caller is done with them. Memory use therefore does not grow
+ * with the size of the guide. Gzip-compressed guides (.xml.gz) and zip
+ * archives (.zip, the guide being the first file) are recognised by their
+ * first bytes and decompressed on the fly, whatever their URL or file name.
+ */
+
+const EPG_UPLOAD_DIR = process.env.EPG_UPLOAD_DIR || path.join(process.cwd(), 'epg-uploads');
+
+const GZIP_SIGNATURE = Buffer.from([0x1f, 0x8b]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+// Zip local file header flags
+const ZIP_FLAG_ENCRYPTED = 0x01;
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x08; // Sizes follow the data instead of being in the header
+
+export type XmltvChannel = {
+  id: string;
+  displayNames: string[];
+  icon: string | null;
+};
+
+export type XmltvProgramme = {
+  channel: string;
+  start: string;
+  stop: string | null;
+  title: string;
+  subTitle: string | null;
+  desc: string | null;
+  categories: string[];
+  episodeNums: Array<{ system: string | null; value: string }>;
+  date: string | null;
+  directors: string[];
+  actors: string[];
+  rating: string | null;
+  icon: string | null;
+};
+
+export type XmltvHandlers = {
+  channel?: (channel: XmltvChannel) => Promise<void> | void;
+  programme?: (programme: XmltvProgramme) => Promise<void> | void;
+};
+
+export type XmltvParseResult = {
+  channels: number;
+  programmes: number;
+};
+
+export class XmltvImportError extends Error {}
+
+/**
+ * Reads a byte stream chunk by chunk, with look-ahead for file signatures
+ * and zip headers
+ */
+class ChunkReader {
+  private buffered = Buffer.alloc(0);
+
+  constructor(private iterator: AsyncIterator<Buffer>) {}
+
+  private async fill(): Promise<boolean> {
+    const next = await this.iterator.next();
+    if (next.done) {
+      return false;
+    }
+    this.buffered = this.buffered.length > 0 ? Buffer.concat([this.buffered, next.value]) : next.value;
+    return true;
+  }
+
+  /**
+   * Returns the next bytes without consuming them (fewer at the end of the stream)
+   */
+  async peek(size: number): Promise<Buffer> {
+    while (this.buffered.length < size && await this.fill());
+    return this.buffered.subarray(0, size);
+  }
+
+  /**
+   * Consumes the next bytes (fewer at the end of the stream)
+   */
+  async read(size: number): Promise<Buffer> {
+    const bytes = await this.peek(size);
+    this.buffered = this.buffered.subarray(bytes.length);
+    return bytes;
+  }
+
+  /**
+   * Consumes the rest of the stream, or the next `limit` bytes of it
+   */
+  async *chunks(limit = Infinity): AsyncGenerator<Buffer> {
+    let remaining = limit;
+    while (remaining > 0) {
+      if (this.buffered.length === 0 && !(await this.fill())) {
+        return;
+      }
+      const chunk = this.buffered.subarray(0, Math.min(remaining, this.buffered.length));
+      this.buffered = this.buffered.subarray(chunk.length);
+      remaining -= chunk.length;
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Runs compressed chunks through a zlib decompressor
+ */
+async function* inflate(chunks: AsyncGenerator<Buffer>, decompressor: zlib.Gunzip | zlib.InflateRaw): AsyncGenerator<Buffer> {
+  const source = Readable.from(chunks);
+  source.on('error', error => decompressor.destroy(error));
+
+  try {
+    yield* source.pipe(decompressor) as AsyncIterable<Buffer>;
+  } finally {
+    source.destroy();
+  }
+}
+
+/**
+ * Extracts the first file of a zip archive. Directory entries before it are
+ * skipped; the archive's central directory is never needed.
+ */
+async function* readZipEntry(reader: ChunkReader): AsyncGenerator<Buffer> {
+  for (;;) {
+    const header = await reader.read(30);
+    if (header.length < 30 || header.readUInt32LE(0) !== ZIP_SIGNATURE.readUInt32LE(0)) {
+      throw new XmltvImportError('The zip archive does not contain a guide');
+    }
+
+    const flags = header.readUInt16LE(6);
+    const method = header.readUInt16LE(8);
+    const compressedSize = header.readUInt32LE(18);
+    const name = (await reader.read(header.readUInt16LE(26))).toString('utf8');
+    await reader.read(header.readUInt16LE(28)); // Extra field
+
+    // Unknown when streamed (data descriptor) or when the real size is in a zip64 extra field
+    const size = (flags & ZIP_FLAG_DATA_DESCRIPTOR) || compressedSize === 0xffffffff ? null : compressedSize;
+
+    if (name.endsWith('/')) {
+      await reader.read(size ?? 0);
+      continue;
+    }
+
+    if (flags & ZIP_FLAG_ENCRYPTED) {
+      throw new XmltvImportError('Encrypted zip archives are not supported');
+    }
+    if (method === 8) {
+      // Deflate streams end by themselves, so an unknown size is fine
+      yield* inflate(reader.chunks(size ?? Infinity), zlib.createInflateRaw());
+      return;
+    }
+    if (method === 0 && size !== null) {
+      yield* reader.chunks(size);
+      return;
+    }
+
+    throw new XmltvImportError(`Unsupported zip compression method: ${method}`);
+  }
+}
+
+/**
+ * Decompresses a gzip or zip guide; other input is passed through as it is
+ */
+async function* decompressGuide(input: Readable): AsyncGenerator<Buffer> {
+  const reader = new ChunkReader(input[Symbol.asyncIterator]());
+  const signature = await reader.peek(ZIP_SIGNATURE.length);
+
+  if (signature.subarray(0, GZIP_SIGNATURE.length).equals(GZIP_SIGNATURE)) {
+    yield* inflate(reader.chunks(), zlib.createGunzip());
+  } else if (signature.equals(ZIP_SIGNATURE)) {
+    yield* readZipEntry(reader);
+  } else {
+    yield* reader.chunks();
+  }
+}
+
+/**
+ * Opens the guide of an EPG source
+ *
+ * @param url http(s) URL, or file:// URL of a guide on the server's disk
+ * @returns The guide, possibly compressed (see parseXmltv)
+ */
+export async function openGuideSource(url: string): Promise<Readable> {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new XmltvImportError(`Invalid guide URL: ${url}`);
+  }
+
+  if (protocol === 'file:') {
+    const filePath = fileURLToPath(url);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new XmltvImportError(`Guide file not found: ${filePath}`);
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  if (protocol === 'http:' || protocol === 'https:') {
+    const response = await axios.get<Readable>(url, {
+      responseType: 'stream',
+      headers: {
+        'Accept': 'application/xml, text/xml, application/gzip, application/zip, */*',
+        'User-Agent': 'StreamHive/1.0 EPG Service'
+      }
+    });
+    return response.data;
+  }
+
+  throw new XmltvImportError(`Unsupported guide URL: ${url}`);
+}
+
+/**
+ * Stores an uploaded guide on the server's disk, so that its EPG source can
+ * be refreshed like any other
+ *
+ * @param input Request body with the guide
+ * @param filename Name of the uploaded file
+ * @returns file:// URL of the stored guide
+ */
+export async function saveGuideUpload(input: Readable, filename: string): Promise<string> {
+  await fs.promises.mkdir(EPG_UPLOAD_DIR, { recursive: true });
+
+  const safeName = path.basename(filename).replace(/[^\w.-]+/g, '_') || 'guide.xml';
+  const filePath = path.join(EPG_UPLOAD_DIR, `${Date.now()}-${safeName}`);
+
+  try {
+    await pipeline(input, fs.createWriteStream(filePath));
+  } catch (error) {
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+
+  return pathToFileURL(filePath).href;
+}
+
+/**
+ * Parses an XMLTV guide, calling the handlers for each channel and programme
+ * in document order. The guide may be gzip- or zip-compressed. Markup errors
+ * are tolerated as far as the parser can recover from them, as published
+ * guides often have a few.
+ *
+ * @param input The guide
+ * @param handlers Called for each channel and programme; awaited before the
+ *   guide is read further. Errors thrown by them abort the import.
+ * @throws XmltvImportError if the input is not an XMLTV guide
+ */
+export async function parseXmltv(input: Readable, handlers: XmltvHandlers): Promise<XmltvParseResult> {
+  const parser = sax.parser(false, { lowercase: true, trim: true });
+  const result: XmltvParseResult = { channels: 0, programmes: 0 };
+
+  // Elements completed by the chunk being parsed, handed over after it
+  const completed: Array<{ channel: XmltvChannel } | { programme: XmltvProgramme }> = [];
+
+  const openElements: string[] = [];
+  let sawGuide = false;
+  let text = '';
+  let channel: XmltvChannel | null = null;
+  let programme: XmltvProgramme | null = null;
+  let episodeNumSystem: string | null = null;
+
+  const attribute = (tag: sax.Tag | sax.QualifiedTag, name: string): string | null => {
+    const value = tag.attributes[name];
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  };
+
+  parser.onopentag = tag => {
+    const parent = openElements[openElements.length - 1];
+    openElements.push(tag.name);
+    text = '';
+
+    if (tag.name === 'tv' && openElements.length === 1) {
+      sawGuide = true;
+    } else if (tag.name === 'channel' && parent === 'tv') {
+      channel = { id: attribute(tag, 'id') || '', displayNames: [], icon: null };
+    } else if (tag.name === 'programme' && parent === 'tv') {
+      programme = {
+        channel: attribute(tag, 'channel') || '',
+        start: attribute(tag, 'start') || '',
+        stop: attribute(tag, 'stop'),
+        title: '',
+        subTitle: null,
+        desc: null,
+        categories: [],
+        episodeNums: [],
+        date: null,
+        directors: [],
+        actors: [],
+        rating: null,
+        icon: null
+      };
+    } else if (tag.name === 'icon' && parent === 'channel' && channel) {
+      channel.icon = attribute(tag, 'src');
+    } else if (tag.name === 'icon' && parent === 'programme' && programme) {
+      programme.icon = attribute(tag, 'src');
+    } else if (tag.name === 'episode-num') {
+      episodeNumSystem = attribute(tag, 'system');
+    }
+  };
+
+  parser.ontext = value => {
+    text += value;
+  };
+
+  parser.oncdata = value => {
+    text += value;
+  };
+
+  parser.onclosetag = name => {
+    openElements.pop();
+    const parent = openElements[openElements.length - 1];
+    const value = text.trim();
+    text = '';
+
+    if (name === 'channel' && parent === 'tv' && channel) {
+      if (channel.id) {
+        completed.push({ channel });
+      }
+      channel = null;
+    } else if (name === 'programme' && parent === 'tv' && programme) {
+      if (programme.channel && programme.start && programme.title) {
+        completed.push({ programme });
+      }
+      programme = null;
+    } else if (channel && name === 'display-name' && value) {
+      channel.displayNames.push(value);
+    } else if (programme && value) {
+      switch (name) {
+        case 'title':
+          if (!programme.title) programme.title = value;
+          break;
+        case 'sub-title':
+          if (!programme.subTitle) programme.subTitle = value;
+          break;
+        case 'desc':
+          if (!programme.desc) programme.desc = value;
+          break;
+        case 'category':
+          programme.categories.push(value);
+          break;
+        case 'episode-num':
+          programme.episodeNums.push({ system: episodeNumSystem, value });
+          break;
+        case 'date':
+          programme.date = value;
+          break;
+        case 'director':
+          programme.directors.push(value);
+          break;
+        case 'actor':
+          programme.actors.push(value);
+          break;
+        case 'value':
+          if (parent === 'rating' && !programme.rating) {
+            programme.rating = value;
+          }
+          break;
+      }
+    }
+  };
+
+  // Carry on after markup errors; the parser skips what it cannot make sense of
+  parser.onerror = () => {
+    parser.resume();
+  };
+
+  const handOver = async () => {
+    for (const element of completed.splice(0)) {
+      if ('channel' in element) {
+        result.channels++;
+        await handlers.channel?.(element.channel);
+      } else {
+        result.programmes++;
+        await handlers.programme?.(element.programme);
+      }
+    }
+  };
+
+  const decoder = new StringDecoder('utf8');
+
+  try {
+    for await (const chunk of decompressGuide(input)) {
+      parser.write(decoder.write(chunk));
+
+      if (!sawGuide && openElements.length > 0) {
+        throw new XmltvImportError('Invalid XMLTV format');
+      }
+
+      await handOver();
+    }
+
+    parser.write(decoder.end());
+    parser.close();
+    await handOver();
+  } catch (error) {
+    // zlib errors have Z_DATA_ERROR, Z_BUF_ERROR, ... codes
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code?.startsWith('Z_')) {
+      throw new XmltvImportError(`The guide could not be decompressed: ${error.message}`);
+    }
+    throw error;
+  } finally {
+    input.destroy();
+  }
+
+  if (!sawGuide) {
+    throw new XmltvImportError('Invalid XMLTV format');
+  }
+
+  return result;
+}
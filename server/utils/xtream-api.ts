@@ -0,0 +1,519 @@
+import crypto from 'crypto';
+import { Category, Channel, Episode, Movie, Program, Series, StreamSource, User } from '@shared/schema';
+import { storage } from '../storage';
+import { comparePasswords } from '../auth';
+import { hasContentEntitlement } from './content-access';
+import { checkGeoAccess } from './geo-restrictions';
+import { getUserStreamLimit, getLiveStreamSessions } from './stream-sessions';
+import { getPlaylistChannels, isPlaylistChannel } from './playlist-export';
+import { getGuideChannelId } from './xmltv-export';
+
+/**
+ * Xtream Codes compatibility
+ *
+ * Most IPTV set-top apps speak the Xtream Codes API: player_api.php for the
+ * catalogue, and /live, /movie and /series URLs with the username and password
+ * in the path for playback. This module maps our channels, movies, series,
+ * episodes, categories and programs to the shapes those apps expect (which
+ * use strings for many numbers). Users sign in with their account's username
+ * and password; the catalogue only lists what the user may watch from the
+ * app's address. Addresses and usernames with too many failed sign-ins are
+ * refused for a while, so the password endpoints cannot be used to guess
+ * passwords.
+ */
+
+// Apps send the credentials with every request, so successful sign-ins are
+// remembered for a while instead of hashing the password every time
+const AUTH_CACHE_TTL = 60 * 1000; // 1 minute
+
+// Failed sign-ins allowed per address and per username within FAILED_SIGN_IN_WINDOW;
+// after that, passwords are not checked until the window has passed
+const MAX_FAILED_SIGN_INS_PER_IP = 20;
+const MAX_FAILED_SIGN_INS_PER_USERNAME = 10;
+const FAILED_SIGN_IN_WINDOW = 15 * 60 * 1000; // 15 minutes
+const MAX_TRACKED_SIGN_IN_FAILURES = 10000; // Expired entries are removed beyond this
+
+// Programs returned by get_short_epg when the app does not say
+const DEFAULT_SHORT_EPG_LIMIT = 4;
+
+// Days of upcoming programs in the guide actions
+const GUIDE_DAYS = 7;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Users whose credentials were checked recently, keyed by username and password hash,
+// with the stored password they were checked against
+const authCache: Map<string, { userId: number; storedPassword: string; checkedAt: number }> = new Map();
+
+// Recent failed sign-ins, keyed by 'ip:<address>' and 'user:<username>'
+const failedSignIns: Map<string, { count: number; firstAt: number }> = new Map();
+
+/**
+ * Sign-in refused because of too many failed attempts
+ */
+export class XtreamSignInThrottledError extends Error {}
+
+// Xtream Codes content types in playback URLs, and ours
+export const XTREAM_STREAM_TYPES: Record<string, string> = {
+  live: 'channel',
+  movie: 'movie',
+  series: 'episode'
+};
+
+export type XtreamServerAddress = {
+  protocol: string;       // 'http' or 'https'
+  host: string;           // Host header, with the port if any
+};
+
+const toUnixTime = (date: Date) => String(Math.floor(date.getTime() / 1000));
+
+// Xtream Codes dates look like 2024-01-31 18:30:00 (UTC here)
+const formatXtreamTime = (date: Date) => date.toISOString().replace('T', ' ').substring(0, 19);
+
+const toBase64 = (value: string | null | undefined) => Buffer.from(value || '').toString('base64');
+
+const formatDuration = (minutes: number | null) => {
+  const seconds = (minutes || 0) * 60;
+  return [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+};
+
+// Ratings out of 10 (e.g. "8.1") are also shown out of 5; other ratings (e.g. "PG-13") are not numeric
+const getRating5Based = (rating: string | null) => {
+  const value = rating ? parseFloat(rating) : NaN;
+  return isNaN(value) || value > 10 ? 0 : Math.round(value * 5) / 10;
+};
+
+/**
+ * Returns the file extension apps should use for content, from its primary stream source
+ */
+function getContainerExtension(streamSources: unknown): string {
+  const sources = Array.isArray(streamSources) ? (streamSources as StreamSource[]) : [];
+  const primary = [...sources].sort((a, b) => a.priority - b.priority)[0];
+
+  switch (primary?.format) {
+    case 'mp4':
+      return 'mp4';
+    case 'dash':
+      return 'mpd';
+    default:
+      return 'm3u8';
+  }
+}
+
+const hasStreamSources = (streamSources: unknown) => Array.isArray(streamSources) && streamSources.length > 0;
+
+/**
+ * Returns the failed sign-ins of an address or username in the current window
+ */
+function getFailedSignIns(key: string): number {
+  const failures = failedSignIns.get(key);
+  if (failures && Date.now() - failures.firstAt >= FAILED_SIGN_IN_WINDOW) {
+    failedSignIns.delete(key);
+    return 0;
+  }
+  return failures?.count ?? 0;
+}
+
+/**
+ * Counts a failed sign-in against an address or username
+ */
+function addFailedSignIn(key: string): void {
+  if (failedSignIns.size >= MAX_TRACKED_SIGN_IN_FAILURES) {
+    Array.from(failedSignIns.keys()).forEach(getFailedSignIns);
+  }
+
+  const failures = getFailedSignIns(key) > 0 ? failedSignIns.get(key)! : { count: 0, firstAt: Date.now() };
+  failures.count++;
+  failedSignIns.set(key, failures);
+}
+
+/**
+ * Checks a username and password against our users. Sign-ins remembered from
+ * the last minute are accepted even while the address or username is refused.
+ *
+ * @param ip Address the request came from
+ * @returns The user, or undefined if the credentials are wrong
+ * @throws XtreamSignInThrottledError if the address or username had too many failed sign-ins
+ */
+export async function authenticateXtreamUser(username: string, password: string, ip: string | undefined): Promise<User | undefined> {
+  const cacheKey = `${username}\n${crypto.createHash('sha256').update(password).digest('hex')}`;
+  const cached = authCache.get(cacheKey);
+  if (cached && Date.now() - cached.checkedAt < AUTH_CACHE_TTL) {
+    // A changed password makes the cached check stale
+    const user = await storage.getUser(cached.userId);
+    if (user && user.password === cached.storedPassword) {
+      return user;
+    }
+  }
+
+  const ipKey = `ip:${ip || 'unknown'}`;
+  const usernameKey = `user:${username.toLowerCase()}`;
+  if (
+    getFailedSignIns(ipKey) >= MAX_FAILED_SIGN_INS_PER_IP ||
+    getFailedSignIns(usernameKey) >= MAX_FAILED_SIGN_INS_PER_USERNAME
+  ) {
+    throw new XtreamSignInThrottledError('Too many failed sign-ins, try again later');
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user || !(await comparePasswords(password, user.password))) {
+    authCache.delete(cacheKey);
+    addFailedSignIn(ipKey);
+    addFailedSignIn(usernameKey);
+    return undefined;
+  }
+
+  failedSignIns.delete(usernameKey);
+  authCache.set(cacheKey, { userId: user.id, storedPassword: user.password, checkedAt: Date.now() });
+  return user;
+}
+
+/**
+ * The response to player_api.php without an action: the account and the server
+ */
+export async function getXtreamAccountInfo(user: User, password: string, server: XtreamServerAddress) {
+  const premiumStatus = await storage.checkUserPremiumStatus(user.id);
+  const limit = await getUserStreamLimit(user.id);
+  const sessions = await getLiveStreamSessions(user.id);
+  const [hostname, port] = server.host.split(':');
+  const now = new Date();
+
+  return {
+    user_info: {
+      username: user.username,
+      password,
+      message: '',
+      auth: 1,
+      status: 'Active',
+      exp_date: premiumStatus.isPremium && premiumStatus.expiryDate ? toUnixTime(premiumStatus.expiryDate) : null,
+      is_trial: '0',
+      active_cons: String(sessions.length),
+      created_at: toUnixTime(user.createdAt),
+      max_connections: String(limit),
+      allowed_output_formats: ['m3u8', 'ts']
+    },
+    server_info: {
+      url: hostname,
+      port: server.protocol === 'http' ? port || '80' : '80',
+      https_port: server.protocol === 'https' ? port || '443' : '443',
+      server_protocol: server.protocol,
+      rtmp_port: '0',
+      timezone: 'UTC',
+      timestamp_now: Math.floor(now.getTime() / 1000),
+      time_now: formatXtreamTime(now)
+    }
+  };
+}
+
+/**
+ * Lists the categories used by some content
+ */
+function listCategories(categories: Category[], content: { categoryId: number | null }[]) {
+  const used = new Set(content.map(item => item.categoryId));
+
+  return categories
+    .filter(category => used.has(category.id))
+    .map(category => ({
+      category_id: String(category.id),
+      category_name: category.name,
+      parent_id: 0
+    }));
+}
+
+/**
+ * Returns the movies a user may watch from an IP address
+ */
+async function getAvailableMovies(userId: number, ip: string | undefined): Promise<Movie[]> {
+  const available: Movie[] = [];
+
+  for (const movie of await storage.getMovies()) {
+    if (!hasStreamSources(movie.streamSources)) continue;
+    if (movie.isPremium && !(await hasContentEntitlement(userId, 'movie', movie.id))) continue;
+    if (!(await checkGeoAccess('movie', movie.id, ip)).allowed) continue;
+    available.push(movie);
+  }
+
+  return available;
+}
+
+/**
+ * Returns the series a user may watch from an IP address
+ */
+async function getAvailableSeries(userId: number, ip: string | undefined): Promise<Series[]> {
+  const available: Series[] = [];
+
+  for (const item of await storage.getAllSeries()) {
+    if (item.isPremium && !(await hasContentEntitlement(userId, 'series', item.id))) continue;
+    if (!(await checkGeoAccess('series', item.id, ip)).allowed) continue;
+    available.push(item);
+  }
+
+  return available;
+}
+
+/**
+ * get_live_categories, get_vod_categories and get_series_categories: the
+ * categories of the content the user may watch
+ */
+export async function getXtreamLiveCategories(userId: number, ip: string | undefined) {
+  return listCategories(await storage.getCategories(), await getPlaylistChannels(userId, ip));
+}
+
+export async function getXtreamVodCategories(userId: number, ip: string | undefined) {
+  return listCategories(await storage.getCategories(), await getAvailableMovies(userId, ip));
+}
+
+export async function getXtreamSeriesCategories(userId: number, ip: string | undefined) {
+  return listCategories(await storage.getCategories(), await getAvailableSeries(userId, ip));
+}
+
+/**
+ * get_live_streams: the user's channels, optionally of one category
+ */
+export async function getXtreamLiveStreams(userId: number, ip: string | undefined, categoryId?: number) {
+  const channels = (await getPlaylistChannels(userId, ip))
+    .filter(channel => categoryId === undefined || channel.categoryId === categoryId);
+
+  return channels.map((channel: Channel, index) => ({
+    num: index + 1,
+    name: channel.name,
+    stream_type: 'live',
+    stream_id: channel.id,
+    stream_icon: channel.logo || '',
+    epg_channel_id: getGuideChannelId(channel),
+    added: '0',
+    category_id: channel.categoryId ? String(channel.categoryId) : '',
+    custom_sid: '',
+    tv_archive: channel.catchupEnabled ? 1 : 0,
+    direct_source: '',
+    tv_archive_duration: channel.catchupEnabled ? channel.catchupDays : 0
+  }));
+}
+
+/**
+ * get_vod_streams: the user's movies, optionally of one category
+ */
+export async function getXtreamVodStreams(userId: number, ip: string | undefined, categoryId?: number) {
+  const movies = (await getAvailableMovies(userId, ip))
+    .filter(movie => categoryId === undefined || movie.categoryId === categoryId);
+
+  return movies.map((movie, index) => ({
+    num: index + 1,
+    name: movie.title,
+    stream_type: 'movie',
+    stream_id: movie.id,
+    stream_icon: movie.poster || '',
+    rating: movie.rating || '',
+    rating_5based: getRating5Based(movie.rating),
+    added: '0',
+    category_id: movie.categoryId ? String(movie.categoryId) : '',
+    container_extension: getContainerExtension(movie.streamSources),
+    custom_sid: '',
+    direct_source: ''
+  }));
+}
+
+/**
+ * get_vod_info: details of one movie
+ *
+ * @returns The details, or undefined if the user may not watch the movie
+ */
+export async function getXtreamVodInfo(userId: number, ip: string | undefined, movieId: number) {
+  const movie = (await getAvailableMovies(userId, ip)).find(movie => movie.id === movieId);
+  if (!movie) {
+    return undefined;
+  }
+
+  const category = movie.categoryId ? (await storage.getCategories()).find(c => c.id === movie.categoryId) : undefined;
+
+  return {
+    info: {
+      name: movie.title,
+      movie_image: movie.poster || '',
+      cover_big: movie.poster || '',
+      releasedate: movie.year ? String(movie.year) : '',
+      rating: movie.rating || '',
+      rating_5based: getRating5Based(movie.rating),
+      genre: category?.name || '',
+      plot: '',
+      duration_secs: (movie.duration || 0) * 60,
+      duration: formatDuration(movie.duration)
+    },
+    movie_data: {
+      stream_id: movie.id,
+      name: movie.title,
+      added: '0',
+      category_id: movie.categoryId ? String(movie.categoryId) : '',
+      container_extension: getContainerExtension(movie.streamSources),
+      custom_sid: '',
+      direct_source: ''
+    }
+  };
+}
+
+/**
+ * Details of a series shared by get_series and get_series_info
+ */
+function describeSeries(item: Series, categories: Category[]) {
+  return {
+    name: item.title,
+    cover: item.poster || '',
+    plot: '',
+    cast: '',
+    director: '',
+    genre: categories.find(category => category.id === item.categoryId)?.name || '',
+    releaseDate: item.startYear ? String(item.startYear) : '',
+    last_modified: '0',
+    rating: item.rating || '',
+    rating_5based: getRating5Based(item.rating),
+    backdrop_path: [],
+    youtube_trailer: '',
+    episode_run_time: '',
+    category_id: item.categoryId ? String(item.categoryId) : ''
+  };
+}
+
+/**
+ * get_series: the user's series, optionally of one category
+ */
+export async function getXtreamSeries(userId: number, ip: string | undefined, categoryId?: number) {
+  const categories = await storage.getCategories();
+  const series = (await getAvailableSeries(userId, ip))
+    .filter(item => categoryId === undefined || item.categoryId === categoryId);
+
+  return series.map((item, index) => ({
+    num: index + 1,
+    series_id: item.id,
+    ...describeSeries(item, categories)
+  }));
+}
+
+/**
+ * An episode as listed by get_series_info
+ */
+function describeEpisode(episode: Episode, item: Series) {
+  return {
+    id: String(episode.id),
+    episode_num: episode.episode,
+    title: episode.title,
+    container_extension: getContainerExtension(episode.streamSources),
+    info: {
+      plot: episode.description || '',
+      duration_secs: (episode.duration || 0) * 60,
+      duration: formatDuration(episode.duration),
+      movie_image: item.poster || ''
+    },
+    custom_sid: '',
+    added: '0',
+    season: episode.season,
+    direct_source: ''
+  };
+}
+
+/**
+ * get_series_info: a series with its seasons and episodes
+ *
+ * @returns The series, or undefined if the user may not watch it
+ */
+export async function getXtreamSeriesInfo(userId: number, ip: string | undefined, seriesId: number) {
+  const item = (await getAvailableSeries(userId, ip)).find(item => item.id === seriesId);
+  if (!item) {
+    return undefined;
+  }
+
+  const episodes = (await storage.getEpisodes(item.id))
+    .filter(episode => hasStreamSources(episode.streamSources))
+    .sort((a, b) => a.season - b.season || a.episode - b.episode);
+
+  const bySeason: Record<string, ReturnType<typeof describeEpisode>[]> = {};
+  for (const episode of episodes) {
+    const season = String(episode.season);
+    bySeason[season] = bySeason[season] || [];
+    bySeason[season].push(describeEpisode(episode, item));
+  }
+
+  return {
+    seasons: Object.keys(bySeason).map(season => ({
+      season_number: Number(season),
+      name: `Season ${season}`,
+      episode_count: bySeason[season].length,
+      cover: item.poster || ''
+    })),
+    info: describeSeries(item, await storage.getCategories()),
+    episodes: bySeason
+  };
+}
+
+/**
+ * A guide program in the shape of get_short_epg and get_simple_data_table
+ */
+function describeProgram(program: Program, channel: Channel) {
+  return {
+    id: String(program.id),
+    epg_id: String(program.id),
+    title: toBase64(program.title),
+    lang: '',
+    start: formatXtreamTime(program.startTime),
+    end: formatXtreamTime(program.endTime),
+    description: toBase64(program.description),
+    channel_id: getGuideChannelId(channel),
+    start_timestamp: toUnixTime(program.startTime),
+    stop_timestamp: toUnixTime(program.endTime)
+  };
+}
+
+/**
+ * Returns a channel if the user may watch it from the address (like the
+ * channels of get_live_streams), so its guide may be shown
+ */
+async function getGuideChannel(userId: number, ip: string | undefined, channelId: number): Promise<Channel | undefined> {
+  const channel = await storage.getChannel(channelId);
+  return channel && await isPlaylistChannel(userId, ip, channel) ? channel : undefined;
+}
+
+/**
+ * get_short_epg: the current and next programs of a channel
+ *
+ * @param channelId ID of the channel (the stream_id of get_live_streams)
+ * @param limit Number of programs
+ */
+export async function getXtreamShortEpg(userId: number, ip: string | undefined, channelId: number, limit = DEFAULT_SHORT_EPG_LIMIT) {
+  const channel = await getGuideChannel(userId, ip, channelId);
+  if (!channel) {
+    return { epg_listings: [] };
+  }
+
+  const now = new Date();
+  const programs = await storage.getProgramsInRange(now, new Date(now.getTime() + GUIDE_DAYS * DAY), [channelId]);
+
+  return {
+    epg_listings: programs.slice(0, limit).map(program => describeProgram(program, channel))
+  };
+}
+
+/**
+ * get_simple_data_table: the whole guide of a channel, from as far back as
+ * its catch-up archive goes, marking the program on now and those that can be
+ * watched from the archive
+ *
+ * @param channelId ID of the channel (the stream_id of get_live_streams)
+ */
+export async function getXtreamEpgTable(userId: number, ip: string | undefined, channelId: number) {
+  const channel = await getGuideChannel(userId, ip, channelId);
+  if (!channel) {
+    return { epg_listings: [] };
+  }
+
+  const now = Date.now();
+  const archiveStart = channel.catchupEnabled ? now - channel.catchupDays * DAY : now;
+  const programs = await storage.getProgramsInRange(new Date(archiveStart), new Date(now + GUIDE_DAYS * DAY), [channelId]);
+
+  return {
+    epg_listings: programs.map(program => ({
+      ...describeProgram(program, channel),
+      now_playing: program.startTime.getTime() <= now && program.endTime.getTime() > now ? 1 : 0,
+      has_archive: channel.catchupEnabled && program.endTime.getTime() <= now && program.startTime.getTime() >= archiveStart ? 1 : 0
+    }))
+  };
+}